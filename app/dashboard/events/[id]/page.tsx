@@ -11,7 +11,33 @@ import {
   collection,
   onSnapshot,
   getDocs,
+  Timestamp,
+  deleteField,
 } from "firebase/firestore";
+import {
+  lineItemKey,
+  lineItemName,
+  readOrderItems,
+  type OrderLineItem,
+} from "@/lib/orders";
+import {
+  dateToTokyoInput,
+  describeDepositRule,
+  makeTimeSlotId,
+  readDepositRule,
+  readProductLimits,
+  readTimeSlots,
+  timeSlotLabel,
+  tokyoInputToDate,
+  type DepositRule,
+  type ProductLimit,
+  type TimeSlot,
+} from "@/lib/events";
+import {
+  parsePostalPrefixes,
+  readDeliveryZones,
+  type DeliveryZone,
+} from "@/lib/delivery";
 
 type Props = {
   params: Promise<{ id: string }>;
@@ -29,13 +55,37 @@ type EventDoc = {
   pickupNote?: string;
   messengerId?: string;
   featuredProductNames?: string[];
+  /** horas antes do dia de entrega em que o cliente ainda altera/cancela pelo link */
+  customerEditCutoffHours?: number | null;
+  /** sinal antes da produção (pedidos de festa) */
+  depositRule?: DepositRule | null;
+  /** janela de pedidos (horário de Tóquio na tela) */
+  ordersOpenAt?: Timestamp | null;
+  ordersCloseAt?: Timestamp | null;
+  /** cota restante por produto neste evento (chave = id do produto) */
+  productQuotas?: Record<string, number>;
+  /** máximo por pedido / por cliente de cada produto (chave = id do produto) */
+  productLimits?: Record<string, ProductLimit>;
+  /** true = produto com cota não abate o estoque global */
+  quotaReplacesGlobalStock?: boolean;
+  /** true = página do evento mostra a validade do próximo lote de cada produto */
+  showBestBefore?: boolean;
+  /** faixas de horário por data, com limite de pedidos */
+  timeSlots?: TimeSlot[];
+  /** pedidos por faixa (mantido pelas functions) */
+  timeSlotBookings?: Record<string, number>;
+  /** zonas de entrega (vazio = usa as da vendedora; sem nenhuma, entrega sem taxa) */
+  deliveryZones?: DeliveryZone[];
+  /** ponto de retirada, origem das zonas por raio */
+  pickupLat?: number | null;
+  pickupLng?: number | null;
 };
 
 type OrderDoc = {
   id: string;
   customerName?: string;
   note?: string;
-  quantities: Record<string, number>;
+  items: OrderLineItem[];
   totalItems?: number;
   status?: string;
   channel?: "whatsapp" | "messenger";
@@ -70,6 +120,17 @@ export default function EventEditPage({ params }: Props) {
   const [pickupNote, setPickupNote] = useState("");
   const [messengerId, setMessengerId] = useState("");
 
+  // prazo para o cliente alterar/cancelar pelo link do pedido (vazio = não permite)
+  const [customerEditCutoffHours, setCustomerEditCutoffHours] = useState("");
+
+  // sinal: % do total a partir de um valor (vazio = sem sinal)
+  const [depositPercent, setDepositPercent] = useState("");
+  const [depositMinOrder, setDepositMinOrder] = useState("");
+
+  // janela de pedidos ("AAAA-MM-DDTHH:mm", horário de Tóquio; vazio = sem limite)
+  const [ordersOpenAt, setOrdersOpenAt] = useState("");
+  const [ordersCloseAt, setOrdersCloseAt] = useState("");
+
   // datas de entrega: guardamos em array, mas editamos como texto (textarea)
   const [deliveryDates, setDeliveryDates] = useState<string[]>([]);
   const [deliveryDatesText, setDeliveryDatesText] = useState("");
@@ -77,6 +138,36 @@ export default function EventEditPage({ params }: Props) {
   // produtos do evento (agora controlados por checkbox em grid)
   const [productNames, setProductNames] = useState<string[]>([]);
 
+  // cota por produto neste evento (texto do input; vazio = sem cota)
+  const [productQuotas, setProductQuotas] = useState<Record<string, string>>({});
+  const [savedQuotas, setSavedQuotas] = useState<Record<string, number>>({});
+  const [quotaReplacesGlobalStock, setQuotaReplacesGlobalStock] = useState(false);
+  const [showBestBefore, setShowBestBefore] = useState(false);
+
+  // limites de compra por produto (texto dos inputs; vazio = sem limite)
+  const [productLimits, setProductLimits] = useState<
+    Record<string, { perOrder: string; perCustomer: string }>
+  >({});
+
+  // faixas de horário (catálogo do evento)
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [slotBookings, setSlotBookings] = useState<Record<string, number>>({});
+  const [newSlotDate, setNewSlotDate] = useState("");
+  const [newSlotStart, setNewSlotStart] = useState("10:00");
+  const [newSlotEnd, setNewSlotEnd] = useState("12:00");
+  const [newSlotCapacity, setNewSlotCapacity] = useState("15");
+
+  // 🔹 zonas de entrega (CEP e/ou raio a partir do ponto de retirada)
+  const [deliveryZones, setDeliveryZones] = useState<DeliveryZone[]>([]);
+  const [pickupLat, setPickupLat] = useState("");
+  const [pickupLng, setPickupLng] = useState("");
+  const [newZoneName, setNewZoneName] = useState("");
+  const [newZonePrefixes, setNewZonePrefixes] = useState("");
+  const [newZoneRadius, setNewZoneRadius] = useState("");
+  const [newZoneFee, setNewZoneFee] = useState("300");
+  const [newZoneMin, setNewZoneMin] = useState("");
+  const [newZoneFreeAbove, setNewZoneFreeAbove] = useState("");
+
   // produtos em destaque (carrossel da landpage)
   const [featuredProductNames, setFeaturedProductNames] = useState<string[]>(
     []
@@ -129,12 +220,53 @@ export default function EventEditPage({ params }: Props) {
         setPickupLink(data.pickupLink || "");
         setPickupNote(data.pickupNote || "");
         setMessengerId(data.messengerId || "");
+        setOrdersOpenAt(dateToTokyoInput(data.ordersOpenAt?.toDate()));
+        setOrdersCloseAt(dateToTokyoInput(data.ordersCloseAt?.toDate()));
+        setCustomerEditCutoffHours(
+          typeof data.customerEditCutoffHours === "number"
+            ? String(data.customerEditCutoffHours)
+            : ""
+        );
+        const rule = readDepositRule(data.depositRule);
+        setDepositPercent(rule ? String(rule.percent) : "");
+        setDepositMinOrder(rule && rule.minOrderYen > 0 ? String(rule.minOrderYen) : "");
 
         setDeliveryDates(dDates);
         setDeliveryDatesText(dDates.join("\n"));
 
         setProductNames(pNames);
         setFeaturedProductNames(featured);
+
+        const quotas: Record<string, number> = {};
+        Object.entries(data.productQuotas || {}).forEach(([productId, q]) => {
+          if (typeof q === "number") quotas[productId] = q;
+        });
+        setSavedQuotas(quotas);
+        setProductQuotas(
+          Object.fromEntries(
+            Object.entries(quotas).map(([productId, q]) => [productId, String(q)])
+          )
+        );
+        setQuotaReplacesGlobalStock(data.quotaReplacesGlobalStock === true);
+        setShowBestBefore(data.showBestBefore === true);
+        setProductLimits(
+          Object.fromEntries(
+            Object.entries(readProductLimits(data.productLimits)).map(([productId, l]) => [
+              productId,
+              {
+                perOrder: l.perOrder === null ? "" : String(l.perOrder),
+                perCustomer: l.perCustomer === null ? "" : String(l.perCustomer),
+              },
+            ])
+          )
+        );
+
+        setTimeSlots(readTimeSlots(data.timeSlots));
+        setSlotBookings(data.timeSlotBookings || {});
+
+        setDeliveryZones(readDeliveryZones(data.deliveryZones));
+        setPickupLat(typeof data.pickupLat === "number" ? String(data.pickupLat) : "");
+        setPickupLng(typeof data.pickupLng === "number" ? String(data.pickupLng) : "");
       } catch (err) {
         console.error(err);
         setError("Erro ao carregar evento.");
@@ -195,7 +327,7 @@ export default function EventEditPage({ params }: Props) {
             id: d.id,
             customerName: data.customerName || "",
             note: data.note || "",
-            quantities: data.quantities || {},
+            items: readOrderItems(data).items,
             totalItems: data.totalItems || 0,
             status: data.status || "pending",
             channel: data.channel,
@@ -235,22 +367,128 @@ export default function EventEditPage({ params }: Props) {
     return orders.filter((o) => o.deliveryDate === filterDate);
   }, [orders, filterDate]);
 
-  // 🔹 Resumo de produção: soma quantidades por produto
+  // 🔹 Resumo de produção: soma quantidades por produto (id), com o nome atual da galeria
+  // (kits abertos nos componentes)
   const productionSummary = useMemo(() => {
-    const map: Record<string, number> = {};
+    const nameById = new Map(allProducts.map((p) => [p.id, p.name]));
+    const map: Record<string, { name: string; totalQty: number }> = {};
 
     filteredOrders.forEach((order) => {
-      Object.entries(order.quantities || {}).forEach(([name, qty]) => {
-        const q = Number(qty || 0);
-        if (!q) return;
-        map[name] = (map[name] || 0) + q;
+      order.items.forEach((it) => {
+        if (!it.qty) return;
+        // kit entra pelos componentes gravados no pedido; variantes ficam separadas
+        const lines: Array<Pick<OrderLineItem, "productId" | "name" | "qty" | "variantKey" | "variantLabel">> =
+          it.components
+            ? it.components.map((c) => ({ ...c, qty: c.qty * it.qty }))
+            : [it];
+        lines.forEach((line) => {
+          const key = lineItemKey(line);
+          const name = lineItemName({
+            name: (line.productId && nameById.get(line.productId)) || line.name,
+            variantLabel: line.variantLabel,
+          });
+          map[key] = { name, totalQty: (map[key]?.totalQty || 0) + line.qty };
+        });
       });
     });
 
     return Object.entries(map)
-      .map(([name, totalQty]) => ({ name, totalQty }))
+      .map(([key, v]) => ({ key, name: v.name, totalQty: v.totalQty }))
       .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
-  }, [filteredOrders]);
+  }, [filteredOrders, allProducts]);
+
+  // datas digitadas no textarea (antes de salvar), para montar as faixas
+  const typedDeliveryDates = deliveryDatesText
+    .split("\n")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const handleAddTimeSlot = () => {
+    setError(null);
+    const capacity = Number(newSlotCapacity);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newSlotDate)) {
+      setError("Escolha a data da faixa (formato AAAA-MM-DD).");
+      return;
+    }
+    if (!newSlotStart || !newSlotEnd || newSlotStart >= newSlotEnd) {
+      setError("O fim da faixa precisa ser depois do início.");
+      return;
+    }
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      setError("Limite de pedidos da faixa precisa ser um número maior que 0.");
+      return;
+    }
+
+    const slot: TimeSlot = {
+      id: makeTimeSlotId(newSlotDate, newSlotStart, newSlotEnd),
+      date: newSlotDate,
+      start: newSlotStart,
+      end: newSlotEnd,
+      capacity,
+    };
+    // mesma faixa de novo = atualiza o limite
+    setTimeSlots((prev) =>
+      readTimeSlots([...prev.filter((s) => s.id !== slot.id), slot])
+    );
+  };
+
+  const handleRemoveTimeSlot = (slot: TimeSlot) => {
+    const booked = slotBookings[slot.id] ?? 0;
+    if (booked > 0) {
+      const confirmed = window.confirm(
+        `A faixa ${slot.date} ${timeSlotLabel(slot)} já tem ${booked} pedido(s). Remover mesmo assim? Os pedidos continuam com o horário gravado.`
+      );
+      if (!confirmed) return;
+    }
+    setTimeSlots((prev) => prev.filter((s) => s.id !== slot.id));
+  };
+
+  const handleAddDeliveryZone = () => {
+    setError(null);
+    const postalPrefixes = parsePostalPrefixes(newZonePrefixes);
+    const radiusKm = newZoneRadius.trim() === "" ? null : Number(newZoneRadius);
+    const feeYen = Number(newZoneFee || 0);
+    const minOrderYen = Number(newZoneMin || 0);
+    const freeAboveYen = newZoneFreeAbove.trim() === "" ? null : Number(newZoneFreeAbove);
+
+    if (!newZoneName.trim()) {
+      setError("Dê um nome para a zona (ex: Hamamatsu centro).");
+      return;
+    }
+    if (postalPrefixes.length === 0 && radiusKm === null) {
+      setError("Informe os prefixos de CEP e/ou o raio da zona.");
+      return;
+    }
+    if (radiusKm !== null && (!Number.isFinite(radiusKm) || radiusKm <= 0)) {
+      setError("Raio inválido (em km, maior que 0).");
+      return;
+    }
+    if (
+      ![feeYen, minOrderYen].every((n) => Number.isInteger(n) && n >= 0) ||
+      (freeAboveYen !== null && (!Number.isInteger(freeAboveYen) || freeAboveYen <= 0))
+    ) {
+      setError("Taxa, pedido mínimo e entrega grátis precisam ser valores inteiros em ienes.");
+      return;
+    }
+
+    const zone: DeliveryZone = {
+      id: `zone_${Date.now().toString(36)}`,
+      name: newZoneName.trim(),
+      postalPrefixes,
+      radiusKm,
+      feeYen,
+      minOrderYen,
+      freeAboveYen,
+    };
+    setDeliveryZones((prev) => [...prev, zone]);
+    setNewZoneName("");
+    setNewZonePrefixes("");
+    setNewZoneRadius("");
+  };
+
+  const handleRemoveDeliveryZone = (zoneId: string) => {
+    setDeliveryZones((prev) => prev.filter((z) => z.id !== zoneId));
+  };
 
   const handleSave = async () => {
     setError(null);
@@ -270,6 +508,94 @@ export default function EventEditPage({ params }: Props) {
       return;
     }
 
+    const cutoffText = customerEditCutoffHours.trim();
+    const cutoffHours = cutoffText === "" ? null : Number(cutoffText);
+    if (cutoffHours !== null && (!Number.isFinite(cutoffHours) || cutoffHours < 0)) {
+      setError("Prazo de alteração inválido (use horas, ex: 24).");
+      return;
+    }
+
+    const percent = depositPercent.trim() === "" ? null : Number(depositPercent);
+    const minOrderYen = depositMinOrder.trim() === "" ? 0 : Number(depositMinOrder);
+    if (percent !== null && (!Number.isInteger(percent) || percent <= 0 || percent > 100)) {
+      setError("Sinal inválido (use % entre 1 e 100).");
+      return;
+    }
+    if (!Number.isFinite(minOrderYen) || minOrderYen < 0) {
+      setError("Valor mínimo do sinal inválido.");
+      return;
+    }
+
+    const openDate = ordersOpenAt ? tokyoInputToDate(ordersOpenAt) : null;
+    const closeDate = ordersCloseAt ? tokyoInputToDate(ordersCloseAt) : null;
+    if ((ordersOpenAt && !openDate) || (ordersCloseAt && !closeDate)) {
+      setError("Data de abertura/encerramento dos pedidos inválida.");
+      return;
+    }
+    if (openDate && closeDate && openDate >= closeDate) {
+      setError("O encerramento dos pedidos precisa ser depois da abertura.");
+      return;
+    }
+
+    // cotas: grava só o que mudou (campo a campo), para não sobrescrever
+    // o que os pedidos abateram enquanto a tela estava aberta
+    const quotaUpdates: Record<string, unknown> = {};
+    const nextQuotas: Record<string, number> = {};
+    const selectedIds = new Set(
+      allProducts.filter((p) => newProductNames.includes(p.name)).map((p) => p.id)
+    );
+    for (const productId of new Set([
+      ...Object.keys(savedQuotas),
+      ...Object.keys(productQuotas),
+    ])) {
+      const text = selectedIds.has(productId)
+        ? (productQuotas[productId] ?? "").trim()
+        : "";
+      const quota = text === "" ? null : Number(text);
+      if (quota !== null && (!Number.isInteger(quota) || quota < 0)) {
+        setError("Cota inválida: use um número inteiro (0 ou mais).");
+        return;
+      }
+      if (quota !== null) nextQuotas[productId] = quota;
+      if (quota === (savedQuotas[productId] ?? null)) continue;
+      quotaUpdates[`productQuotas.${productId}`] =
+        quota === null ? deleteField() : quota;
+    }
+
+    // limites: só dos produtos do evento; vazio = sem limite
+    const nextLimits: Record<string, ProductLimit> = {};
+    for (const [productId, l] of Object.entries(productLimits)) {
+      if (!selectedIds.has(productId)) continue;
+      const perOrder = l.perOrder.trim() === "" ? null : Number(l.perOrder);
+      const perCustomer = l.perCustomer.trim() === "" ? null : Number(l.perCustomer);
+      if (
+        [perOrder, perCustomer].some((v) => v !== null && (!Number.isInteger(v) || v <= 0))
+      ) {
+        setError("Limite inválido: use um número inteiro maior que 0.");
+        return;
+      }
+      if (perOrder !== null || perCustomer !== null) {
+        nextLimits[productId] = { perOrder, perCustomer };
+      }
+    }
+
+    const latText = pickupLat.trim();
+    const lngText = pickupLng.trim();
+    const lat = latText === "" ? null : Number(latText);
+    const lng = lngText === "" ? null : Number(lngText);
+    if (
+      (lat === null) !== (lng === null) ||
+      (lat !== null && (!Number.isFinite(lat) || Math.abs(lat) > 90)) ||
+      (lng !== null && (!Number.isFinite(lng) || Math.abs(lng) > 180))
+    ) {
+      setError("Coordenadas do ponto de retirada inválidas (preencha latitude e longitude).");
+      return;
+    }
+    if (deliveryZones.some((z) => z.radiusKm !== null) && lat === null) {
+      setError("Zonas por raio precisam das coordenadas do ponto de retirada.");
+      return;
+    }
+
     // destaques podem ser qualquer produto da galeria
     const cleanedFeatured = featuredProductNames.filter(Boolean);
 
@@ -292,13 +618,26 @@ export default function EventEditPage({ params }: Props) {
         pickupLink: pickupLink.trim(),
         pickupNote: pickupNote.trim(),
         messengerId: messengerId.trim(),
+        customerEditCutoffHours: cutoffHours,
+        depositRule: percent !== null ? { percent, minOrderYen: Math.round(minOrderYen) } : null,
+        ordersOpenAt: openDate ? Timestamp.fromDate(openDate) : null,
+        ordersCloseAt: closeDate ? Timestamp.fromDate(closeDate) : null,
         deliveryDates: newDeliveryDates,
         deliveryDateLabel,
         productNames: newProductNames,
         featuredProductNames: cleanedFeatured,
+        quotaReplacesGlobalStock,
+        showBestBefore,
+        productLimits: nextLimits,
+        timeSlots,
+        deliveryZones,
+        pickupLat: lat,
+        pickupLng: lng,
+        ...quotaUpdates,
         updatedAt: serverTimestamp(),
       });
 
+      setSavedQuotas(nextQuotas);
       setDeliveryDates(newDeliveryDates);
       setProductNames(newProductNames);
       setFeaturedProductNames(cleanedFeatured);
@@ -312,6 +651,11 @@ export default function EventEditPage({ params }: Props) {
     }
   };
 
+  const depositPreview = readDepositRule({
+    percent: Number(depositPercent),
+    minOrderYen: Number(depositMinOrder),
+  });
+
   if (loading) {
     return (
       <main className="space-y-2">
@@ -437,6 +781,77 @@ export default function EventEditPage({ params }: Props) {
               placeholder="Ex: Entrega no intervalo das 15h, portaria principal..."
             />
           </div>
+
+          <div className="space-y-1">
+            <label className="text-xs block">
+              Cliente pode alterar/cancelar até (horas antes do dia de entrega)
+            </label>
+            <input
+              type="number"
+              min={0}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              value={customerEditCutoffHours}
+              onChange={(e) => setCustomerEditCutoffHours(e.target.value)}
+              placeholder="Ex: 24 (vazio = só a vendedora altera)"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs block">
+              Sinal antes da produção (% do total, a partir de ¥)
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                max={100}
+                className="w-24 border rounded-md px-3 py-2 text-sm"
+                value={depositPercent}
+                onChange={(e) => setDepositPercent(e.target.value)}
+                placeholder="30"
+              />
+              <input
+                type="number"
+                min={0}
+                className="flex-1 border rounded-md px-3 py-2 text-sm"
+                value={depositMinOrder}
+                onChange={(e) => setDepositMinOrder(e.target.value)}
+                placeholder="10000 (vazio = todos os pedidos)"
+              />
+            </div>
+            <p className="text-[11px] text-neutral-500">
+              {depositPreview
+                ? `${describeDepositRule(depositPreview)}. O pedido fica “Aguardando sinal” até o pagamento.`
+                : "Vazio = sem sinal."}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs block">
+              Pedidos abrem em (horário do Japão, opcional)
+            </label>
+            <input
+              type="datetime-local"
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              value={ordersOpenAt}
+              onChange={(e) => setOrdersOpenAt(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs block">
+              Pedidos encerram em (horário do Japão, opcional)
+            </label>
+            <input
+              type="datetime-local"
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              value={ordersCloseAt}
+              onChange={(e) => setOrdersCloseAt(e.target.value)}
+            />
+            <p className="text-[11px] text-neutral-500">
+              Depois da última data de entrega o evento é encerrado automaticamente.
+            </p>
+          </div>
         </div>
 
         {/* DATAS */}
@@ -455,6 +870,232 @@ export default function EventEditPage({ params }: Props) {
           </p>
         </div>
 
+        {/* FAIXAS DE HORÁRIO */}
+        <div className="space-y-2 border rounded-md p-3 bg-neutral-50">
+          <h3 className="text-xs font-semibold">
+            Faixas de horário (opcional)
+          </h3>
+          <p className="text-[11px] text-neutral-500">
+            Em datas com faixas, o cliente só escolhe entre as faixas com vaga.
+            Datas sem faixas continuam com horário livre.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Data</span>
+              <select
+                className="border rounded-md px-2 py-1 text-xs bg-white"
+                value={newSlotDate}
+                onChange={(e) => setNewSlotDate(e.target.value)}
+              >
+                <option value="">Selecione...</option>
+                {typedDeliveryDates.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Início</span>
+              <input
+                type="time"
+                className="border rounded-md px-2 py-1 text-xs"
+                value={newSlotStart}
+                onChange={(e) => setNewSlotStart(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Fim</span>
+              <input
+                type="time"
+                className="border rounded-md px-2 py-1 text-xs"
+                value={newSlotEnd}
+                onChange={(e) => setNewSlotEnd(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Máx. pedidos</span>
+              <input
+                type="number"
+                min={1}
+                className="w-20 border rounded-md px-2 py-1 text-xs"
+                value={newSlotCapacity}
+                onChange={(e) => setNewSlotCapacity(e.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleAddTimeSlot}
+              className="rounded-md border px-3 py-1 text-xs hover:bg-neutral-100"
+            >
+              Adicionar faixa
+            </button>
+          </div>
+
+          {timeSlots.length > 0 && (
+            <ul className="space-y-1">
+              {timeSlots.map((slot) => (
+                <li
+                  key={slot.id}
+                  className="flex items-center justify-between gap-2 text-xs bg-white border rounded-md px-2 py-1"
+                >
+                  <span>
+                    {slot.date} · {timeSlotLabel(slot)} ·{" "}
+                    {slotBookings[slot.id] ?? 0}/{slot.capacity} pedidos
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveTimeSlot(slot)}
+                    className="text-[11px] text-red-600 hover:underline"
+                  >
+                    Remover
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* ZONAS DE ENTREGA */}
+        <div className="space-y-2 border rounded-md p-3 bg-neutral-50">
+          <h3 className="text-xs font-semibold">
+            Zonas de entrega (opcional)
+          </h3>
+          <p className="text-[11px] text-neutral-500">
+            Com zonas cadastradas, a entrega só é aceita para endereços dentro
+            delas (pelo CEP ou pela distância até o ponto de retirada), com a
+            taxa e o pedido mínimo da zona. Sem zonas aqui, valem as da
+            vendedora.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Ponto de retirada – latitude</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                className="w-32 border rounded-md px-2 py-1 text-xs"
+                value={pickupLat}
+                onChange={(e) => setPickupLat(e.target.value)}
+                placeholder="34.7108"
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Longitude</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                className="w-32 border rounded-md px-2 py-1 text-xs"
+                value={pickupLng}
+                onChange={(e) => setPickupLng(e.target.value)}
+                placeholder="137.7261"
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Nome</span>
+              <input
+                type="text"
+                className="w-36 border rounded-md px-2 py-1 text-xs"
+                value={newZoneName}
+                onChange={(e) => setNewZoneName(e.target.value)}
+                placeholder="Ex: Centro"
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Prefixos de CEP</span>
+              <input
+                type="text"
+                className="w-36 border rounded-md px-2 py-1 text-xs"
+                value={newZonePrefixes}
+                onChange={(e) => setNewZonePrefixes(e.target.value)}
+                placeholder="430, 431"
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Raio (km)</span>
+              <input
+                type="number"
+                min={0}
+                step="0.1"
+                className="w-20 border rounded-md px-2 py-1 text-xs"
+                value={newZoneRadius}
+                onChange={(e) => setNewZoneRadius(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Taxa (¥)</span>
+              <input
+                type="number"
+                min={0}
+                className="w-20 border rounded-md px-2 py-1 text-xs"
+                value={newZoneFee}
+                onChange={(e) => setNewZoneFee(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Pedido mín. (¥)</span>
+              <input
+                type="number"
+                min={0}
+                className="w-24 border rounded-md px-2 py-1 text-xs"
+                value={newZoneMin}
+                onChange={(e) => setNewZoneMin(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1 text-[11px]">
+              <span className="block">Grátis a partir de (¥)</span>
+              <input
+                type="number"
+                min={0}
+                className="w-24 border rounded-md px-2 py-1 text-xs"
+                value={newZoneFreeAbove}
+                onChange={(e) => setNewZoneFreeAbove(e.target.value)}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleAddDeliveryZone}
+              className="rounded-md border px-3 py-1 text-xs hover:bg-neutral-100"
+            >
+              Adicionar zona
+            </button>
+          </div>
+
+          {deliveryZones.length > 0 && (
+            <ul className="space-y-1">
+              {deliveryZones.map((zone) => (
+                <li
+                  key={zone.id}
+                  className="flex items-center justify-between gap-2 text-xs bg-white border rounded-md px-2 py-1"
+                >
+                  <span>
+                    <b>{zone.name}</b>
+                    {zone.postalPrefixes.length > 0 &&
+                      ` · CEP ${zone.postalPrefixes.join(", ")}`}
+                    {zone.radiusKm !== null && ` · até ${zone.radiusKm} km`}
+                    {` · taxa ¥${zone.feeYen.toLocaleString("ja-JP")}`}
+                    {zone.minOrderYen > 0 &&
+                      ` · mín. ¥${zone.minOrderYen.toLocaleString("ja-JP")}`}
+                    {zone.freeAboveYen !== null &&
+                      ` · grátis a partir de ¥${zone.freeAboveYen.toLocaleString("ja-JP")}`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveDeliveryZone(zone.id)}
+                    className="text-[11px] text-red-600 hover:underline"
+                  >
+                    Remover
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         {/* PRODUTOS DO EVENTO – GRID */}
         <div className="space-y-2">
           <label className="text-xs block">
@@ -474,8 +1115,31 @@ export default function EventEditPage({ params }: Props) {
           ) : (
             <>
               <p className="text-[11px] text-neutral-500">
-                Marque os produtos que irão participar deste evento.
+                Marque os produtos que irão participar deste evento. A{" "}
+                <strong>cota</strong> (opcional) é quanto ainda pode ser
+                vendido neste evento; cada pedido abate dela. Os limites
+                (opcionais) são o máximo <strong>por pedido</strong> e{" "}
+                <strong>por cliente</strong> (somando os pedidos, pelo telefone
+                ou, sem ele, pelo nome).
               </p>
+              <label className="flex items-center gap-2 text-[11px] text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={quotaReplacesGlobalStock}
+                  onChange={(e) => setQuotaReplacesGlobalStock(e.target.checked)}
+                />
+                Produtos com cota não abatem o estoque geral (a cota já é o
+                estoque reservado para este evento)
+              </label>
+              <label className="flex items-center gap-2 text-[11px] text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={showBestBefore}
+                  onChange={(e) => setShowBestBefore(e.target.checked)}
+                />
+                Mostrar a validade dos congelados na página do evento (lote
+                que sai primeiro)
+              </label>
               <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
                 {allProducts.map((prod) => {
                   const checked = productNames.includes(prod.name);
@@ -522,6 +1186,48 @@ export default function EventEditPage({ params }: Props) {
                             </p>
                           )}
                       </div>
+                      {checked && (
+                        <input
+                          type="number"
+                          min={0}
+                          className="w-16 border rounded-md px-1 py-0.5 text-[11px]"
+                          value={productQuotas[prod.id] ?? ""}
+                          onChange={(e) =>
+                            setProductQuotas((prev) => ({
+                              ...prev,
+                              [prod.id]: e.target.value,
+                            }))
+                          }
+                          placeholder="Cota"
+                          title="Cota restante neste evento (vazio = sem cota)"
+                        />
+                      )}
+                      {checked &&
+                        (["perOrder", "perCustomer"] as const).map((field) => (
+                          <input
+                            key={field}
+                            type="number"
+                            min={1}
+                            className="w-16 border rounded-md px-1 py-0.5 text-[11px]"
+                            value={productLimits[prod.id]?.[field] ?? ""}
+                            onChange={(e) =>
+                              setProductLimits((prev) => ({
+                                ...prev,
+                                [prod.id]: {
+                                  perOrder: prev[prod.id]?.perOrder ?? "",
+                                  perCustomer: prev[prod.id]?.perCustomer ?? "",
+                                  [field]: e.target.value,
+                                },
+                              }))
+                            }
+                            placeholder={field === "perOrder" ? "Máx/ped." : "Máx/cli."}
+                            title={
+                              field === "perOrder"
+                                ? "Máximo por pedido (vazio = sem limite)"
+                                : "Máximo por cliente no evento, somando os pedidos (vazio = sem limite)"
+                            }
+                          />
+                        ))}
                     </label>
                   );
                 })}
@@ -651,7 +1357,7 @@ export default function EventEditPage({ params }: Props) {
               </thead>
               <tbody>
                 {productionSummary.map((item) => (
-                  <tr key={item.name} className="odd:bg-white even:bg-neutral-50">
+                  <tr key={item.key} className="odd:bg-white even:bg-neutral-50">
                     <td className="px-3 py-2 border-b border-neutral-100">
                       {item.name}
                     </td>
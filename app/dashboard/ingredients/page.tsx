@@ -0,0 +1,620 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth, db } from "@/lib/firebase";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import {
+  isOrderStatus,
+  readBundleComponents,
+  readOrderItems,
+  type OrderStatus,
+} from "@/lib/orders";
+import {
+  buildShoppingList,
+  formatIngredientQty,
+  INGREDIENT_UNIT_LABELS,
+  ingredientNeeds,
+  readIngredient,
+  readRecipe,
+  type Ingredient,
+  type IngredientUnit,
+  type RecipeLine,
+  type ShoppingRow,
+} from "@/lib/recipes";
+import { syncProductCosts } from "@/lib/costs";
+
+type Option = { id: string; name: string };
+
+type CatalogProduct = {
+  id: string;
+  name: string;
+  bundleItems: { productId: string; qty: number }[];
+  recipe: RecipeLine[];
+};
+
+/** Demanda confirmada: pedidos aceitos que ainda não foram produzidos */
+const CONFIRMED_STATUSES: OrderStatus[] = ["confirmed", "preparing"];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function IngredientsPage() {
+  const router = useRouter();
+
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(true);
+
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [events, setEvents] = useState<Option[]>([]);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+
+  // Form (ingrediente)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState<IngredientUnit>("g");
+  const [stockQty, setStockQty] = useState("");
+  const [packSize, setPackSize] = useState("");
+  const [packPrice, setPackPrice] = useState("");
+
+  // Lista de compras
+  const [eventId, setEventId] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [includePending, setIncludePending] = useState(false);
+  const [shoppingList, setShoppingList] = useState<ShoppingRow[] | null>(null);
+  const [withoutRecipe, setWithoutRecipe] = useState<string[]>([]);
+  const [ordersCounted, setOrdersCounted] = useState(0);
+  const [generating, setGenerating] = useState(false);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setUser(u);
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  // 🔁 INGREDIENTES + eventos e produtos (receitas) para a lista de compras
+  useEffect(() => {
+    if (!user) return;
+
+    const loadOptions = async () => {
+      try {
+        const [eventsSnap, productsSnap] = await Promise.all([
+          getDocs(collection(db, "events")),
+          getDocs(collection(db, "products")),
+        ]);
+        setEvents(
+          eventsSnap.docs
+            .map((d) => ({ id: d.id, name: String(d.data().title || d.id) }))
+            .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"))
+        );
+        setProducts(
+          productsSnap.docs.map((d) => {
+            const data = d.data();
+            return {
+              id: d.id,
+              name: String(data.name || d.id),
+              bundleItems:
+                data.type === "bundle" ? readBundleComponents(data.bundleItems) : [],
+              recipe: readRecipe(data.recipe),
+            };
+          })
+        );
+      } catch (err) {
+        console.error(err);
+        setError("Erro ao carregar eventos/produtos.");
+      }
+    };
+    void loadOptions();
+
+    return onSnapshot(collection(db, "ingredients"), (snap) => {
+      setIngredients(
+        snap.docs
+          .map((d) => readIngredient(d.id, d.data()))
+          .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"))
+      );
+    });
+  }, [user]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setUnit("g");
+    setStockQty("");
+    setPackSize("");
+    setPackPrice("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSuccessMessage(null);
+
+    const stock = stockQty.trim() === "" ? 0 : Number(stockQty.replace(",", "."));
+    const pack = packSize.trim() === "" ? null : Number(packSize.replace(",", "."));
+    const packPriceYen = packPrice.trim() === "" ? null : Number(packPrice.replace(",", "."));
+    if (!name.trim()) return setError("Nome do ingrediente é obrigatório.");
+    if (!Number.isFinite(stock) || stock < 0) return setError("Estoque inválido.");
+    if (pack !== null && (!Number.isFinite(pack) || pack <= 0)) {
+      return setError("Tamanho da embalagem inválido.");
+    }
+    if (packPriceYen !== null && (!Number.isFinite(packPriceYen) || packPriceYen < 0)) {
+      return setError("Preço inválido.");
+    }
+    if (
+      ingredients.some(
+        (ing) =>
+          ing.name.toLowerCase() === name.trim().toLowerCase() && ing.id !== editingId
+      )
+    ) {
+      return setError("Já existe um ingrediente com esse nome.");
+    }
+
+    const payload = {
+      name: name.trim(),
+      unit,
+      stockQty: stock,
+      packSize: pack,
+      packPriceYen,
+      updatedAt: serverTimestamp(),
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await updateDoc(doc(db, "ingredients", editingId), payload);
+      } else {
+        await addDoc(collection(db, "ingredients"), {
+          ...payload,
+          sellerId: user?.uid ?? null,
+          createdAt: serverTimestamp(),
+        });
+      }
+      // preço novo muda o custo dos produtos que usam o ingrediente
+      if (user) await syncProductCosts(user.uid);
+      resetForm();
+      setSuccessMessage("Ingrediente salvo!");
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao salvar ingrediente.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (ing: Ingredient) => {
+    setEditingId(ing.id);
+    setName(ing.name);
+    setUnit(ing.unit);
+    setStockQty(String(ing.stockQty));
+    setPackSize(ing.packSize !== null ? String(ing.packSize) : "");
+    setPackPrice(ing.packPriceYen !== null ? String(ing.packPriceYen) : "");
+    setError(null);
+    setSuccessMessage(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleDelete = async (ing: Ingredient) => {
+    if (!confirm(`Excluir "${ing.name}"? Receitas que usam o ingrediente deixam de contá-lo.`)) {
+      return;
+    }
+    await deleteDoc(doc(db, "ingredients", ing.id));
+    if (user) await syncProductCosts(user.uid);
+  };
+
+  /**
+   * Soma a demanda dos pedidos confirmados (kits pelos componentes) e converte
+   * pelas receitas. Pedidos sem data definida só entram sem filtro de data.
+   */
+  const handleGenerate = async () => {
+    setError(null);
+    if (dateFrom && dateTo && dateFrom > dateTo) {
+      return setError("Data inicial depois da final.");
+    }
+
+    setGenerating(true);
+    try {
+      const statuses = includePending
+        ? [...CONFIRMED_STATUSES, "pending" as const]
+        : CONFIRMED_STATUSES;
+      const eventIds = eventId ? [eventId] : events.map((ev) => ev.id);
+      const snaps = await Promise.all(
+        eventIds.map((id) => getDocs(collection(db, "events", id, "orders")))
+      );
+
+      const productById = new Map(products.map((p) => [p.id, p]));
+      const demand = new Map<string, number>();
+      let counted = 0;
+      snaps
+        .flatMap((snap) => snap.docs.map((d) => d.data()))
+        .forEach((data) => {
+          const status = isOrderStatus(data.status) ? data.status : "pending";
+          if (!statuses.includes(status)) return;
+          const date = String(data.deliveryDate || "");
+          if ((dateFrom || dateTo) && !DATE_RE.test(date)) return;
+          if (dateFrom && date < dateFrom) return;
+          if (dateTo && date > dateTo) return;
+
+          counted += 1;
+          readOrderItems(data).items.forEach((it) => {
+            if (!it.productId) return;
+            const components =
+              it.components ?? productById.get(it.productId)?.bundleItems ?? [];
+            if (components.length > 0) {
+              components.forEach((c) =>
+                demand.set(c.productId, (demand.get(c.productId) ?? 0) + c.qty * it.qty)
+              );
+            } else {
+              demand.set(it.productId, (demand.get(it.productId) ?? 0) + it.qty);
+            }
+          });
+        });
+
+      const recipeByProduct = new Map(products.map((p) => [p.id, p.recipe]));
+      const needs = ingredientNeeds(
+        Array.from(demand, ([productId, qty]) => ({ productId, qty })),
+        recipeByProduct
+      );
+      setShoppingList(buildShoppingList(needs, ingredients));
+      setWithoutRecipe(
+        Array.from(demand.keys())
+          .filter((pid) => (recipeByProduct.get(pid) ?? []).length === 0)
+          .map((pid) => productById.get(pid)?.name ?? pid)
+          .sort((a, b) => a.localeCompare(b, "pt-BR"))
+      );
+      setOrdersCounted(counted);
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao gerar lista de compras.");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCopyList = async () => {
+    if (!shoppingList) return;
+    const lines = shoppingList
+      .filter((row) => row.toBuy > 0)
+      .map(
+        (row) =>
+          `- ${row.ingredient.name}: ${formatIngredientQty(row.toBuy, row.ingredient.unit)}` +
+          (row.packs !== null ? ` (${row.packs} emb.)` : "")
+      );
+    try {
+      await navigator.clipboard.writeText(["Lista de compras", ...lines].join("\n"));
+      setSuccessMessage("Lista copiada!");
+    } catch {
+      setError("Não foi possível copiar a lista.");
+    }
+  };
+
+  if (checkingAuth) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="space-y-8">
+      {/* TOPO */}
+      <header className="flex justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Ingredientes e compras</h1>
+          <p className="text-xs text-neutral-600">
+            A receita de cada produto (em Produtos) diz quanto de cada
+            ingrediente vai em 1 unidade. A lista de compras soma os pedidos
+            confirmados e desconta o estoque de ingredientes.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+          >
+            Voltar
+          </button>
+        </div>
+      </header>
+
+      {/* FORM */}
+      <section className="bg-white p-5 rounded-2xl border shadow-sm space-y-4">
+        <h2 className="font-semibold text-sm">
+          {editingId ? "Editar ingrediente" : "Novo ingrediente"}
+        </h2>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="text-xs">Nome</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              placeholder="Ex: Frango desfiado"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Unidade</label>
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as IngredientUnit)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              {(Object.keys(INGREDIENT_UNIT_LABELS) as IngredientUnit[]).map((u) => (
+                <option key={u} value={u}>
+                  {INGREDIENT_UNIT_LABELS[u]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-xs">Estoque atual ({unit})</label>
+            <input
+              type="number"
+              min={0}
+              value={stockQty}
+              onChange={(e) => setStockQty(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Embalagem de compra ({unit}, opcional)</label>
+            <input
+              type="number"
+              min={0}
+              value={packSize}
+              onChange={(e) => setPackSize(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              placeholder="Ex: 1000"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">
+              Preço (¥) {packSize.trim() ? "da embalagem" : `por 1 ${unit}`} (opcional)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={packPrice}
+              onChange={(e) => setPackPrice(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              placeholder={packSize.trim() ? "Ex: 980" : "Ex: 2"}
+            />
+            <p className="mt-1 text-[11px] text-neutral-500">
+              Usado no custo dos produtos que calculam pela receita.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={saving}
+            className="bg-black text-white text-xs px-4 py-2 rounded-full disabled:opacity-60"
+          >
+            {saving ? "Salvando..." : "Salvar ingrediente"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-xs px-4 py-2 rounded-full border"
+            >
+              Cancelar edição
+            </button>
+          )}
+        </div>
+      </section>
+
+      {/* ESTOQUE DE INGREDIENTES */}
+      <section className="space-y-2">
+        <h2 className="font-semibold text-sm">Estoque de ingredientes</h2>
+        {ingredients.length === 0 ? (
+          <p className="text-xs text-neutral-500">Nenhum ingrediente cadastrado.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border bg-white">
+            <table className="w-full text-xs">
+              <thead className="bg-neutral-50 text-left text-neutral-600">
+                <tr>
+                  <th className="px-3 py-2">Ingrediente</th>
+                  <th className="px-3 py-2 text-right">Estoque</th>
+                  <th className="px-3 py-2 text-right">Embalagem</th>
+                  <th className="px-3 py-2 text-right">Preço</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {ingredients.map((ing) => (
+                  <tr key={ing.id}>
+                    <td className="px-3 py-2 font-semibold">{ing.name}</td>
+                    <td className="px-3 py-2 text-right">
+                      {formatIngredientQty(ing.stockQty, ing.unit)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {ing.packSize !== null ? formatIngredientQty(ing.packSize, ing.unit) : "—"}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {ing.packPriceYen !== null
+                        ? `¥${ing.packPriceYen.toLocaleString("ja-JP")}${
+                            ing.packSize !== null ? "" : ` / ${ing.unit}`
+                          }`
+                        : "—"}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(ing)}
+                        className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+                      >
+                        Editar
+                      </button>{" "}
+                      <button
+                        type="button"
+                        onClick={() => void handleDelete(ing)}
+                        className="rounded-full border border-red-300 px-3 py-1 text-red-600 hover:bg-red-50"
+                      >
+                        Excluir
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* LISTA DE COMPRAS */}
+      <section className="bg-white p-5 rounded-2xl border shadow-sm space-y-4">
+        <h2 className="font-semibold text-sm">Lista de compras</h2>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <label className="text-xs">Evento</label>
+            <select
+              value={eventId}
+              onChange={(e) => setEventId(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Todos os eventos</option>
+              {events.map((ev) => (
+                <option key={ev.id} value={ev.id}>
+                  {ev.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs">Entrega de</label>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-xs">até</label>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-neutral-700">
+          <input
+            type="checkbox"
+            checked={includePending}
+            onChange={(e) => setIncludePending(e.target.checked)}
+          />
+          Incluir pedidos pendentes (ainda não confirmados)
+        </label>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {successMessage && <p className="text-xs text-green-700">{successMessage}</p>}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void handleGenerate()}
+            disabled={generating}
+            className="bg-black text-white text-xs px-4 py-2 rounded-full disabled:opacity-60"
+          >
+            {generating ? "Calculando..." : "Gerar lista"}
+          </button>
+          {shoppingList && shoppingList.some((row) => row.toBuy > 0) && (
+            <button
+              type="button"
+              onClick={() => void handleCopyList()}
+              className="text-xs px-4 py-2 rounded-full border"
+            >
+              Copiar lista
+            </button>
+          )}
+        </div>
+
+        {shoppingList && (
+          <div className="space-y-2 text-xs">
+            <p className="text-neutral-600">
+              Pedidos considerados: <strong>{ordersCounted}</strong>
+            </p>
+            {withoutRecipe.length > 0 && (
+              <p className="text-amber-700">
+                Sem receita (não entram na lista): {withoutRecipe.join(", ")}
+              </p>
+            )}
+            {shoppingList.length === 0 ? (
+              <p className="text-neutral-500">Nada a calcular com esses filtros.</p>
+            ) : (
+              <div className="overflow-x-auto rounded-xl border">
+                <table className="w-full">
+                  <thead className="bg-neutral-50 text-left text-neutral-600">
+                    <tr>
+                      <th className="px-3 py-2">Ingrediente</th>
+                      <th className="px-3 py-2 text-right">Precisa</th>
+                      <th className="px-3 py-2 text-right">Em estoque</th>
+                      <th className="px-3 py-2 text-right">Comprar</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {shoppingList.map((row) => (
+                      <tr key={row.ingredient.id}>
+                        <td className="px-3 py-2">{row.ingredient.name}</td>
+                        <td className="px-3 py-2 text-right">
+                          {formatIngredientQty(row.needed, row.ingredient.unit)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatIngredientQty(row.onHand, row.ingredient.unit)}
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right font-semibold ${
+                            row.toBuy > 0 ? "text-red-600" : "text-green-700"
+                          }`}
+                        >
+                          {row.toBuy > 0
+                            ? formatIngredientQty(row.toBuy, row.ingredient.unit)
+                            : "ok"}
+                          {row.packs !== null && ` (${row.packs} emb.)`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -2,13 +2,17 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import type React from "react";
+import Link from "next/link";
 import { db } from "@/lib/firebase";
 import {
   addDoc,
   collection,
+  collectionGroup,
   deleteDoc,
   doc,
+  getDoc,
   getDocs,
+  onSnapshot,
   orderBy,
   query,
   serverTimestamp,
@@ -16,6 +20,67 @@ import {
   updateDoc,
   type DocumentData,
 } from "firebase/firestore";
+import {
+  buildCatalogByName,
+  countItems,
+  lineItemKey,
+  lineItemName,
+  readBundleComponents,
+  readOrderCancellations,
+  readOrderItems,
+  readOrderPricing,
+  sumLineTotals,
+  totalAfterCancel,
+  allowedNextStatuses,
+  isOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  type BundleComponent,
+  type CatalogByName,
+  type OrderCancellation,
+  type OrderDiscount,
+  type OrderLineItem,
+  type OrderStatus,
+} from "@/lib/orders";
+import { readPromotion, type Promotion } from "@/lib/promotions";
+import { callSellerFunction } from "@/lib/functions";
+import { applyPriceTiers, readPriceTiers, type PriceTier } from "@/lib/pricing";
+import { changeStock } from "@/lib/stock";
+import {
+  daysUntil,
+  EXPIRY_WARNING_DAYS,
+  formatLotDate,
+  readStockLots,
+  type StockLot,
+} from "@/lib/lots";
+import {
+  formatMarginPercent,
+  marginPercent,
+  netLineRevenues,
+  type MarginRow,
+} from "@/lib/costs";
+import {
+  computeTaxBreakdown,
+  INVOICE_NUMBER_RE,
+  normalizeInvoiceNumber,
+  readTaxRate,
+  type TaxBreakdownLine,
+  type TaxRate,
+} from "@/lib/tax";
+import {
+  isFullyPaid,
+  orderBalanceYen,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  paymentsRef,
+  readOrderPayment,
+  readPaidYen,
+  readPaymentMethod,
+  recordPayment,
+  type OrderPayment,
+  type PaymentKind,
+  type PaymentMethod,
+} from "@/lib/payments";
 
 /* ------------------ TIPOS ------------------ */
 
@@ -31,11 +96,16 @@ type CategoryType =
 type EventStatus = "active" | "closed" | "cancelled";
 type ProductStatus = "active" | "inactive";
 type DeliveryMode = "delivery" | "pickup" | "none";
-type OrderStatus = "pending" | "confirmed" | "delivered" | "cancelled";
 type OrderChannel = "whatsapp" | "messenger" | "other";
-type PaymentMethod = "cash" | "paypay" | "card" | "other";
 
 type DashboardTab = "overview" | "products" | "events" | "orders";
+type MarginGroup = "product" | "event" | "seller";
+
+const MARGIN_GROUP_LABELS: Record<MarginGroup, string> = {
+  product: "Produto",
+  event: "Evento",
+  seller: "Vendedor",
+};
 
 /** ✅ NOVO: vendedor */
 interface FirestoreSeller {
@@ -44,6 +114,8 @@ interface FirestoreSeller {
   messengerId?: string;
   pickupLink?: string;
   defaultPickupNote?: string;
+  /** nº de registro de emissor qualificado (T + 13 dígitos), vai no recibo */
+  invoiceNumber?: string;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -61,6 +133,18 @@ interface FirestoreProduct {
   stockQty?: number;
   lowStockThreshold?: number;
 
+  /** kit: vende como um item e abate o estoque dos componentes (editado em /products) */
+  type?: "simple" | "bundle";
+  bundleItems?: BundleComponent[];
+  /** preço por quantidade (atacado); abaixo da primeira faixa vale `price` */
+  priceTiers?: PriceTier[];
+  /** lotes de produção com validade (congelados), mais antigo primeiro */
+  lots?: StockLot[];
+  /** custo unitário calculado em /products (lib/costs.ts) */
+  unitCostYen?: number;
+  /** consumo do produto (8% comida / 10%) */
+  taxRate?: TaxRate;
+
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -94,7 +178,7 @@ interface EventWithId extends FirestoreEvent {
 interface FirestoreOrder {
   customerName: string;
   note?: string | null;
-  quantities: Record<string, number>;
+  items: OrderLineItem[];
   totalItems: number;
   status: OrderStatus;
   channel?: OrderChannel;
@@ -103,10 +187,36 @@ interface FirestoreOrder {
   deliveryTimeSlot?: string | null;
   locationLink?: string | null;
 
+  /** valores do servidor (createEventOrder); amountYen = total final */
+  subtotalYen?: number;
+  discounts?: OrderDiscount[];
+  discountYen?: number;
+  deliveryFeeYen?: number;
+  /** código promocional digitado pelo cliente (automáticas ficam só em discounts) */
+  promoCode?: string | null;
+  /** total e imposto por alíquota (lib/tax.ts) */
+  taxBreakdown?: TaxBreakdownLine[];
+
   amountYen?: number | null;
   paid?: boolean;
   paidAt?: Timestamp | null;
   paymentMethod?: PaymentMethod | null;
+  /** resumo dos pagamentos (events/{id}/orders/{orderId}/payments; ver lib/payments.ts) */
+  paidYen?: number;
+  /** sinal exigido pela regra do evento (0 = sem sinal) */
+  depositYen?: number;
+  refundedYen?: number;
+  paymentMethods?: PaymentMethod[];
+
+  /** cancelamento parcial (cancelOrderItems): total antes do primeiro e quanto saiu */
+  originalAmountYen?: number | null;
+  cancelledYen?: number;
+  cancellations?: OrderCancellation[];
+  /** acerto do entregador (lib/settlements.ts): pedido travado */
+  settlementId?: string | null;
+
+  /** link secreto do cliente (/pedido/[token]) */
+  trackingToken?: string | null;
 
   createdAt?: Timestamp | null;
   updatedAt?: Timestamp | null;
@@ -119,13 +229,28 @@ interface OrderWithMeta extends FirestoreOrder {
   /** ✅ NOVO: pra filtrar caixa por vendedor */
   sellerId: string;
   sellerNameSnapshot?: string;
+
+  /** pedido antigo (quantities por nome): itens montados com o preço atual do catálogo */
+  legacyItems: boolean;
 }
 
 /** Estrutura usada apenas no formulário de edição de pedido */
 interface OrderItemEdit {
   key: string;
+  productId: string;
   name: string;
   qty: string;
+  /** preço congelado do pedido; null = usar o preço atual do catálogo */
+  unitPriceYen: number | null;
+  /** variante do pedido; some ao trocar o produto */
+  variantKey?: string;
+  variantLabel?: string;
+  /** faixas de preço por quantidade do pedido (ou do catálogo, em itens novos) */
+  basePriceYen?: number;
+  priceTiers?: PriceTier[];
+  /** custo e consumo congelados do pedido (item novo usa os do catálogo) */
+  unitCostYen?: number;
+  taxRate?: TaxRate;
 }
 
 /* ------------------ HELPERS ------------------ */
@@ -171,6 +296,31 @@ const toCsv = (rows: string[][]) => {
   return rows.map((r) => r.map(esc).join(",")).join("\n");
 };
 
+const formatItemsLabel = (items: OrderLineItem[]) =>
+  items.map((it) => `${lineItemName(it)} x${it.qty} @${it.unitPriceYen}`).join(" | ");
+
+/** Pedido com sinal exigido e ainda não pago (lib/events.ts) */
+const hasUnpaidDeposit = (o: OrderWithMeta) => (o.depositYen ?? 0) > (o.paidYen ?? 0);
+
+/** Linhas que dá para cancelar (só itens do catálogo), somadas por produto/variante */
+const cancellableLines = (o: OrderWithMeta) => {
+  const byKey = new Map<string, { key: string; productId: string; variantKey?: string; label: string; qty: number }>();
+  o.items.forEach((it) => {
+    if (!it.productId) return;
+    const key = lineItemKey(it);
+    const line = byKey.get(key) ?? {
+      key,
+      productId: it.productId,
+      variantKey: it.variantKey,
+      label: lineItemName(it),
+      qty: 0,
+    };
+    line.qty += it.qty;
+    byKey.set(key, line);
+  });
+  return Array.from(byKey.values());
+};
+
 const isTestOrder = (o: OrderWithMeta) => {
   const name = (o.customerName || "").toLowerCase();
   const note = (o.note || "").toLowerCase();
@@ -191,6 +341,8 @@ export default function DashboardPage() {
   const [loadingOrders, setLoadingOrders] = useState(false);
 
   const [products, setProducts] = useState<ProductWithId[]>([]);
+  // 🔹 "hoje" dos alertas de validade (fixado ao abrir o painel)
+  const [openedAtMs] = useState(() => Date.now());
   const [events, setEvents] = useState<EventWithId[]>([]);
   const [orders, setOrders] = useState<OrderWithMeta[]>([]);
   const [sellers, setSellers] = useState<SellerWithId[]>([]); // ✅ NOVO
@@ -234,6 +386,7 @@ export default function DashboardPage() {
   const [searchOrders, setSearchOrders] = useState("");
 
   const [filterSellerId, setFilterSellerId] = useState<string>(""); // ✅ NOVO
+  const [marginGroup, setMarginGroup] = useState<MarginGroup>("product");
 
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
@@ -252,12 +405,42 @@ export default function DashboardPage() {
   const [orderLocationLink, setOrderLocationLink] = useState("");
   const [orderItems, setOrderItems] = useState<OrderItemEdit[]>([]);
 
-  const [orderPaid, setOrderPaid] = useState(false); // ✅ NOVO
-  const [orderPaymentMethod, setOrderPaymentMethod] = useState<PaymentMethod>("cash"); // ✅ NOVO
-
-  /* ---------- CONTROLE PRODUÇÃO (local) ---------- */
+  /* ---------- PAGAMENTOS DO PEDIDO ---------- */
+  const [paymentOrder, setPaymentOrder] = useState<OrderWithMeta | null>(null);
+  const [orderPayments, setOrderPayments] = useState<OrderPayment[]>([]);
+  const [paymentKind, setPaymentKind] = useState<PaymentKind>("payment");
+  const [paymentMethodInput, setPaymentMethodInput] = useState<PaymentMethod>("cash");
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentTendered, setPaymentTendered] = useState("");
+  const [paymentReceivedBy, setPaymentReceivedBy] = useState("");
+  const [paymentNote, setPaymentNote] = useState("");
+  const [savingPayment, setSavingPayment] = useState(false);
+
+  /* ---------- CANCELAMENTO PARCIAL (chave = lineItemKey) ---------- */
+  const [cancelOrder, setCancelOrder] = useState<OrderWithMeta | null>(null);
+  const [cancelQty, setCancelQty] = useState<Record<string, string>>({});
+  const [cancelRestock, setCancelRestock] = useState<Record<string, boolean>>({});
+  const [cancelReason, setCancelReason] = useState("");
+  // vazio = devolve o que o cliente pagou a mais
+  const [cancelRefund, setCancelRefund] = useState("");
+  const [cancelRefundMethod, setCancelRefundMethod] = useState<PaymentMethod>("cash");
+  const [savingCancel, setSavingCancel] = useState(false);
+  // promoções do pedido: o desconto é recalculado com os itens que sobram
+  const [cancelPromotions, setCancelPromotions] = useState<Map<string, Promotion>>(new Map());
+
+  /* ---------- CONTROLE PRODUÇÃO (local, chave = lineItemKey) ---------- */
+  // pedido com sinal ainda não pago não entra na produção (desmarcar para ver tudo)
+  const [excludeUnpaidDeposits, setExcludeUnpaidDeposits] = useState(true);
   const [preparedMap, setPreparedMap] = useState<Record<string, number>>({});
 
+  const [migratingOrders, setMigratingOrders] = useState(false);
+  const [invoiceDrafts, setInvoiceDrafts] = useState<Record<string, string>>({});
+
+  /* ---------- LINK DO ENTREGADOR (/entregas?driver=...) ---------- */
+  const [driverLinkName, setDriverLinkName] = useState("");
+  const [driverLinkUrl, setDriverLinkUrl] = useState<string | null>(null);
+  const [creatingDriverLink, setCreatingDriverLink] = useState(false);
+
   /* ---------- REFS ---------- */
   const productNameInputRef = useRef<HTMLInputElement | null>(null);
   const orderCustomerInputRef = useRef<HTMLInputElement | null>(null);
@@ -272,8 +455,12 @@ export default function DashboardPage() {
     setLoading(true);
     setErrorMessage(null);
     try {
-      await Promise.all([loadProducts(), loadSellers(), loadEvents()]);
-      await loadOrders();
+      const [loadedProducts] = await Promise.all([
+        loadProducts(),
+        loadSellers(),
+        loadEvents(),
+      ]);
+      await loadOrders(loadedProducts);
     } catch (error) {
       console.error(error);
       setErrorMessage("Erro ao carregar dados do painel.");
@@ -296,6 +483,7 @@ export default function DashboardPage() {
         messengerId: data.messengerId,
         pickupLink: data.pickupLink,
         defaultPickupNote: data.defaultPickupNote,
+        invoiceNumber: data.invoiceNumber ?? undefined,
         createdAt: data.createdAt,
         updatedAt: data.updatedAt,
       };
@@ -333,6 +521,12 @@ export default function DashboardPage() {
         status,
         stockQty: rawStock ?? undefined,
         lowStockThreshold: data.lowStockThreshold,
+        type: data.type === "bundle" ? "bundle" : "simple",
+        bundleItems: readBundleComponents(data.bundleItems),
+        priceTiers: readPriceTiers(data.priceTiers),
+        lots: readStockLots(data.lots),
+        unitCostYen: typeof data.unitCostYen === "number" ? data.unitCostYen : undefined,
+        taxRate: readTaxRate(data.taxRate),
         createdAt: data.createdAt,
         updatedAt: data.updatedAt,
       };
@@ -340,6 +534,7 @@ export default function DashboardPage() {
 
     loaded.sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
     setProducts(loaded);
+    return loaded;
   };
 
   const loadEvents = async () => {
@@ -401,20 +596,14 @@ export default function DashboardPage() {
     return loaded;
   };
 
-  /** ✅ Calcula valor do pedido pelo catálogo (fallback) */
-  const calcOrderAmountYen = (quantities: Record<string, number>) => {
-    const priceMap = new Map(products.map((p) => [p.name, p.price]));
-    let total = 0;
-    Object.entries(quantities || {}).forEach(([name, qty]) => {
-      const price = priceMap.get(name) ?? 0;
-      total += price * qty;
-    });
-    return total;
-  };
+  /** ✅ Valor do pedido = soma dos itens (preço congelado na criação; faixas pela quantidade) */
+  const calcOrderAmountYen = (items: OrderLineItem[]) =>
+    sumLineTotals(applyPriceTiers(items));
 
-  const loadOrders = async () => {
+  const loadOrders = async (catalogProducts: ProductWithId[] = products) => {
     setLoadingOrders(true);
     try {
+      const catalog: CatalogByName = buildCatalogByName(catalogProducts);
       const eventsToUse = events.length ? events : await fetchEventsOnce();
       const allOrders: OrderWithMeta[] = [];
 
@@ -435,27 +624,48 @@ export default function DashboardPage() {
 
               const paidAt = data.paidAt instanceof Timestamp ? data.paidAt : null;
 
-              const quantities: Record<string, number> = data.quantities ?? {};
-              const fallbackAmount = calcOrderAmountYen(quantities);
-              const amountYen =
-                typeof data.amountYen === "number" ? data.amountYen : fallbackAmount;
+              const { items, legacy } = readOrderItems(data, catalog);
+              const pricing = readOrderPricing(data, items);
 
               const orderData: FirestoreOrder = {
                 customerName: data.customerName,
                 note: data.note ?? null,
-                quantities,
-                totalItems: data.totalItems ?? 0,
-                status: data.status ?? "pending",
+                items,
+                totalItems: data.totalItems ?? countItems(items),
+                status: isOrderStatus(data.status) ? data.status : "pending",
                 channel: data.channel ?? "whatsapp",
                 deliveryDate: data.deliveryDate ?? null,
                 deliveryMode: data.deliveryMode ?? "pickup",
                 deliveryTimeSlot: data.deliveryTimeSlot ?? null,
                 locationLink: data.locationLink ?? null,
 
-                amountYen,
-                paid: Boolean(data.paid),
+                subtotalYen: pricing.subtotalYen,
+                discounts: pricing.discounts,
+                discountYen: pricing.discountYen,
+                deliveryFeeYen: pricing.deliveryFeeYen,
+                promoCode: data.promoCode ?? null,
+                amountYen: pricing.totalYen,
+                depositYen: pricing.depositYen,
+                // "pago" segue o total atual (edição muda o total, não o paidYen)
+                paid: isFullyPaid(
+                  pricing.totalYen,
+                  readPaidYen({ ...data, amountYen: pricing.totalYen })
+                ),
                 paidAt,
-                paymentMethod: (data.paymentMethod as PaymentMethod) ?? null,
+                paymentMethod: data.paymentMethod ? readPaymentMethod(data.paymentMethod) : null,
+                paidYen: readPaidYen({ ...data, amountYen: pricing.totalYen }),
+                refundedYen: Number(data.refundedYen) || 0,
+                paymentMethods: Array.isArray(data.paymentMethods)
+                  ? data.paymentMethods.map(readPaymentMethod)
+                  : data.paymentMethod
+                  ? [readPaymentMethod(data.paymentMethod)]
+                  : [],
+                originalAmountYen:
+                  typeof data.originalAmountYen === "number" ? data.originalAmountYen : null,
+                cancelledYen: Number(data.cancelledYen) || 0,
+                cancellations: readOrderCancellations(data.cancellations),
+                settlementId: data.settlementId ?? null,
+                trackingToken: data.trackingToken ?? null,
 
                 createdAt,
                 updatedAt,
@@ -467,6 +677,7 @@ export default function DashboardPage() {
                 eventTitle: ev.title,
                 sellerId: ev.sellerId,
                 sellerNameSnapshot: ev.sellerNameSnapshot,
+                legacyItems: legacy,
                 ...orderData,
               };
             });
@@ -495,8 +706,10 @@ export default function DashboardPage() {
       total: orders.length,
       pendentes: orders.filter((o) => o.status === "pending").length,
       confirmados: orders.filter((o) => o.status === "confirmed").length,
+      emPreparo: orders.filter((o) => o.status === "preparing" || o.status === "ready").length,
       entregues: orders.filter((o) => o.status === "delivered").length,
       cancelados: orders.filter((o) => o.status === "cancelled").length,
+      naoCompareceu: orders.filter((o) => o.status === "no_show").length,
     };
   }, [orders]);
 
@@ -538,7 +751,7 @@ export default function DashboardPage() {
           o.deliveryTimeSlot ?? "",
           o.deliveryMode ?? "",
           o.channel ?? "",
-          Object.keys(o.quantities || {}).join(" "),
+          o.items.map(lineItemName).join(" "),
         ]
           .join(" ")
           .toLowerCase();
@@ -550,26 +763,173 @@ export default function DashboardPage() {
 
   /** ✅ Caixa: vendido / recebido / a receber */
   const cashflowSummary = useMemo(() => {
-    const totalSold = filteredOrders.reduce((acc, o) => acc + (o.amountYen ?? 0), 0);
-    const totalReceived = filteredOrders
-      .filter((o) => o.paid)
-      .reduce((acc, o) => acc + (o.amountYen ?? 0), 0);
-    const totalToReceive = Math.max(totalSold - totalReceived, 0);
+    // cancelados já devolveram o estoque: não entram no caixa
+    const valid = filteredOrders.filter((o) => o.status !== "cancelled");
+    const totalSold = valid.reduce((acc, o) => acc + (o.amountYen ?? 0), 0);
+    // recebido = soma dos pagamentos (menos devoluções), inclusive parciais
+    const totalReceived = valid.reduce((acc, o) => acc + (o.paidYen ?? 0), 0);
+    const totalToReceive = valid.reduce(
+      (acc, o) => acc + Math.max(orderBalanceYen(o.amountYen ?? 0, o.paidYen ?? 0), 0),
+      0
+    );
 
-    return { totalSold, totalReceived, totalToReceive };
+    // cancelado inteiro conta o total; parcial conta só o que saiu do pedido
+    const totalCancelled = filteredOrders.reduce(
+      (acc, o) =>
+        acc +
+        (o.status === "cancelled"
+          ? o.originalAmountYen ?? o.amountYen ?? 0
+          : o.cancelledYen ?? 0),
+      0
+    );
+    const totalRefunded = filteredOrders.reduce((acc, o) => acc + (o.refundedYen ?? 0), 0);
+    // a devolver: pago a mais nos pedidos válidos + o que ainda está pago nos cancelados
+    const totalToRefund = filteredOrders.reduce(
+      (acc, o) =>
+        acc +
+        (o.status === "cancelled"
+          ? Math.max(o.paidYen ?? 0, 0)
+          : Math.max(-orderBalanceYen(o.amountYen ?? 0, o.paidYen ?? 0), 0)),
+      0
+    );
+
+    return { totalSold, totalReceived, totalToReceive, totalCancelled, totalRefunded, totalToRefund };
   }, [filteredOrders]);
 
+  /**
+   * Margem bruta pelo custo congelado em cada item (desconto do pedido rateado).
+   * Itens sem custo ficam fora da margem e aparecem à parte.
+   */
+  const marginSummary = useMemo(() => {
+    const nameById = new Map(products.map((p) => [p.id, p.name]));
+    const sellerNameById = new Map(sellers.map((s) => [s.id, s.name]));
+    const groups = {
+      product: new Map<string, MarginRow>(),
+      event: new Map<string, MarginRow>(),
+      seller: new Map<string, MarginRow>(),
+    };
+    const add = (
+      map: Map<string, MarginRow>,
+      key: string,
+      label: string,
+      revenueYen: number,
+      costYen: number | null
+    ) => {
+      const row = map.get(key) ?? {
+        key,
+        label,
+        revenueYen: 0,
+        costYen: 0,
+        marginYen: 0,
+        uncostedRevenueYen: 0,
+      };
+      if (costYen === null) {
+        row.uncostedRevenueYen += revenueYen;
+      } else {
+        row.revenueYen += revenueYen;
+        row.costYen += costYen;
+        row.marginYen = row.revenueYen - row.costYen;
+      }
+      map.set(key, row);
+    };
+
+    filteredOrders.forEach((order) => {
+      if (order.status === "cancelled") return;
+      const revenues = netLineRevenues(order.items, order.discountYen ?? 0);
+      const sellerLabel =
+        sellerNameById.get(order.sellerId) ?? order.sellerNameSnapshot ?? "—";
+      order.items.forEach((it, index) => {
+        const revenueYen = revenues[index];
+        const costYen = it.unitCostYen !== undefined ? it.unitCostYen * it.qty : null;
+        add(
+          groups.product,
+          it.productId ?? `name:${it.name}`,
+          (it.productId && nameById.get(it.productId)) || it.name,
+          revenueYen,
+          costYen
+        );
+        add(groups.event, order.eventId, order.eventTitle, revenueYen, costYen);
+        add(groups.seller, order.sellerId || "—", sellerLabel, revenueYen, costYen);
+      });
+    });
+
+    const sorted = (map: Map<string, MarginRow>) =>
+      Array.from(map.values()).sort(
+        (a, b) => b.marginYen - a.marginYen || b.uncostedRevenueYen - a.uncostedRevenueYen
+      );
+    const all = sorted(groups.product);
+    const total = all.reduce(
+      (acc, r) => ({
+        revenueYen: acc.revenueYen + r.revenueYen,
+        costYen: acc.costYen + r.costYen,
+        marginYen: acc.marginYen + r.marginYen,
+        uncostedRevenueYen: acc.uncostedRevenueYen + r.uncostedRevenueYen,
+      }),
+      { revenueYen: 0, costYen: 0, marginYen: 0, uncostedRevenueYen: 0 }
+    );
+
+    return {
+      total,
+      rows: {
+        product: all,
+        event: sorted(groups.event),
+        seller: sorted(groups.seller),
+      },
+    };
+  }, [filteredOrders, products, sellers]);
+
+  /**
+   * Produção agrupada por produto (id), com o nome atual do catálogo.
+   * Kits entram pelos componentes (a composição gravada no pedido; sem ela, a do catálogo).
+   */
   const demandByProduct = useMemo(() => {
-    const map = new Map<string, number>();
+    const nameById = new Map(products.map((p) => [p.id, p.name]));
+    const bundleById = new Map(
+      products
+        .filter((p) => p.type === "bundle" && (p.bundleItems ?? []).length > 0)
+        .map((p) => [p.id, p.bundleItems ?? []])
+    );
+    const map = new Map<string, { name: string; total: number }>();
+    const add = (
+      it: Pick<OrderLineItem, "productId" | "name" | "variantKey" | "variantLabel">,
+      qty: number
+    ) => {
+      const key = lineItemKey(it);
+      const name = lineItemName({
+        name: (it.productId && nameById.get(it.productId)) || it.name,
+        variantLabel: it.variantLabel,
+      });
+      const prev = map.get(key);
+      map.set(key, { name, total: (prev?.total ?? 0) + qty });
+    };
     filteredOrders.forEach((order) => {
-      Object.entries(order.quantities || {}).forEach(([name, qty]) => {
-        map.set(name, (map.get(name) ?? 0) + qty);
+      if (order.status === "cancelled") return;
+      if (excludeUnpaidDeposits && hasUnpaidDeposit(order)) return;
+      order.items.forEach((it) => {
+        const components =
+          it.components ?? (it.productId ? bundleById.get(it.productId) : undefined);
+        if (components && components.length > 0) {
+          components.forEach((c) => add(c, c.qty * it.qty));
+        } else {
+          add(it, it.qty);
+        }
       });
     });
     return Array.from(map.entries())
-      .map(([name, total]) => ({ name, total }))
+      .map(([key, v]) => ({ key, name: v.name, total: v.total }))
       .sort((a, b) => b.total - a.total);
-  }, [filteredOrders]);
+  }, [filteredOrders, products, excludeUnpaidDeposits]);
+
+  const unpaidDepositCount = useMemo(
+    () =>
+      filteredOrders.filter((o) => o.status !== "cancelled" && hasUnpaidDeposit(o)).length,
+    [filteredOrders]
+  );
+
+  const legacyOrdersCount = useMemo(
+    () => orders.filter((o) => o.legacyItems).length,
+    [orders]
+  );
 
   const lowStockProducts = useMemo(() => {
     return products.filter((p) => {
@@ -586,6 +946,16 @@ export default function DashboardPage() {
     });
   }, [products]);
 
+  // 🔹 lotes vencidos ou vencendo em até EXPIRY_WARNING_DAYS dias (mais urgente primeiro)
+  const expiringLots = useMemo(() => {
+    return products
+      .flatMap((p) =>
+        (p.lots ?? []).map((lot) => ({ product: p, lot, days: daysUntil(lot.bestBefore, openedAtMs) }))
+      )
+      .filter((l) => l.days <= EXPIRY_WARNING_DAYS)
+      .sort((a, b) => a.days - b.days);
+  }, [products, openedAtMs]);
+
   /* ---------- SELEÇÃO (PEDIDOS) ---------- */
 
   const toggleOrderSelection = (orderId: string) => {
@@ -677,17 +1047,23 @@ export default function DashboardPage() {
       status: finalStatus,
       updatedAt: serverTimestamp() as unknown as Timestamp,
       ...(editingProductId ? {} : { createdAt: serverTimestamp() as unknown as Timestamp }),
-      ...(stockNumber !== null ? { stockQty: stockNumber } : {}),
       ...(lowThresholdNumber !== null ? { lowStockThreshold: lowThresholdNumber } : {}),
     };
 
     try {
-      if (editingProductId) {
-        const ref = doc(db, "products", editingProductId);
+      let productId = editingProductId;
+      if (productId) {
+        const ref = doc(db, "products", productId);
         await updateDoc(ref, payload as DocumentData);
       } else {
         const ref = collection(db, "products");
-        await addDoc(ref, payload as DocumentData);
+        productId = (await addDoc(ref, payload as DocumentData)).id;
+      }
+      // 🔹 estoque digitado = recontagem (registra o movimento com a diferença)
+      if (stockNumber !== null) {
+        await changeStock(productId, [
+          { type: "adjustment", countedQty: stockNumber, note: "Formulário do produto" },
+        ]);
       }
 
       await loadProducts();
@@ -839,41 +1215,217 @@ export default function DashboardPage() {
 
   /* ---------- CRUD: PEDIDOS ---------- */
 
+  /** Status muda só pelo servidor: valida a transição e devolve o estoque ao cancelar */
+  const requestOrderStatus = (order: OrderWithMeta, newStatus: OrderStatus) =>
+    callSellerFunction(process.env.NEXT_PUBLIC_UPDATE_ORDER_STATUS_URL || "", {
+      eventId: order.eventId,
+      orderId: order.id,
+      status: newStatus,
+    });
+
   const handleChangeOrderStatus = async (order: OrderWithMeta, newStatus: OrderStatus) => {
+    if (newStatus === order.status) return;
+    if (newStatus === "cancelled") {
+      const confirmed = window.confirm(
+        `Cancelar o pedido de ${order.customerName}? Os itens voltam para o estoque e o pedido não pode ser reaberto.`
+      );
+      if (!confirmed) return;
+    }
+
     try {
-      const ref = doc(db, "events", order.eventId, "orders", order.id);
-      await updateDoc(ref, { status: newStatus, updatedAt: serverTimestamp() } as DocumentData);
+      await requestOrderStatus(order, newStatus);
+      if (newStatus === "cancelled") await loadProducts();
       await loadOrders();
-    } catch (error) {
+      // cancelado com pagamento: abre a devolução já preenchida
+      if (newStatus === "cancelled" && (order.paidYen ?? 0) > 0) {
+        openPayments(order);
+        setPaymentKind("refund");
+        setPaymentAmount(String(order.paidYen ?? 0));
+        setPaymentNote("Pedido cancelado");
+      }
+    } catch (error: any) {
       console.error(error);
-      setErrorMessage(
-        "Erro ao atualizar status do pedido. Verifique as regras do Firestore (permissão)."
-      );
+      setErrorMessage(error?.message || "Erro ao atualizar status do pedido.");
     }
   };
 
-  /** ✅ NOVO: marcar pago/não pago (e congelar amountYen se não existir) */
-  const handleTogglePaid = async (order: OrderWithMeta, paid: boolean) => {
-    try {
-      const ref = doc(db, "events", order.eventId, "orders", order.id);
+  /* ---------- PAGAMENTOS ---------- */
+
+  const openPayments = (order: OrderWithMeta) => {
+    setPaymentOrder(order);
+    setOrderPayments([]);
+    setPaymentKind("payment");
+    setPaymentMethodInput("cash");
+    // sinal pendente: sugere só o que falta do sinal
+    setPaymentAmount(
+      String(
+        hasUnpaidDeposit(order)
+          ? (order.depositYen ?? 0) - (order.paidYen ?? 0)
+          : Math.max(orderBalanceYen(order.amountYen ?? 0, order.paidYen ?? 0), 0)
+      )
+    );
+    setPaymentTendered("");
+    setPaymentReceivedBy("");
+    setPaymentNote(hasUnpaidDeposit(order) ? "Sinal" : "");
+  };
+
+  // histórico do pedido aberto no painel de pagamentos
+  useEffect(() => {
+    if (!paymentOrder) return;
+    const q = query(paymentsRef(paymentOrder.eventId, paymentOrder.id), orderBy("createdAt", "desc"));
+    return onSnapshot(q, (snap) => {
+      setOrderPayments(snap.docs.map((d) => readOrderPayment(d.id, d.data())));
+    });
+  }, [paymentOrder]);
+
+  const handleRecordPayment = async () => {
+    if (!paymentOrder) return;
+    setErrorMessage(null);
 
-      const amountYen =
-        typeof order.amountYen === "number" ? order.amountYen : calcOrderAmountYen(order.quantities || {});
+    const amountYen = Number(paymentAmount.replace(",", "."));
+    const tenderedYen = paymentTendered.trim() ? Number(paymentTendered.replace(",", ".")) : null;
 
-      await updateDoc(
-        ref,
+    setSavingPayment(true);
+    try {
+      const { paidYen, depositPaid } = await recordPayment(
+        paymentOrder.eventId,
+        paymentOrder.id,
         {
-          paid,
-          paidAt: paid ? serverTimestamp() : null,
+          kind: paymentKind,
+          method: paymentMethodInput,
           amountYen,
-          updatedAt: serverTimestamp(),
-        } as DocumentData
+          tenderedYen: paymentKind === "payment" && paymentMethodInput === "cash" ? tenderedYen : null,
+          receivedBy: paymentReceivedBy,
+          note: paymentNote,
+        },
+        paymentOrder.amountYen ?? calcOrderAmountYen(paymentOrder.items)
       );
-
+      let next: OrderWithMeta = { ...paymentOrder, paidYen };
+      // sinal pago: a confirmação passa pelo servidor (transição + histórico)
+      if (depositPaid) {
+        try {
+          await requestOrderStatus(paymentOrder, "confirmed");
+          next = { ...next, status: "confirmed" };
+        } catch (error: any) {
+          console.error(error);
+          setErrorMessage(
+            `Pagamento registrado, mas o pedido não foi confirmado: ${error?.message || "erro"}.`
+          );
+        }
+      }
+      setPaymentOrder(next);
+      setPaymentAmount(
+        String(Math.max(orderBalanceYen(next.amountYen ?? 0, paidYen), 0))
+      );
+      setPaymentTendered("");
+      setPaymentNote("");
       await loadOrders();
+    } catch (error: any) {
+      console.error(error);
+      setErrorMessage(error?.message || "Erro ao registrar pagamento.");
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  /* ---------- CANCELAMENTO PARCIAL ---------- */
+
+  const openCancelItems = (order: OrderWithMeta) => {
+    setCancelOrder(order);
+    setCancelQty({});
+    // entregue já saiu da cozinha: por padrão não volta ao estoque
+    setCancelRestock(
+      Object.fromEntries(
+        cancellableLines(order).map((line) => [line.key, order.status !== "delivered"])
+      )
+    );
+    setCancelReason("");
+    setCancelRefund("");
+    setCancelRefundMethod(order.paymentMethods?.[0] ?? "cash");
+    setCancelPromotions(new Map());
+    void loadCancelPromotions(order);
+  };
+
+  const loadCancelPromotions = async (order: OrderWithMeta) => {
+    const ids = Array.from(
+      new Set((order.discounts ?? []).flatMap((d) => (d.promotionId ? [d.promotionId] : [])))
+    );
+    try {
+      const snaps = await Promise.all(ids.map((pid) => getDoc(doc(db, "promotions", pid))));
+      setCancelPromotions(
+        new Map(
+          snaps
+            .filter((snap) => snap.exists())
+            .map((snap) => [snap.id, readPromotion(snap.id, snap.data())])
+        )
+      );
     } catch (error) {
       console.error(error);
-      setErrorMessage("Erro ao atualizar pago/não pago. Verifique as regras do Firestore.");
+    }
+  };
+
+  const parsedCancelQty = (order: OrderWithMeta) =>
+    Object.fromEntries(
+      cancellableLines(order).map((line) => [
+        line.key,
+        Math.min(Math.max(Math.floor(Number(cancelQty[line.key]) || 0), 0), line.qty),
+      ])
+    );
+
+  /** Devolução sugerida: o que o cliente pagou além do total novo */
+  const suggestedRefundYen = (order: OrderWithMeta) =>
+    Math.max(
+      (order.paidYen ?? 0) - totalAfterCancel(order, parsedCancelQty(order), cancelPromotions),
+      0
+    );
+
+  const handleCancelItems = async () => {
+    if (!cancelOrder) return;
+    setErrorMessage(null);
+
+    const qtyByKey = parsedCancelQty(cancelOrder);
+    const lines = cancellableLines(cancelOrder)
+      .filter((line) => qtyByKey[line.key] > 0)
+      .map((line) => ({
+        productId: line.productId,
+        ...(line.variantKey ? { variantKey: line.variantKey } : {}),
+        qty: qtyByKey[line.key],
+        restock: cancelRestock[line.key] ?? true,
+      }));
+    if (lines.length === 0) {
+      setErrorMessage("Informe quantas unidades cancelar.");
+      return;
+    }
+
+    const refundYen = cancelRefund.trim()
+      ? Number(cancelRefund.replace(",", "."))
+      : suggestedRefundYen(cancelOrder);
+    if (!Number.isInteger(refundYen) || refundYen < 0) {
+      setErrorMessage("Valor de devolução inválido.");
+      return;
+    }
+    if (refundYen > (cancelOrder.paidYen ?? 0)) {
+      setErrorMessage("Devolução maior que o valor já pago.");
+      return;
+    }
+
+    setSavingCancel(true);
+    try {
+      await callSellerFunction(process.env.NEXT_PUBLIC_CANCEL_ORDER_ITEMS_URL || "", {
+        eventId: cancelOrder.eventId,
+        orderId: cancelOrder.id,
+        lines,
+        reason: cancelReason.trim(),
+        ...(refundYen > 0 ? { refund: { amountYen: refundYen, method: cancelRefundMethod } } : {}),
+      });
+      setCancelOrder(null);
+      await loadProducts();
+      await loadOrders();
+    } catch (error: any) {
+      console.error(error);
+      setErrorMessage(error?.message || "Erro ao cancelar itens do pedido.");
+    } finally {
+      setSavingCancel(false);
     }
   };
 
@@ -922,25 +1474,30 @@ export default function DashboardPage() {
     if (selected.length === 0) return;
 
     const confirmed = window.confirm(
-      `Marcar ${selected.length} pedido(s) selecionado(s) como "${newStatus}"?`
+      `Marcar ${selected.length} pedido(s) selecionado(s) como "${ORDER_STATUS_LABELS[newStatus]}"?`
     );
     if (!confirmed) return;
 
-    try {
-      await Promise.all(
-        selected.map((o) =>
-          updateDoc(
-            doc(db, "events", o.eventId, "orders", o.id),
-            { status: newStatus, updatedAt: serverTimestamp() } as DocumentData
-          )
-        )
+    // um por vez: cada pedido passa pela validação de transição no servidor
+    const failed: string[] = [];
+    for (const o of selected) {
+      if (o.status === newStatus) continue;
+      try {
+        await requestOrderStatus(o, newStatus);
+      } catch (error: any) {
+        console.error(error);
+        failed.push(`${o.customerName}: ${error?.message || "erro"}`);
+      }
+    }
+
+    await loadOrders();
+    setSelectedOrderIds([]);
+    setSelectionMode(false);
+
+    if (failed.length > 0) {
+      setErrorMessage(
+        `Não foi possível atualizar ${failed.length} pedido(s): ${failed.join(" | ")}`
       );
-      await loadOrders();
-      setSelectedOrderIds([]);
-      setSelectionMode(false);
-    } catch (error) {
-      console.error(error);
-      setErrorMessage("Erro ao atualizar pedidos em lote. Verifique as regras do Firestore.");
     }
   };
 
@@ -956,8 +1513,6 @@ export default function DashboardPage() {
     setOrderDeliveryModeEdit("pickup");
     setOrderLocationLink("");
     setOrderItems([]);
-    setOrderPaid(false);
-    setOrderPaymentMethod("cash");
   };
 
   const startEditOrder = (order: OrderWithMeta) => {
@@ -970,25 +1525,31 @@ export default function DashboardPage() {
     setOrderDeliveryModeEdit(order.deliveryMode ?? "pickup");
     setOrderLocationLink(order.locationLink || "");
 
-    setOrderPaid(Boolean(order.paid));
-    setOrderPaymentMethod((order.paymentMethod as PaymentMethod) ?? "cash");
-
-    const items: OrderItemEdit[] = Object.entries(order.quantities || {}).map(
-      ([name, qty], index) => ({
-        key: `item-${order.id}-${index}`,
-        name,
-        qty: String(qty),
-      })
+    // pedidos antigos não têm preço congelado: ao salvar, usam o preço atual
+    const items: OrderItemEdit[] = order.items.map((it, index) => ({
+      key: `item-${order.id}-${index}`,
+      productId: it.productId ?? "",
+      name: it.name,
+      qty: String(it.qty),
+      unitPriceYen: order.legacyItems ? null : it.unitPriceYen,
+      ...(it.variantKey ? { variantKey: it.variantKey, variantLabel: it.variantLabel } : {}),
+      ...(it.priceTiers ? { basePriceYen: it.basePriceYen, priceTiers: it.priceTiers } : {}),
+      ...(it.unitCostYen !== undefined ? { unitCostYen: it.unitCostYen } : {}),
+      ...(it.taxRate ? { taxRate: it.taxRate } : {}),
+    }));
+
+    setOrderItems(
+      items.length
+        ? items
+        : [{ key: "item-new-0", productId: "", name: "", qty: "", unitPriceYen: null }]
     );
-
-    setOrderItems(items.length ? items : [{ key: "item-new-0", name: "", qty: "" }]);
     setActiveTab("orders");
   };
 
   const addOrderItemRow = () => {
     setOrderItems((prev) => [
       ...prev,
-      { key: `item-new-${Date.now()}`, name: "", qty: "" },
+      { key: `item-new-${Date.now()}`, productId: "", name: "", qty: "", unitPriceYen: null },
     ]);
   };
 
@@ -996,9 +1557,32 @@ export default function DashboardPage() {
     setOrderItems((prev) => prev.filter((item) => item.key !== key));
   };
 
-  const handleOrderItemChange = (key: string, field: "name" | "qty", value: string) => {
+  const handleOrderItemQtyChange = (key: string, value: string) => {
+    setOrderItems((prev) =>
+      prev.map((item) => (item.key === key ? { ...item, qty: value } : item))
+    );
+  };
+
+  /** trocar o produto descarta o preço congelado (passa a valer o do catálogo) */
+  const handleOrderItemProductChange = (key: string, productId: string) => {
+    const product = products.find((p) => p.id === productId);
     setOrderItems((prev) =>
-      prev.map((item) => (item.key === key ? { ...item, [field]: value } : item))
+      prev.map((item) =>
+        item.key === key
+          ? {
+              ...item,
+              productId,
+              name: product?.name ?? "",
+              unitPriceYen: null,
+              variantKey: undefined,
+              variantLabel: undefined,
+              basePriceYen: undefined,
+              priceTiers: undefined,
+              unitCostYen: undefined,
+              taxRate: undefined,
+            }
+          : item
+      )
     );
   };
 
@@ -1014,26 +1598,79 @@ export default function DashboardPage() {
       setErrorMessage("Nome do cliente é obrigatório.");
       return;
     }
+    if (orders.find((o) => o.id === editingOrderId)?.settlementId) {
+      setErrorMessage("Pedido já acertado com o entregador: não dá mais para alterar.");
+      return;
+    }
 
-    const quantities: Record<string, number> = {};
-    let totalItems = 0;
+    const items: OrderLineItem[] = [];
 
     orderItems.forEach((item) => {
-      const name = item.name.trim();
       const qtyNum = Number((item.qty || "0").replace(",", "."));
-
-      if (!name) return;
       if (Number.isNaN(qtyNum) || qtyNum <= 0) return;
 
-      const existing = quantities[name] ?? 0;
-      quantities[name] = existing + qtyNum;
-      totalItems += qtyNum;
+      const product = item.productId
+        ? products.find((p) => p.id === item.productId)
+        : undefined;
+      const name = item.unitPriceYen !== null ? item.name : product?.name ?? item.name;
+      if (!name.trim()) return;
+
+      const unitPriceYen = item.unitPriceYen ?? product?.price ?? 0;
+      // item do pedido mantém as faixas congeladas; item novo usa as do catálogo
+      const tiers =
+        item.unitPriceYen !== null
+          ? item.priceTiers && typeof item.basePriceYen === "number"
+            ? { basePriceYen: item.basePriceYen, priceTiers: item.priceTiers }
+            : null
+          : product?.priceTiers?.length
+          ? { basePriceYen: unitPriceYen, priceTiers: product.priceTiers }
+          : null;
+      const unitCostYen =
+        item.unitPriceYen !== null ? item.unitCostYen : product?.unitCostYen;
+      const taxRate = item.unitPriceYen !== null ? item.taxRate : product?.taxRate;
+
+      const existing = items.find(
+        (it) =>
+          lineItemKey(it) ===
+          lineItemKey({ productId: item.productId || null, name, variantKey: item.variantKey })
+      );
+      if (
+        existing &&
+        (existing.basePriceYen ?? existing.unitPriceYen) === (tiers?.basePriceYen ?? unitPriceYen)
+      ) {
+        existing.qty += qtyNum;
+        existing.lineTotalYen = existing.unitPriceYen * existing.qty;
+        return;
+      }
+
+      items.push({
+        productId: item.productId || null,
+        name,
+        unitPriceYen,
+        qty: qtyNum,
+        lineTotalYen: unitPriceYen * qtyNum,
+        ...(item.variantKey
+          ? { variantKey: item.variantKey, variantLabel: item.variantLabel ?? item.variantKey }
+          : {}),
+        ...(tiers ?? {}),
+        ...(unitCostYen !== undefined ? { unitCostYen } : {}),
+        ...(taxRate ? { taxRate } : {}),
+      });
     });
 
+    const pricedItems = applyPriceTiers(items);
+    const totalItems = countItems(pricedItems);
+
     try {
       const ref = doc(db, "events", editingOrderEventId, "orders", editingOrderId);
 
-      const amountYen = calcOrderAmountYen(quantities);
+      // mantém desconto e taxa calculados na criação; só o subtotal muda
+      const editingOrder = orders.find((o) => o.id === editingOrderId);
+      const subtotalYen = calcOrderAmountYen(items);
+      const amountYen = Math.max(
+        subtotalYen - (editingOrder?.discountYen ?? 0) + (editingOrder?.deliveryFeeYen ?? 0),
+        0
+      );
 
       const payload: Partial<FirestoreOrder> = {
         customerName: orderCustomerName.trim(),
@@ -1042,13 +1679,17 @@ export default function DashboardPage() {
         deliveryTimeSlot: orderTimeSlotEdit.trim() || null,
         deliveryMode: orderDeliveryModeEdit,
         locationLink: orderLocationLink.trim() || null,
-        quantities,
+        items: pricedItems,
         totalItems,
 
+        subtotalYen,
         amountYen, // ✅ congela valor
-        paid: orderPaid,
-        paidAt: orderPaid ? (serverTimestamp() as unknown as Timestamp) : null,
-        paymentMethod: orderPaymentMethod,
+        taxBreakdown: computeTaxBreakdown(
+          pricedItems,
+          editingOrder?.discountYen ?? 0,
+          editingOrder?.deliveryFeeYen ?? 0
+        ),
+        // paidYen/paid/paidAt só mudam pelo painel de pagamentos (recordPayment)
 
         updatedAt: serverTimestamp() as unknown as Timestamp,
       };
@@ -1073,7 +1714,19 @@ export default function DashboardPage() {
         "customerName",
         "status",
         "paid",
+        "paidYen",
+        "balanceYen",
+        "refundedYen",
+        "paymentMethods",
+        "subtotalYen",
+        "discountYen",
+        "discounts",
+        "promoCode",
+        "deliveryFeeYen",
         "amountYen",
+        "originalAmountYen",
+        "cancelledYen",
+        "cancellations",
         "channel",
         "deliveryDate",
         "deliveryTimeSlot",
@@ -1087,9 +1740,7 @@ export default function DashboardPage() {
     ];
 
     filteredOrders.forEach((o) => {
-      const itemsStr = Object.entries(o.quantities || {})
-        .map(([n, q]) => `${n} x${q}`)
-        .join(" | ");
+      const itemsStr = formatItemsLabel(o.items);
 
       rows.push([
         o.sellerId ?? "",
@@ -1098,7 +1749,26 @@ export default function DashboardPage() {
         o.customerName ?? "",
         o.status ?? "",
         String(Boolean(o.paid)),
+        String(o.paidYen ?? 0),
+        String(orderBalanceYen(o.amountYen ?? 0, o.paidYen ?? 0)),
+        String(o.refundedYen ?? 0),
+        (o.paymentMethods ?? []).join(" + "),
+        String(o.subtotalYen ?? 0),
+        String(o.discountYen ?? 0),
+        (o.discounts ?? []).map((d) => `${d.label} -${d.amountYen}`).join(" | "),
+        o.promoCode ?? "",
+        String(o.deliveryFeeYen ?? 0),
         String(o.amountYen ?? 0),
+        String(o.originalAmountYen ?? o.amountYen ?? 0),
+        String(o.cancelledYen ?? 0),
+        (o.cancellations ?? [])
+          .map(
+            (c) =>
+              `${c.lines
+                .map((l) => `${lineItemName({ name: l.name, variantLabel: l.variantLabel ?? undefined })} x${l.qty}`)
+                .join(" + ")} -${c.amountYen}${c.refundYen > 0 ? ` (devolvido ${c.refundYen})` : ""}`
+          )
+          .join(" | "),
         o.channel ?? "",
         o.deliveryDate ?? "",
         o.deliveryTimeSlot ?? "",
@@ -1117,11 +1787,107 @@ export default function DashboardPage() {
     );
   };
 
+  /** Uma linha por item de pedido (preço congelado), para conferência/planilha */
+  const exportOrderItemsCsv = () => {
+    const rows: string[][] = [
+      [
+        "sellerId",
+        "eventTitle",
+        "orderId",
+        "customerName",
+        "status",
+        "productId",
+        "productName",
+        "variant",
+        "unitPriceYen",
+        "qty",
+        "lineTotalYen",
+        "legacyPrice",
+        "createdAt",
+      ],
+    ];
+
+    filteredOrders.forEach((o) => {
+      o.items.forEach((it) => {
+        rows.push([
+          o.sellerId ?? "",
+          o.eventTitle ?? "",
+          o.id,
+          o.customerName ?? "",
+          o.status ?? "",
+          it.productId ?? "",
+          it.name,
+          it.variantLabel ?? "",
+          String(it.unitPriceYen),
+          String(it.qty),
+          String(it.lineTotalYen),
+          String(o.legacyItems),
+          formatTimestamp(o.createdAt),
+        ]);
+      });
+    });
+
+    downloadTextFile(
+      `yamada-order-items-${new Date().toISOString().slice(0, 10)}.csv`,
+      toCsv(rows)
+    );
+  };
+
+  /** Uma linha por pagamento/devolução dos pedidos exibidos */
+  const exportPaymentsCsv = async () => {
+    try {
+      const byId = new Map(filteredOrders.map((o) => [o.id, o]));
+      const snap = await getDocs(collectionGroup(db, "payments"));
+      const rows: string[][] = [
+        [
+          "eventTitle",
+          "orderId",
+          "customerName",
+          "kind",
+          "method",
+          "amountYen",
+          "tenderedYen",
+          "changeYen",
+          "receivedBy",
+          "note",
+          "createdAt",
+        ],
+      ];
+      snap.docs
+        .map((d) => ({ order: byId.get(d.ref.parent.parent?.id ?? ""), payment: readOrderPayment(d.id, d.data()) }))
+        .filter((r): r is { order: OrderWithMeta; payment: OrderPayment } => Boolean(r.order))
+        .sort((a, b) => (a.payment.createdAt?.getTime() ?? 0) - (b.payment.createdAt?.getTime() ?? 0))
+        .forEach(({ order, payment }) => {
+          rows.push([
+            order.eventTitle ?? "",
+            order.id,
+            order.customerName ?? "",
+            payment.kind,
+            payment.method,
+            String(payment.kind === "refund" ? -payment.amountYen : payment.amountYen),
+            payment.tenderedYen !== null ? String(payment.tenderedYen) : "",
+            String(payment.changeYen),
+            payment.receivedBy,
+            payment.note,
+            payment.createdAt ? payment.createdAt.toLocaleString("ja-JP") : "",
+          ]);
+        });
+
+      downloadTextFile(
+        `yamada-payments-${new Date().toISOString().slice(0, 10)}.csv`,
+        toCsv(rows)
+      );
+    } catch (error) {
+      console.error(error);
+      setErrorMessage("Erro ao exportar pagamentos.");
+    }
+  };
+
   const exportProductionCsv = () => {
     const rows: string[][] = [["item", "total", "prepared", "remaining"]];
 
     demandByProduct.forEach((it) => {
-      const prepared = preparedMap[it.name] ?? 0;
+      const prepared = preparedMap[it.key] ?? 0;
       const remaining = Math.max(it.total - prepared, 0);
       rows.push([it.name, String(it.total), String(prepared), String(remaining)]);
     });
@@ -1132,6 +1898,98 @@ export default function DashboardPage() {
     );
   };
 
+  /* ---------- LINK DO ENTREGADOR ---------- */
+
+  const handleCreateDriverLink = async () => {
+    const name = driverLinkName.trim();
+    if (!name) {
+      setErrorMessage("Informe o nome do entregador.");
+      return;
+    }
+
+    setCreatingDriverLink(true);
+    setErrorMessage(null);
+    try {
+      const result = await callSellerFunction<{ token: string }>(
+        process.env.NEXT_PUBLIC_CREATE_DRIVER_LINK_URL || "",
+        { driverName: name }
+      );
+      setDriverLinkUrl(`${window.location.origin}/entregas?driver=${result.token}`);
+    } catch (error: any) {
+      console.error(error);
+      setErrorMessage(error?.message || "Erro ao gerar o link do entregador.");
+    } finally {
+      setCreatingDriverLink(false);
+    }
+  };
+
+  /* ---------- MIGRAÇÃO: pedidos antigos (quantities por nome) ---------- */
+
+  const handleMigrateLegacyOrders = async () => {
+    if (!filterSellerId) {
+      setErrorMessage("Escolha o vendedor no filtro antes de migrar os pedidos antigos.");
+      return;
+    }
+    const confirmed = window.confirm(
+      "Converter os pedidos antigos deste vendedor para itens com preço congelado? O preço sai do valor já congelado no pedido; os que não tiverem ficam como estão."
+    );
+    if (!confirmed) return;
+
+    setMigratingOrders(true);
+    setErrorMessage(null);
+    try {
+      const result = await callSellerFunction<{
+        migrated: number;
+        unresolved: Array<{ orderId: string; names: string[]; reason: "product" | "price" }>;
+      }>(process.env.NEXT_PUBLIC_MIGRATE_ORDERS_URL || "", { sellerId: filterSellerId });
+
+      if (result.unresolved.length > 0) {
+        const names = Array.from(
+          new Set(result.unresolved.filter((u) => u.reason === "product").flatMap((u) => u.names))
+        );
+        const noPrice = result.unresolved.filter((u) => u.reason === "price").length;
+        setErrorMessage(
+          `${result.migrated} pedido(s) migrado(s). ${result.unresolved.length} ficaram de fora` +
+            (names.length > 0 ? ` (produto não encontrado: ${names.join(", ")})` : "") +
+            (noPrice > 0 ? ` (${noPrice} sem preço recuperável)` : "") +
+            "."
+        );
+      }
+      await loadOrders();
+    } catch (error: any) {
+      console.error(error);
+      setErrorMessage(error?.message || "Erro ao migrar pedidos antigos.");
+    } finally {
+      setMigratingOrders(false);
+    }
+  };
+
+  /* ---------- RECIBO: nº de registro do vendedor ---------- */
+
+  const handleSaveInvoiceNumber = async (seller: SellerWithId) => {
+    const value = normalizeInvoiceNumber(invoiceDrafts[seller.id] ?? seller.invoiceNumber ?? "");
+    if (value && !INVOICE_NUMBER_RE.test(value)) {
+      setErrorMessage("Nº de registro inválido: use T + 13 dígitos (ex.: T1234567890123).");
+      return;
+    }
+    setErrorMessage(null);
+    try {
+      await updateDoc(doc(db, "sellers", seller.id), {
+        invoiceNumber: value || null,
+        updatedAt: serverTimestamp(),
+      });
+      setInvoiceDrafts((prev) => {
+        const next = { ...prev };
+        delete next[seller.id];
+        return next;
+      });
+      await loadSellers();
+    } catch (error) {
+      console.error(error);
+      setErrorMessage("Erro ao salvar o nº de registro.");
+    }
+  };
+
   /* ---------- FOCUS AUTOMÁTICO ---------- */
 
   useEffect(() => {
@@ -1172,6 +2030,36 @@ export default function DashboardPage() {
           </div>
 
           <div className="flex flex-wrap gap-2">
+            <a
+              href="/dashboard/promotions"
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-100"
+            >
+              Promoções
+            </a>
+            <a
+              href="/dashboard/waitlist"
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-100"
+            >
+              Lista de espera
+            </a>
+            <a
+              href="/dashboard/stock"
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-100"
+            >
+              Estoque
+            </a>
+            <a
+              href="/dashboard/ingredients"
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-100"
+            >
+              Ingredientes
+            </a>
+            <Link
+              href="/dashboard/settlements"
+              className="rounded-full border border-neutral-300 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-100"
+            >
+              Acerto entregadores
+            </Link>
             <button
               type="button"
               onClick={() => void loadAll()}
@@ -1270,10 +2158,194 @@ export default function DashboardPage() {
               <p className="text-xs text-neutral-500">Total a receber (não pago)</p>
               <p className="text-2xl font-bold text-amber-700">{formatYen(cashflowSummary.totalToReceive)}</p>
             </div>
+            <div className="rounded-xl border bg-white p-4">
+              <p className="text-xs text-neutral-500">Cancelado (pedidos e itens)</p>
+              <p className="text-2xl font-bold text-neutral-500">{formatYen(cashflowSummary.totalCancelled)}</p>
+            </div>
+            <div className="rounded-xl border bg-white p-4">
+              <p className="text-xs text-neutral-500">Devolvido aos clientes</p>
+              <p className="text-2xl font-bold text-red-700">{formatYen(cashflowSummary.totalRefunded)}</p>
+            </div>
+            <div className="rounded-xl border bg-white p-4">
+              <p className="text-xs text-neutral-500">A devolver (pago a mais / cancelado)</p>
+              <p className="text-2xl font-bold text-red-700">{formatYen(cashflowSummary.totalToRefund)}</p>
+            </div>
           </div>
 
+          {/* MARGEM BRUTA */}
+          <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+            <div className="rounded-xl border bg-white p-4">
+              <p className="text-xs text-neutral-500">Custo dos produtos vendidos</p>
+              <p className="text-2xl font-bold">{formatYen(Math.round(marginSummary.total.costYen))}</p>
+            </div>
+            <div className="rounded-xl border bg-white p-4">
+              <p className="text-xs text-neutral-500">Margem bruta</p>
+              <p className="text-2xl font-bold text-green-700">
+                {formatYen(Math.round(marginSummary.total.marginYen))}{" "}
+                <span className="text-sm font-semibold">
+                  (
+                  {formatMarginPercent(
+                    marginPercent(marginSummary.total.revenueYen, marginSummary.total.costYen)
+                  )}
+                  )
+                </span>
+              </p>
+            </div>
+            <div className="rounded-xl border bg-white p-4">
+              <p className="text-xs text-neutral-500">Vendido sem custo (fora da margem)</p>
+              <p className="text-2xl font-bold text-neutral-500">
+                {formatYen(Math.round(marginSummary.total.uncostedRevenueYen))}
+              </p>
+            </div>
+          </div>
+
+          {marginSummary.rows.product.length > 0 && (
+            <div className="rounded-xl border bg-white p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-semibold">Margem por</p>
+                <div className="flex gap-1">
+                  {(Object.keys(MARGIN_GROUP_LABELS) as MarginGroup[]).map((g) => (
+                    <button
+                      key={g}
+                      type="button"
+                      onClick={() => setMarginGroup(g)}
+                      className={cx(
+                        "rounded-full border px-3 py-1 text-[11px]",
+                        marginGroup === g ? "bg-black text-white" : "bg-white hover:bg-neutral-100"
+                      )}
+                    >
+                      {MARGIN_GROUP_LABELS[g]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-left text-neutral-500">
+                    <tr>
+                      <th className="py-1 pr-2">{MARGIN_GROUP_LABELS[marginGroup]}</th>
+                      <th className="py-1 px-2 text-right">Receita</th>
+                      <th className="py-1 px-2 text-right">Custo</th>
+                      <th className="py-1 px-2 text-right">Margem</th>
+                      <th className="py-1 px-2 text-right">%</th>
+                      <th className="py-1 pl-2 text-right">Sem custo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {marginSummary.rows[marginGroup].map((r) => (
+                      <tr key={r.key}>
+                        <td className="py-1 pr-2 font-semibold">{r.label}</td>
+                        <td className="py-1 px-2 text-right">{formatYen(Math.round(r.revenueYen))}</td>
+                        <td className="py-1 px-2 text-right">{formatYen(Math.round(r.costYen))}</td>
+                        <td className="py-1 px-2 text-right text-green-700">
+                          {formatYen(Math.round(r.marginYen))}
+                        </td>
+                        <td className="py-1 px-2 text-right">
+                          {formatMarginPercent(marginPercent(r.revenueYen, r.costYen))}
+                        </td>
+                        <td className="py-1 pl-2 text-right text-neutral-500">
+                          {r.uncostedRevenueYen > 0 ? formatYen(Math.round(r.uncostedRevenueYen)) : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[11px] text-neutral-500">
+                Receita sem taxa de entrega e com o desconto do pedido rateado pelos itens. O custo é
+                o do dia da venda (defina em Produtos).
+              </p>
+            </div>
+          )}
+
+          {/* RECIBO: nº DE REGISTRO (適格請求書) */}
+          {sellers.length > 0 && (
+            <details className="rounded-xl border bg-white p-4 text-xs">
+              <summary className="cursor-pointer text-sm font-semibold">
+                Recibo: nº de registro dos vendedores (適格請求書)
+              </summary>
+              <p className="mt-2 text-[11px] text-neutral-500">
+                Sem número, o recibo sai como recibo simples (sem valer como fatura qualificada).
+              </p>
+              <div className="mt-2 space-y-2">
+                {sellers.map((s) => (
+                  <div key={s.id} className="flex flex-wrap items-center gap-2">
+                    <span className="w-40 font-semibold">{s.name}</span>
+                    <input
+                      value={invoiceDrafts[s.id] ?? s.invoiceNumber ?? ""}
+                      onChange={(e) =>
+                        setInvoiceDrafts((prev) => ({ ...prev, [s.id]: e.target.value }))
+                      }
+                      placeholder="T1234567890123"
+                      className="w-44 rounded-md border px-2 py-1"
+                    />
+                    {invoiceDrafts[s.id] !== undefined && (
+                      <button
+                        type="button"
+                        onClick={() => void handleSaveInvoiceNumber(s)}
+                        className="rounded-full bg-black px-3 py-1 text-[11px] text-white"
+                      >
+                        Salvar
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {/* PEDIDOS ANTIGOS SEM PREÇO CONGELADO */}
+          {legacyOrdersCount > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-blue-200 bg-blue-50 p-4 text-xs text-blue-900">
+              <p>
+                <strong>{legacyOrdersCount}</strong> pedido(s) antigo(s) ainda usam o preço atual do
+                catálogo para calcular o valor.
+              </p>
+              <button
+                type="button"
+                onClick={() => void handleMigrateLegacyOrders()}
+                disabled={migratingOrders}
+                className="rounded-full border border-blue-300 bg-white px-3 py-1 text-[11px] hover:bg-blue-100 disabled:opacity-60"
+              >
+                {migratingOrders ? "Migrando..." : "Congelar preços (migrar)"}
+              </button>
+            </div>
+          )}
+
+          {/* LINK DO PAINEL DE ENTREGAS */}
+          <details className="rounded-xl border bg-white p-4 text-xs">
+            <summary className="cursor-pointer text-sm font-semibold">
+              Link do painel de entregas (entregadores)
+            </summary>
+            <p className="mt-2 text-[11px] text-neutral-500">
+              Sem login, o painel de entregas só marca entregas com este link. Gerar de novo
+              para o mesmo nome invalida o link anterior.
+            </p>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <input
+                value={driverLinkName}
+                onChange={(e) => setDriverLinkName(e.target.value)}
+                placeholder="Nome do entregador"
+                className="w-44 rounded-md border px-2 py-1"
+              />
+              <button
+                type="button"
+                onClick={() => void handleCreateDriverLink()}
+                disabled={creatingDriverLink}
+                className="rounded-full bg-black px-3 py-1 text-[11px] text-white disabled:opacity-60"
+              >
+                {creatingDriverLink ? "Gerando..." : "Gerar link"}
+              </button>
+            </div>
+            {driverLinkUrl && (
+              <p className="mt-2 break-all font-mono text-[11px] text-neutral-700">{driverLinkUrl}</p>
+            )}
+          </details>
+
           {/* ALERTAS DE ESTOQUE */}
-          {(lowStockProducts.length > 0 || outOfStockProducts.length > 0) && (
+          {(lowStockProducts.length > 0 ||
+            outOfStockProducts.length > 0 ||
+            expiringLots.length > 0) && (
             <div className="space-y-2 rounded-xl border border-amber-300 bg-amber-50 p-4 text-xs text-amber-900">
               <p className="text-sm font-semibold">Alertas de estoque</p>
 
@@ -1310,6 +2382,27 @@ export default function DashboardPage() {
                 </div>
               )}
 
+              {expiringLots.length > 0 && (
+                <div>
+                  <p className="font-semibold text-red-900">
+                    Validade próxima (lotes):{" "}
+                    <a href="/dashboard/stock" className="font-normal underline">
+                      ver estoque
+                    </a>
+                  </p>
+                  <ul className="list-inside list-disc">
+                    {expiringLots.map(({ product, lot, days }) => (
+                      <li key={`${product.id}-${lot.id}`}>
+                        {product.name} · {lot.qty} unid. · validade {formatLotDate(lot.bestBefore)}{" "}
+                        <span className="font-semibold">
+                          ({days < 0 ? "vencido" : days === 0 ? "vence hoje" : `${days} dia${days > 1 ? "s" : ""}`})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <p className="text-[10px] text-amber-900/80">
                 * Próximo passo: usar estoque para travar compras e esconder produtos esgotados na landpage.
               </p>
@@ -1379,6 +2472,19 @@ export default function DashboardPage() {
                   />
                   <span className="text-[11px] text-neutral-600">Somente testes</span>
                 </label>
+
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    className="h-3 w-3"
+                    checked={excludeUnpaidDeposits}
+                    onChange={(e) => setExcludeUnpaidDeposits(e.target.checked)}
+                  />
+                  <span className="text-[11px] text-neutral-600">
+                    Sem sinal pago fora da produção
+                    {unpaidDepositCount > 0 && ` (${unpaidDepositCount})`}
+                  </span>
+                </label>
               </div>
 
               <div className="ml-auto flex flex-wrap items-center gap-2">
@@ -1413,11 +2519,11 @@ export default function DashboardPage() {
                   </thead>
                   <tbody>
                     {demandByProduct.map((item) => {
-                      const prepared = preparedMap[item.name] ?? 0;
+                      const prepared = preparedMap[item.key] ?? 0;
                       const remaining = Math.max(item.total - prepared, 0);
 
                       return (
-                        <tr key={item.name} className="border-b last:border-0">
+                        <tr key={item.key} className="border-b last:border-0">
                           <td className="p-2">{item.name}</td>
                           <td className="p-2 font-semibold">{item.total}</td>
                           <td className="p-2">
@@ -1432,7 +2538,7 @@ export default function DashboardPage() {
                                 const num = Number(raw);
                                 setPreparedMap((prev) => ({
                                   ...prev,
-                                  [item.name]:
+                                  [item.key]:
                                     !raw || Number.isNaN(num)
                                       ? 0
                                       : Math.min(Math.max(num, 0), item.total),
@@ -1709,6 +2815,24 @@ export default function DashboardPage() {
               >
                 Exportar pedidos (CSV)
               </button>
+
+              <button
+                type="button"
+                onClick={exportOrderItemsCsv}
+                className="rounded-full border px-3 py-1.5 text-xs hover:bg-neutral-100"
+                title="Uma linha por item, com o preço congelado no pedido"
+              >
+                Exportar itens (CSV)
+              </button>
+
+              <button
+                type="button"
+                onClick={() => void exportPaymentsCsv()}
+                className="rounded-full border px-3 py-1.5 text-xs hover:bg-neutral-100"
+                title="Uma linha por pagamento ou devolução dos pedidos exibidos"
+              >
+                Exportar pagamentos (CSV)
+              </button>
             </div>
           </div>
 
@@ -1748,10 +2872,11 @@ export default function DashboardPage() {
                 onChange={(e) => setFilterStatus(e.target.value as any)}
               >
                 <option value="">Todos</option>
-                <option value="pending">Pendente</option>
-                <option value="confirmed">Confirmado</option>
-                <option value="delivered">Entregue</option>
-                <option value="cancelled">Cancelado</option>
+                {ORDER_STATUSES.map((st) => (
+                  <option key={st} value={st}>
+                    {ORDER_STATUS_LABELS[st]}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -1952,34 +3077,17 @@ export default function DashboardPage() {
                 </div>
               </div>
 
-              {/* ✅ Financeiro */}
-              <div className="grid gap-3 md:grid-cols-3">
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    className="h-4 w-4"
-                    checked={orderPaid}
-                    onChange={(e) => setOrderPaid(e.target.checked)}
-                  />
-                  <span className="text-[11px] text-neutral-700">
-                    Pedido pago (recebido)
-                  </span>
-                </label>
-
-                <div className="space-y-1 md:col-span-2">
-                  <label className="text-[11px]">Forma de pagamento</label>
-                  <select
-                    className="w-full rounded-md border px-3 py-2 text-xs"
-                    value={orderPaymentMethod}
-                    onChange={(e) => setOrderPaymentMethod(e.target.value as PaymentMethod)}
-                  >
-                    <option value="cash">Dinheiro</option>
-                    <option value="paypay">PayPay</option>
-                    <option value="card">Cartão</option>
-                    <option value="other">Outro</option>
-                  </select>
-                </div>
-              </div>
+              {/* ✅ Financeiro (pagamentos ficam no painel "Pagamentos" da lista) */}
+              {(() => {
+                const editing = orders.find((o) => o.id === editingOrderId);
+                if (!editing) return null;
+                return (
+                  <p className="rounded-md bg-neutral-50 px-3 py-2 text-[11px] text-neutral-700">
+                    Pago {formatYen(editing.paidYen ?? 0)} de {formatYen(editing.amountYen ?? 0)}. Para
+                    registrar pagamento ou devolução, use o botão “Pagamentos” na lista.
+                  </p>
+                );
+              })()}
 
               <div className="space-y-1">
                 <label className="text-[11px]">Link de endereço (Google Maps)</label>
@@ -2008,22 +3116,41 @@ export default function DashboardPage() {
                   {orderItems.map((item) => (
                     <div
                       key={item.key}
-                      className="grid items-center gap-2 md:grid-cols-[minmax(0,2fr)_minmax(0,1fr)_auto]"
+                      className="grid items-center gap-2 md:grid-cols-[minmax(0,2fr)_minmax(0,1fr)_minmax(0,1fr)_auto]"
                     >
-                      <input
+                      <select
                         className="rounded-md border px-2 py-1 text-[11px]"
-                        value={item.name}
-                        onChange={(e) => handleOrderItemChange(item.key, "name", e.target.value)}
-                        placeholder="Nome do produto (igual ao cadastro)"
-                      />
+                        value={item.productId}
+                        onChange={(e) => handleOrderItemProductChange(item.key, e.target.value)}
+                      >
+                        <option value="">
+                          {item.name ? `${item.name} (sem vínculo no catálogo)` : "Selecione o produto..."}
+                        </option>
+                        {item.productId && !products.some((p) => p.id === item.productId) && (
+                          <option value={item.productId}>{item.name} (removido do catálogo)</option>
+                        )}
+                        {products.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </select>
                       <input
                         type="number"
                         min={0}
                         className="rounded-md border px-2 py-1 text-[11px]"
                         value={item.qty}
-                        onChange={(e) => handleOrderItemChange(item.key, "qty", e.target.value)}
+                        onChange={(e) => handleOrderItemQtyChange(item.key, e.target.value)}
                         placeholder="Qtd"
                       />
+                      <span className="text-[11px] text-neutral-600">
+                        {item.variantLabel && (
+                          <span className="mr-1 font-semibold">{item.variantLabel}</span>
+                        )}
+                        {item.unitPriceYen !== null
+                          ? `${formatYen(item.unitPriceYen)} (do pedido)`
+                          : `${formatYen(products.find((p) => p.id === item.productId)?.price ?? 0)} (catálogo)`}
+                      </span>
                       <button
                         type="button"
                         onClick={() => removeOrderItemRow(item.key)}
@@ -2145,45 +3272,125 @@ export default function DashboardPage() {
 
                         <td className="p-2">
                           <div className="max-w-[260px] space-y-1">
-                            {Object.entries(o.quantities).map(([prodName, qty]) => (
-                              <div key={prodName}>
-                                {prodName}: <strong>{qty}</strong>
+                            {o.items.map((it, idx) => (
+                              <div key={`${lineItemKey(it)}-${idx}`}>
+                                {lineItemName(it)}: <strong>{it.qty}</strong>{" "}
+                                <span className="text-[10px] text-neutral-500">
+                                  × {formatYen(it.unitPriceYen)}
+                                </span>
+                              </div>
+                            ))}
+                            {(o.cancellations ?? []).map((c, idx) => (
+                              <div key={`cancel-${idx}`} className="text-[10px] text-red-700">
+                                Cancelado:{" "}
+                                {c.lines
+                                  .map(
+                                    (l) =>
+                                      `${l.qty}× ${lineItemName({ name: l.name, variantLabel: l.variantLabel ?? undefined })}`
+                                  )
+                                  .join(", ")}
+                                {c.refundYen > 0 && ` · devolvido ${formatYen(c.refundYen)}`}
+                                {c.reason && ` (${c.reason})`}
                               </div>
                             ))}
                             <div className="mt-1 text-[11px] text-neutral-500">
                               Total de itens: {o.totalItems}
                             </div>
+                            {o.legacyItems && (
+                              <span className="inline-block rounded-full bg-blue-100 px-2 py-0.5 text-[10px] text-blue-800">
+                                Pedido antigo (preço atual)
+                              </span>
+                            )}
                           </div>
                         </td>
 
-                        <td className="p-2 font-semibold">{formatYen(o.amountYen ?? 0)}</td>
+                        <td className="p-2">
+                          <div className="font-semibold">{formatYen(o.amountYen ?? 0)}</div>
+                          {(o.cancelledYen ?? 0) > 0 && (
+                            <div className="text-[10px] text-red-700">
+                              Ajustado (era{" "}
+                              <span className="line-through">
+                                {formatYen(o.originalAmountYen ?? 0)}
+                              </span>
+                              )
+                            </div>
+                          )}
+                          {((o.discountYen ?? 0) > 0 || (o.deliveryFeeYen ?? 0) > 0) && (
+                            <div className="mt-1 space-y-0.5 text-[10px] text-neutral-500">
+                              <div>Subtotal: {formatYen(o.subtotalYen ?? 0)}</div>
+                              {(o.discounts ?? []).map((d, idx) => (
+                                <div key={`${d.label}-${idx}`} className="text-green-700">
+                                  {d.label}: −{formatYen(d.amountYen)}
+                                </div>
+                              ))}
+                              {(o.deliveryFeeYen ?? 0) > 0 && (
+                                <div>Taxa de entrega: {formatYen(o.deliveryFeeYen ?? 0)}</div>
+                              )}
+                            </div>
+                          )}
+                        </td>
 
                         <td className="p-2">
-                          <label className="flex items-center gap-2">
-                            <input
-                              type="checkbox"
-                              className="h-4 w-4"
-                              checked={Boolean(o.paid)}
-                              onChange={(e) => void handleTogglePaid(o, e.target.checked)}
-                            />
-                            <span className={cx("text-[11px]", o.paid ? "text-green-700" : "text-amber-700")}>
-                              {o.paid ? "Recebido" : "A receber"}
-                            </span>
-                          </label>
+                          {(() => {
+                            const balance = orderBalanceYen(o.amountYen ?? 0, o.paidYen ?? 0);
+                            return (
+                              <div className="flex flex-col gap-1 text-[11px]">
+                                {hasUnpaidDeposit(o) && (
+                                  <span className="font-semibold text-purple-700">
+                                    Sinal {formatYen(o.depositYen ?? 0)}
+                                  </span>
+                                )}
+                                <span className={o.paid ? "text-green-700" : "text-amber-700"}>
+                                  {o.paid
+                                    ? "Recebido"
+                                    : (o.paidYen ?? 0) > 0
+                                    ? `Parcial: ${formatYen(o.paidYen ?? 0)}`
+                                    : "A receber"}
+                                </span>
+                                {balance !== 0 && (o.paidYen ?? 0) > 0 && (
+                                  <span className={balance > 0 ? "text-amber-700" : "text-red-700"}>
+                                    {balance > 0
+                                      ? `Saldo ${formatYen(balance)}`
+                                      : `Devolver ${formatYen(-balance)}`}
+                                  </span>
+                                )}
+                                {o.settlementId && (
+                                  <span className="text-neutral-500">Acertado c/ entregador</span>
+                                )}
+                                {(o.paymentMethods ?? []).length > 0 && (
+                                  <span className="text-neutral-500">
+                                    {(o.paymentMethods ?? [])
+                                      .map((m) => PAYMENT_METHOD_LABELS[m])
+                                      .join(" + ")}
+                                  </span>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() => openPayments(o)}
+                                  className="rounded-full border px-2 py-0.5 hover:bg-neutral-100"
+                                >
+                                  Pagamentos
+                                </button>
+                              </div>
+                            );
+                          })()}
                         </td>
 
                         <td className="p-2">
                           <select
                             className="rounded-md border px-2 py-1 text-[11px]"
                             value={o.status}
+                            disabled={o.status === "cancelled"}
                             onChange={(e) =>
                               void handleChangeOrderStatus(o, e.target.value as OrderStatus)
                             }
                           >
-                            <option value="pending">Pendente</option>
-                            <option value="confirmed">Confirmado</option>
-                            <option value="delivered">Entregue</option>
-                            <option value="cancelled">Cancelado</option>
+                            <option value={o.status}>{ORDER_STATUS_LABELS[o.status]}</option>
+                            {allowedNextStatuses(o.status).map((st) => (
+                              <option key={st} value={st}>
+                                {ORDER_STATUS_LABELS[st]}
+                              </option>
+                            ))}
                           </select>
                         </td>
 
@@ -2198,6 +3405,36 @@ export default function DashboardPage() {
                             >
                               Editar
                             </button>
+                            {o.status !== "cancelled" &&
+                              !o.legacyItems &&
+                              !o.settlementId &&
+                              cancellableLines(o).length > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => openCancelItems(o)}
+                                className="rounded-full border px-2 py-0.5 text-[11px] hover:bg-neutral-100"
+                              >
+                                Cancelar itens
+                              </button>
+                            )}
+                            {o.trackingToken && (
+                              <a
+                                href={`/pedido/${o.trackingToken}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="rounded-full border px-2 py-0.5 text-center text-[11px] hover:bg-neutral-100"
+                              >
+                                Link do cliente
+                              </a>
+                            )}
+                            <a
+                              href={`/dashboard/receipt/${o.eventId}/${o.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="rounded-full border px-2 py-0.5 text-center text-[11px] hover:bg-neutral-100"
+                            >
+                              Recibo
+                            </a>
                             <button
                               type="button"
                               onClick={() => void handleDeleteOrder(o)}
@@ -2216,6 +3453,335 @@ export default function DashboardPage() {
           </div>
         </section>
       )}
+
+      {/* PAGAMENTOS DO PEDIDO */}
+      {paymentOrder && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 px-4">
+          <div className="max-h-[90vh] w-full max-w-lg space-y-4 overflow-y-auto rounded-2xl bg-white p-5 text-xs shadow-xl">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-semibold">Pagamentos – {paymentOrder.customerName}</p>
+                <p className="text-neutral-500">{paymentOrder.eventTitle}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setPaymentOrder(null)}
+                className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+              >
+                Fechar
+              </button>
+            </div>
+
+            {(() => {
+              const total = paymentOrder.amountYen ?? 0;
+              const paid = paymentOrder.paidYen ?? 0;
+              const balance = orderBalanceYen(total, paid);
+              return (
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Total</p>
+                    <p className="font-semibold">{formatYen(total)}</p>
+                  </div>
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Pago</p>
+                    <p className="font-semibold text-green-700">{formatYen(paid)}</p>
+                  </div>
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">{balance < 0 ? "Devolver" : "Saldo"}</p>
+                    <p className={cx("font-semibold", balance < 0 ? "text-red-700" : "text-amber-700")}>
+                      {formatYen(Math.abs(balance))}
+                    </p>
+                  </div>
+                </div>
+              );
+            })()}
+
+            {hasUnpaidDeposit(paymentOrder) && (
+              <p className="rounded-md bg-purple-50 px-3 py-2 text-purple-800">
+                Sinal exigido: {formatYen(paymentOrder.depositYen ?? 0)}. Quando o pago chegar ao sinal, o
+                pedido é confirmado e entra na produção.
+              </p>
+            )}
+
+            {/* histórico */}
+            {orderPayments.length === 0 ? (
+              <p className="text-neutral-500">
+                {(paymentOrder.paidYen ?? 0) > 0
+                  ? "Pago antes do registro de pagamentos (sem histórico)."
+                  : "Nenhum pagamento registrado."}
+              </p>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {orderPayments.map((p) => (
+                  <li key={p.id} className="flex items-start justify-between gap-2 px-3 py-2">
+                    <div>
+                      <p className="font-semibold">
+                        {p.kind === "refund" ? "Devolução" : "Pagamento"} ·{" "}
+                        {PAYMENT_METHOD_LABELS[p.method]}
+                      </p>
+                      <p className="text-[11px] text-neutral-500">
+                        {p.createdAt ? p.createdAt.toLocaleString("ja-JP") : "—"}
+                        {p.receivedBy && ` · ${p.receivedBy}`}
+                        {p.tenderedYen !== null &&
+                          ` · entregou ${formatYen(p.tenderedYen)}, troco ${formatYen(p.changeYen)}`}
+                      </p>
+                      {p.note && <p className="text-[11px] text-neutral-600">{p.note}</p>}
+                    </div>
+                    <span className={p.kind === "refund" ? "text-red-700" : "text-green-700"}>
+                      {p.kind === "refund" ? "-" : "+"}
+                      {formatYen(p.amountYen)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* novo pagamento / devolução */}
+            <div className="space-y-2 border-t pt-3">
+              <div className="flex gap-1">
+                {(["payment", "refund"] as PaymentKind[]).map((k) => (
+                  <button
+                    key={k}
+                    type="button"
+                    onClick={() => {
+                      setPaymentKind(k);
+                      setPaymentTendered("");
+                      const balance = orderBalanceYen(
+                        paymentOrder.amountYen ?? 0,
+                        paymentOrder.paidYen ?? 0
+                      );
+                      setPaymentAmount(
+                        String(k === "payment" ? Math.max(balance, 0) : Math.max(-balance, 0))
+                      );
+                    }}
+                    className={cx(
+                      "rounded-full border px-3 py-1",
+                      paymentKind === k ? "bg-black text-white" : "hover:bg-neutral-100"
+                    )}
+                  >
+                    {k === "payment" ? "Receber" : "Devolver"}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <label className="text-[11px]">Forma</label>
+                  <select
+                    className="w-full rounded-md border px-2 py-1.5"
+                    value={paymentMethodInput}
+                    onChange={(e) => setPaymentMethodInput(e.target.value as PaymentMethod)}
+                  >
+                    {PAYMENT_METHODS.map((m) => (
+                      <option key={m} value={m}>
+                        {PAYMENT_METHOD_LABELS[m]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[11px]">Valor (¥)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    className="w-full rounded-md border px-2 py-1.5"
+                    value={paymentAmount}
+                    onChange={(e) => setPaymentAmount(e.target.value)}
+                  />
+                </div>
+                {paymentKind === "payment" && paymentMethodInput === "cash" && (
+                  <div className="space-y-1">
+                    <label className="text-[11px]">Cliente entregou (¥, opcional)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-full rounded-md border px-2 py-1.5"
+                      value={paymentTendered}
+                      onChange={(e) => setPaymentTendered(e.target.value)}
+                      placeholder="Ex: 5000"
+                    />
+                    {Number(paymentTendered) > Number(paymentAmount) && (
+                      <p className="text-[11px] font-semibold text-green-700">
+                        Troco: {formatYen(Number(paymentTendered) - Number(paymentAmount))}
+                      </p>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <label className="text-[11px]">Recebido por (opcional)</label>
+                  <input
+                    className="w-full rounded-md border px-2 py-1.5"
+                    value={paymentReceivedBy}
+                    onChange={(e) => setPaymentReceivedBy(e.target.value)}
+                    placeholder="Seu e-mail, se vazio"
+                  />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <label className="text-[11px]">Observação</label>
+                  <input
+                    className="w-full rounded-md border px-2 py-1.5"
+                    value={paymentNote}
+                    onChange={(e) => setPaymentNote(e.target.value)}
+                    placeholder="Ex: sinal, resto na entrega"
+                  />
+                </div>
+              </div>
+
+              {errorMessage && <p className="text-[11px] text-red-600">{errorMessage}</p>}
+
+              <button
+                type="button"
+                onClick={() => void handleRecordPayment()}
+                disabled={savingPayment}
+                className="rounded-full bg-black px-4 py-2 text-white disabled:opacity-60"
+              >
+                {savingPayment
+                  ? "Salvando..."
+                  : paymentKind === "payment"
+                  ? "Registrar pagamento"
+                  : "Registrar devolução"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* CANCELAMENTO PARCIAL */}
+      {cancelOrder && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 px-4">
+          <div className="max-h-[90vh] w-full max-w-lg space-y-4 overflow-y-auto rounded-2xl bg-white p-5 text-xs shadow-xl">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-semibold">Cancelar itens – {cancelOrder.customerName}</p>
+                <p className="text-neutral-500">{cancelOrder.eventTitle}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setCancelOrder(null)}
+                className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+              >
+                Fechar
+              </button>
+            </div>
+
+            <table className="w-full">
+              <thead className="border-b text-left text-[11px] text-neutral-500">
+                <tr>
+                  <th className="py-1">Item</th>
+                  <th className="py-1 text-right">No pedido</th>
+                  <th className="py-1 text-right">Cancelar</th>
+                  <th className="py-1 text-center">Volta ao estoque</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cancellableLines(cancelOrder).map((line) => (
+                  <tr key={line.key} className="border-b last:border-0">
+                    <td className="py-1">{line.label}</td>
+                    <td className="py-1 text-right">{line.qty}</td>
+                    <td className="py-1 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        max={line.qty}
+                        className="w-16 rounded-md border px-2 py-1 text-right"
+                        value={cancelQty[line.key] ?? ""}
+                        onChange={(e) =>
+                          setCancelQty((prev) => ({ ...prev, [line.key]: e.target.value }))
+                        }
+                        placeholder="0"
+                      />
+                    </td>
+                    <td className="py-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={cancelRestock[line.key] ?? true}
+                        onChange={(e) =>
+                          setCancelRestock((prev) => ({ ...prev, [line.key]: e.target.checked }))
+                        }
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {(() => {
+              const nextTotal = totalAfterCancel(
+                cancelOrder,
+                parsedCancelQty(cancelOrder),
+                cancelPromotions
+              );
+              return (
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Total atual</p>
+                    <p className="font-semibold">{formatYen(cancelOrder.amountYen ?? 0)}</p>
+                  </div>
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Total ajustado</p>
+                    <p className="font-semibold">{formatYen(nextTotal)}</p>
+                  </div>
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Pago</p>
+                    <p className="font-semibold text-green-700">
+                      {formatYen(cancelOrder.paidYen ?? 0)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })()}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="col-span-2 space-y-1">
+                <label className="text-[11px]">Motivo</label>
+                <input
+                  className="w-full rounded-md border px-2 py-1.5"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Ex: acabou a massa, cliente desistiu de 1 bandeja"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[11px]">Devolver ao cliente (¥)</label>
+                <input
+                  type="number"
+                  min={0}
+                  className="w-full rounded-md border px-2 py-1.5"
+                  value={cancelRefund}
+                  onChange={(e) => setCancelRefund(e.target.value)}
+                  placeholder={String(suggestedRefundYen(cancelOrder))}
+                />
+                <p className="text-[11px] text-neutral-500">Vazio = pago a mais; 0 = sem devolução</p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[11px]">Forma da devolução</label>
+                <select
+                  className="w-full rounded-md border px-2 py-1.5"
+                  value={cancelRefundMethod}
+                  onChange={(e) => setCancelRefundMethod(e.target.value as PaymentMethod)}
+                >
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m} value={m}>
+                      {PAYMENT_METHOD_LABELS[m]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {errorMessage && <p className="text-[11px] text-red-600">{errorMessage}</p>}
+
+            <button
+              type="button"
+              onClick={() => void handleCancelItems()}
+              disabled={savingCancel}
+              className="rounded-full bg-red-600 px-4 py-2 text-white disabled:opacity-60"
+            >
+              {savingCancel ? "Salvando..." : "Cancelar itens selecionados"}
+            </button>
+          </div>
+        </div>
+      )}
     </main>
   );
 }
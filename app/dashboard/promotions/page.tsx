@@ -0,0 +1,538 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth, db } from "@/lib/firebase";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+import {
+  dateToTokyoInput,
+  formatTokyoDateTime,
+  tokyoInputToDate,
+} from "@/lib/events";
+import {
+  describePromotion,
+  normalizePromoCode,
+  PROMOTION_KIND_LABELS,
+  readPromotion,
+  type Promotion,
+  type PromotionKind,
+} from "@/lib/promotions";
+
+type Option = { id: string; name: string };
+
+export default function PromotionsPage() {
+  const router = useRouter();
+
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(true);
+
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [events, setEvents] = useState<Option[]>([]);
+  const [products, setProducts] = useState<Option[]>([]);
+
+  // Form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [kind, setKind] = useState<PromotionKind>("percent");
+  const [percent, setPercent] = useState("10");
+  const [amountYen, setAmountYen] = useState("");
+  const [buyQty, setBuyQty] = useState("50");
+  const [freeQty, setFreeQty] = useState("5");
+  const [productId, setProductId] = useState("");
+  const [eventId, setEventId] = useState("");
+  const [minSubtotalYen, setMinSubtotalYen] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setUser(u);
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  // 🔁 PROMOÇÕES + opções de escopo (eventos e produtos)
+  useEffect(() => {
+    if (!user) return;
+
+    const loadOptions = async () => {
+      try {
+        const [eventsSnap, productsSnap] = await Promise.all([
+          getDocs(collection(db, "events")),
+          getDocs(collection(db, "products")),
+        ]);
+        const byName = (a: Option, b: Option) => a.name.localeCompare(b.name, "pt-BR");
+        setEvents(
+          eventsSnap.docs
+            .map((d) => ({ id: d.id, name: String(d.data().title || d.id) }))
+            .sort(byName)
+        );
+        setProducts(
+          productsSnap.docs
+            .map((d) => ({ id: d.id, name: String(d.data().name || d.id) }))
+            .sort(byName)
+        );
+      } catch (err) {
+        console.error(err);
+        setError("Erro ao carregar eventos/produtos.");
+      }
+    };
+    void loadOptions();
+
+    return onSnapshot(collection(db, "promotions"), (snap) => {
+      setPromotions(
+        snap.docs
+          .map((d) => readPromotion(d.id, d.data()))
+          .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"))
+      );
+    });
+  }, [user]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setCode("");
+    setKind("percent");
+    setPercent("10");
+    setAmountYen("");
+    setBuyQty("50");
+    setFreeQty("5");
+    setProductId("");
+    setEventId("");
+    setMinSubtotalYen("");
+    setMaxUses("");
+    setStartsAt("");
+    setExpiresAt("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSuccessMessage(null);
+
+    const cleanCode = normalizePromoCode(code);
+    const toInt = (v: string) => (v.trim() === "" ? 0 : Number(v));
+    const numbers = {
+      percent: toInt(percent),
+      amountYen: toInt(amountYen),
+      buyQty: toInt(buyQty),
+      freeQty: toInt(freeQty),
+      minSubtotalYen: toInt(minSubtotalYen),
+    };
+    const limit = maxUses.trim() === "" ? null : Number(maxUses);
+    const start = startsAt ? tokyoInputToDate(startsAt) : null;
+    const end = expiresAt ? tokyoInputToDate(expiresAt) : null;
+
+    if (!name.trim()) return setError("Nome da promoção é obrigatório.");
+    if (!Object.values(numbers).every((n) => Number.isInteger(n) && n >= 0)) {
+      return setError("Use apenas números inteiros (0 ou mais).");
+    }
+    if (kind === "percent" && (numbers.percent <= 0 || numbers.percent > 100)) {
+      return setError("Percentual precisa ser entre 1 e 100.");
+    }
+    if (kind === "fixed" && numbers.amountYen <= 0) {
+      return setError("Informe o desconto em ienes.");
+    }
+    if (kind === "buy_x_get_y" && (!productId || numbers.buyQty <= 0 || numbers.freeQty <= 0)) {
+      return setError("Leve X, ganhe Y precisa do produto e das quantidades.");
+    }
+    if (limit !== null && (!Number.isInteger(limit) || limit <= 0)) {
+      return setError("Limite de usos inválido.");
+    }
+    if ((startsAt && !start) || (expiresAt && !end) || (start && end && start >= end)) {
+      return setError("Datas de início/fim inválidas.");
+    }
+    if (cleanCode && promotions.some((p) => p.code === cleanCode && p.id !== editingId)) {
+      return setError("Já existe uma promoção com esse código.");
+    }
+
+    const payload = {
+      name: name.trim(),
+      code: cleanCode || null,
+      kind,
+      ...numbers,
+      productId: productId || null,
+      eventId: eventId || null,
+      maxUses: limit,
+      startsAt: start ? Timestamp.fromDate(start) : null,
+      expiresAt: end ? Timestamp.fromDate(end) : null,
+      updatedAt: serverTimestamp(),
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await updateDoc(doc(db, "promotions", editingId), payload);
+      } else {
+        await addDoc(collection(db, "promotions"), {
+          ...payload,
+          active: true,
+          usedCount: 0,
+          sellerId: user?.uid ?? null,
+          createdAt: serverTimestamp(),
+        });
+      }
+      resetForm();
+      setSuccessMessage("Promoção salva!");
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao salvar promoção.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (p: Promotion) => {
+    setEditingId(p.id);
+    setName(p.name);
+    setCode(p.code ?? "");
+    setKind(p.kind);
+    setPercent(String(p.percent || ""));
+    setAmountYen(String(p.amountYen || ""));
+    setBuyQty(String(p.buyQty || ""));
+    setFreeQty(String(p.freeQty || ""));
+    setProductId(p.productId ?? "");
+    setEventId(p.eventId ?? "");
+    setMinSubtotalYen(p.minSubtotalYen ? String(p.minSubtotalYen) : "");
+    setMaxUses(p.maxUses !== null ? String(p.maxUses) : "");
+    setStartsAt(dateToTokyoInput(p.startsAt));
+    setExpiresAt(dateToTokyoInput(p.expiresAt));
+    setError(null);
+    setSuccessMessage(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleToggleActive = async (p: Promotion) => {
+    try {
+      await updateDoc(doc(db, "promotions", p.id), {
+        active: !p.active,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao atualizar promoção.");
+    }
+  };
+
+  const handleDelete = async (p: Promotion) => {
+    if (!confirm(`Excluir a promoção "${p.name}"? Pedidos já feitos mantêm o desconto.`)) return;
+    try {
+      await deleteDoc(doc(db, "promotions", p.id));
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao excluir promoção.");
+    }
+  };
+
+  if (checkingAuth) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  const eventName = (id: string | null) =>
+    id ? events.find((e) => e.id === id)?.name ?? id : "Todos os eventos";
+  const productName = (id: string | null) =>
+    id ? products.find((p) => p.id === id)?.name ?? id : "Pedido todo";
+
+  return (
+    <main className="space-y-8">
+      {/* TOPO */}
+      <header className="flex justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Promoções</h1>
+          <p className="text-xs text-neutral-600">
+            Sem código = automática (vale sozinha para quem atende as regras).
+            Com código = só para quem digitar na página do evento.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+          >
+            Voltar
+          </button>
+        </div>
+      </header>
+
+      {/* FORM */}
+      <section className="bg-white p-5 rounded-2xl border shadow-sm space-y-4">
+        <h2 className="font-semibold text-sm">
+          {editingId ? "Editar promoção" : "Nova promoção"}
+        </h2>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="text-xs">Nome (aparece no pedido)</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              placeholder="Ex: 10% off Hamamatsu"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Código (vazio = automática)</label>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm uppercase"
+              placeholder="Ex: HAMAMATSU10"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Tipo</label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as PromotionKind)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              {(Object.keys(PROMOTION_KIND_LABELS) as PromotionKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {PROMOTION_KIND_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {kind === "percent" && (
+            <div>
+              <label className="text-xs">Percentual (%)</label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+          )}
+
+          {kind === "fixed" && (
+            <div>
+              <label className="text-xs">Desconto (¥)</label>
+              <input
+                type="number"
+                min={1}
+                value={amountYen}
+                onChange={(e) => setAmountYen(e.target.value)}
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+          )}
+
+          {kind === "buy_x_get_y" && (
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="text-xs">Paga (X)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={buyQty}
+                  onChange={(e) => setBuyQty(e.target.value)}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="text-xs">Ganha (Y)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={freeQty}
+                  onChange={(e) => setFreeQty(e.target.value)}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs">
+              Produto {kind === "buy_x_get_y" ? "(obrigatório)" : "(opcional)"}
+            </label>
+            <select
+              value={productId}
+              onChange={(e) => setProductId(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Pedido todo</option>
+              {products.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-xs">Evento</label>
+            <select
+              value={eventId}
+              onChange={(e) => setEventId(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Todos os eventos</option>
+              {events.map((ev) => (
+                <option key={ev.id} value={ev.id}>
+                  {ev.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-xs">Pedido mínimo (¥, opcional)</label>
+            <input
+              type="number"
+              min={0}
+              value={minSubtotalYen}
+              onChange={(e) => setMinSubtotalYen(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Limite de usos (vazio = sem limite)</label>
+            <input
+              type="number"
+              min={1}
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Começa em (horário do Japão, opcional)</label>
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs">Expira em (horário do Japão, opcional)</label>
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {successMessage && <p className="text-xs text-green-700">{successMessage}</p>}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={saving}
+            className="bg-black text-white text-xs px-4 py-2 rounded-full disabled:opacity-60"
+          >
+            {saving ? "Salvando..." : "Salvar promoção"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-xs px-4 py-2 rounded-full border"
+            >
+              Cancelar edição
+            </button>
+          )}
+        </div>
+      </section>
+
+      {/* LISTA */}
+      <section className="space-y-2">
+        {promotions.length === 0 ? (
+          <p className="text-xs text-neutral-500">Nenhuma promoção cadastrada.</p>
+        ) : (
+          promotions.map((p) => (
+            <div
+              key={p.id}
+              className={`rounded-xl border bg-white p-3 text-xs space-y-1 ${
+                p.active ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-semibold">
+                  {p.name} · {describePromotion(p)}{" "}
+                  <span className="font-normal text-neutral-500">
+                    {p.code ? `código ${p.code}` : "automática"}
+                  </span>
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void handleToggleActive(p)}
+                    className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+                  >
+                    {p.active ? "Desativar" : "Ativar"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(p)}
+                    className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+                  >
+                    Editar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(p)}
+                    className="rounded-full border border-red-300 px-3 py-1 text-red-600 hover:bg-red-50"
+                  >
+                    Excluir
+                  </button>
+                </div>
+              </div>
+              <p className="text-neutral-600">
+                {eventName(p.eventId)} · {productName(p.productId)}
+                {p.minSubtotalYen > 0 &&
+                  ` · mín. ¥${p.minSubtotalYen.toLocaleString("ja-JP")}`}
+                {" · "}usos: {p.usedCount}
+                {p.maxUses !== null ? `/${p.maxUses}` : ""}
+                {p.startsAt && ` · de ${formatTokyoDateTime(p.startsAt)}`}
+                {p.expiresAt && ` · até ${formatTokyoDateTime(p.expiresAt)}`}
+              </p>
+            </div>
+          ))
+        )}
+      </section>
+    </main>
+  );
+}
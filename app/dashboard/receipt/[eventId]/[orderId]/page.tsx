@@ -0,0 +1,297 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth, db } from "@/lib/firebase";
+import { onAuthStateChanged } from "firebase/auth";
+import { doc, getDoc } from "firebase/firestore";
+import {
+  isOrderStatus,
+  lineItemName,
+  readOrderItems,
+  type OrderLineItem,
+  type OrderStatus,
+} from "@/lib/orders";
+import { isFullyPaid, readPaidYen } from "@/lib/payments";
+import {
+  computeTaxBreakdown,
+  INVOICE_NUMBER_RE,
+  readTaxBreakdown,
+  readTaxRate,
+  type TaxBreakdownLine,
+} from "@/lib/tax";
+import { tokyoDateKey } from "@/lib/lots";
+
+type Props = {
+  params: Promise<{ eventId: string; orderId: string }>;
+};
+
+type ReceiptData = {
+  sellerName: string;
+  invoiceNumber: string | null;
+  eventTitle: string;
+  customerName: string;
+  items: OrderLineItem[];
+  discounts: Array<{ label: string; amountYen: number }>;
+  deliveryFeeYen: number;
+  amountYen: number;
+  taxBreakdown: TaxBreakdownLine[];
+  /** pedido sem `taxBreakdown` gravado (anterior ao consumo por alíquota) */
+  estimated: boolean;
+  soldAtMs: number | null;
+  status: OrderStatus;
+  paidYen: number;
+};
+
+const formatYen = (n: number) => `¥${(n ?? 0).toLocaleString("ja-JP")}`;
+
+/** "AAAA-MM-DD" → "2026年10月19日" */
+const formatJpDate = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return `${y}年${m}月${d}日`;
+};
+
+export default function ReceiptPage({ params }: Props) {
+  const { eventId, orderId } = use(params);
+  const router = useRouter();
+
+  const [checkingAuth, setCheckingAuth] = useState(true);
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [issuedAtMs] = useState(() => Date.now());
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  // 🔹 pedido + evento + vendedor
+  useEffect(() => {
+    if (checkingAuth) return;
+
+    const load = async () => {
+      try {
+        const [orderSnap, eventSnap] = await Promise.all([
+          getDoc(doc(db, "events", eventId, "orders", orderId)),
+          getDoc(doc(db, "events", eventId)),
+        ]);
+        if (!orderSnap.exists() || !eventSnap.exists()) {
+          setError("Pedido não encontrado.");
+          return;
+        }
+        const order = orderSnap.data();
+        const event = eventSnap.data();
+        const sellerSnap = event.sellerId
+          ? await getDoc(doc(db, "sellers", event.sellerId))
+          : null;
+        const seller = sellerSnap?.exists() ? sellerSnap.data() : null;
+
+        const { items } = readOrderItems(order);
+        const discounts = Array.isArray(order.discounts)
+          ? order.discounts
+              .filter((d: any) => d && Number(d.amountYen) > 0)
+              .map((d: any) => ({ label: String(d.label || "Desconto"), amountYen: Number(d.amountYen) }))
+          : [];
+        const discountYen = Number(order.discountYen) || 0;
+        const deliveryFeeYen = Number(order.deliveryFeeYen) || 0;
+        const saved = readTaxBreakdown(order.taxBreakdown);
+        const invoiceNumber = String(seller?.invoiceNumber || "");
+        const amountYen =
+          typeof order.amountYen === "number"
+            ? order.amountYen
+            : items.reduce((sum, it) => sum + it.lineTotalYen, 0) - discountYen + deliveryFeeYen;
+
+        setReceipt({
+          sellerName: String(seller?.name || event.sellerNameSnapshot || ""),
+          invoiceNumber: INVOICE_NUMBER_RE.test(invoiceNumber) ? invoiceNumber : null,
+          eventTitle: String(event.title || ""),
+          customerName: String(order.customerName || ""),
+          items,
+          discounts,
+          deliveryFeeYen,
+          amountYen,
+          taxBreakdown: saved ?? computeTaxBreakdown(items, discountYen, deliveryFeeYen),
+          estimated: saved === null,
+          soldAtMs: order.paidAt?.toMillis?.() ?? order.createdAt?.toMillis?.() ?? null,
+          status: isOrderStatus(order.status) ? order.status : "pending",
+          paidYen: readPaidYen({ ...order, amountYen }),
+        });
+      } catch (err) {
+        console.error(err);
+        setError("Erro ao carregar o pedido.");
+      }
+    };
+
+    void load();
+  }, [checkingAuth, eventId, orderId]);
+
+  if (checkingAuth || (!receipt && !error)) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <main className="space-y-2">
+        <h1 className="text-xl font-bold">Erro</h1>
+        <p className="text-sm text-red-600">{error}</p>
+      </main>
+    );
+  }
+
+  const hasReduced = receipt.items.some((it) => readTaxRate(it.taxRate) === 8);
+  // recibo declara o total como recebido: só pedido quitado e não cancelado
+  const printable =
+    receipt.status !== "cancelled" && isFullyPaid(receipt.amountYen, receipt.paidYen);
+
+  return (
+    <main className="space-y-4">
+      <header className="flex items-center justify-between gap-2 print:hidden">
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+        >
+          Voltar
+        </button>
+        {printable && (
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="bg-black text-white text-xs px-4 py-2 rounded-full"
+          >
+            Imprimir / salvar PDF
+          </button>
+        )}
+      </header>
+
+      {!printable && (
+        <p className="rounded-xl border border-red-300 bg-red-50 p-3 text-xs text-red-900 print:hidden">
+          {receipt.status === "cancelled"
+            ? "Pedido cancelado: não dá para emitir recibo."
+            : `Pedido não quitado (pago ${formatYen(receipt.paidYen)} de ${formatYen(
+                receipt.amountYen
+              )}): registre o pagamento antes de emitir o recibo.`}
+        </p>
+      )}
+
+      {!receipt.invoiceNumber && (
+        <p className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900 print:hidden">
+          Vendedor sem nº de registro: o recibo não vale como fatura qualificada (適格請求書).
+          Cadastre o número no painel.
+        </p>
+      )}
+      {receipt.estimated && (
+        <p className="rounded-xl border border-blue-200 bg-blue-50 p-3 text-xs text-blue-900 print:hidden">
+          Pedido anterior ao consumo por alíquota: o imposto foi calculado agora, pela alíquota
+          gravada em cada item (sem ela, 8%).
+        </p>
+      )}
+
+      <section
+        className={`mx-auto max-w-md space-y-4 bg-white p-6 text-sm text-black print:max-w-none print:p-0 ${
+          printable ? "" : "opacity-50 print:hidden"
+        }`}
+      >
+        <div className="text-center space-y-1">
+          <h1 className="text-xl font-bold tracking-widest">
+            {receipt.invoiceNumber ? "領収書（適格簡易請求書）" : "領収書"}
+          </h1>
+          <p className="text-[11px] text-neutral-500">Recibo</p>
+        </div>
+
+        <div className="flex items-end justify-between gap-2 border-b pb-2">
+          <p className="text-base font-semibold">{receipt.customerName || "　　　　"} 様</p>
+          <div className="text-right text-[11px]">
+            <p>No. {orderId.slice(0, 10).toUpperCase()}</p>
+            <p>発行日 {formatJpDate(tokyoDateKey(issuedAtMs))}</p>
+          </div>
+        </div>
+
+        <div className="text-center">
+          <p className="text-2xl font-bold">{formatYen(receipt.amountYen)}-</p>
+          <p className="text-[11px] text-neutral-500">（税込）</p>
+        </div>
+
+        <p className="text-[11px]">
+          取引日 {receipt.soldAtMs ? formatJpDate(tokyoDateKey(receipt.soldAtMs)) : "—"}
+          {receipt.eventTitle && ` ・ ${receipt.eventTitle}`}
+        </p>
+
+        <table className="w-full text-xs">
+          <thead className="border-b text-left">
+            <tr>
+              <th className="py-1">品名</th>
+              <th className="py-1 text-right">数量</th>
+              <th className="py-1 text-right">金額</th>
+            </tr>
+          </thead>
+          <tbody>
+            {receipt.items.map((it, index) => (
+              <tr key={index}>
+                <td className="py-1">
+                  {lineItemName(it)}
+                  {readTaxRate(it.taxRate) === 8 && " ※"}
+                </td>
+                <td className="py-1 text-right">{it.qty}</td>
+                <td className="py-1 text-right">{formatYen(it.lineTotalYen)}</td>
+              </tr>
+            ))}
+            {receipt.discounts.map((d, index) => (
+              <tr key={`d-${index}`}>
+                <td className="py-1" colSpan={2}>
+                  値引 {d.label}
+                </td>
+                <td className="py-1 text-right">-{formatYen(d.amountYen)}</td>
+              </tr>
+            ))}
+            {receipt.deliveryFeeYen > 0 && (
+              <tr>
+                <td className="py-1" colSpan={2}>
+                  配送料
+                </td>
+                <td className="py-1 text-right">{formatYen(receipt.deliveryFeeYen)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        <div className="border-t pt-2 space-y-1 text-xs">
+          {receipt.taxBreakdown.map((line) => (
+            <div key={line.rate} className="flex justify-between">
+              <span>
+                {line.rate}%対象{line.rate === 8 ? "（軽減税率）" : ""}
+              </span>
+              <span>
+                {formatYen(line.totalYen)}（内消費税 {formatYen(line.taxYen)}）
+              </span>
+            </div>
+          ))}
+          {hasReduced && (
+            <p className="text-[11px] text-neutral-600">※ は軽減税率（8%）対象商品です。</p>
+          )}
+          {receipt.discounts.length > 0 && (
+            <p className="text-[11px] text-neutral-600">
+              値引は各税率の対象額に按分しています。
+            </p>
+          )}
+        </div>
+
+        <div className="border-t pt-2 text-xs space-y-0.5">
+          <p className="font-semibold">{receipt.sellerName}</p>
+          {receipt.invoiceNumber && <p>登録番号 {receipt.invoiceNumber}</p>}
+          <p className="pt-1">上記の金額を正に領収いたしました。</p>
+        </div>
+      </section>
+    </main>
+  );
+}
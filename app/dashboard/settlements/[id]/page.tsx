@@ -0,0 +1,247 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth } from "@/lib/firebase";
+import { onAuthStateChanged } from "firebase/auth";
+import { doc, getDoc } from "firebase/firestore";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "@/lib/payments";
+import { readDriverSettlement, settlementsRef, type DriverSettlement } from "@/lib/settlements";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+const formatYen = (n: number) => `¥${(n ?? 0).toLocaleString("ja-JP")}`;
+
+const formatSignedYen = (n: number) =>
+  `${n > 0 ? "+" : n < 0 ? "−" : ""}${formatYen(Math.abs(n))}`;
+
+const toCsv = (rows: string[][]) => {
+  const esc = (v: string) => {
+    const s = String(v ?? "");
+    if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+    return s;
+  };
+  return rows.map((r) => r.map(esc).join(",")).join("\n");
+};
+
+const downloadTextFile = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+export default function SettlementSlipPage({ params }: Props) {
+  const { id } = use(params);
+  const router = useRouter();
+
+  const [checkingAuth, setCheckingAuth] = useState(true);
+  const [settlement, setSettlement] = useState<DriverSettlement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  useEffect(() => {
+    if (checkingAuth) return;
+
+    const load = async () => {
+      try {
+        const snap = await getDoc(doc(settlementsRef(), id));
+        if (!snap.exists()) {
+          setError("Acerto não encontrado.");
+          return;
+        }
+        setSettlement(readDriverSettlement(snap.id, snap.data()));
+      } catch (err) {
+        console.error(err);
+        setError("Erro ao carregar o acerto.");
+      }
+    };
+
+    void load();
+  }, [checkingAuth, id]);
+
+  const exportCsv = (s: DriverSettlement) => {
+    const rows: string[][] = [
+      [
+        "settlementId",
+        "driverName",
+        "deliveryDate",
+        "eventTitle",
+        "orderId",
+        "customerName",
+        "amountYen",
+        ...PAYMENT_METHODS.map((m) => `${m}Yen`),
+        "openBalanceYen",
+      ],
+    ];
+    s.orders.forEach((o) => {
+      rows.push([
+        s.id,
+        s.driverName,
+        o.deliveryDate,
+        o.eventTitle,
+        o.orderId,
+        o.customerName,
+        String(o.amountYen),
+        ...PAYMENT_METHODS.map((m) => String(o.byMethod[m])),
+        String(o.openBalanceYen),
+      ]);
+    });
+    rows.push([]);
+    rows.push(["expectedCashYen", String(s.expectedCashYen)]);
+    rows.push(["declaredCashYen", String(s.declaredCashYen)]);
+    rows.push(["differenceYen", String(s.differenceYen)]);
+
+    downloadTextFile(
+      `yamada-acerto-${s.driverName.replace(/\s+/g, "-")}-${
+        s.createdAt ? s.createdAt.toISOString().slice(0, 10) : s.id
+      }.csv`,
+      toCsv(rows)
+    );
+  };
+
+  if (checkingAuth || (!settlement && !error)) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  if (!settlement) {
+    return (
+      <main className="space-y-2">
+        <h1 className="text-xl font-bold">Erro</h1>
+        <p className="text-sm text-red-600">{error}</p>
+      </main>
+    );
+  }
+
+  const s = settlement;
+
+  return (
+    <main className="space-y-4">
+      <header className="flex items-center justify-between gap-2 print:hidden">
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+        >
+          Voltar
+        </button>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => exportCsv(s)}
+            className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+          >
+            Baixar CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="bg-black text-white text-xs px-4 py-2 rounded-full"
+          >
+            Imprimir / salvar PDF
+          </button>
+        </div>
+      </header>
+
+      <section className="mx-auto max-w-2xl space-y-4 bg-white p-6 text-sm text-black print:max-w-none print:p-0">
+        <div className="space-y-1 text-center">
+          <h1 className="text-xl font-bold">Acerto do entregador</h1>
+          <p className="text-base font-semibold">{s.driverName}</p>
+          <p className="text-[11px] text-neutral-500">
+            {s.createdAt ? s.createdAt.toLocaleString("ja-JP") : "—"} · nº {s.id.slice(0, 10).toUpperCase()}
+            {s.userEmail && ` · fechado por ${s.userEmail}`}
+          </p>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead className="border-b text-left">
+            <tr>
+              <th className="py-1">Data</th>
+              <th className="py-1">Cliente</th>
+              <th className="py-1">Evento</th>
+              <th className="py-1 text-right">Total</th>
+              <th className="py-1 text-right">Recebido</th>
+            </tr>
+          </thead>
+          <tbody>
+            {s.orders.map((o) => (
+              <tr key={`${o.eventId}-${o.orderId}`} className="border-b last:border-0">
+                <td className="py-1">{o.deliveryDate || "-"}</td>
+                <td className="py-1">{o.customerName}</td>
+                <td className="py-1">{o.eventTitle}</td>
+                <td className="py-1 text-right">{formatYen(o.amountYen)}</td>
+                <td className="py-1 text-right">
+                  {[
+                    ...PAYMENT_METHODS.filter((m) => o.byMethod[m] !== 0).map(
+                      (m) => `${PAYMENT_METHOD_LABELS[m]} ${formatYen(o.byMethod[m])}`
+                    ),
+                    ...(o.openBalanceYen > 0
+                      ? [`Dinheiro na entrega ${formatYen(o.openBalanceYen)}`]
+                      : []),
+                  ].join(" · ") || "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-1 border-t pt-2 text-xs">
+          {PAYMENT_METHODS.filter((m) => s.byMethod[m] !== 0).map((m) => (
+            <div key={m} className="flex justify-between">
+              <span>{PAYMENT_METHOD_LABELS[m]}</span>
+              <span>{formatYen(s.byMethod[m])}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1 border-t pt-2">
+          <div className="flex justify-between">
+            <span>Dinheiro esperado</span>
+            <span className="font-semibold">{formatYen(s.expectedCashYen)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Dinheiro entregue</span>
+            <span className="font-semibold">{formatYen(s.declaredCashYen)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Diferença</span>
+            <span
+              className={`font-bold ${
+                s.differenceYen < 0 ? "text-red-700" : s.differenceYen > 0 ? "text-amber-700" : ""
+              }`}
+            >
+              {formatSignedYen(s.differenceYen)}
+            </span>
+          </div>
+          {s.note && <p className="pt-1 text-xs text-neutral-600">Obs: {s.note}</p>}
+        </div>
+
+        <div className="grid grid-cols-2 gap-6 pt-8 text-center text-xs">
+          <div className="border-t pt-1">Entregador</div>
+          <div className="border-t pt-1">Responsável</div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,438 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth, db } from "@/lib/firebase";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import {
+  collection,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  where,
+} from "firebase/firestore";
+import { readOrderItems, readOrderPricing } from "@/lib/orders";
+import {
+  orderBalanceYen,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  paymentsRef,
+  readOrderPayment,
+  readPaidYen,
+} from "@/lib/payments";
+import {
+  collectedByDriver,
+  driverKey,
+  expectedCashYen,
+  readDriverSettlement,
+  settleDriver,
+  settlementsRef,
+  sumByMethod,
+  type DriverOrderCollection,
+  type DriverSettlement,
+} from "@/lib/settlements";
+
+type DriverGroup = {
+  key: string;
+  driverName: string;
+  rows: DriverOrderCollection[];
+};
+
+const formatYen = (n: number) => `¥${(n ?? 0).toLocaleString("ja-JP")}`;
+
+export default function SettlementsPage() {
+  const router = useRouter();
+
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(true);
+
+  const [rows, setRows] = useState<Array<DriverOrderCollection & { driverName: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [settlements, setSettlements] = useState<DriverSettlement[]>([]);
+
+  const [filterDate, setFilterDate] = useState("");
+  // 🔹 por entregador (chave = driverKey): dinheiro entregue e observação
+  const [declaredCash, setDeclaredCash] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [settlingKey, setSettlingKey] = useState<string | null>(null);
+
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setUser(u);
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  // 🔁 acertos já fechados
+  useEffect(() => {
+    if (!user) return;
+    const q = query(settlementsRef(), orderBy("createdAt", "desc"), limit(30));
+    return onSnapshot(q, (snap) => {
+      setSettlements(snap.docs.map((d) => readDriverSettlement(d.id, d.data())));
+    });
+  }, [user]);
+
+  /** Pedidos entregues com entregador e ainda sem acerto, com os pagamentos de cada um */
+  const loadRows = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const eventsSnap = await getDocs(collection(db, "events"));
+      const found: Array<DriverOrderCollection & { driverName: string }> = [];
+
+      for (const ev of eventsSnap.docs) {
+        const ordersSnap = await getDocs(
+          query(collection(db, "events", ev.id, "orders"), where("status", "==", "delivered"))
+        );
+        const pending = ordersSnap.docs.filter((d) => {
+          const data = d.data();
+          return String(data.deliveryDriverName || "").trim() && !data.settlementId;
+        });
+
+        const withPayments = await Promise.all(
+          pending.map(async (d) => {
+            const paymentsSnap = await getDocs(paymentsRef(ev.id, d.id));
+            return { d, payments: paymentsSnap.docs.map((p) => readOrderPayment(p.id, p.data())) };
+          })
+        );
+
+        withPayments.forEach(({ d, payments }) => {
+          const data = d.data();
+          const { items } = readOrderItems(data);
+          const amountYen = readOrderPricing(data, items).totalYen;
+          const paidYen = readPaidYen({ ...data, amountYen });
+          const driverName = String(data.deliveryDriverName).trim();
+          found.push({
+            eventId: ev.id,
+            orderId: d.id,
+            eventTitle: String(ev.data().title || ""),
+            customerName: String(data.customerName || ""),
+            deliveryDate: String(data.deliveryDate || ""),
+            amountYen,
+            byMethod: collectedByDriver(payments, driverName),
+            openBalanceYen: Math.max(orderBalanceYen(amountYen, paidYen), 0),
+            driverName,
+          });
+        });
+      }
+
+      found.sort(
+        (a, b) =>
+          a.deliveryDate.localeCompare(b.deliveryDate) ||
+          a.customerName.localeCompare(b.customerName, "pt-BR")
+      );
+      setRows(found);
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao carregar entregas. Verifique permissões.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    void loadRows();
+  }, [user]);
+
+  const uniqueDates = useMemo(
+    () => Array.from(new Set(rows.map((r) => r.deliveryDate).filter(Boolean))).sort(),
+    [rows]
+  );
+
+  const groups = useMemo(() => {
+    const byDriver = new Map<string, DriverGroup>();
+    rows
+      .filter((r) => !filterDate || r.deliveryDate === filterDate)
+      .forEach(({ driverName, ...row }) => {
+        const key = driverKey(driverName);
+        const group = byDriver.get(key) ?? { key, driverName, rows: [] };
+        group.rows.push(row);
+        byDriver.set(key, group);
+      });
+    return Array.from(byDriver.values()).sort((a, b) =>
+      a.driverName.localeCompare(b.driverName, "pt-BR")
+    );
+  }, [rows, filterDate]);
+
+  const handleSettle = async (group: DriverGroup) => {
+    setError(null);
+    setSuccessMessage(null);
+
+    const raw = (declaredCash[group.key] ?? "").trim();
+    if (!raw) {
+      setError(`Informe quanto ${group.driverName} entregou em dinheiro.`);
+      return;
+    }
+    const declared = Number(raw.replace(",", "."));
+    const expected = expectedCashYen(group.rows);
+    const confirmed = window.confirm(
+      `Fechar o acerto de ${group.driverName}? ${group.rows.length} pedido(s), esperado ${formatYen(
+        expected
+      )}, entregue ${formatYen(declared)}. Os pedidos ficam travados.`
+    );
+    if (!confirmed) return;
+
+    setSettlingKey(group.key);
+    try {
+      const id = await settleDriver(group.driverName, group.rows, declared, notes[group.key] ?? "");
+      setDeclaredCash((prev) => ({ ...prev, [group.key]: "" }));
+      setNotes((prev) => ({ ...prev, [group.key]: "" }));
+      setSuccessMessage(`Acerto de ${group.driverName} fechado.`);
+      window.open(`/dashboard/settlements/${id}`, "_blank", "noopener");
+      await loadRows();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || "Erro ao fechar o acerto.");
+      await loadRows();
+    } finally {
+      setSettlingKey(null);
+    }
+  };
+
+  if (checkingAuth) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="space-y-8">
+      {/* TOPO */}
+      <header className="flex justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Acerto dos entregadores</h1>
+          <p className="text-xs text-neutral-600">
+            Pedidos entregues, por entregador (nome registrado no painel de entregas).
+            Saldo em aberto conta como dinheiro cobrado na entrega. Ao fechar o acerto, o
+            saldo vira pagamento em dinheiro e os pedidos ficam travados.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+          >
+            Voltar
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => void loadRows()}
+          className="rounded-full border border-neutral-300 px-3 py-1 hover:bg-neutral-100"
+        >
+          Atualizar
+        </button>
+        <label className="flex items-center gap-1">
+          <span className="text-neutral-600">Data:</span>
+          <select
+            className="rounded-md border px-2 py-1"
+            value={filterDate}
+            onChange={(e) => setFilterDate(e.target.value)}
+          >
+            <option value="">Todas</option>
+            {uniqueDates.map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {successMessage && <p className="text-xs text-green-700">{successMessage}</p>}
+
+      {/* PENDENTES POR ENTREGADOR */}
+      <section className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-neutral-600">Carregando entregas...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-neutral-600">Nenhuma entrega aguardando acerto.</p>
+        ) : (
+          groups.map((group) => {
+            const totals = sumByMethod(group.rows);
+            const open = group.rows.reduce((sum, r) => sum + r.openBalanceYen, 0);
+            const expected = expectedCashYen(group.rows);
+            const raw = (declaredCash[group.key] ?? "").trim();
+            const difference = raw ? Number(raw.replace(",", ".")) - expected : null;
+
+            return (
+              <div key={group.key} className="space-y-3 rounded-xl border bg-white p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h2 className="text-lg font-semibold">{group.driverName}</h2>
+                  <span className="text-xs text-neutral-500">
+                    {group.rows.length} pedido(s) entregue(s)
+                  </span>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="border-b text-left text-neutral-500">
+                      <tr>
+                        <th className="p-1">Data</th>
+                        <th className="p-1">Cliente</th>
+                        <th className="p-1">Evento</th>
+                        <th className="p-1 text-right">Total</th>
+                        {PAYMENT_METHODS.map((m) => (
+                          <th key={m} className="p-1 text-right">
+                            {PAYMENT_METHOD_LABELS[m]}
+                          </th>
+                        ))}
+                        <th className="p-1 text-right">Em aberto</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.rows.map((r) => (
+                        <tr key={`${r.eventId}-${r.orderId}`} className="border-b last:border-0">
+                          <td className="p-1">{r.deliveryDate || "-"}</td>
+                          <td className="p-1">{r.customerName}</td>
+                          <td className="p-1">{r.eventTitle}</td>
+                          <td className="p-1 text-right">{formatYen(r.amountYen)}</td>
+                          {PAYMENT_METHODS.map((m) => (
+                            <td key={m} className="p-1 text-right">
+                              {r.byMethod[m] ? formatYen(r.byMethod[m]) : "-"}
+                            </td>
+                          ))}
+                          <td className="p-1 text-right text-amber-700">
+                            {r.openBalanceYen ? formatYen(r.openBalanceYen) : "-"}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="border-t font-semibold">
+                        <td className="p-1" colSpan={3}>
+                          Total
+                        </td>
+                        <td className="p-1 text-right">
+                          {formatYen(group.rows.reduce((sum, r) => sum + r.amountYen, 0))}
+                        </td>
+                        {PAYMENT_METHODS.map((m) => (
+                          <td key={m} className="p-1 text-right">
+                            {formatYen(totals[m])}
+                          </td>
+                        ))}
+                        <td className="p-1 text-right text-amber-700">{formatYen(open)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="grid gap-3 text-xs sm:grid-cols-4">
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Dinheiro esperado</p>
+                    <p className="text-lg font-bold">{formatYen(expected)}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[11px]">Dinheiro entregue (¥)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-full rounded-md border px-2 py-1.5"
+                      value={declaredCash[group.key] ?? ""}
+                      onChange={(e) =>
+                        setDeclaredCash((prev) => ({ ...prev, [group.key]: e.target.value }))
+                      }
+                      placeholder={String(expected)}
+                    />
+                  </div>
+                  <div className="rounded-lg border p-2">
+                    <p className="text-neutral-500">Diferença</p>
+                    <p
+                      className={`text-lg font-bold ${
+                        difference === null || difference === 0
+                          ? ""
+                          : difference < 0
+                          ? "text-red-700"
+                          : "text-amber-700"
+                      }`}
+                    >
+                      {difference === null
+                        ? "—"
+                        : `${difference > 0 ? "+" : difference < 0 ? "−" : ""}${formatYen(
+                            Math.abs(difference)
+                          )}`}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[11px]">Observação</label>
+                    <input
+                      className="w-full rounded-md border px-2 py-1.5"
+                      value={notes[group.key] ?? ""}
+                      onChange={(e) =>
+                        setNotes((prev) => ({ ...prev, [group.key]: e.target.value }))
+                      }
+                      placeholder="Ex: faltou troco de ¥500"
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => void handleSettle(group)}
+                  disabled={settlingKey !== null}
+                  className="rounded-full bg-black px-4 py-2 text-xs text-white disabled:opacity-60"
+                >
+                  {settlingKey === group.key ? "Fechando..." : "Fechar acerto"}
+                </button>
+              </div>
+            );
+          })
+        )}
+      </section>
+
+      {/* ACERTOS FECHADOS */}
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Acertos fechados</h2>
+        {settlements.length === 0 ? (
+          <p className="text-xs text-neutral-500">Nenhum acerto fechado ainda.</p>
+        ) : (
+          <ul className="divide-y rounded-xl border bg-white text-xs">
+            {settlements.map((s) => (
+              <li key={s.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+                <div>
+                  <p className="font-semibold">{s.driverName}</p>
+                  <p className="text-neutral-500">
+                    {s.createdAt ? s.createdAt.toLocaleString("ja-JP") : "—"} · {s.orders.length}{" "}
+                    pedido(s) · dinheiro {formatYen(s.declaredCashYen)}
+                    {s.differenceYen !== 0 && (
+                      <span className={s.differenceYen < 0 ? "text-red-700" : "text-amber-700"}>
+                        {" "}
+                        (diferença {s.differenceYen > 0 ? "+" : "−"}
+                        {formatYen(Math.abs(s.differenceYen))})
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <a
+                  href={`/dashboard/settlements/${s.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+                >
+                  Comprovante
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
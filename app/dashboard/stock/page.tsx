@@ -0,0 +1,526 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth, db } from "@/lib/firebase";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import { collection, limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import { formatTokyoDateTime } from "@/lib/events";
+import { readOptionGroups, variantLabel, type ProductOptionGroup } from "@/lib/variants";
+import {
+  daysUntil,
+  EXPIRY_WARNING_DAYS,
+  formatLotDate,
+  lotsTotal,
+  readStockLots,
+  tokyoDateKey,
+  type StockLot,
+} from "@/lib/lots";
+import {
+  changeStock,
+  readStockMovement,
+  STOCK_MOVEMENT_LABELS,
+  stockMovementsRef,
+  type StockChange,
+  type StockMovement,
+} from "@/lib/stock";
+
+type StockProduct = {
+  id: string;
+  name: string;
+  stockQty: number | null;
+  optionGroups: ProductOptionGroup[];
+  variantStocks: Record<string, number>;
+  lots: StockLot[];
+};
+
+/** Tipos que o painel registra à mão */
+type ManualKind = "recount" | "production" | "waste";
+
+const MANUAL_KIND_LABELS: Record<ManualKind, string> = {
+  recount: "Recontagem (contei o estoque)",
+  production: "Produção (entrou no estoque)",
+  waste: "Perda (estragou, caiu, degustação)",
+};
+
+/** Histórico mostra os últimos movimentos do produto */
+const HISTORY_LIMIT = 200;
+
+export default function StockPage() {
+  const router = useRouter();
+
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(true);
+
+  const [products, setProducts] = useState<StockProduct[]>([]);
+  const [productId, setProductId] = useState("");
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+
+  // Form
+  const [kind, setKind] = useState<ManualKind>("recount");
+  const [variantKey, setVariantKey] = useState("");
+  const [qty, setQty] = useState("");
+  const [note, setNote] = useState("");
+  // 🔹 lote: produção com validade vira lote novo; perda pode sair de um lote escolhido
+  const [madeOn, setMadeOn] = useState(() => tokyoDateKey(Date.now()));
+  const [bestBefore, setBestBefore] = useState("");
+  const [lotId, setLotId] = useState("");
+
+  // 🔹 "hoje" dos alertas de validade (fixado ao abrir a página)
+  const [openedAtMs] = useState(() => Date.now());
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setUser(u);
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  // 🔁 PRODUTOS (estoque atual)
+  useEffect(() => {
+    if (!user) return;
+
+    return onSnapshot(collection(db, "products"), (snap) => {
+      setProducts(
+        snap.docs
+          .map((d) => {
+            const data = d.data();
+            const variantStocks =
+              data.variantStocks && typeof data.variantStocks === "object"
+                ? data.variantStocks
+                : {};
+            return {
+              id: d.id,
+              name: String(data.name || d.id),
+              stockQty: typeof data.stockQty === "number" ? data.stockQty : null,
+              optionGroups: readOptionGroups(data.optionGroups),
+              variantStocks: Object.fromEntries(
+                Object.entries(variantStocks).filter(([, v]) => typeof v === "number")
+              ) as Record<string, number>,
+              lots: readStockLots(data.lots),
+            };
+          })
+          .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"))
+      );
+    });
+  }, [user]);
+
+  // 🔁 HISTÓRICO do produto escolhido (mais recentes primeiro)
+  useEffect(() => {
+    if (!user || !productId) return;
+
+    const q = query(
+      stockMovementsRef(productId),
+      orderBy("createdAt", "desc"),
+      limit(HISTORY_LIMIT)
+    );
+    return onSnapshot(q, (snap) => {
+      setMovements(snap.docs.map((d) => readStockMovement(d.id, d.data())));
+    });
+  }, [user, productId]);
+
+  const selected = products.find((p) => p.id === productId) ?? null;
+  const variantKeys = selected ? Object.keys(selected.variantStocks) : [];
+  const currentStock = selected
+    ? variantKey
+      ? selected.variantStocks[variantKey] ?? null
+      : selected.stockQty
+    : null;
+
+  const selectProduct = (id: string) => {
+    setProductId(id);
+    setMovements([]);
+    setVariantKey("");
+    setQty("");
+    setNote("");
+    setBestBefore("");
+    setLotId("");
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setError(null);
+    setSuccessMessage(null);
+
+    const n = Number(qty);
+    if (qty.trim() === "" || !Number.isInteger(n) || n < 0) {
+      return setError("Use um número inteiro (0 ou mais).");
+    }
+    if (kind !== "recount" && n === 0) {
+      return setError("Informe a quantidade.");
+    }
+    if (kind === "waste" && !note.trim()) {
+      return setError("Descreva o motivo da perda.");
+    }
+    const withLot = kind === "production" && !variantKey && bestBefore !== "";
+    if (withLot && (!madeOn || bestBefore < madeOn)) {
+      return setError("Validade precisa ser depois da data de produção.");
+    }
+
+    const base = {
+      variantKey: variantKey || null,
+      note,
+      ...(withLot ? { lot: { madeOn, bestBefore } } : {}),
+      ...(kind === "waste" && lotId && !variantKey ? { lotId } : {}),
+    };
+    const change: StockChange =
+      kind === "recount"
+        ? { ...base, type: "adjustment", countedQty: n }
+        : { ...base, type: kind, delta: kind === "waste" ? -n : n };
+
+    setSaving(true);
+    try {
+      await changeStock(selected.id, [change]);
+      setQty("");
+      setNote("");
+      setBestBefore("");
+      setLotId("");
+      setSuccessMessage(
+        kind === "recount" && currentStock === n
+          ? "Estoque confere, nada a ajustar."
+          : "Estoque atualizado!"
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || "Erro ao atualizar estoque.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (checkingAuth) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  const labelOf = (key: string | null) =>
+    key && selected ? variantLabel(selected.optionGroups, key) : "";
+  const lotLabel = (lot: StockLot) =>
+    `fab. ${formatLotDate(lot.madeOn)} · val. ${formatLotDate(lot.bestBefore)}`;
+  const daysLabel = (days: number) =>
+    days < 0 ? "vencido" : days === 0 ? "vence hoje" : `${days} dia${days > 1 ? "s" : ""}`;
+  const expiringLots = products
+    .flatMap((p) =>
+      p.lots.map((lot) => ({ product: p, lot, days: daysUntil(lot.bestBefore, openedAtMs) }))
+    )
+    .filter((l) => l.days <= EXPIRY_WARNING_DAYS)
+    .sort((a, b) => a.days - b.days);
+  const recountDiff =
+    kind === "recount" && qty.trim() !== "" && Number.isInteger(Number(qty))
+      ? Number(qty) - (currentStock ?? 0)
+      : null;
+
+  return (
+    <main className="space-y-8">
+      {/* TOPO */}
+      <header className="flex justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Estoque</h1>
+          <p className="text-xs text-neutral-600">
+            Toda mudança de estoque fica registrada: vendas, cancelamentos,
+            recontagens, produção e perdas, com quem fez e o saldo depois.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+          >
+            Voltar
+          </button>
+        </div>
+      </header>
+
+      {/* VALIDADE */}
+      {expiringLots.length > 0 && (
+        <section className="space-y-1 rounded-xl border border-amber-300 bg-amber-50 p-4 text-xs text-amber-900">
+          <p className="text-sm font-semibold">
+            Lotes vencidos ou vencendo em até {EXPIRY_WARNING_DAYS} dias
+          </p>
+          <ul className="list-inside list-disc">
+            {expiringLots.map(({ product, lot, days }) => (
+              <li key={`${product.id}-${lot.id}`}>
+                <button
+                  type="button"
+                  onClick={() => selectProduct(product.id)}
+                  className="underline"
+                >
+                  {product.name}
+                </button>{" "}
+                · {lot.qty} unid. · {lotLabel(lot)}{" "}
+                <span className="font-semibold">({daysLabel(days)})</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* PRODUTO + AJUSTE */}
+      <section className="bg-white p-5 rounded-2xl border shadow-sm space-y-4">
+        <div>
+          <label className="text-xs">Produto</label>
+          <select
+            value={productId}
+            onChange={(e) => selectProduct(e.target.value)}
+            className="w-full border rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">Escolha um produto</option>
+            {products.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name} ({p.stockQty ?? "sem controle"})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {selected && (
+          <>
+            <p className="text-xs text-neutral-600">
+              Estoque atual:{" "}
+              <span className="font-semibold">
+                {selected.stockQty ?? "sem controle"}
+              </span>
+              {variantKeys.map((key) => (
+                <span key={key}>
+                  {" · "}
+                  {labelOf(key)}: {selected.variantStocks[key]}
+                </span>
+              ))}
+            </p>
+
+            {selected.lots.length > 0 && (
+              <div className="space-y-1 text-xs">
+                <p className="font-semibold">
+                  Lotes (sai primeiro o mais antigo)
+                  {selected.stockQty !== null &&
+                    selected.stockQty > lotsTotal(selected.lots) &&
+                    ` · sem lote: ${selected.stockQty - lotsTotal(selected.lots)}`}
+                </p>
+                <ul className="divide-y rounded-md border">
+                  {selected.lots.map((lot) => {
+                    const days = daysUntil(lot.bestBefore, openedAtMs);
+                    return (
+                      <li key={lot.id} className="flex justify-between gap-2 px-3 py-1.5">
+                        <span>{lotLabel(lot)}</span>
+                        <span
+                          className={
+                            days <= EXPIRY_WARNING_DAYS ? "font-semibold text-red-600" : ""
+                          }
+                        >
+                          {lot.qty} unid. · {daysLabel(days)}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="text-xs">Tipo</label>
+                <select
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as ManualKind)}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                >
+                  {(Object.keys(MANUAL_KIND_LABELS) as ManualKind[]).map((k) => (
+                    <option key={k} value={k}>
+                      {MANUAL_KIND_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {variantKeys.length > 0 && (
+                <div>
+                  <label className="text-xs">Estoque</label>
+                  <select
+                    value={variantKey}
+                    onChange={(e) => setVariantKey(e.target.value)}
+                    className="w-full border rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="">Produto (geral)</option>
+                    {variantKeys.map((key) => (
+                      <option key={key} value={key}>
+                        {labelOf(key)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="text-xs">
+                  {kind === "recount" ? "Quantidade contada" : "Quantidade"}
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={qty}
+                  onChange={(e) => setQty(e.target.value)}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                />
+                {recountDiff !== null && recountDiff !== 0 && (
+                  <p className="text-[11px] text-orange-600">
+                    Diferença: {recountDiff > 0 ? "+" : ""}
+                    {recountDiff} em relação ao sistema ({currentStock ?? 0}).
+                  </p>
+                )}
+              </div>
+
+              {kind === "production" && !variantKey && (
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="text-xs">Fabricado em</label>
+                    <input
+                      type="date"
+                      value={madeOn}
+                      onChange={(e) => setMadeOn(e.target.value)}
+                      className="w-full border rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="text-xs">Validade (vazio = sem lote)</label>
+                    <input
+                      type="date"
+                      value={bestBefore}
+                      onChange={(e) => setBestBefore(e.target.value)}
+                      className="w-full border rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {kind === "waste" && !variantKey && selected.lots.length > 0 && (
+                <div>
+                  <label className="text-xs">Lote</label>
+                  <select
+                    value={lotId}
+                    onChange={(e) => setLotId(e.target.value)}
+                    className="w-full border rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="">Mais antigo primeiro</option>
+                    {selected.lots.map((lot) => (
+                      <option key={lot.id} value={lot.id}>
+                        {lotLabel(lot)} ({lot.qty})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="text-xs">
+                  Observação {kind === "waste" ? "(obrigatória)" : "(opcional)"}
+                </label>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                  placeholder="Ex: contagem do freezer 2"
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            {successMessage && <p className="text-xs text-green-700">{successMessage}</p>}
+
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={saving}
+              className="bg-black text-white text-xs px-4 py-2 rounded-full disabled:opacity-60"
+            >
+              {saving ? "Salvando..." : "Registrar"}
+            </button>
+          </>
+        )}
+      </section>
+
+      {/* HISTÓRICO */}
+      {selected && (
+        <section className="space-y-2">
+          <h2 className="font-semibold text-sm">Movimentos de {selected.name}</h2>
+          {movements.length === 0 ? (
+            <p className="text-xs text-neutral-500">Nenhum movimento registrado.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-xl border bg-white">
+              <table className="w-full text-xs">
+                <thead className="bg-neutral-50 text-left text-neutral-600">
+                  <tr>
+                    <th className="px-3 py-2">Data</th>
+                    <th className="px-3 py-2">Tipo</th>
+                    <th className="px-3 py-2 text-right">Qtd.</th>
+                    <th className="px-3 py-2 text-right">Saldo</th>
+                    <th className="px-3 py-2">Pedido / obs.</th>
+                    <th className="px-3 py-2">Quem</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {movements.map((m) => (
+                    <tr key={m.id}>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {m.createdAt ? formatTokyoDateTime(m.createdAt) : "—"}
+                      </td>
+                      <td className="px-3 py-2">
+                        {STOCK_MOVEMENT_LABELS[m.type]}
+                        {m.variantKey && (
+                          <span className="text-neutral-500"> · {labelOf(m.variantKey)}</span>
+                        )}
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-right font-semibold ${
+                          m.qty < 0 ? "text-red-600" : "text-green-700"
+                        }`}
+                      >
+                        {m.qty > 0 ? "+" : ""}
+                        {m.qty}
+                      </td>
+                      <td className="px-3 py-2 text-right">{m.balanceAfter}</td>
+                      <td className="px-3 py-2">
+                        {m.orderId && (
+                          <span className="font-mono">#{m.orderId.slice(0, 6)} </span>
+                        )}
+                        {m.note}
+                        {m.lots.length > 0 && (
+                          <span className="block text-[11px] text-neutral-500">
+                            {m.lots
+                              .map((t) => {
+                                const lot = selected.lots.find((l) => l.id === t.lotId);
+                                return `${lot ? lotLabel(lot) : t.lotId}: ${-t.qty > 0 ? "+" : ""}${-t.qty}`;
+                              })
+                              .join(" · ")}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-neutral-500">
+                        {m.userEmail ?? (m.userId ? m.userId.slice(0, 6) : "cliente")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
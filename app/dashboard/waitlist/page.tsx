@@ -0,0 +1,463 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { auth, db } from "@/lib/firebase";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { formatTokyoDateTime } from "@/lib/events";
+import { changeStock } from "@/lib/stock";
+
+type Option = { id: string; name: string };
+
+type WaitlistStatus = "waiting" | "notified" | "fulfilled" | "cancelled";
+
+type WaitlistEntry = {
+  id: string;
+  productId: string;
+  productName: string;
+  /** opções da variante esgotada ("Frango / Grande"); vazio = produto sem opções */
+  variantLabel: string;
+  qty: number;
+  customerName: string;
+  customerPhone: string;
+  lineId: string;
+  status: WaitlistStatus;
+  reservedUntil: Date | null;
+  createdAt: Date | null;
+};
+
+type EventProduct = {
+  id: string;
+  name: string;
+  stockQty: number | null;
+};
+
+const STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "Aguardando",
+  notified: "Avisado",
+  fulfilled: "Comprou",
+  cancelled: "Cancelado",
+};
+
+const DEFAULT_RESERVATION_HOURS = 24;
+
+const toDate = (v: any): Date | null => (v?.toDate ? v.toDate() : null);
+
+/** Telefone salvo como 090… → formato internacional do wa.me (8190…) */
+const whatsappNumber = (phone: string) => {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("0") ? `81${digits.slice(1)}` : digits;
+};
+
+export default function WaitlistPage() {
+  const router = useRouter();
+
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(true);
+
+  const [events, setEvents] = useState<Option[]>([]);
+  const [eventId, setEventId] = useState("");
+  const [eventTitle, setEventTitle] = useState("");
+  const [products, setProducts] = useState<EventProduct[]>([]);
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+
+  // 🔹 por produto: unidades a repor e horas de reserva para quem for avisado
+  const [restockQty, setRestockQty] = useState<Record<string, string>>({});
+  const [reservationHours, setReservationHours] = useState<Record<string, string>>({});
+
+  // 🔹 relógio para mostrar reservas vencidas
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // 🔐 AUTH
+  useEffect(() => {
+    return onAuthStateChanged(auth, (u) => {
+      if (!u) {
+        router.replace("/login");
+      } else {
+        setUser(u);
+        setCheckingAuth(false);
+      }
+    });
+  }, [router]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNowMs(Date.now()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // 🔁 eventos para escolher
+  useEffect(() => {
+    if (!user) return;
+
+    const loadEvents = async () => {
+      try {
+        const snap = await getDocs(collection(db, "events"));
+        setEvents(
+          snap.docs
+            .map((d) => ({ id: d.id, name: String(d.data().title || d.id) }))
+            .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"))
+        );
+      } catch (err) {
+        console.error(err);
+        setError("Erro ao carregar eventos.");
+      }
+    };
+    void loadEvents();
+  }, [user]);
+
+  // 🔁 lista de espera do evento escolhido + produtos do evento (estoque atual)
+  useEffect(() => {
+    if (!user || !eventId) return;
+
+    const loadProducts = async () => {
+      try {
+        const eventSnap = await getDoc(doc(db, "events", eventId));
+        const data = eventSnap.data() || {};
+        setEventTitle(String(data.title || ""));
+        const names: string[] = Array.from(
+          new Set([
+            ...(Array.isArray(data.productNames) ? data.productNames : []),
+            ...(Array.isArray(data.featuredProductNames) ? data.featuredProductNames : []),
+          ])
+        );
+        const found: EventProduct[] = [];
+        // "in" aceita no máximo 30 valores por consulta
+        for (let i = 0; i < names.length; i += 30) {
+          const snap = await getDocs(
+            query(collection(db, "products"), where("name", "in", names.slice(i, i + 30)))
+          );
+          snap.docs.forEach((d) => {
+            const stockQty = d.data().stockQty;
+            found.push({
+              id: d.id,
+              name: String(d.data().name || d.id),
+              stockQty: typeof stockQty === "number" ? stockQty : null,
+            });
+          });
+        }
+        setProducts(found);
+      } catch (err) {
+        console.error(err);
+        setError("Erro ao carregar produtos do evento.");
+      }
+    };
+    void loadProducts();
+
+    return onSnapshot(collection(db, "events", eventId, "waitlist"), (snap) => {
+      setEntries(
+        snap.docs
+          .map((d) => {
+            const data = d.data();
+            return {
+              id: d.id,
+              productId: String(data.productId || ""),
+              productName: String(data.productName || ""),
+              variantLabel: String(data.variantLabel || ""),
+              qty: Number(data.qty) || 1,
+              customerName: String(data.customerName || ""),
+              customerPhone: String(data.customerPhone || ""),
+              lineId: String(data.lineId || ""),
+              status: (data.status || "waiting") as WaitlistStatus,
+              reservedUntil: toDate(data.reservedUntil),
+              createdAt: toDate(data.createdAt),
+            };
+          })
+          // fila por ordem de chegada
+          .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+      );
+    });
+  }, [user, eventId]);
+
+  const handleRestock = async (productId: string) => {
+    setError(null);
+    setSuccessMessage(null);
+    const qty = Number(restockQty[productId]);
+    if (!Number.isInteger(qty) || qty <= 0) {
+      return setError("Informe quantas unidades chegaram (número inteiro).");
+    }
+
+    try {
+      const balances = await changeStock(productId, [
+        { type: "production", delta: qty, note: "Reposição (lista de espera)" },
+      ]);
+      setProducts((prev) =>
+        prev.map((p) =>
+          p.id === productId ? { ...p, stockQty: balances.stockQty ?? p.stockQty } : p
+        )
+      );
+      setRestockQty((prev) => ({ ...prev, [productId]: "" }));
+      setSuccessMessage("Estoque atualizado! Agora avise quem está esperando.");
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao repor estoque.");
+    }
+  };
+
+  /**
+   * Abre o WhatsApp/LINE com a mensagem pronta e reserva as unidades do cliente
+   * até o fim do prazo (o createEventOrder não vende a reserva para outros).
+   */
+  const handleNotify = async (entry: WaitlistEntry, channel: "whatsapp" | "line") => {
+    setError(null);
+    setSuccessMessage(null);
+    const hours = Number(reservationHours[entry.productId] ?? DEFAULT_RESERVATION_HOURS);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      return setError("Prazo de reserva inválido.");
+    }
+    const reservedUntil = new Date();
+    reservedUntil.setTime(reservedUntil.getTime() + hours * 60 * 60 * 1000);
+
+    const message = [
+      `Olá, ${entry.customerName}!`,
+      `${entry.productName}${entry.variantLabel ? ` (${entry.variantLabel})` : ""} voltou ao estoque${eventTitle ? ` (${eventTitle})` : ""}.`,
+      `Separamos ${entry.qty} unidade${entry.qty > 1 ? "s" : ""} para você até ${formatTokyoDateTime(reservedUntil)}.`,
+      `Faça seu pedido: ${window.location.origin}/event/${eventId}`,
+    ].join("\n");
+    const encoded = encodeURIComponent(message);
+    const url =
+      channel === "whatsapp"
+        ? `https://wa.me/${whatsappNumber(entry.customerPhone)}?text=${encoded}`
+        : `https://line.me/R/msg/text/?${encoded}`;
+
+    // abre antes do await para o navegador não bloquear o popup
+    window.open(url, "_blank");
+
+    try {
+      await updateDoc(doc(db, "events", eventId, "waitlist", entry.id), {
+        status: "notified",
+        notifiedAt: serverTimestamp(),
+        reservedUntil: Timestamp.fromDate(reservedUntil),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao marcar cliente como avisado.");
+    }
+  };
+
+  const handleCancel = async (entry: WaitlistEntry) => {
+    try {
+      await updateDoc(doc(db, "events", eventId, "waitlist", entry.id), {
+        status: "cancelled",
+        reservedUntil: null,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      console.error(err);
+      setError("Erro ao cancelar entrada.");
+    }
+  };
+
+  const handleDelete = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remover ${entry.customerName} da lista de espera?`)) return;
+    await deleteDoc(doc(db, "events", eventId, "waitlist", entry.id));
+  };
+
+  if (checkingAuth) {
+    return (
+      <main className="flex h-[70vh] items-center justify-center">
+        <p>Carregando...</p>
+      </main>
+    );
+  }
+
+  const productIds = Array.from(new Set(entries.map((e) => e.productId)));
+
+  return (
+    <main className="space-y-8">
+      {/* TOPO */}
+      <header className="flex justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-bold">Lista de espera</h1>
+          <p className="text-xs text-neutral-600">
+            Clientes que pediram aviso de produto esgotado. Reponha o estoque e
+            avise pelo WhatsApp ou LINE: as unidades ficam reservadas para o
+            cliente até o fim do prazo.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="bg-white text-black text-xs px-4 py-2 rounded-full border"
+          >
+            Voltar
+          </button>
+        </div>
+      </header>
+
+      <section className="bg-white p-5 rounded-2xl border shadow-sm space-y-2">
+        <label className="text-xs">Evento</label>
+        <select
+          value={eventId}
+          onChange={(e) => {
+            setEntries([]);
+            setProducts([]);
+            setEventId(e.target.value);
+          }}
+          className="w-full border rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">Escolha um evento</option>
+          {events.map((ev) => (
+            <option key={ev.id} value={ev.id}>
+              {ev.name}
+            </option>
+          ))}
+        </select>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {successMessage && <p className="text-xs text-green-700">{successMessage}</p>}
+      </section>
+
+      {eventId && (
+        <section className="space-y-4">
+          {productIds.length === 0 ? (
+            <p className="text-xs text-neutral-500">Ninguém na lista de espera deste evento.</p>
+          ) : (
+            productIds.map((pid) => {
+              const product = products.find((p) => p.id === pid);
+              const list = entries.filter((e) => e.productId === pid);
+              const waitingQty = list
+                .filter((e) => e.status === "waiting")
+                .reduce((sum, e) => sum + e.qty, 0);
+              return (
+                <div key={pid} className="rounded-xl border bg-white p-4 text-xs space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-semibold text-sm">
+                      {product?.name ?? list[0]?.productName ?? pid}
+                    </p>
+                    <p className="text-neutral-600">
+                      Estoque: {product?.stockQty ?? "—"} · aguardando: {waitingQty} un.
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div>
+                      <label className="text-[11px] text-neutral-600">Chegaram (un.)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={restockQty[pid] ?? ""}
+                        onChange={(e) =>
+                          setRestockQty((prev) => ({ ...prev, [pid]: e.target.value }))
+                        }
+                        className="w-24 border rounded-md px-2 py-1 text-xs block"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => void handleRestock(pid)}
+                      className="bg-black text-white px-3 py-1.5 rounded-full"
+                    >
+                      Repor estoque
+                    </button>
+                    <div>
+                      <label className="text-[11px] text-neutral-600">Reserva (horas)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={reservationHours[pid] ?? String(DEFAULT_RESERVATION_HOURS)}
+                        onChange={(e) =>
+                          setReservationHours((prev) => ({ ...prev, [pid]: e.target.value }))
+                        }
+                        className="w-20 border rounded-md px-2 py-1 text-xs block"
+                      />
+                    </div>
+                  </div>
+
+                  <ul className="divide-y">
+                    {list.map((entry) => {
+                      const reservationActive =
+                        entry.status === "notified" &&
+                        (entry.reservedUntil?.getTime() ?? 0) > nowMs;
+                      const closed = entry.status === "fulfilled" || entry.status === "cancelled";
+                      return (
+                        <li
+                          key={entry.id}
+                          className={`flex flex-wrap items-center justify-between gap-2 py-2 ${
+                            closed ? "opacity-60" : ""
+                          }`}
+                        >
+                          <div className="space-y-0.5">
+                            <p>
+                              <span className="font-semibold">{entry.customerName}</span> ·{" "}
+                              {entry.variantLabel && `${entry.variantLabel} · `}
+                              {entry.qty} un. · {STATUS_LABELS[entry.status]}
+                            </p>
+                            <p className="text-neutral-500">
+                              {[
+                                entry.customerPhone && `Tel: ${entry.customerPhone}`,
+                                entry.lineId && `LINE: ${entry.lineId}`,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                              {entry.status === "notified" &&
+                                entry.reservedUntil &&
+                                ` · ${reservationActive ? "reservado até" : "reserva expirou em"} ${formatTokyoDateTime(entry.reservedUntil)}`}
+                            </p>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {!closed && entry.customerPhone && (
+                              <button
+                                type="button"
+                                onClick={() => void handleNotify(entry, "whatsapp")}
+                                className="rounded-full border border-green-600 px-3 py-1 text-green-700 hover:bg-green-50"
+                              >
+                                WhatsApp
+                              </button>
+                            )}
+                            {!closed && entry.lineId && (
+                              <button
+                                type="button"
+                                onClick={() => void handleNotify(entry, "line")}
+                                className="rounded-full border border-green-600 px-3 py-1 text-green-700 hover:bg-green-50"
+                              >
+                                LINE
+                              </button>
+                            )}
+                            {!closed && (
+                              <button
+                                type="button"
+                                onClick={() => void handleCancel(entry)}
+                                className="rounded-full border px-3 py-1 hover:bg-neutral-100"
+                              >
+                                Cancelar
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => void handleDelete(entry)}
+                              className="rounded-full border border-red-300 px-3 py-1 text-red-600 hover:bg-red-50"
+                            >
+                              Remover
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -4,17 +4,25 @@ import { useEffect, useState } from "react";
 import { db } from "@/lib/firebase";
 import {
   collection,
-  doc,
   getDocs,
   orderBy,
   query,
   Timestamp,
-  updateDoc,
-  serverTimestamp,
 } from "firebase/firestore";
+import {
+  buildCatalogByName,
+  isOrderStatus,
+  lineItemName,
+  readOrderItems,
+  readOrderPricing,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  type OrderLineItem,
+  type OrderStatus,
+} from "@/lib/orders";
+import { callPublicFunction } from "@/lib/functions";
 
 type DeliveryMode = "delivery" | "pickup" | "none";
-type OrderStatus = "pending" | "confirmed" | "delivered" | "cancelled";
 type OrderChannel = "whatsapp" | "messenger" | "other";
 
 interface FirestoreProduct {
@@ -25,7 +33,9 @@ interface FirestoreProduct {
 interface FirestoreOrder {
   customerName: string;
   note?: string;
-  quantities: Record<string, number>;
+  items?: OrderLineItem[];
+  /** pedidos antigos */
+  quantities?: Record<string, number>;
   totalItems: number;
   status: OrderStatus;
   channel?: OrderChannel;
@@ -37,6 +47,8 @@ interface FirestoreOrder {
   // campos extras opcionais para controle do entregador
   deliveryDriverName?: string;
   deliveredAt?: Timestamp | null;
+  /** acerto fechado no painel (/dashboard/settlements): não volta mais para pendente */
+  settlementId?: string;
 }
 
 interface FirestoreEvent {
@@ -52,7 +64,7 @@ interface DriverOrder {
   eventRegion?: string;
   customerName: string;
   note?: string;
-  quantities: Record<string, number>;
+  items: OrderLineItem[];
   totalItems: number;
   status: OrderStatus;
   channel: OrderChannel;
@@ -63,6 +75,7 @@ interface DriverOrder {
   createdAt?: Timestamp | null;
   totalPrice: number;
   deliveryDriverName?: string;
+  settled: boolean;
 }
 
 export default function EntregasPage() {
@@ -80,9 +93,13 @@ export default function EntregasPage() {
   const [filterDate, setFilterDate] = useState<string>("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
 
-  // carrega nome salvo no navegador
+  // carrega nome salvo no navegador (e o token do link do entregador, /entregas?driver=...)
   useEffect(() => {
     if (typeof window === "undefined") return;
+    const linkToken = new URLSearchParams(window.location.search).get("driver");
+    if (linkToken) {
+      window.localStorage.setItem("driverToken", linkToken);
+    }
     const saved = window.localStorage.getItem("driverName");
     if (saved) {
       setDriverName(saved);
@@ -106,15 +123,14 @@ export default function EntregasPage() {
     setErrorMessage(null);
 
     try {
-      // 1) produtos (para calcular valor total de cada entrega)
+      // 1) produtos (só para estimar o valor de pedidos antigos, sem preço congelado)
       const productsSnap = await getDocs(collection(db, "products"));
-      const priceMap = new Map<string, number>();
-      productsSnap.forEach((docSnap) => {
-        const data = docSnap.data() as FirestoreProduct;
-        if (data.name) {
-          priceMap.set(data.name, data.price ?? 0);
-        }
-      });
+      const catalog = buildCatalogByName(
+        productsSnap.docs.map((docSnap) => {
+          const data = docSnap.data() as FirestoreProduct;
+          return { id: docSnap.id, name: data.name, price: data.price };
+        })
+      );
 
       // 2) eventos
       const eventsSnap = await getDocs(
@@ -139,12 +155,9 @@ export default function EntregasPage() {
         snap.forEach((orderDoc) => {
           const data = orderDoc.data() as FirestoreOrder;
 
-          // calcular total da entrega
-          let totalPrice = 0;
-          Object.entries(data.quantities || {}).forEach(([prodName, qty]) => {
-            const price = priceMap.get(prodName) ?? 0;
-            totalPrice += price * qty;
-          });
+          // total da entrega = valor calculado pelo servidor (ou soma dos itens, se antigo)
+          const { items } = readOrderItems(data, catalog);
+          const totalPrice = readOrderPricing(data, items).totalYen;
 
           const driverOrder: DriverOrder = {
             id: orderDoc.id,
@@ -153,9 +166,9 @@ export default function EntregasPage() {
             eventRegion: ev.data.region,
             customerName: data.customerName,
             note: data.note,
-            quantities: data.quantities ?? {},
+            items,
             totalItems: data.totalItems ?? 0,
-            status: data.status ?? "pending",
+            status: isOrderStatus(data.status) ? data.status : "pending",
             channel: data.channel ?? "whatsapp",
             deliveryDate: data.deliveryDate,
             deliveryTimeSlot: data.deliveryTimeSlot,
@@ -164,6 +177,7 @@ export default function EntregasPage() {
             createdAt: data.createdAt ?? null,
             totalPrice,
             deliveryDriverName: data.deliveryDriverName,
+            settled: Boolean(data.settlementId),
           };
 
           allOrders.push(driverOrder);
@@ -261,61 +275,57 @@ export default function EntregasPage() {
     }
 
     const alreadyDelivered = isDeliveredLocally(order.id);
+    // desfazer volta uma etapa: em rota (entrega) ou pronto (retirada)
+    const nextStatus: OrderStatus = !alreadyDelivered
+      ? "delivered"
+      : order.deliveryMode === "delivery"
+      ? "out_for_delivery"
+      : "ready";
 
     try {
-      const ref = doc(db, "events", order.eventId, "orders", order.id);
+      // sem login, o servidor só aceita com o link do entregador e grava o nome do link
+      const result = await callPublicFunction<{ driverName: string | null }>(
+        process.env.NEXT_PUBLIC_UPDATE_ORDER_STATUS_URL || "",
+        {
+          eventId: order.eventId,
+          orderId: order.id,
+          status: nextStatus,
+          driverName: driverName.trim(),
+          driverToken: window.localStorage.getItem("driverToken") || "",
+        }
+      );
 
       if (!alreadyDelivered) {
-        // marcar como entregue
-        await updateDoc(ref, {
-          status: "delivered",
-          deliveryDriverName: driverName.trim(),
-          deliveredAt: serverTimestamp(),
-        });
-
         setDeliveredOrderIds((prev) =>
           prev.includes(order.id) ? prev : [...prev, order.id]
         );
-
-        setOrders((prev) =>
-          prev.map((o) =>
-            o.id === order.id
-              ? {
-                  ...o,
-                  status: "delivered",
-                  deliveryDriverName: driverName.trim(),
-                }
-              : o
-          )
-        );
       } else {
-        // voltar para pendente (ou confirmado, se preferir)
-        await updateDoc(ref, {
-          status: "confirmed",
-          deliveryDriverName: null,
-          deliveredAt: null,
-        });
-
         setDeliveredOrderIds((prev) =>
           prev.filter((id) => id !== order.id)
         );
-
-        setOrders((prev) =>
-          prev.map((o) =>
-            o.id === order.id
-              ? {
-                  ...o,
-                  status: "confirmed",
-                  deliveryDriverName: undefined,
-                }
-              : o
-          )
-        );
       }
-    } catch (error) {
+
+      setOrders((prev) =>
+        prev.map((o) =>
+          o.id === order.id
+            ? {
+                ...o,
+                status: nextStatus,
+                deliveryDriverName: alreadyDelivered
+                  ? undefined
+                  : result.driverName ?? driverName.trim(),
+              }
+            : o
+        )
+      );
+    } catch (error: any) {
       console.error(error);
       alert(
-        "Erro ao atualizar a entrega. Verifique sua conexão ou as permissões do Firestore."
+        error?.message === "Unauthorized"
+          ? "Abra o painel pelo link de entregador enviado pela vendedora."
+          : `Erro ao atualizar a entrega: ${
+              error?.message || "verifique sua conexão."
+            }`
       );
     }
   };
@@ -355,7 +365,8 @@ export default function EntregasPage() {
           <p className="text-[11px] text-neutral-500">
             Esse nome será registrado no pedido quando você marcar como
             entregue, para saber quanto cada entregador precisa devolver de
-            dinheiro depois.
+            dinheiro depois (acerto no painel). Depois do acerto, o pedido não
+            volta mais para pendente.
           </p>
         </section>
 
@@ -395,10 +406,11 @@ export default function EntregasPage() {
               onChange={(e) => setFilterStatus(e.target.value)}
             >
               <option value="all">Todos</option>
-              <option value="pending">Pendente</option>
-              <option value="confirmed">Confirmado</option>
-              <option value="delivered">Entregue</option>
-              <option value="cancelled">Cancelado</option>
+              {ORDER_STATUSES.map((st) => (
+                <option key={st} value={st}>
+                  {ORDER_STATUS_LABELS[st]}
+                </option>
+              ))}
             </select>
           </label>
 
@@ -569,11 +581,14 @@ function OrderCardContent(props: {
               {o.deliveryDriverName}
             </p>
           )}
+          {o.settled && (
+            <p className="font-semibold text-green-700">Acerto feito</p>
+          )}
         </div>
 
         <div className="text-xs text-neutral-700 min-w-[180px] space-y-1">
           <p>
-            <span className="font-semibold">Total estimado:</span>{" "}
+            <span className="font-semibold">Total do pedido:</span>{" "}
             ¥{o.totalPrice.toLocaleString("ja-JP")}
           </p>
           <p>
@@ -601,26 +616,28 @@ function OrderCardContent(props: {
       <div className="mt-3 border-t pt-2 text-xs text-neutral-700">
         <p className="font-semibold mb-1">Produtos para entregar:</p>
         <div className="flex flex-wrap gap-x-4 gap-y-1">
-          {Object.entries(o.quantities).map(([prodName, qty]) => (
-            <span key={prodName}>
-              {prodName}: <span className="font-semibold">{qty}</span>
+          {o.items.map((it, idx) => (
+            <span key={`${it.productId ?? it.name}-${idx}`}>
+              {lineItemName(it)}: <span className="font-semibold">{it.qty}</span>
             </span>
           ))}
         </div>
       </div>
 
       <div className="mt-3 flex justify-end">
-        <button
-          type="button"
-          onClick={onToggle}
-          className={`rounded-full px-3 py-1.5 text-[11px] font-semibold border ${
-            isDelivered
-              ? "border-amber-500 text-amber-700 bg-amber-50 hover:bg-amber-100"
-              : "border-green-600 text-green-700 bg-green-50 hover:bg-green-100"
-          }`}
-        >
-          {isDelivered ? "Voltar para pendente" : "Marcar como entregue"}
-        </button>
+        {!o.settled && (
+          <button
+            type="button"
+            onClick={onToggle}
+            className={`rounded-full px-3 py-1.5 text-[11px] font-semibold border ${
+              isDelivered
+                ? "border-amber-500 text-amber-700 bg-amber-50 hover:bg-amber-100"
+                : "border-green-600 text-green-700 bg-green-50 hover:bg-green-100"
+            }`}
+          >
+            {isDelivered ? "Voltar para pendente" : "Marcar como entregue"}
+          </button>
+        )}
       </div>
     </>
   );
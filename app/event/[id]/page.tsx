@@ -10,8 +10,60 @@ import {
   getDocs,
   query,
   where,
+  limit,
   runTransaction,
 } from "firebase/firestore";
+import {
+  readBundleComponents,
+  type BundleComponent,
+  type OrderPricing,
+} from "@/lib/orders";
+import {
+  formatCountdown,
+  formatTokyoDateTime,
+  getOrderWindowState,
+  maxQtyPerOrder,
+  readProductLimits,
+  readTimeSlots,
+  remainingSlotCapacity,
+  timeSlotLabel,
+  type ProductLimit,
+  type TimeSlot,
+} from "@/lib/events";
+import {
+  deliveryFeeFor,
+  findDeliveryZone,
+  normalizePostalCode,
+  readDeliveryZones,
+  readGeoPoint,
+  type DeliveryZone,
+  type GeoPoint,
+} from "@/lib/delivery";
+import {
+  describePromotion,
+  normalizePromoCode,
+  promotionDiscountYen,
+  promotionUnavailableReason,
+  readPromotion,
+  type Promotion,
+} from "@/lib/promotions";
+import {
+  readOptionGroups,
+  variantKeyOf,
+  variantLabel,
+  variantPriceDelta,
+  type ProductOptionGroup,
+} from "@/lib/variants";
+import {
+  activePriceTier,
+  describePriceTier,
+  readPriceTiers,
+  shiftPriceTiers,
+  tierUnitPrice,
+  type PriceTier,
+} from "@/lib/pricing";
+import { callPublicFunction } from "@/lib/functions";
+import { formatLotDate, nextLot, readStockLots } from "@/lib/lots";
 
 // 🔹 Mesmas categorias usadas no catálogo
 type CategoryType =
@@ -49,6 +101,83 @@ const openExternalLink = (url: string) => {
   }
 };
 
+// 🔹 Chave de idempotência do carrinho (reenvio não duplica pedido/estoque)
+const newRequestKey = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+const requestKeyStorageKey = (eventId: string) => `orderRequestKey:${eventId}`;
+
+// 🔹 Disponível no evento: cota do evento e/ou estoque geral (mesma regra do createEventOrder)
+const availableForEvent = (
+  globalStock: number | undefined,
+  eventQuota: number | undefined,
+  quotaReplacesGlobalStock: boolean
+) => {
+  if (typeof eventQuota !== "number") return globalStock;
+  if (quotaReplacesGlobalStock || typeof globalStock !== "number") return eventQuota;
+  return Math.min(globalStock, eventQuota);
+};
+
+// 🔹 Kit: quantos kits dá para montar com o estoque dos componentes
+// (componente sem controle de estoque não limita)
+const bundleStock = (
+  components: BundleComponent[],
+  componentStocks: Record<string, number>
+) => {
+  const limits = components
+    .filter((c) => typeof componentStocks[c.productId] === "number")
+    .map((c) => Math.floor(componentStocks[c.productId] / c.qty));
+  return limits.length > 0 ? Math.max(0, Math.min(...limits)) : undefined;
+};
+
+// 🔹 Carrinho: chave = nome do produto, ou nome + variante ("Coxinha::frito__25")
+const CART_KEY_SEP = "::";
+
+const cartKeyOf = (name: string, variantKey: string) =>
+  variantKey ? `${name}${CART_KEY_SEP}${variantKey}` : name;
+
+const parseCartKey = (key: string) => {
+  const i = key.lastIndexOf(CART_KEY_SEP);
+  return i < 0
+    ? { name: key, variantKey: "" }
+    : { name: key.slice(0, i), variantKey: key.slice(i + CART_KEY_SEP.length) };
+};
+
+// 🔹 Variante: estoque próprio (variantStocks) ou o do produto, dividido com as
+// variantes sem estoque próprio; a cota do evento vale para todas juntas
+const variantMaxQty = (
+  info: ProductImageData,
+  variantKey: string,
+  quantities: Record<string, number>,
+  quotaReplacesGlobalStock: boolean
+) => {
+  let othersAll = 0;
+  let othersShared = 0;
+  for (const [key, q] of Object.entries(quantities)) {
+    const parsed = parseCartKey(key);
+    if (parsed.name !== info.name || parsed.variantKey === variantKey) continue;
+    othersAll += q;
+    if (typeof info.variantStocks?.[parsed.variantKey] !== "number") othersShared += q;
+  }
+  const own = info.variantStocks?.[variantKey];
+  const globalStock =
+    typeof own === "number"
+      ? own
+      : typeof info.globalStockQty === "number"
+      ? info.globalStockQty - othersShared
+      : undefined;
+  const quota =
+    typeof info.eventQuota === "number" ? info.eventQuota - othersAll : undefined;
+  const available = availableForEvent(globalStock, quota, quotaReplacesGlobalStock);
+  return typeof available === "number" ? Math.max(0, available) : undefined;
+};
+
+// 🔹 Link secreto para o cliente acompanhar o pedido
+const orderTrackingUrl = (token: string) =>
+  typeof window === "undefined" ? `/pedido/${token}` : `${window.location.origin}/pedido/${token}`;
+
 // 🔹 Listas para o “scroller” de horário (não usamos mais, mas manter não atrapalha)
 const HOURS = Array.from({ length: 24 }, (_, i) => i); // 0–23
 const MINUTES = [0, 10, 20, 30, 40, 50];
@@ -65,6 +194,16 @@ type EventData = {
   pickupNote?: string;
   messengerId?: string; // ID/username da página/conta Messenger
   featuredProductNames?: string[]; // 🔹 destaques do carrossel (pode ser qualquer produto)
+  customerEditCutoffHours?: number | null; // 🔹 cliente altera/cancela pelo link até X horas antes
+  ordersOpenAt: Date | null; // 🔹 janela de pedidos (null = sem limite)
+  ordersCloseAt: Date | null;
+  quotaReplacesGlobalStock: boolean; // 🔹 cota do evento substitui o estoque geral
+  timeSlots: TimeSlot[]; // 🔹 faixas de horário por data (vazio = horário livre)
+  timeSlotBookings: Record<string, number>; // 🔹 pedidos já feitos por faixa
+  deliveryZones: DeliveryZone[]; // 🔹 zonas de entrega (do evento ou da vendedora)
+  pickupPoint: GeoPoint | null; // 🔹 origem para zonas por raio
+  productLimits: Record<string, ProductLimit>; // 🔹 máximo por pedido/cliente (chave = id do produto)
+  showBestBefore: boolean; // 🔹 mostra a validade do lote que sai primeiro (congelados)
 };
 
 type ProductImageData = {
@@ -74,10 +213,30 @@ type ProductImageData = {
   price?: number;
   category?: CategoryType;
   // 🔹 campos de estoque, adaptando ao novo controle
+  // stockQty = disponível NESTE evento (estoque geral limitado pela cota do evento)
   stockQty?: number;
+  globalStockQty?: number;
+  eventQuota?: number;
   lowStockThreshold?: number;
   status?: ProductStatus;
   productDocId?: string; // 🔹 id do documento em "products" para abater estoque
+  bundleItems?: BundleComponent[]; // 🔹 kit: estoque vem dos componentes
+  componentStocks?: Record<string, number>;
+  optionGroups?: ProductOptionGroup[]; // 🔹 opções (tamanho, frito/congelado, sabor)
+  variantStocks?: Record<string, number>; // 🔹 estoque por variante (chave = variantKey)
+  priceTiers?: PriceTier[]; // 🔹 preço por quantidade (atacado)
+  bestBefore?: string; // 🔹 validade do próximo lote (AAAA-MM-DD)
+};
+
+/** Linha do carrinho (uma por produto/variante com quantidade) */
+type CartLine = {
+  key: string;
+  name: string;
+  variantKey: string;
+  variantLabel: string;
+  productId: string | null;
+  unitPriceYen: number;
+  qty: number;
 };
 
 type Props = {
@@ -85,6 +244,21 @@ type Props = {
 };
 
 type DeliveryMode = "delivery" | "pickup" | "none";
+
+/** Resposta do createEventOrder já com o valor oficial do pedido */
+type RegisteredOrder = {
+  orderId: string;
+  /** vazio em reenvios de pedidos feitos antes do link de acompanhamento */
+  trackingToken: string;
+  pricing: OrderPricing;
+  /** itens e entrega como o servidor registrou; null em reenvios de registros antigos */
+  summary: {
+    items: Array<{ name: string; variantLabel?: string; qty: number }>;
+    deliveryMode: DeliveryMode;
+    deliveryDate: string;
+    deliveryTimeSlot: string;
+  } | null;
+};
 type DateOption = "event-date" | "other-date" | "no-preference";
 type TimeOption = "no-preference" | "custom";
 
@@ -96,8 +270,14 @@ export default function EventPage({ params }: Props) {
   const [notFound, setNotFound] = useState(false);
 
   const [customerName, setCustomerName] = useState("");
+  // 🔹 telefone: identifica o cliente nos limites "por cliente" (sem ele, vale o nome)
+  const [customerPhone, setCustomerPhone] = useState("");
   const [note, setNote] = useState("");
   const [quantities, setQuantities] = useState<Record<string, number>>({});
+  // 🔹 opção escolhida em cada grupo (chave = nome do produto → grupo → opção)
+  const [optionSelections, setOptionSelections] = useState<
+    Record<string, Record<string, string>>
+  >({});
 
   // 🔹 escolha de data de entrega
   const [dateOption, setDateOption] = useState<DateOption>("event-date");
@@ -113,13 +293,44 @@ export default function EventPage({ params }: Props) {
   const [selectedMinute, setSelectedMinute] = useState<number | null>(null);
   const [timePickerOpen, setTimePickerOpen] = useState(false);
 
+  // 🔹 faixa escolhida (quando a data tem faixas cadastradas)
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+
   // 🔹 localização do cliente (link Google Maps)
   const [locationLink, setLocationLink] = useState<string>("");
+  const [customerLocation, setCustomerLocation] = useState<GeoPoint | null>(null);
   const [gettingLocation, setGettingLocation] = useState(false);
 
+  // 🔹 CEP do endereço de entrega (define a zona e a taxa)
+  const [postalCode, setPostalCode] = useState("");
+
+  // 🔹 promoções: automáticas valem sozinhas; código é conferido antes de enviar
+  const [autoPromotions, setAutoPromotions] = useState<Promotion[]>([]);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<Promotion | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
+
+  // 🔹 lista de espera de produto esgotado (formulário aberto num card por vez)
+  const [waitlistProduct, setWaitlistProduct] = useState<string | null>(null);
+  const [waitlistLineId, setWaitlistLineId] = useState("");
+  const [waitlistQty, setWaitlistQty] = useState(1);
+  const [waitlistSending, setWaitlistSending] = useState(false);
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
+  const [waitlistJoined, setWaitlistJoined] = useState<string[]>([]);
+
   // 🔹 URL atual para compartilhamento
   const [currentUrl, setCurrentUrl] = useState("");
 
+  // 🔹 último pedido registrado (valor confirmado pelo servidor)
+  const [lastOrder, setLastOrder] = useState<RegisteredOrder | null>(null);
+
+  // 🔹 envio em andamento (evita toque duplo)
+  const [sending, setSending] = useState(false);
+
+  // 🔹 relógio para a contagem regressiva da janela de pedidos
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
   // 👇 states para imagens / galeria
   const [productsData, setProductsData] = useState<
     Record<string, ProductImageData>
@@ -161,6 +372,13 @@ export default function EventPage({ params }: Props) {
     }
   };
 
+  // 🔹 atualiza o relógio a cada segundo (só quando o evento tem janela de pedidos)
+  useEffect(() => {
+    if (!event?.ordersOpenAt && !event?.ordersCloseAt) return;
+    const timer = window.setInterval(() => setNowMs(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [event?.ordersOpenAt, event?.ordersCloseAt]);
+
   // 🔹 pega URL atual
   useEffect(() => {
     if (typeof window !== "undefined") {
@@ -168,6 +386,27 @@ export default function EventPage({ params }: Props) {
     }
   }, []);
 
+  // 🔹 chave do envio: a mesma só enquanto carrinho e formulário não mudam
+  //    (`fingerprint` = corpo do pedido); some quando o pedido é registrado
+  const getCartRequestKey = (fingerprint: string) => {
+    if (typeof window === "undefined") return newRequestKey();
+    const storageKey = requestKeyStorageKey(id);
+    try {
+      const saved = JSON.parse(window.localStorage.getItem(storageKey) || "null");
+      if (saved?.fingerprint === fingerprint && typeof saved.key === "string") return saved.key as string;
+    } catch {
+      // formato antigo (só a chave): gera uma nova
+    }
+    const key = newRequestKey();
+    window.localStorage.setItem(storageKey, JSON.stringify({ key, fingerprint }));
+    return key;
+  };
+
+  const clearCartRequestKey = () => {
+    if (typeof window === "undefined") return;
+    window.localStorage.removeItem(requestKeyStorageKey(id));
+  };
+
   // 🔹 Carrega dados do evento + produtos
   useEffect(() => {
     const loadEvent = async () => {
@@ -208,6 +447,38 @@ export default function EventPage({ params }: Props) {
           ? data.featuredProductNames.filter((n: any) => typeof n === "string")
           : [];
 
+        // 🔹 zonas de entrega: as do evento; sem nenhuma, as da vendedora
+        let deliveryZones = readDeliveryZones(data.deliveryZones);
+        let pickupPoint = readGeoPoint(data);
+        if (deliveryZones.length === 0 && data.sellerId) {
+          try {
+            const sellerSnap = await getDoc(doc(db, "sellers", data.sellerId));
+            const sellerData = sellerSnap.data();
+            deliveryZones = readDeliveryZones(sellerData?.deliveryZones);
+            pickupPoint = pickupPoint ?? readGeoPoint(sellerData);
+          } catch (err) {
+            console.error("Erro ao carregar zonas da vendedora:", err);
+          }
+        }
+
+        // 🔹 promoções automáticas (sem código) que valem para este evento
+        try {
+          const promoSnap = await getDocs(
+            query(
+              collection(db, "promotions"),
+              where("active", "==", true),
+              where("code", "==", null)
+            )
+          );
+          setAutoPromotions(
+            promoSnap.docs
+              .map((d) => readPromotion(d.id, d.data()))
+              .filter((p) => promotionUnavailableReason(p, id, Date.now()) === null)
+          );
+        } catch (err) {
+          console.error("Erro ao carregar promoções:", err);
+        }
+
         // 🔹 Nomes que podem ser pedidos: produtos do evento + destaques
         const allOrderableNames = Array.from(
           new Set([...products, ...featured])
@@ -225,8 +496,31 @@ export default function EventPage({ params }: Props) {
           pickupNote: data.pickupNote || "",
           messengerId: messengerId || "",
           featuredProductNames: featured,
+          customerEditCutoffHours:
+            typeof data.customerEditCutoffHours === "number"
+              ? data.customerEditCutoffHours
+              : null,
+          ordersOpenAt: data.ordersOpenAt?.toDate?.() ?? null,
+          ordersCloseAt: data.ordersCloseAt?.toDate?.() ?? null,
+          quotaReplacesGlobalStock: data.quotaReplacesGlobalStock === true,
+          timeSlots: readTimeSlots(data.timeSlots),
+          timeSlotBookings:
+            data.timeSlotBookings && typeof data.timeSlotBookings === "object"
+              ? data.timeSlotBookings
+              : {},
+          deliveryZones,
+          pickupPoint,
+          productLimits: readProductLimits(data.productLimits),
+          showBestBefore: data.showBestBefore === true,
         });
 
+        // 🔹 cotas deste evento (chave = id do produto)
+        const productQuotas: Record<string, number> =
+          data.productQuotas && typeof data.productQuotas === "object"
+            ? data.productQuotas
+            : {};
+        const quotaReplacesGlobalStock = data.quotaReplacesGlobalStock === true;
+
         // quantidades iniciais
         const initialQty: Record<string, number> = {};
         allOrderableNames.forEach((p) => {
@@ -264,10 +558,38 @@ export default function EventPage({ params }: Props) {
                       .filter((u) => u.length > 0)
                   : [];
 
-                const stockRaw =
-                  typeof docData.stockQty === "number"
+                // kit: estoque = quantos kits os componentes ainda montam
+                const bundleItems =
+                  docData.type === "bundle"
+                    ? readBundleComponents(docData.bundleItems)
+                    : [];
+                const componentStocks: Record<string, number> = {};
+                await Promise.all(
+                  bundleItems.map(async (c) => {
+                    const compSnap = await getDoc(doc(db, "products", c.productId));
+                    const compStock = compSnap.data()?.stockQty;
+                    if (typeof compStock === "number") {
+                      componentStocks[c.productId] = compStock;
+                    }
+                  })
+                );
+
+                const globalStock =
+                  bundleItems.length > 0
+                    ? bundleStock(bundleItems, componentStocks)
+                    : typeof docData.stockQty === "number"
                     ? docData.stockQty
-                    : null;
+                    : undefined;
+                const eventQuota =
+                  typeof productQuotas[firstDoc.id] === "number"
+                    ? productQuotas[firstDoc.id]
+                    : undefined;
+                const stockRaw =
+                  availableForEvent(
+                    globalStock,
+                    eventQuota,
+                    quotaReplacesGlobalStock
+                  ) ?? null;
                 const lowStockRaw =
                   typeof docData.lowStockThreshold === "number"
                     ? docData.lowStockThreshold
@@ -278,6 +600,16 @@ export default function EventPage({ params }: Props) {
                     ? stockRaw <= 0
                     : false;
 
+                // opções: sem estoque próprio, a variante usa o estoque do produto
+                const optionGroups =
+                  bundleItems.length > 0 ? [] : readOptionGroups(docData.optionGroups);
+                const variantStocks: Record<string, number> = {};
+                if (docData.variantStocks && typeof docData.variantStocks === "object") {
+                  for (const [key, qty] of Object.entries(docData.variantStocks)) {
+                    if (typeof qty === "number") variantStocks[key] = qty;
+                  }
+                }
+
                 const rawStatus = (docData.status as ProductStatus) || "active";
                 const statusFinal: ProductStatus = isOutOfStock
                   ? "inactive"
@@ -293,9 +625,17 @@ export default function EventPage({ params }: Props) {
                       : Number(docData.price || 0),
                   category: (docData.category as CategoryType) || "Comida",
                   stockQty: stockRaw ?? undefined,
+                  globalStockQty: globalStock,
+                  eventQuota,
                   lowStockThreshold: lowStockRaw ?? undefined,
                   status: statusFinal,
                   productDocId: firstDoc.id,
+                  ...(bundleItems.length > 0
+                    ? { bundleItems, componentStocks }
+                    : {}),
+                  ...(optionGroups.length > 0 ? { optionGroups, variantStocks } : {}),
+                  priceTiers: readPriceTiers(docData.priceTiers),
+                  bestBefore: nextLot(readStockLots(docData.lots))?.bestBefore,
                 };
               }
             } catch (e) {
@@ -305,6 +645,16 @@ export default function EventPage({ params }: Props) {
         );
 
         setProductsData(imagesMap);
+
+        // primeira opção de cada grupo já vem marcada
+        const selections: Record<string, Record<string, string>> = {};
+        for (const [name, info] of Object.entries(imagesMap)) {
+          if (!info.optionGroups) continue;
+          selections[name] = Object.fromEntries(
+            info.optionGroups.map((g) => [g.id, g.options[0].id])
+          );
+        }
+        setOptionSelections(selections);
       } catch (err) {
         console.error(err);
         setNotFound(true);
@@ -318,26 +668,71 @@ export default function EventPage({ params }: Props) {
     }
   }, [id]);
 
+  // 🔹 Chave do carrinho para a variante escolhida (null = falta escolher opção)
+  const getSelectedCartKey = (product: string) => {
+    const groups = productsData[product]?.optionGroups;
+    if (!groups) return product;
+    const variantKey = variantKeyOf(groups, optionSelections[product] ?? {});
+    return variantKey ? cartKeyOf(product, variantKey) : null;
+  };
+
+  // 🔹 Disponível para a chave do carrinho (produto ou variante)
+  const getCartKeyStock = (
+    cartKey: string,
+    current: Record<string, number> = quantities
+  ) => {
+    const { name, variantKey } = productsData[cartKey]
+      ? { name: cartKey, variantKey: "" }
+      : parseCartKey(cartKey);
+    const info = productsData[name];
+    if (!info) return undefined;
+    if (!variantKey) return info.stockQty;
+    return variantMaxQty(
+      info,
+      variantKey,
+      current,
+      event?.quotaReplacesGlobalStock ?? false
+    );
+  };
+
+  // 🔹 Máximo do produto num pedido (por pedido ou por cliente); null = sem limite
+  const getProductLimit = (product: string) => {
+    const productId = productsData[product]?.productDocId;
+    return productId ? maxQtyPerOrder(event?.productLimits[productId]) : null;
+  };
+
   // 🔹 controles tipo carrinho: - 0 + (respeitando estoque, se existir)
-  const adjustQuantity = (product: string, delta: number) => {
+  const adjustQuantity = (cartKey: string, delta: number) => {
     setQuantities((prev) => {
-      const current = prev[product] || 0;
+      const current = prev[cartKey] || 0;
       const next = current + delta;
       if (next < 0) return prev;
 
-      const stock = productsData[product]?.stockQty;
+      const stock = getCartKeyStock(cartKey, prev);
       if (typeof stock === "number" && Number.isFinite(stock)) {
         if (next > stock) {
           return {
             ...prev,
-            [product]: stock,
+            [cartKey]: stock,
           };
         }
       }
 
+      // limite por pedido/cliente vale para o produto todo (variantes somadas; aviso no card)
+      const product = productsData[cartKey] ? cartKey : parseCartKey(cartKey).name;
+      const limit = getProductLimit(product);
+      if (delta > 0 && limit !== null) {
+        const others = Object.entries(prev).reduce((sum, [key, qty]) => {
+          if (key === cartKey) return sum;
+          const name = productsData[key] ? key : parseCartKey(key).name;
+          return name === product ? sum + qty : sum;
+        }, 0);
+        if (others + next > limit) return prev;
+      }
+
       return {
         ...prev,
-        [product]: next,
+        [cartKey]: next,
       };
     });
   };
@@ -354,6 +749,7 @@ export default function EventPage({ params }: Props) {
         const { latitude, longitude } = pos.coords;
         const link = `https://www.google.com/maps?q=${latitude},${longitude}`;
         setLocationLink(link);
+        setCustomerLocation({ lat: latitude, lng: longitude });
         setGettingLocation(false);
       },
       (err) => {
@@ -381,8 +777,22 @@ export default function EventPage({ params }: Props) {
     return event.deliveryDateLabel;
   };
 
+  // 🔹 Faixas da data escolhida (se a vendedora cadastrou)
+  const getSlotsForChosenDate = () => {
+    if (!event) return [] as TimeSlot[];
+    const chosenDate = getChosenDate();
+    return event.timeSlots.filter((s) => s.date === chosenDate);
+  };
+
+  const getChosenSlot = () =>
+    getSlotsForChosenDate().find((s) => s.id === selectedSlotId) ?? null;
+
   // 🔹 Descobre qual horário final vai ser usado
   const getChosenTimeLabel = () => {
+    if (getSlotsForChosenDate().length > 0) {
+      const slot = getChosenSlot();
+      return slot ? timeSlotLabel(slot) : "Escolha uma faixa";
+    }
     if (
       timeOption === "no-preference" ||
       selectedHour == null ||
@@ -406,26 +816,352 @@ export default function EventPage({ params }: Props) {
     );
   };
 
-  // 🔹 Monta o texto do pedido
-  const buildOrderMessage = () => {
-    if (!event) return "";
+  // 🔹 Preço unitário da variante para a quantidade do produto (mesma regra do servidor)
+  const getUnitPrice = (product: string, variantKey: string, productQty: number) => {
+    const info = productsData[product];
+    const delta =
+      variantKey && info?.optionGroups ? variantPriceDelta(info.optionGroups, variantKey) : 0;
+    const base = Math.max(0, (info?.price || 0) + delta);
+    return tierUnitPrice(base, shiftPriceTiers(info?.priceTiers ?? [], delta), productQty);
+  };
 
+  // 🔹 Faixas de preço do card ("Leve 25+ e pague ¥110 cada"), com a ativa destacada
+  const renderPriceTiers = (product: string, cartKey: string | null) => {
+    const info = productsData[product];
+    if (!info?.priceTiers?.length) return null;
+    const delta =
+      cartKey && info.optionGroups
+        ? variantPriceDelta(info.optionGroups, parseCartKey(cartKey).variantKey)
+        : 0;
+    const tiers = shiftPriceTiers(info.priceTiers, delta);
+    const active = activePriceTier(tiers, getProductCartQty(product));
+    return (
+      <div className="space-y-0.5">
+        {tiers.map((t) => (
+          <p
+            key={t.minQty}
+            className={`text-[11px] ${
+              active?.minQty === t.minQty
+                ? "text-green-700 font-semibold"
+                : "text-green-700"
+            }`}
+          >
+            {active?.minQty === t.minQty ? "✓ " : ""}
+            {describePriceTier(t)}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  // 🔹 Validade do lote que sai primeiro (só se o evento mostrar)
+  const renderBestBefore = (product: string) => {
+    const bestBefore = productsData[product]?.bestBefore;
+    if (!event?.showBestBefore || !bestBefore) return null;
+    return (
+      <p className="text-[11px] text-neutral-500">
+        Validade: {formatLotDate(bestBefore)}
+      </p>
+    );
+  };
+
+  // 🔹 Aviso de limite no card ("Máx. 10 por cliente")
+  const renderLimitHint = (product: string) => {
+    const productId = productsData[product]?.productDocId;
+    const limit = productId ? event?.productLimits[productId] : undefined;
+    if (!limit) return null;
+    const parts = [
+      limit.perOrder !== null ? `${limit.perOrder} por pedido` : null,
+      limit.perCustomer !== null ? `${limit.perCustomer} por cliente` : null,
+    ].filter(Boolean);
+    return (
+      <p className="text-[11px] text-neutral-500">Máx. {parts.join(" · ")}</p>
+    );
+  };
+
+  const handleJoinWaitlist = async (product: string) => {
+    const productId = productsData[product]?.productDocId;
+    // produto com opções: a lista de espera é da variante escolhida
+    const cartKey = getSelectedCartKey(product);
+    if (!productId || !cartKey) return;
+    setWaitlistError(null);
+
+    if (!customerName.trim()) {
+      setWaitlistError("Informe seu nome.");
+      return;
+    }
+    if (!customerPhone.trim() && !waitlistLineId.trim()) {
+      setWaitlistError("Informe o telefone (WhatsApp) ou o ID do LINE.");
+      return;
+    }
+
+    setWaitlistSending(true);
+    try {
+      await callPublicFunction(process.env.NEXT_PUBLIC_JOIN_WAITLIST_URL || "", {
+        eventId: id,
+        productId,
+        variantKey: parseCartKey(cartKey).variantKey,
+        qty: waitlistQty,
+        customerName,
+        customerPhone,
+        lineId: waitlistLineId,
+      });
+      setWaitlistJoined((prev) => [...prev, cartKey]);
+      setWaitlistProduct(null);
+    } catch (err: any) {
+      console.error("Erro ao entrar na lista de espera:", err);
+      setWaitlistError(err?.message || "Erro ao entrar na lista de espera.");
+    } finally {
+      setWaitlistSending(false);
+    }
+  };
+
+  // 🔹 Produto esgotado: "Avise-me quando voltar" (nome/telefone são os mesmos do pedido)
+  const renderWaitlist = (product: string) => {
+    if (waitlistJoined.includes(getSelectedCartKey(product) ?? product)) {
+      return (
+        <p className="text-[11px] text-green-700">
+          ✓ Você está na lista de espera. Avisaremos quando voltar.
+        </p>
+      );
+    }
+    if (waitlistProduct !== product) {
+      return (
+        <button
+          type="button"
+          onClick={() => {
+            setWaitlistProduct(product);
+            setWaitlistQty(1);
+            setWaitlistError(null);
+          }}
+          className="w-full rounded-md border border-neutral-300 px-2 py-1 text-[11px] hover:bg-neutral-100"
+        >
+          🔔 Avise-me quando voltar
+        </button>
+      );
+    }
+    return (
+      <div className="space-y-1.5 rounded-md border border-neutral-200 bg-neutral-50 p-2 text-[11px]">
+        <input
+          type="text"
+          value={customerName}
+          onChange={(e) => setCustomerName(e.target.value)}
+          placeholder="Seu nome"
+          className="w-full border rounded-md px-2 py-1 text-[11px]"
+        />
+        <input
+          type="tel"
+          value={customerPhone}
+          onChange={(e) => setCustomerPhone(e.target.value)}
+          placeholder="Telefone (WhatsApp)"
+          className="w-full border rounded-md px-2 py-1 text-[11px]"
+        />
+        <input
+          type="text"
+          value={waitlistLineId}
+          onChange={(e) => setWaitlistLineId(e.target.value)}
+          placeholder="ou ID do LINE"
+          className="w-full border rounded-md px-2 py-1 text-[11px]"
+        />
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-neutral-600">Quantas unidades?</span>
+          <input
+            type="number"
+            min={1}
+            value={waitlistQty}
+            onChange={(e) => setWaitlistQty(Math.max(1, Number(e.target.value) || 1))}
+            className="w-16 border rounded-md px-1 py-0.5 text-[11px]"
+          />
+        </label>
+        {waitlistError && <p className="text-red-600">{waitlistError}</p>}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={waitlistSending}
+            onClick={() => handleJoinWaitlist(product)}
+            className="flex-1 rounded-md bg-black px-2 py-1 text-white disabled:opacity-50"
+          >
+            {waitlistSending ? "Enviando..." : "Entrar na lista"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setWaitlistProduct(null)}
+            className="rounded-md border border-neutral-300 px-2 py-1"
+          >
+            Cancelar
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // 🔹 Unidades do produto no carrinho (todas as variantes): define a faixa de preço
+  const getProductCartQty = (product: string) =>
+    Object.entries(quantities).reduce((sum, [key, qty]) => {
+      const name = productsData[key] ? key : parseCartKey(key).name;
+      return name === product ? sum + qty : sum;
+    }, 0);
+
+  // 🔹 Itens do carrinho na ordem do evento (variantes e faixas de preço já aplicadas)
+  const getCartLines = (): CartLine[] => {
     const orderableNames = getOrderableProductNames();
+    return Object.entries(quantities)
+      .filter(([, qty]) => qty > 0)
+      .map(([key, qty]) => {
+        const { name, variantKey } = productsData[key]
+          ? { name: key, variantKey: "" }
+          : parseCartKey(key);
+        const info = productsData[name];
+        const groups = info?.optionGroups ?? [];
+        return {
+          key,
+          name,
+          variantKey,
+          variantLabel: variantKey ? variantLabel(groups, variantKey) : "",
+          productId: info?.productDocId ?? null,
+          unitPriceYen: getUnitPrice(name, variantKey, getProductCartQty(name)),
+          qty,
+        };
+      })
+      .filter((line) => orderableNames.includes(line.name))
+      .sort(
+        (a, b) =>
+          orderableNames.indexOf(a.name) - orderableNames.indexOf(b.name) ||
+          a.variantLabel.localeCompare(b.variantLabel, "pt-BR")
+      );
+  };
 
-    const selectedItems = orderableNames
-      .filter((p) => (quantities[p] || 0) > 0)
-      .map((p) => `${p}: ${quantities[p]}`);
+  // 🔹 Seletores de opção do card + variantes já no carrinho
+  const renderOptionPicker = (product: string) => {
+    const groups = productsData[product]?.optionGroups;
+    if (!groups) return null;
+    const inCart = getCartLines().filter(
+      (line) => line.name === product && line.variantKey
+    );
+    return (
+      <div className="space-y-1">
+        {groups.map((g) => (
+          <label key={g.id} className="flex items-center justify-between gap-2 text-[11px]">
+            <span className="text-neutral-600">{g.name}</span>
+            <select
+              className="border rounded-md px-1 py-0.5 text-[11px] bg-white"
+              value={optionSelections[product]?.[g.id] ?? ""}
+              onChange={(e) =>
+                setOptionSelections((prev) => ({
+                  ...prev,
+                  [product]: { ...prev[product], [g.id]: e.target.value },
+                }))
+              }
+            >
+              {g.options.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.label}
+                  {o.priceDeltaYen !== 0 &&
+                    ` (${o.priceDeltaYen > 0 ? "+" : "-"}¥${Math.abs(o.priceDeltaYen)})`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {inCart.length > 0 && (
+          <p className="text-[11px] text-neutral-500">
+            No carrinho:{" "}
+            {inCart.map((line) => `${line.variantLabel} × ${line.qty}`).join(", ")}
+          </p>
+        )}
+      </div>
+    );
+  };
 
-    const chosenDate = getChosenDate();
-    const timeLabel = getChosenTimeLabel();
+  // 🔹 Total dos itens (estimativa do navegador; o servidor confirma ao enviar)
+  const getItemsTotal = () =>
+    getCartLines().reduce((sum, line) => sum + line.qty * line.unitPriceYen, 0);
+
+  // 🔹 Descontos estimados (automáticas + código aplicado); o servidor confirma
+  const getPromotionPreview = () => {
+    const lines = getCartLines();
+    const promos = appliedPromo ? [...autoPromotions, appliedPromo] : autoPromotions;
+    return promos
+      .map((promo) => ({
+        label: promo.code ? `${promo.name} (${promo.code})` : promo.name,
+        amountYen: promotionDiscountYen(promo, lines),
+      }))
+      .filter((d) => d.amountYen > 0);
+  };
+
+  // 🔹 Confere o código digitado (o servidor valida de novo ao registrar)
+  const handleApplyPromoCode = async () => {
+    const code = normalizePromoCode(promoCodeInput);
+    setPromoError(null);
+    if (!code) {
+      setAppliedPromo(null);
+      return;
+    }
+    setCheckingPromo(true);
+    try {
+      const snap = await getDocs(
+        query(collection(db, "promotions"), where("code", "==", code), limit(1))
+      );
+      if (snap.empty) {
+        setAppliedPromo(null);
+        setPromoError("Código inválido.");
+        return;
+      }
+      const promo = readPromotion(snap.docs[0].id, snap.docs[0].data());
+      const reason = promotionUnavailableReason(promo, id, Date.now());
+      if (reason) {
+        setAppliedPromo(null);
+        setPromoError(reason);
+        return;
+      }
+      setAppliedPromo(promo);
+    } catch (err) {
+      console.error("Erro ao conferir código:", err);
+      setPromoError("Não foi possível conferir o código agora.");
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  // 🔹 Zona e taxa de entrega (null = evento sem zonas ou modo não é entrega)
+  const getDeliveryQuote = (itemsTotal: number) => {
+    if (!event || deliveryMode !== "delivery" || event.deliveryZones.length === 0) {
+      return null;
+    }
+    const zone = findDeliveryZone(
+      event.deliveryZones,
+      postalCode,
+      customerLocation,
+      event.pickupPoint
+    );
+    return {
+      zone,
+      feeYen: zone ? deliveryFeeFor(zone, itemsTotal) : 0,
+      belowMinimum: zone ? itemsTotal < zone.minOrderYen : false,
+    };
+  };
+
+  // 🔹 Monta o texto do pedido (já registrado: itens, entrega e valores como o servidor gravou)
+  const buildOrderMessage = (registered?: RegisteredOrder) => {
+    if (!event) return "";
+
+    const summary = registered?.summary ?? null;
+    const selectedItems = (summary ? summary.items : getCartLines()).map(
+      (line) =>
+        `${line.variantLabel ? `${line.name} (${line.variantLabel})` : line.name}: ${line.qty}`
+    );
+
+    const mode = summary ? summary.deliveryMode : deliveryMode;
+    const chosenDate = summary ? summary.deliveryDate : getChosenDate();
+    const timeLabel = summary ? summary.deliveryTimeSlot : getChosenTimeLabel();
 
     const lines = [
       `Olá, gostaria de fazer um pedido para o evento: ${event.title}`,
       `Região: ${event.region}`,
       `Modo de entrega: ${
-        deliveryMode === "delivery"
+        mode === "delivery"
           ? "Entrega"
-          : deliveryMode === "pickup"
+          : mode === "pickup"
           ? "Retirada no local"
           : "A combinar com a vendedora"
       }`,
@@ -433,12 +1169,17 @@ export default function EventPage({ params }: Props) {
       `Horário: ${timeLabel}`,
       "",
       `Nome: ${customerName || "(não informado)"}`,
+      ...(customerPhone.trim() ? [`Telefone: ${customerPhone.trim()}`] : []),
       "",
       "Itens:",
       ...selectedItems.map((l) => `- ${l}`),
     ];
 
-    if (deliveryMode === "delivery" && locationLink) {
+    if (mode === "delivery" && postalCode) {
+      lines.push("", `CEP: 〒${postalCode}`);
+    }
+
+    if (mode === "delivery" && locationLink) {
       lines.push("", `Localização do cliente (Google Maps): ${locationLink}`);
     }
 
@@ -454,14 +1195,53 @@ export default function EventPage({ params }: Props) {
       lines.push("", "Obs. do cliente:", note.trim());
     }
 
-    // total da compra
-    const totalAmount = getOrderableProductNames().reduce((sum, p) => {
-      const q = quantities[p] || 0;
-      const price = productsData[p]?.price || 0;
-      return sum + q * price;
-    }, 0);
+    if (registered) {
+      const { pricing } = registered;
+      const yen = (n: number) => `¥${n.toLocaleString("ja-JP")}`;
+      lines.push("", `Subtotal: ${yen(pricing.subtotalYen)}`);
+      pricing.discounts.forEach((d) => {
+        lines.push(`${d.label}: -${yen(d.amountYen)}`);
+      });
+      if (pricing.deliveryFeeYen > 0) {
+        lines.push(`Taxa de entrega: ${yen(pricing.deliveryFeeYen)}`);
+      }
+      lines.push(`Total: ${yen(pricing.totalYen)}`);
+      if (registered.trackingToken) {
+        const label =
+          typeof event.customerEditCutoffHours === "number"
+            ? "Acompanhe, altere ou cancele seu pedido"
+            : "Acompanhe seu pedido";
+        lines.push(
+          "",
+          `${label}: ${orderTrackingUrl(registered.trackingToken)}`
+        );
+      }
+      return lines.join("\n");
+    }
+
+    // total da compra (estimativa do navegador)
+    const itemsTotal = getItemsTotal();
+    const deliveryFee = getDeliveryQuote(itemsTotal)?.feeYen ?? 0;
+    const promoDiscounts = getPromotionPreview();
+    const discountTotal = Math.min(
+      itemsTotal,
+      promoDiscounts.reduce((sum, d) => sum + d.amountYen, 0)
+    );
+    const totalAmount = itemsTotal - discountTotal + deliveryFee;
 
     if (totalAmount > 0) {
+      if (promoDiscounts.length > 0) {
+        lines.push("");
+        promoDiscounts.forEach((d) => {
+          lines.push(`${d.label}: -¥${d.amountYen.toLocaleString("ja-JP")}`);
+        });
+      }
+      if (deliveryFee > 0) {
+        lines.push(
+          "",
+          `Taxa de entrega: ¥${deliveryFee.toLocaleString("ja-JP")}`
+        );
+      }
       lines.push(
         "",
         `Total estimado: ¥${totalAmount.toLocaleString("ja-JP")}`
@@ -475,20 +1255,23 @@ export default function EventPage({ params }: Props) {
   const resetForm = () => {
     if (!event) return;
 
-    const resetQty: Record<string, number> = {};
-    getOrderableProductNames().forEach((p) => {
-      resetQty[p] = 0;
-    });
-    setQuantities(resetQty);
+    setQuantities({});
     setCustomerName("");
+    setCustomerPhone("");
     setNote("");
     setLocationLink("");
+    setCustomerLocation(null);
+    setPostalCode("");
+    setPromoCodeInput("");
+    setAppliedPromo(null);
+    setPromoError(null);
 
     // padrões pós-envio
     setDeliveryMode("pickup");
     setTimeOption("no-preference");
     setSelectedHour(null);
     setSelectedMinute(null);
+    setSelectedSlotId(null);
     setOtherDate("");
 
     if (event.deliveryDates.length > 0) {
@@ -501,21 +1284,25 @@ export default function EventPage({ params }: Props) {
   };
 
  // 🔹 Registra o pedido no Firestore (WhatsApp / Messenger) E ABATE ESTOQUE
-const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
+const registerOrderInFirestore = async (
+  channel: "whatsapp" | "messenger"
+): Promise<RegisteredOrder> => {
   if (!event) throw new Error("Evento não carregado.");
 
-  const orderableNames = getOrderableProductNames();
-  const quantitiesClean: Record<string, number> = {};
+  const items: Array<{ productId: string; qty: number; variantKey?: string }> = [];
 
-  orderableNames.forEach((p) => {
-    const q = quantities[p] || 0;
-    if (q > 0) quantitiesClean[p] = q;
-  });
+  for (const line of getCartLines()) {
+    if (!line.productId) {
+      throw new Error(`Produto indisponível no catálogo: ${line.name}`);
+    }
+    items.push({
+      productId: line.productId,
+      qty: line.qty,
+      ...(line.variantKey ? { variantKey: line.variantKey } : {}),
+    });
+  }
 
-  const totalItems = Object.values(quantitiesClean).reduce(
-    (sum, q) => sum + Number(q || 0),
-    0
-  );
+  const totalItems = items.reduce((sum, it) => sum + it.qty, 0);
 
   if (totalItems === 0) {
     throw new Error("Selecione pelo menos 1 produto com quantidade.");
@@ -533,20 +1320,47 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
   const chosenDate = getChosenDate();
   const timeLabel = getChosenTimeLabel();
 
+  // 🔹 data com faixas: precisa escolher uma faixa com vaga
+  const chosenSlot = getChosenSlot();
+  if (getSlotsForChosenDate().length > 0 && !chosenSlot) {
+    throw new Error("Escolha uma faixa de horário com vaga.");
+  }
+
+  // 🔹 entrega com zonas: endereço precisa estar numa zona e atingir o mínimo
+  const deliveryQuote = getDeliveryQuote(getItemsTotal());
+  if (deliveryQuote && !deliveryQuote.zone) {
+    throw new Error(
+      "Endereço fora da área de entrega. Informe o CEP ou use sua localização, ou escolha retirada."
+    );
+  }
+  if (deliveryQuote?.zone && deliveryQuote.belowMinimum) {
+    throw new Error(
+      `Pedido mínimo para entrega em ${deliveryQuote.zone.name}: ¥${deliveryQuote.zone.minOrderYen.toLocaleString("ja-JP")}.`
+    );
+  }
+
+  const payload = {
+    eventId: id,
+    channel,
+    customerName,
+    customerPhone,
+    note,
+    deliveryMode,
+    deliveryDate: chosenDate,
+    deliveryTimeSlot: timeLabel,
+    timeSlotId: chosenSlot?.id,
+    locationLink: deliveryMode === "delivery" ? locationLink || "" : "",
+    postalCode: deliveryMode === "delivery" ? postalCode : "",
+    promoCode: appliedPromo?.code ?? "",
+    customerLat: deliveryMode === "delivery" ? customerLocation?.lat : undefined,
+    customerLng: deliveryMode === "delivery" ? customerLocation?.lng : undefined,
+    items,
+  };
+
   const resp = await fetch(FUNCTION_URL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      eventId: id,
-      channel,
-      customerName,
-      note,
-      deliveryMode,
-      deliveryDate: chosenDate,
-      deliveryTimeSlot: timeLabel,
-      locationLink: deliveryMode === "delivery" ? locationLink || "" : "",
-      quantities: quantitiesClean,
-    }),
+    body: JSON.stringify({ ...payload, requestKey: getCartRequestKey(JSON.stringify(payload)) }),
   });
 
   const data = await resp.json().catch(() => null);
@@ -556,23 +1370,98 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
     throw new Error(msg);
   }
 
-  // Atualiza estoques se vierem
+  // pedido registrado: o próximo carrinho ganha uma chave nova
+  clearCartRequestKey();
+
+  // Atualiza estoques e cotas se vierem (chave = id do produto)
   const updatedStocks: Record<string, number> = data?.updatedStocks || {};
-  if (Object.keys(updatedStocks).length > 0) {
+  const updatedQuotas: Record<string, number> = data?.updatedQuotas || {};
+  if (
+    Object.keys(updatedStocks).length > 0 ||
+    Object.keys(updatedQuotas).length > 0
+  ) {
     setProductsData((prev) => {
       const next = { ...prev };
-      for (const [name, newStock] of Object.entries(updatedStocks)) {
-        const info = next[name];
-        if (!info) continue;
+      for (const [name, info] of Object.entries(next)) {
+        const productId = info.productDocId;
+        const bundleTouched =
+          info.bundleItems?.some((c) => c.productId in updatedStocks) ?? false;
+        // variantes voltam como "idDoProduto:variante"
+        const variantUpdates = Object.entries(updatedStocks).filter(([key]) =>
+          key.startsWith(`${productId}:`)
+        );
+        if (
+          !productId ||
+          !(
+            productId in updatedStocks ||
+            productId in updatedQuotas ||
+            bundleTouched ||
+            variantUpdates.length > 0
+          )
+        ) {
+          continue;
+        }
+        const variantStocks = info.variantStocks
+          ? {
+              ...info.variantStocks,
+              ...Object.fromEntries(
+                variantUpdates.map(([key, qty]) => [key.slice(productId.length + 1), qty])
+              ),
+            }
+          : undefined;
+        const componentStocks = info.componentStocks
+          ? { ...info.componentStocks, ...updatedStocks }
+          : undefined;
+        const globalStockQty =
+          info.bundleItems && componentStocks
+            ? bundleStock(info.bundleItems, componentStocks)
+            : updatedStocks[productId] ?? info.globalStockQty;
+        const eventQuota = updatedQuotas[productId] ?? info.eventQuota;
+        const newStock = availableForEvent(
+          globalStockQty,
+          eventQuota,
+          event.quotaReplacesGlobalStock
+        );
         next[name] = {
           ...info,
+          ...(componentStocks ? { componentStocks } : {}),
+          ...(variantStocks ? { variantStocks } : {}),
+          globalStockQty,
+          eventQuota,
           stockQty: newStock,
-          status: newStock <= 0 ? "inactive" : info.status,
+          status:
+            typeof newStock === "number" && newStock <= 0
+              ? "inactive"
+              : info.status,
         };
       }
       return next;
     });
   }
+
+  // Atualiza vagas das faixas
+  const updatedSlotBookings: Record<string, number> =
+    data?.updatedSlotBookings || {};
+  if (Object.keys(updatedSlotBookings).length > 0) {
+    setEvent((prev) =>
+      prev
+        ? {
+            ...prev,
+            timeSlotBookings: {
+              ...prev.timeSlotBookings,
+              ...updatedSlotBookings,
+            },
+          }
+        : prev
+    );
+  }
+
+  return {
+    orderId: data.orderId,
+    trackingToken: data.trackingToken || "",
+    pricing: data.pricing,
+    summary: data.summary ?? null,
+  };
 };
 
 
@@ -584,26 +1473,29 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
       return;
     }
 
-    const hasItems = getOrderableProductNames().some(
-      (p) => (quantities[p] || 0) > 0
-    );
+    const hasItems = getCartLines().length > 0;
     if (!hasItems) {
       alert("Selecione pelo menos 1 produto com quantidade.");
       return;
     }
 
-    const message = buildOrderMessage();
-    const encoded = encodeURIComponent(message);
-    const phone = event.whatsapp.replace(/\D/g, "");
-    const url = `https://wa.me/${phone}?text=${encoded}`;
-
+    if (sending) return;
+    setSending(true);
     try {
-      await registerOrderInFirestore("whatsapp");
+      const registered = await registerOrderInFirestore("whatsapp");
+      const message = buildOrderMessage(registered);
+      const encoded = encodeURIComponent(message);
+      const phone = event.whatsapp.replace(/\D/g, "");
+      const url = `https://wa.me/${phone}?text=${encoded}`;
+
+      setLastOrder(registered);
       resetForm();
       openExternalLink(url);
     } catch (err: any) {
       console.error("Erro ao registrar pedido:", err);
       alert(err?.message || "Erro ao registrar pedido. Tente novamente.");
+    } finally {
+      setSending(false);
     }
   };
 
@@ -615,25 +1507,28 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
       return;
     }
 
-    const hasItems = getOrderableProductNames().some(
-      (p) => (quantities[p] || 0) > 0
-    );
+    const hasItems = getCartLines().length > 0;
     if (!hasItems) {
       alert("Selecione pelo menos 1 produto com quantidade.");
       return;
     }
 
-    const message = buildOrderMessage();
-    const encoded = encodeURIComponent(message);
-    const url = `https://m.me/${event.messengerId}?text=${encoded}`;
-
+    if (sending) return;
+    setSending(true);
     try {
-      await registerOrderInFirestore("messenger");
+      const registered = await registerOrderInFirestore("messenger");
+      const message = buildOrderMessage(registered);
+      const encoded = encodeURIComponent(message);
+      const url = `https://m.me/${event.messengerId}?text=${encoded}`;
+
+      setLastOrder(registered);
       resetForm();
       openExternalLink(url);
     } catch (err: any) {
       console.error("Erro ao registrar pedido:", err);
       alert(err?.message || "Erro ao registrar pedido. Tente novamente.");
+    } finally {
+      setSending(false);
     }
   };
 
@@ -719,6 +1614,37 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
     );
   }
 
+  // 🔹 Janela de pedidos (mesma regra do createEventOrder)
+  const orderWindow = getOrderWindowState(
+    event.ordersOpenAt,
+    event.ordersCloseAt,
+    nowMs
+  );
+
+  if (event.status === "closed" || orderWindow.state === "closed") {
+    return (
+      <main className="space-y-4">
+        <header className="space-y-1 border-b pb-4">
+          <h1 className="text-2xl font-bold">{event.title}</h1>
+          <p className="text-sm text-neutral-700">
+            Região: {event.region}
+            <br />
+            Data(s): {event.deliveryDateLabel}
+          </p>
+        </header>
+        <p className="text-sm font-semibold text-neutral-800">
+          Pedidos encerrados para este evento.
+        </p>
+        <p className="text-sm text-neutral-600">
+          Já fez seu pedido? Use o link de acompanhamento que foi junto na
+          mensagem. Para novos pedidos, fale com a vendedora.
+        </p>
+      </main>
+    );
+  }
+
+  const ordersNotOpenYet = orderWindow.state === "not-open";
+
   // 🔹 Garante ordem alfabética dos nomes (apenas produtos do evento, para o grid principal)
   const sortedProductNames = [...event.productNames].sort((a, b) =>
     a.localeCompare(b, "pt-BR")
@@ -741,11 +1667,14 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
   const featuredProducts = event.featuredProductNames || [];
 
   // total estimado no front (usando todos os produtos que podem ser pedidos)
-  const totalAmount = getOrderableProductNames().reduce((sum, p) => {
-    const q = quantities[p] || 0;
-    const price = productsData[p]?.price || 0;
-    return sum + q * price;
-  }, 0);
+  const itemsTotal = getItemsTotal();
+  const deliveryQuote = getDeliveryQuote(itemsTotal);
+  const promoDiscounts = getPromotionPreview();
+  const discountTotal = Math.min(
+    itemsTotal,
+    promoDiscounts.reduce((sum, d) => sum + d.amountYen, 0)
+  );
+  const totalAmount = itemsTotal - discountTotal + (deliveryQuote?.feeYen ?? 0);
 
   return (
     <main className="space-y-6">
@@ -781,6 +1710,26 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
         <p className="text-xs text-neutral-500">
           Este link é exclusivo deste evento e desta vendedora.
         </p>
+
+        {orderWindow.state === "not-open" && (
+          <p className="rounded-md border border-amber-300 bg-amber-50 p-2 text-sm text-amber-900">
+            Pedidos abrem em{" "}
+            <span className="font-semibold">
+              {formatCountdown(orderWindow.opensAt, nowMs)}
+            </span>{" "}
+            ({formatTokyoDateTime(orderWindow.opensAt)}, horário do Japão)
+          </p>
+        )}
+
+        {orderWindow.state === "open" && orderWindow.closesAt && (
+          <p className="rounded-md border border-green-300 bg-green-50 p-2 text-sm text-green-900">
+            Pedidos encerram em{" "}
+            <span className="font-semibold">
+              {formatCountdown(orderWindow.closesAt, nowMs)}
+            </span>{" "}
+            ({formatTokyoDateTime(orderWindow.closesAt)}, horário do Japão)
+          </p>
+        )}
       </header>
 
       {/* CARROSSEL DE DESTAQUES */}
@@ -790,12 +1739,19 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
           <div className="flex gap-3 overflow-x-auto pb-2">
             {featuredProducts.map((name) => {
               const info = productsData[name];
-              const qty = quantities[name] ?? 0;
-
-              const stock =
-                typeof info?.stockQty === "number" ? info.stockQty : null;
+              // com opções, quantidade/estoque/preço são os da variante escolhida
+              const cartKey = getSelectedCartKey(name);
+              const qty = cartKey ? quantities[cartKey] ?? 0 : 0;
+              const unitPrice =
+                info?.price != null && cartKey && info.optionGroups
+                  ? info.price +
+                    variantPriceDelta(info.optionGroups, parseCartKey(cartKey).variantKey)
+                  : info?.price;
+              const cartStock = cartKey ? getCartKeyStock(cartKey) : undefined;
+
+              const stock = typeof cartStock === "number" ? cartStock : null;
               const isOutOfStock =
-                stock !== null && Number.isFinite(stock) && stock <= 0;
+                !cartKey || (stock !== null && Number.isFinite(stock) && stock <= 0);
 
               const lowStockThreshold =
                 typeof info?.lowStockThreshold === "number"
@@ -841,9 +1797,9 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                     <p className="text-xs font-semibold leading-snug truncate">
                       {name}
                     </p>
-                    {info?.price != null && !Number.isNaN(info.price) && (
+                    {unitPrice != null && !Number.isNaN(unitPrice) && (
                       <p className="text-xs text-neutral-600">
-                        ¥{info.price.toLocaleString("ja-JP")}
+                        ¥{unitPrice.toLocaleString("ja-JP")}
                       </p>
                     )}
 
@@ -855,7 +1811,9 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                           </span>
                         ) : (
                           <>
-                            Disponível:{" "}
+                            {typeof info?.eventQuota === "number"
+                              ? "Restam neste evento:"
+                              : "Disponível:"}{" "}
                             <span className="font-semibold">
                               {stock} unidade
                               {stock > 1 ? "s" : ""}
@@ -872,6 +1830,12 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                     )}
                   </div>
 
+                  {renderBestBefore(name)}
+                  {renderPriceTiers(name, cartKey)}
+                  {renderLimitHint(name)}
+                  {stock !== null && stock <= 0 && renderWaitlist(name)}
+                  {renderOptionPicker(name)}
+
                   <div className="flex items-center justify-between gap-2">
                     <span className="text-[11px] text-neutral-600">
                       Quantidade
@@ -879,7 +1843,7 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                     <div className="inline-flex items-center gap-2">
                       <button
                         type="button"
-                        onClick={() => adjustQuantity(name, -1)}
+                        onClick={() => cartKey && adjustQuantity(cartKey, -1)}
                         className="h-7 w-7 rounded-full border border-neutral-300 text-sm flex items-center justify-center hover:bg-neutral-100"
                       >
                         -
@@ -891,7 +1855,7 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                         type="button"
                         disabled={isOutOfStock}
                         onClick={() => {
-                          if (!isOutOfStock) adjustQuantity(name, 1);
+                          if (cartKey && !isOutOfStock) adjustQuantity(cartKey, 1);
                         }}
                         className={`h-7 w-7 rounded-full border text-sm flex items-center justify-center ${
                           isOutOfStock
@@ -928,16 +1892,23 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                   <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
                     {items.map((product) => {
                       const info = productsData[product];
-                      const qty = quantities[product] ?? 0;
+                      // com opções, quantidade/estoque/preço são os da variante escolhida
+                      const cartKey = getSelectedCartKey(product);
+                      const qty = cartKey ? quantities[cartKey] ?? 0 : 0;
+                      const unitPrice =
+                        info?.price != null && cartKey && info.optionGroups
+                          ? info.price +
+                            variantPriceDelta(info.optionGroups, parseCartKey(cartKey).variantKey)
+                          : info?.price;
+                      const cartStock = cartKey ? getCartKeyStock(cartKey) : undefined;
 
                       const stock =
-                        typeof info?.stockQty === "number"
-                          ? info.stockQty
-                          : null;
+                        typeof cartStock === "number" ? cartStock : null;
                       const isOutOfStock =
-                        stock !== null &&
-                        Number.isFinite(stock) &&
-                        stock <= 0;
+                        !cartKey ||
+                        (stock !== null &&
+                          Number.isFinite(stock) &&
+                          stock <= 0);
 
                       const lowStockThreshold =
                         typeof info?.lowStockThreshold === "number"
@@ -995,10 +1966,10 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                             <span className="block text-xs font-semibold leading-snug">
                               {product}
                             </span>
-                            {info?.price != null &&
-                              !Number.isNaN(info.price) && (
+                            {unitPrice != null &&
+                              !Number.isNaN(unitPrice) && (
                                 <span className="block text-xs text-neutral-600">
-                                  ¥{info.price.toLocaleString("ja-JP")}
+                                  ¥{unitPrice.toLocaleString("ja-JP")}
                                 </span>
                               )}
 
@@ -1011,7 +1982,9 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                                     </span>
                                   ) : (
                                     <>
-                                      Disponível:{" "}
+                                      {typeof info?.eventQuota === "number"
+                                        ? "Restam neste evento:"
+                                        : "Disponível:"}{" "}
                                       <span className="font-semibold">
                                         {stock} unidade
                                         {stock > 1 ? "s" : ""}
@@ -1028,6 +2001,12 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                             )}
                           </button>
 
+                          {renderBestBefore(product)}
+                          {renderPriceTiers(product, cartKey)}
+                          {renderLimitHint(product)}
+                          {stock !== null && stock <= 0 && renderWaitlist(product)}
+                          {renderOptionPicker(product)}
+
                           <div className="flex items-center justify-between gap-2">
                             <span className="text-[11px] text-neutral-600">
                               Quantidade
@@ -1035,7 +2014,7 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                             <div className="inline-flex items-center gap-2">
                               <button
                                 type="button"
-                                onClick={() => adjustQuantity(product, -1)}
+                                onClick={() => cartKey && adjustQuantity(cartKey, -1)}
                                 className="h-7 w-7 rounded-full border border-neutral-300 text-sm flex items-center justify-center hover:bg-neutral-100"
                               >
                                 -
@@ -1047,8 +2026,8 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                                 type="button"
                                 disabled={isOutOfStock}
                                 onClick={() => {
-                                  if (!isOutOfStock)
-                                    adjustQuantity(product, 1);
+                                  if (cartKey && !isOutOfStock)
+                                    adjustQuantity(cartKey, 1);
                                 }}
                                 className={`h-7 w-7 rounded-full border text-sm flex items-center justify-center ${
                                   isOutOfStock
@@ -1076,16 +2055,23 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
                   {uncategorized.map((product) => {
                     const info = productsData[product];
-                    const qty = quantities[product] ?? 0;
+                    // com opções, quantidade/estoque/preço são os da variante escolhida
+                    const cartKey = getSelectedCartKey(product);
+                    const qty = cartKey ? quantities[cartKey] ?? 0 : 0;
+                    const unitPrice =
+                      info?.price != null && cartKey && info.optionGroups
+                        ? info.price +
+                          variantPriceDelta(info.optionGroups, parseCartKey(cartKey).variantKey)
+                        : info?.price;
+                    const cartStock = cartKey ? getCartKeyStock(cartKey) : undefined;
 
                     const stock =
-                      typeof info?.stockQty === "number"
-                        ? info.stockQty
-                        : null;
+                      typeof cartStock === "number" ? cartStock : null;
                     const isOutOfStock =
-                      stock !== null &&
-                      Number.isFinite(stock) &&
-                      stock <= 0;
+                      !cartKey ||
+                      (stock !== null &&
+                        Number.isFinite(stock) &&
+                        stock <= 0);
 
                     const lowStockThreshold =
                       typeof info?.lowStockThreshold === "number"
@@ -1129,9 +2115,9 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                         <span className="block text-xs font-semibold leading-snug">
                           {product}
                         </span>
-                        {info?.price != null && !Number.isNaN(info.price) && (
+                        {unitPrice != null && !Number.isNaN(unitPrice) && (
                           <span className="block text-xs text-neutral-600">
-                            ¥{info.price.toLocaleString("ja-JP")}
+                            ¥{unitPrice.toLocaleString("ja-JP")}
                           </span>
                         )}
                         {stock !== null && (
@@ -1143,7 +2129,9 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                                 </span>
                               ) : (
                                 <>
-                                  Disponível:{" "}
+                                  {typeof info?.eventQuota === "number"
+                                    ? "Restam neste evento:"
+                                    : "Disponível:"}{" "}
                                   <span className="font-semibold">
                                     {stock} unidade
                                     {stock > 1 ? "s" : ""}
@@ -1158,6 +2146,11 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                             )}
                           </>
                         )}
+                        {renderBestBefore(product)}
+                        {renderPriceTiers(product, cartKey)}
+                        {renderLimitHint(product)}
+                        {stock !== null && stock <= 0 && renderWaitlist(product)}
+                        {renderOptionPicker(product)}
                         <div className="flex items-center justify-between gap-2">
                           <span className="text-[11px] text-neutral-600">
                             Quantidade
@@ -1165,7 +2158,7 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                           <div className="inline-flex items-center gap-2">
                             <button
                               type="button"
-                              onClick={() => adjustQuantity(product, -1)}
+                              onClick={() => cartKey && adjustQuantity(cartKey, -1)}
                               className="h-7 w-7 rounded-full border border-neutral-300 text-sm flex items-center justify-center hover:bg-neutral-100"
                             >
                               -
@@ -1177,8 +2170,8 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
                               type="button"
                               disabled={isOutOfStock}
                               onClick={() => {
-                                if (!isOutOfStock)
-                                  adjustQuantity(product, 1);
+                                if (cartKey && !isOutOfStock)
+                                  adjustQuantity(cartKey, 1);
                               }}
                               className={`h-7 w-7 rounded-full border text-sm flex items-center justify-center ${
                                 isOutOfStock
@@ -1215,6 +2208,18 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
             />
           </div>
 
+          {/* Telefone */}
+          <div className="space-y-1">
+            <label className="text-xs block">Telefone (opcional)</label>
+            <input
+              type="tel"
+              className="w-full border rounded-md px-3 py-2 text-sm"
+              value={customerPhone}
+              onChange={(e) => setCustomerPhone(e.target.value)}
+              placeholder="Ex: 090-1234-5678"
+            />
+          </div>
+
           {/* Escolha de data + horário */}
           <div className="space-y-2 border rounded-md p-3 bg-neutral-50">
             <h3 className="text-xs font-semibold">Escolha o dia de entrega:</h3>
@@ -1285,43 +2290,73 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
             {/* Picker de horário */}
             <div className="space-y-2 pt-3 border-t border-neutral-200">
               <h4 className="text-xs font-semibold">Horário de entrega</h4>
-              <div className="flex flex-wrap items-center gap-2">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setTimeOption("no-preference");
-                    setSelectedHour(null);
-                    setSelectedMinute(null);
-                  }}
-                  className={`px-3 py-1 rounded-full text-xs border transition ${
-                    timeOption === "no-preference"
-                      ? "bg-black text-white border-black"
-                      : "bg-white text-neutral-800 border-neutral-300 hover:bg-neutral-100"
-                  }`}
-                >
-                  Sem preferência
-                </button>
-                <button
-                  type="button"
-                  onClick={() => {
-                    setTimeOption("custom");
-                    if (selectedHour == null) setSelectedHour(10);
-                    if (selectedMinute == null) setSelectedMinute(0);
-                    setTimePickerOpen(true);
-                  }}
-                  className={`px-3 py-1 rounded-full text-xs border transition ${
-                    timeOption === "custom"
-                      ? "bg-black text-white border-black"
-                      : "bg-white text-neutral-800 border-neutral-300 hover:bg-neutral-100"
-                  }`}
-                >
-                  Escolher horário
-                </button>
-                {/* Horário escolhido */}
-                <span className="px-3 py-1 rounded-full text-xs bg-neutral-100 border border-neutral-200 text-neutral-800">
-                  {getChosenTimeLabel()}
-                </span>
-              </div>
+              {getSlotsForChosenDate().length > 0 ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  {getSlotsForChosenDate().map((slot) => {
+                    const left = remainingSlotCapacity(
+                      slot,
+                      event.timeSlotBookings
+                    );
+                    const isSelected = selectedSlotId === slot.id;
+                    return (
+                      <button
+                        key={slot.id}
+                        type="button"
+                        disabled={left <= 0}
+                        onClick={() => setSelectedSlotId(slot.id)}
+                        className={`px-3 py-1 rounded-full text-xs border transition ${
+                          left <= 0
+                            ? "bg-neutral-100 text-neutral-400 border-neutral-200 cursor-not-allowed line-through"
+                            : isSelected
+                            ? "bg-black text-white border-black"
+                            : "bg-white text-neutral-800 border-neutral-300 hover:bg-neutral-100"
+                        }`}
+                      >
+                        {timeSlotLabel(slot)}
+                        {left > 0 ? ` (${left} vaga${left > 1 ? "s" : ""})` : " (lotado)"}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setTimeOption("no-preference");
+                      setSelectedHour(null);
+                      setSelectedMinute(null);
+                    }}
+                    className={`px-3 py-1 rounded-full text-xs border transition ${
+                      timeOption === "no-preference"
+                        ? "bg-black text-white border-black"
+                        : "bg-white text-neutral-800 border-neutral-300 hover:bg-neutral-100"
+                    }`}
+                  >
+                    Sem preferência
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setTimeOption("custom");
+                      if (selectedHour == null) setSelectedHour(10);
+                      if (selectedMinute == null) setSelectedMinute(0);
+                      setTimePickerOpen(true);
+                    }}
+                    className={`px-3 py-1 rounded-full text-xs border transition ${
+                      timeOption === "custom"
+                        ? "bg-black text-white border-black"
+                        : "bg-white text-neutral-800 border-neutral-300 hover:bg-neutral-100"
+                    }`}
+                  >
+                    Escolher horário
+                  </button>
+                  {/* Horário escolhido */}
+                  <span className="px-3 py-1 rounded-full text-xs bg-neutral-100 border border-neutral-200 text-neutral-800">
+                    {getChosenTimeLabel()}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -1367,6 +2402,50 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
             {/* Entrega: localização + observação */}
             {deliveryMode === "delivery" && (
               <div className="space-y-3 pt-2 border-t border-neutral-200">
+                {event.deliveryZones.length > 0 && (
+                  <div className="space-y-1">
+                    <label className="text-xs block">
+                      CEP do endereço de entrega (〒)
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      className="w-40 border rounded-md px-3 py-1.5 text-sm"
+                      value={postalCode}
+                      onChange={(e) =>
+                        setPostalCode(normalizePostalCode(e.target.value))
+                      }
+                      placeholder="Ex: 4300001"
+                    />
+                    {deliveryQuote?.zone ? (
+                      <p className="text-[11px] text-neutral-700">
+                        Zona: <b>{deliveryQuote.zone.name}</b> • Taxa:{" "}
+                        {deliveryQuote.feeYen > 0
+                          ? `¥${deliveryQuote.feeYen.toLocaleString("ja-JP")}`
+                          : "grátis"}
+                        {deliveryQuote.zone.minOrderYen > 0 &&
+                          ` • Pedido mínimo: ¥${deliveryQuote.zone.minOrderYen.toLocaleString("ja-JP")}`}
+                        {deliveryQuote.zone.freeAboveYen !== null &&
+                          deliveryQuote.feeYen > 0 &&
+                          ` • Grátis a partir de ¥${deliveryQuote.zone.freeAboveYen.toLocaleString("ja-JP")}`}
+                      </p>
+                    ) : (
+                      <p className="text-[11px] text-amber-700">
+                        {postalCode || customerLocation
+                          ? "Endereço fora da área de entrega. Escolha retirada ou combine com a vendedora."
+                          : "Informe o CEP ou use sua localização para ver a taxa de entrega."}
+                      </p>
+                    )}
+                    {deliveryQuote?.belowMinimum && (
+                      <p className="text-[11px] text-red-600">
+                        Faltam ¥
+                        {(deliveryQuote.zone!.minOrderYen - itemsTotal).toLocaleString("ja-JP")}{" "}
+                        para o pedido mínimo de entrega.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-1">
                   <p className="text-[11px] text-neutral-600">
                     Você pode enviar sua localização atual para a vendedora.
@@ -1453,28 +2532,119 @@ const registerOrderInFirestore = async (channel: "whatsapp" | "messenger") => {
 
       {/* RESUMO E BOTÕES DE ENVIO */}
       <section className="space-y-3">
+        {lastOrder && (
+          <div className="rounded-md border border-green-300 bg-green-50 p-3 text-xs text-green-900 space-y-1">
+            <p className="font-semibold">Pedido registrado! ✅</p>
+            <p>
+              Total confirmado:{" "}
+              <span className="font-semibold">
+                ¥{lastOrder.pricing.totalYen.toLocaleString("ja-JP")}
+              </span>
+              {lastOrder.pricing.discountYen > 0 && (
+                <>
+                  {" "}
+                  (desconto de ¥
+                  {lastOrder.pricing.discountYen.toLocaleString("ja-JP")})
+                </>
+              )}
+              {lastOrder.pricing.deliveryFeeYen > 0 && (
+                <>
+                  {" "}
+                  (inclui entrega de ¥
+                  {lastOrder.pricing.deliveryFeeYen.toLocaleString("ja-JP")})
+                </>
+              )}
+            </p>
+            {lastOrder.trackingToken && (
+              <p>
+                <a
+                  href={`/pedido/${lastOrder.trackingToken}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-semibold underline"
+                >
+                  Acompanhar meu pedido
+                </a>{" "}
+                (o link também vai na mensagem)
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* PROMOÇÕES */}
+        <div className="space-y-2 border rounded-md p-3 bg-neutral-50">
+          {autoPromotions.length > 0 && (
+            <ul className="space-y-0.5 text-[11px] text-green-800">
+              {autoPromotions.map((promo) => (
+                <li key={promo.id}>
+                  🎁 {promo.name}: {describePromotion(promo)}
+                  {promo.minSubtotalYen > 0 &&
+                    ` (a partir de ¥${promo.minSubtotalYen.toLocaleString("ja-JP")})`}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="flex-1 border rounded-md px-3 py-1.5 text-sm uppercase"
+              value={promoCodeInput}
+              onChange={(e) => setPromoCodeInput(e.target.value)}
+              placeholder="Código promocional (opcional)"
+            />
+            <button
+              type="button"
+              onClick={() => void handleApplyPromoCode()}
+              disabled={checkingPromo}
+              className="px-3 py-1.5 rounded-md border text-xs bg-white hover:bg-neutral-100 disabled:opacity-60"
+            >
+              {checkingPromo ? "Conferindo..." : "Aplicar"}
+            </button>
+          </div>
+          {appliedPromo && (
+            <p className="text-[11px] text-green-700">
+              Código {appliedPromo.code} aplicado: {describePromotion(appliedPromo)}
+            </p>
+          )}
+          {promoError && <p className="text-[11px] text-red-600">{promoError}</p>}
+          {promoDiscounts.map((d) => (
+            <p key={d.label} className="text-xs text-green-800">
+              {d.label}: -¥{d.amountYen.toLocaleString("ja-JP")}
+            </p>
+          ))}
+        </div>
+
         {totalAmount > 0 && (
           <p className="text-sm font-semibold text-neutral-800">
-            Total estimado do pedido:{" "}
+            Total estimado do pedido (confirmado ao enviar):{" "}
               <span className="text-green-700">
                 ¥{totalAmount.toLocaleString("ja-JP")}
               </span>
+            {deliveryQuote?.zone && (
+              <span className="block text-xs font-normal text-neutral-600">
+                {deliveryQuote.feeYen > 0
+                  ? `Inclui taxa de entrega de ¥${deliveryQuote.feeYen.toLocaleString("ja-JP")}`
+                  : "Entrega grátis"}
+              </span>
+            )}
           </p>
         )}
 
         <button
           onClick={handleSendWhatsApp}
-          className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-2 rounded-md text-sm"
+          disabled={sending || ordersNotOpenYet}
+          className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-2 rounded-md text-sm disabled:opacity-60"
         >
-          Enviar pedido pelo WhatsApp
+          {sending ? "Registrando pedido..." : "Enviar pedido pelo WhatsApp"}
         </button>
 
         {event.messengerId && (
           <button
             onClick={handleSendMessenger}
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 rounded-md text-sm"
+            disabled={sending || ordersNotOpenYet}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 rounded-md text-sm disabled:opacity-60"
           >
-            Enviar pedido pelo Messenger
+            {sending ? "Registrando pedido..." : "Enviar pedido pelo Messenger"}
           </button>
         )}
 
@@ -0,0 +1,692 @@
+"use client";
+import { use, useEffect, useState } from "react";
+import { db } from "@/lib/firebase";
+import { doc, getDoc, onSnapshot } from "firebase/firestore";
+import { callPublicFunction } from "@/lib/functions";
+import {
+  readTimeSlots,
+  remainingSlotCapacity,
+  timeSlotLabel,
+  type TimeSlot,
+} from "@/lib/events";
+import { normalizePostalCode } from "@/lib/delivery";
+import {
+  customerEditDeadline,
+  isOrderStatus,
+  CUSTOMER_EDITABLE_STATUSES,
+  lineItemKey,
+  lineItemName,
+  readOrderItems,
+  readOrderPricing,
+  ORDER_STATUS_LABELS,
+  type OrderLineItem,
+  type OrderPricing,
+  type OrderStatus,
+} from "@/lib/orders";
+import {
+  PAYMENT_METHOD_LABELS,
+  readPaidYen,
+  readPaymentMethod,
+  type PaymentMethod,
+} from "@/lib/payments";
+
+type DeliveryMode = "delivery" | "pickup" | "none";
+
+type Props = {
+  params: Promise<{ token: string }>;
+};
+
+type TrackedOrder = {
+  customerName: string;
+  items: OrderLineItem[];
+  pricing: OrderPricing;
+  status: OrderStatus;
+  deliveryMode: DeliveryMode;
+  deliveryDate: string;
+  deliveryTimeSlot: string;
+  note: string;
+  locationLink: string;
+  postalCode: string;
+  deliveryZoneName: string | null;
+  timeSlotId: string | null;
+  paid: boolean;
+  paymentMethod: PaymentMethod | null;
+  /** pagamentos parciais (sinal); ver lib/payments.ts */
+  paidYen: number;
+};
+
+type TrackedEvent = {
+  title: string;
+  region: string;
+  whatsapp: string;
+  pickupLink: string;
+  pickupNote: string;
+  deliveryDates: string[];
+  /** horas antes do dia de entrega em que o cliente ainda pode alterar; null = não pode */
+  customerEditCutoffHours: number | null;
+  /** fechamento dos pedidos: prazo de alteração quando a data é texto livre */
+  ordersCloseAt: Date | null;
+  timeSlots: TimeSlot[];
+  timeSlotBookings: Record<string, number>;
+};
+
+
+// 🔹 Etapas mostradas para o cliente (em rota só aparece para entrega)
+const trackingSteps = (mode: DeliveryMode): OrderStatus[] =>
+  mode === "delivery"
+    ? ["pending", "confirmed", "preparing", "ready", "out_for_delivery", "delivered"]
+    : ["pending", "confirmed", "preparing", "ready", "delivered"];
+
+const yen = (n: number) => `¥${n.toLocaleString("ja-JP")}`;
+
+export default function OrderTrackingPage({ params }: Props) {
+  const { token } = use(params);
+
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [event, setEvent] = useState<TrackedEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  // 🔹 alteração pelo próprio cliente
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // chave = lineItemKey (produto + variante)
+  const [editQty, setEditQty] = useState<Record<string, number>>({});
+  const [editDate, setEditDate] = useState("");
+  const [editTimeSlot, setEditTimeSlot] = useState("");
+  const [editSlotId, setEditSlotId] = useState<string | null>(null);
+  const [editDeliveryMode, setEditDeliveryMode] = useState<DeliveryMode>("pickup");
+  const [editLocationLink, setEditLocationLink] = useState("");
+  const [editPostalCode, setEditPostalCode] = useState("");
+
+  // 🔹 token → pedido; depois escuta o pedido para o status ao vivo
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const linkSnap = await getDoc(doc(db, "orderLinks", token));
+        if (!linkSnap.exists()) {
+          setNotFound(true);
+          setLoading(false);
+          return;
+        }
+
+        const { eventId, orderId } = linkSnap.data() as {
+          eventId: string;
+          orderId: string;
+        };
+
+        const eventSnap = await getDoc(doc(db, "events", eventId));
+        if (eventSnap.exists()) {
+          const ev = eventSnap.data() as any;
+          setEvent({
+            title: ev.title || "",
+            region: ev.region || "",
+            whatsapp: ev.whatsapp || "",
+            pickupLink: ev.pickupLink || "",
+            pickupNote: ev.pickupNote || "",
+            deliveryDates: Array.isArray(ev.deliveryDates) ? ev.deliveryDates : [],
+            customerEditCutoffHours:
+              typeof ev.customerEditCutoffHours === "number"
+                ? ev.customerEditCutoffHours
+                : null,
+            ordersCloseAt: ev.ordersCloseAt?.toDate?.() ?? null,
+            timeSlots: readTimeSlots(ev.timeSlots),
+            timeSlotBookings: ev.timeSlotBookings || {},
+          });
+        }
+
+        if (cancelled) return;
+
+        unsubscribe = onSnapshot(
+          doc(db, "events", eventId, "orders", orderId),
+          (snap) => {
+            if (!snap.exists()) {
+              setNotFound(true);
+              setOrder(null);
+              setLoading(false);
+              return;
+            }
+            const data = snap.data() as any;
+            const { items } = readOrderItems(data);
+            setOrder({
+              customerName: data.customerName || "",
+              items,
+              pricing: readOrderPricing(data, items),
+              status: isOrderStatus(data.status) ? data.status : "pending",
+              deliveryMode: data.deliveryMode ?? "pickup",
+              deliveryDate: data.deliveryDate || "Sem preferência",
+              deliveryTimeSlot: data.deliveryTimeSlot || "Sem preferência",
+              note: data.note || "",
+              locationLink: data.locationLink || "",
+              postalCode: data.postalCode || "",
+              deliveryZoneName: data.deliveryZoneName ?? null,
+              timeSlotId: data.timeSlotId ?? null,
+              paid: Boolean(data.paid),
+              paymentMethod: data.paymentMethod ? readPaymentMethod(data.paymentMethod) : null,
+              paidYen: readPaidYen(data),
+            });
+            setLoading(false);
+          },
+          (error) => {
+            console.error(error);
+            setNotFound(true);
+            setLoading(false);
+          }
+        );
+      } catch (error) {
+        console.error(error);
+        setNotFound(true);
+        setLoading(false);
+      }
+    };
+
+    void start();
+
+    return () => {
+      cancelled = true;
+      if (unsubscribe) unsubscribe();
+    };
+  }, [token]);
+
+  const startEditing = () => {
+    if (!order) return;
+    const qty: Record<string, number> = {};
+    order.items.forEach((it) => {
+      if (it.productId) qty[lineItemKey(it)] = it.qty;
+    });
+    setEditQty(qty);
+    setEditDate(order.deliveryDate);
+    setEditTimeSlot(order.deliveryTimeSlot);
+    setEditSlotId(order.timeSlotId);
+    setEditDeliveryMode(order.deliveryMode);
+    setEditLocationLink(order.locationLink);
+    setEditPostalCode(order.postalCode);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+    setEditing(true);
+  };
+
+  const sendCustomerChange = async (body: Record<string, unknown>) => {
+    setSaving(true);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+    try {
+      await callPublicFunction(
+        process.env.NEXT_PUBLIC_UPDATE_ORDER_BY_CUSTOMER_URL || "",
+        { token, ...body }
+      );
+      return true;
+    } catch (error: any) {
+      console.error(error);
+      setErrorMessage(error?.message || "Erro ao alterar o pedido.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveChanges = async () => {
+    const items = (order?.items ?? [])
+      .filter((it) => it.productId)
+      .map((it) => ({
+        productId: it.productId,
+        ...(it.variantKey ? { variantKey: it.variantKey } : {}),
+        qty: editQty[lineItemKey(it)] ?? 0,
+      }));
+    if (items.every((it) => it.qty <= 0)) {
+      setErrorMessage(
+        "Deixe pelo menos 1 item no pedido ou use o botão de cancelar."
+      );
+      return;
+    }
+
+    const slotsForDate = (event?.timeSlots ?? []).filter((s) => s.date === editDate);
+    const slot = slotsForDate.find((s) => s.id === editSlotId) ?? null;
+    if (slotsForDate.length > 0 && !slot) {
+      setErrorMessage("Escolha uma faixa de horário com vaga.");
+      return;
+    }
+
+    const ok = await sendCustomerChange({
+      action: "update",
+      items,
+      deliveryDate: editDate,
+      deliveryTimeSlot: editTimeSlot,
+      timeSlotId: slot?.id,
+      deliveryMode: editDeliveryMode,
+      locationLink: editDeliveryMode === "delivery" ? editLocationLink : "",
+      postalCode: editDeliveryMode === "delivery" ? editPostalCode : "",
+    });
+    if (ok) {
+      setEditing(false);
+      setSuccessMessage("Pedido alterado! A vendedora já vê a nova versão.");
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    const confirmed = window.confirm(
+      "Cancelar este pedido? Essa ação não pode ser desfeita."
+    );
+    if (!confirmed) return;
+
+    const ok = await sendCustomerChange({ action: "cancel" });
+    if (ok) {
+      setEditing(false);
+      setSuccessMessage("Pedido cancelado.");
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="space-y-2">
+        <p>Carregando pedido...</p>
+      </main>
+    );
+  }
+
+  if (notFound || !order) {
+    return (
+      <main className="space-y-2">
+        <h1 className="text-xl font-bold">Pedido não encontrado</h1>
+        <p className="text-sm text-neutral-600">
+          Verifique se o link está correto ou consulte a vendedora.
+        </p>
+      </main>
+    );
+  }
+
+  const steps = trackingSteps(order.deliveryMode);
+  // aguardando sinal aparece como o primeiro passo (recebido)
+  const currentStepIndex = steps.indexOf(
+    order.status === "awaiting_deposit" ? "pending" : order.status
+  );
+  const isClosedWithoutDelivery =
+    order.status === "cancelled" || order.status === "no_show";
+
+  // 🔹 prazo de alteração (mesma regra do servidor)
+  const cutoffHours = event?.customerEditCutoffHours ?? null;
+  const editDeadline =
+    cutoffHours === null
+      ? null
+      : customerEditDeadline(order.deliveryDate, cutoffHours, event?.ordersCloseAt ?? null);
+  const canEdit =
+    cutoffHours !== null &&
+    CUSTOMER_EDITABLE_STATUSES.includes(order.status) &&
+    order.paidYen === 0 &&
+    order.items.every((it) => it.productId) &&
+    editDeadline !== null &&
+    Date.now() <= editDeadline.getTime();
+
+  const editSlots = (event?.timeSlots ?? []).filter((s) => s.date === editDate);
+
+  // mesmas datas aceitas pelo servidor: as do evento e as das faixas de horário
+  const dateOptions = Array.from(
+    new Set([
+      order.deliveryDate,
+      ...(event?.deliveryDates ?? []),
+      ...(event?.timeSlots ?? []).map((s) => s.date),
+    ])
+  ).filter(Boolean);
+
+  return (
+    <main className="space-y-6">
+      {/* CABEÇALHO */}
+      <header className="space-y-2 border-b pb-4">
+        <p className="text-xs text-neutral-500">Acompanhamento do pedido</p>
+        <h1 className="text-2xl font-bold">{event?.title || "Pedido"}</h1>
+        {event?.region && (
+          <p className="text-sm text-neutral-700">Região: {event.region}</p>
+        )}
+        {order.customerName && (
+          <p className="text-sm text-neutral-700">Nome: {order.customerName}</p>
+        )}
+        <p className="text-xs text-neutral-500">
+          Esta página atualiza sozinha quando a vendedora muda o status.
+        </p>
+      </header>
+
+      {/* STATUS */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Status</h2>
+
+        {isClosedWithoutDelivery ? (
+          <p className="rounded-md border border-red-300 bg-red-50 p-3 text-sm font-semibold text-red-800">
+            {ORDER_STATUS_LABELS[order.status]}
+          </p>
+        ) : (
+          <ol className="space-y-1">
+            {steps.map((st, index) => {
+              const done = index <= currentStepIndex;
+              const current = index === currentStepIndex;
+              return (
+                <li
+                  key={st}
+                  className={`flex items-center gap-2 text-sm ${
+                    done ? "text-green-800" : "text-neutral-400"
+                  } ${current ? "font-semibold" : ""}`}
+                >
+                  <span
+                    className={`inline-block h-3 w-3 rounded-full border ${
+                      done ? "border-green-600 bg-green-600" : "border-neutral-300"
+                    }`}
+                  />
+                  {ORDER_STATUS_LABELS[st]}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </section>
+
+      {/* ENTREGA / RETIRADA */}
+      <section className="space-y-1 text-sm">
+        <h2 className="text-lg font-semibold">
+          {order.deliveryMode === "delivery" ? "Entrega" : "Retirada"}
+        </h2>
+        <p>
+          Modo:{" "}
+          {order.deliveryMode === "delivery"
+            ? "Entrega"
+            : order.deliveryMode === "pickup"
+            ? "Retirada no local"
+            : "A combinar com a vendedora"}
+        </p>
+        <p>Data: {order.deliveryDate}</p>
+        <p>Horário: {order.deliveryTimeSlot}</p>
+        {order.deliveryMode === "delivery" && order.deliveryZoneName && (
+          <p>
+            Zona de entrega: {order.deliveryZoneName}
+            {order.postalCode && ` (〒${order.postalCode})`}
+          </p>
+        )}
+
+        {order.deliveryMode !== "delivery" && event?.pickupLink && (
+          <p className="text-xs text-blue-700">
+            Local de retirada:{" "}
+            <a
+              href={event.pickupLink}
+              target="_blank"
+              rel="noreferrer"
+              className="underline"
+            >
+              ver mapa
+            </a>
+          </p>
+        )}
+
+        {event?.pickupNote && (
+          <p className="text-xs text-neutral-600">
+            Instruções da vendedora: {event.pickupNote}
+          </p>
+        )}
+      </section>
+
+      {/* ITENS E VALORES */}
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Itens</h2>
+        <ul className="divide-y rounded-md border text-sm">
+          {order.items.map((it, index) => (
+            <li
+              key={`${it.productId ?? it.name}-${index}`}
+              className="flex justify-between gap-2 p-2"
+            >
+              <span>
+                {lineItemName(it)} × {it.qty}
+              </span>
+              <span className="text-neutral-700">{yen(it.lineTotalYen)}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-0.5 text-sm">
+          <p>Subtotal: {yen(order.pricing.subtotalYen)}</p>
+          {order.pricing.discounts.map((d, index) => (
+            <p key={`${d.label}-${index}`} className="text-green-700">
+              {d.label}: -{yen(d.amountYen)}
+            </p>
+          ))}
+          {order.pricing.deliveryFeeYen > 0 && (
+            <p>Taxa de entrega: {yen(order.pricing.deliveryFeeYen)}</p>
+          )}
+          <p className="font-semibold">Total: {yen(order.pricing.totalYen)}</p>
+        </div>
+
+        {order.note && (
+          <p className="text-xs text-neutral-600">Sua observação: {order.note}</p>
+        )}
+      </section>
+
+      {/* PAGAMENTO */}
+      <section className="space-y-1">
+        <h2 className="text-lg font-semibold">Pagamento</h2>
+        {order.paid ? (
+          <p className="text-sm font-semibold text-green-700">
+            Pago ✅
+            {order.paymentMethod && (
+              <> ({PAYMENT_METHOD_LABELS[order.paymentMethod] ?? order.paymentMethod})</>
+            )}
+          </p>
+        ) : order.paidYen > 0 ? (
+          <p className="text-sm font-semibold text-amber-700">
+            Pago {yen(order.paidYen)} · falta {yen(Math.max(order.pricing.totalYen - order.paidYen, 0))}{" "}
+            na entrega/retirada
+          </p>
+        ) : (
+          <p className="text-sm font-semibold text-amber-700">
+            A pagar na entrega/retirada
+          </p>
+        )}
+        {order.status === "awaiting_deposit" && order.pricing.depositYen > 0 && (
+          <p className="rounded-md border border-purple-300 bg-purple-50 p-3 text-xs text-purple-900">
+            Este pedido exige sinal de {yen(order.pricing.depositYen)}. Ele só entra na produção
+            depois que o vendedor registrar o sinal.
+          </p>
+        )}
+      </section>
+
+      {/* ALTERAR / CANCELAR */}
+      {successMessage && (
+        <p className="rounded-md border border-green-300 bg-green-50 p-3 text-xs text-green-900">
+          {successMessage}
+        </p>
+      )}
+
+      {canEdit && !editing && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Precisa mudar algo?</h2>
+          {editDeadline && (
+            <p className="text-xs text-neutral-600">
+              Você pode alterar ou cancelar até{" "}
+              {editDeadline.toLocaleString("pt-BR", {
+                timeZone: "Asia/Tokyo",
+                dateStyle: "short",
+                timeStyle: "short",
+              })}{" "}
+              (horário do Japão).
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={startEditing}
+              className="flex-1 rounded-md border px-3 py-2 text-sm font-semibold hover:bg-neutral-100"
+            >
+              Alterar pedido
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleCancelOrder()}
+              disabled={saving}
+              className="flex-1 rounded-md border border-red-300 px-3 py-2 text-sm font-semibold text-red-700 hover:bg-red-50 disabled:opacity-60"
+            >
+              Cancelar pedido
+            </button>
+          </div>
+        </section>
+      )}
+
+      {canEdit && editing && (
+        <section className="space-y-3 rounded-md border p-3">
+          <h2 className="text-lg font-semibold">Alterar pedido</h2>
+
+          <div className="space-y-2">
+            {order.items.map((it) =>
+              it.productId ? (
+                <label
+                  key={lineItemKey(it)}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span>
+                    {lineItemName(it)} ({yen(it.unitPriceYen)})
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-20 rounded-md border px-2 py-1 text-sm"
+                    value={editQty[lineItemKey(it)] ?? 0}
+                    onChange={(e) => {
+                      const qty = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                      setEditQty((prev) => ({ ...prev, [lineItemKey(it)]: qty }));
+                    }}
+                  />
+                </label>
+              ) : null
+            )}
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className="space-y-1 text-xs">
+              <span className="block">Data</span>
+              <select
+                className="w-full rounded-md border px-2 py-2 text-sm"
+                value={editDate}
+                onChange={(e) => setEditDate(e.target.value)}
+              >
+                {dateOptions.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="space-y-1 text-xs">
+              <span className="block">Horário</span>
+              {editSlots.length > 0 ? (
+                <select
+                  className="w-full rounded-md border px-2 py-2 text-sm"
+                  value={editSlotId ?? ""}
+                  onChange={(e) => setEditSlotId(e.target.value || null)}
+                >
+                  <option value="">Escolha uma faixa...</option>
+                  {editSlots.map((slot) => {
+                    // a faixa atual do pedido continua disponível para ele
+                    const left =
+                      remainingSlotCapacity(slot, event?.timeSlotBookings) +
+                      (slot.id === order.timeSlotId ? 1 : 0);
+                    return (
+                      <option key={slot.id} value={slot.id} disabled={left <= 0}>
+                        {timeSlotLabel(slot)} {left > 0 ? "" : "(lotado)"}
+                      </option>
+                    );
+                  })}
+                </select>
+              ) : (
+                <input
+                  className="w-full rounded-md border px-2 py-2 text-sm"
+                  value={editTimeSlot}
+                  onChange={(e) => setEditTimeSlot(e.target.value)}
+                  placeholder="Ex: 12:30"
+                />
+              )}
+            </label>
+
+            <label className="space-y-1 text-xs">
+              <span className="block">Modo</span>
+              <select
+                className="w-full rounded-md border px-2 py-2 text-sm"
+                value={editDeliveryMode}
+                onChange={(e) => setEditDeliveryMode(e.target.value as DeliveryMode)}
+              >
+                <option value="pickup">Retirada no local</option>
+                <option value="delivery">Entrega</option>
+                <option value="none">A combinar com a vendedora</option>
+              </select>
+            </label>
+
+            {editDeliveryMode === "delivery" && (
+              <label className="space-y-1 text-xs">
+                <span className="block">CEP (〒) – define a taxa de entrega</span>
+                <input
+                  inputMode="numeric"
+                  className="w-full rounded-md border px-2 py-2 text-sm"
+                  value={editPostalCode}
+                  onChange={(e) => setEditPostalCode(normalizePostalCode(e.target.value))}
+                  placeholder="Ex: 4300001"
+                />
+              </label>
+            )}
+
+            {editDeliveryMode === "delivery" && (
+              <label className="space-y-1 text-xs">
+                <span className="block">Localização (Google Maps)</span>
+                <input
+                  className="w-full rounded-md border px-2 py-2 text-sm"
+                  value={editLocationLink}
+                  onChange={(e) => setEditLocationLink(e.target.value)}
+                  placeholder="https://maps.google.com/..."
+                />
+              </label>
+            )}
+          </div>
+
+          {errorMessage && (
+            <p className="text-xs text-red-600">{errorMessage}</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => void handleSaveChanges()}
+              disabled={saving}
+              className="flex-1 rounded-md bg-green-600 px-3 py-2 text-sm font-semibold text-white hover:bg-green-700 disabled:opacity-60"
+            >
+              {saving ? "Salvando..." : "Salvar alterações"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="rounded-md border px-3 py-2 text-sm hover:bg-neutral-100"
+            >
+              Voltar
+            </button>
+          </div>
+        </section>
+      )}
+
+      {!editing && errorMessage && (
+        <p className="text-xs text-red-600">{errorMessage}</p>
+      )}
+
+      {event?.whatsapp && (
+        <p className="text-xs text-neutral-500">
+          Dúvidas? Fale com a vendedora pelo WhatsApp:{" "}
+          <a
+            href={`https://wa.me/${event.whatsapp.replace(/\D/g, "")}`}
+            target="_blank"
+            rel="noreferrer"
+            className="underline"
+          >
+            {event.whatsapp}
+          </a>
+        </p>
+      )}
+    </main>
+  );
+}
@@ -8,6 +8,7 @@ import {
   addDoc,
   collection,
   deleteDoc,
+  deleteField,
   doc,
   onSnapshot,
   query,
@@ -15,6 +16,34 @@ import {
   where,
   serverTimestamp,
 } from "firebase/firestore";
+import { readBundleComponents } from "@/lib/orders";
+import {
+  listVariantKeys,
+  readOptionGroups,
+  slugifyOptionId,
+  variantLabel,
+  type ProductOptionGroup,
+} from "@/lib/variants";
+import { describePriceTier, readPriceTiers, type PriceTier } from "@/lib/pricing";
+import { changeStock } from "@/lib/stock";
+import {
+  formatIngredientQty,
+  readIngredient,
+  readRecipe,
+  type Ingredient,
+  type RecipeLine,
+} from "@/lib/recipes";
+import {
+  COST_SOURCE_LABELS,
+  formatMarginPercent,
+  marginPercent,
+  productUnitCost,
+  readCostSource,
+  readManualCost,
+  syncProductCosts,
+  type CostSource,
+} from "@/lib/costs";
+import { readTaxRate, TAX_RATE_LABELS, type TaxRate } from "@/lib/tax";
 
 type CategoryType =
   | "Comida"
@@ -24,6 +53,11 @@ type CategoryType =
   | "Festa"
   | "Congelados";
 
+type ProductType = "simple" | "bundle";
+
+/** Componente do kit no formulário (quantidade por 1 kit) */
+type BundleItem = { productId: string; qty: number };
+
 type ProductDoc = {
   id: string;
   name: string;
@@ -31,8 +65,27 @@ type ProductDoc = {
   imageUrl: string;
   category: CategoryType;
   extraImageUrls?: string[];
+  // 🔹 kit: vende como um item, abate o estoque dos componentes
+  type: ProductType;
+  bundleItems: BundleItem[];
+  // 🔹 opções (tamanho, frito/congelado, sabor) e estoque por variante
+  optionGroups: ProductOptionGroup[];
+  variantStocks: Record<string, number>;
+  // 🔹 preço por quantidade (ex.: 25+ a ¥110, 100+ a ¥95)
+  priceTiers: PriceTier[];
+  // 🔹 receita: ingredientes por unidade (lista de compras)
+  recipe: RecipeLine[];
+  // 🔹 custo unitário: manual ou pela receita; `unitCostYen` é o valor calculado (lib/costs.ts)
+  costSource: CostSource;
+  manualCostYen: number | null;
+  unitCostYen: number | null;
+  // 🔹 consumo: 8% (comida para levar) ou 10%; o preço já inclui o imposto
+  taxRate: TaxRate;
 };
 
+/** Acima disso o formulário de estoque por variante fica grande demais */
+const MAX_VARIANTS = 60;
+
 const CATEGORY_ORDER: CategoryType[] = [
   "Comida",
   "Lanchonete",
@@ -44,11 +97,14 @@ const CATEGORY_ORDER: CategoryType[] = [
 
 type ProductCardProps = {
   product: ProductDoc;
+  /** nome dos componentes do kit (chave = id do produto) */
+  nameById: Record<string, string>;
+  ingredientById: Record<string, Ingredient>;
   onEdit: (p: ProductDoc) => void;
   onDelete: (id: string) => void;
 };
 
-function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
+function ProductCard({ product, nameById, ingredientById, onEdit, onDelete }: ProductCardProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
 
   const allImages = [
@@ -104,7 +160,52 @@ function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
         <p className="text-[11px] text-neutral-700">
           ¥{product.price.toLocaleString("ja-JP")}
         </p>
-        <p className="text-[10px] text-neutral-500">{product.category}</p>
+        {product.priceTiers.map((t) => (
+          <p key={t.minQty} className="text-[10px] text-green-700">
+            {describePriceTier(t)}
+          </p>
+        ))}
+        <p className="text-[10px] text-neutral-500">
+          {product.category} · consumo {product.taxRate}%
+        </p>
+        <p className="text-[10px] text-neutral-600">
+          {product.unitCostYen !== null
+            ? `Custo ¥${product.unitCostYen.toLocaleString("ja-JP")} · margem ${formatMarginPercent(
+                marginPercent(product.price, product.unitCostYen)
+              )}`
+            : "Sem custo definido"}
+        </p>
+        {product.type === "bundle" && (
+          <p className="text-[10px] text-neutral-600">
+            Kit:{" "}
+            {product.bundleItems
+              .map((c) => `${c.qty}× ${nameById[c.productId] ?? "?"}`)
+              .join(", ")}
+          </p>
+        )}
+        {product.recipe.length > 0 && (
+          <p className="text-[10px] text-neutral-600">
+            Receita (1 un.):{" "}
+            {product.recipe
+              .map((r) => {
+                const ing = ingredientById[r.ingredientId];
+                return ing ? `${formatIngredientQty(r.qty, ing.unit)} ${ing.name}` : "?";
+              })
+              .join(", ")}
+          </p>
+        )}
+        {product.optionGroups.map((g) => (
+          <p key={g.id} className="text-[10px] text-neutral-600">
+            {g.name}:{" "}
+            {g.options
+              .map((o) =>
+                o.priceDeltaYen
+                  ? `${o.label} (${o.priceDeltaYen > 0 ? "+" : "-"}¥${Math.abs(o.priceDeltaYen)})`
+                  : o.label
+              )
+              .join(", ")}
+          </p>
+        ))}
       </div>
 
       {/* AÇÕES */}
@@ -142,6 +243,29 @@ export default function ProductsCatalogPage() {
   const [imageUrl, setImageUrl] = useState("");
   const [extraImagesText, setExtraImagesText] = useState("");
   const [category, setCategory] = useState<CategoryType>("Comida");
+  const [taxRate, setTaxRate] = useState<TaxRate>(8);
+  const [productType, setProductType] = useState<ProductType>("simple");
+  const [bundleItems, setBundleItems] = useState<BundleItem[]>([]);
+  const [newComponentId, setNewComponentId] = useState("");
+  const [newComponentQty, setNewComponentQty] = useState("10");
+  const [optionGroups, setOptionGroups] = useState<ProductOptionGroup[]>([]);
+  const [newGroupName, setNewGroupName] = useState("");
+  // rascunho da nova opção de cada grupo (chave = id do grupo)
+  const [optionDrafts, setOptionDrafts] = useState<
+    Record<string, { label: string; delta: string; cost: string }>
+  >({});
+  const [priceTiers, setPriceTiers] = useState<PriceTier[]>([]);
+  const [newTierQty, setNewTierQty] = useState("");
+  const [newTierPrice, setNewTierPrice] = useState("");
+  // estoque por variante no formulário; vazio = usa o estoque do produto
+  const [variantStocksForm, setVariantStocksForm] = useState<Record<string, string>>({});
+  // receita (ingredientes cadastrados em /dashboard/ingredients)
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipe, setRecipe] = useState<RecipeLine[]>([]);
+  const [newIngredientId, setNewIngredientId] = useState("");
+  const [newIngredientQty, setNewIngredientQty] = useState("");
+  const [costSource, setCostSource] = useState<CostSource>("recipe");
+  const [manualCost, setManualCost] = useState("");
 
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -179,6 +303,25 @@ export default function ProductsCatalogPage() {
           imageUrl: data.imageUrl || "",
           category: (data.category as CategoryType) || "Comida",
           extraImageUrls: extras,
+          type: (data.type === "bundle" ? "bundle" : "simple") as ProductType,
+          bundleItems: readBundleComponents(data.bundleItems).map((c) => ({
+            productId: c.productId,
+            qty: c.qty,
+          })),
+          optionGroups: readOptionGroups(data.optionGroups),
+          variantStocks: Object.fromEntries(
+            Object.entries(
+              data.variantStocks && typeof data.variantStocks === "object"
+                ? data.variantStocks
+                : {}
+            ).filter(([, v]) => typeof v === "number")
+          ) as Record<string, number>,
+          priceTiers: readPriceTiers(data.priceTiers),
+          recipe: readRecipe(data.recipe),
+          costSource: readCostSource(data.costSource),
+          manualCostYen: readManualCost(data.manualCostYen),
+          unitCostYen: typeof data.unitCostYen === "number" ? data.unitCostYen : null,
+          taxRate: readTaxRate(data.taxRate),
         };
       });
 
@@ -186,6 +329,19 @@ export default function ProductsCatalogPage() {
     });
   }, [user]);
 
+  // 🔁 INGREDIENTES (para a receita)
+  useEffect(() => {
+    if (!user) return;
+
+    return onSnapshot(collection(db, "ingredients"), (snap) => {
+      setIngredients(
+        snap.docs
+          .map((d) => readIngredient(d.id, d.data()))
+          .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"))
+      );
+    });
+  }, [user]);
+
   // RESETAR
   const resetForm = () => {
     setEditingId(null);
@@ -194,10 +350,116 @@ export default function ProductsCatalogPage() {
     setImageUrl("");
     setExtraImagesText("");
     setCategory("Comida");
+    setTaxRate(8);
+    setProductType("simple");
+    setBundleItems([]);
+    setNewComponentId("");
+    setNewComponentQty("10");
+    setOptionGroups([]);
+    setNewGroupName("");
+    setOptionDrafts({});
+    setVariantStocksForm({});
+    setPriceTiers([]);
+    setNewTierQty("");
+    setNewTierPrice("");
+    setRecipe([]);
+    setNewIngredientId("");
+    setNewIngredientQty("");
+    setCostSource("recipe");
+    setManualCost("");
     setError(null);
     setSuccessMessage(null);
   };
 
+  // KIT: adiciona/atualiza componente
+  const handleAddComponent = () => {
+    const qty = Number(newComponentQty);
+    if (!newComponentId) return setError("Escolha o produto do kit.");
+    if (!Number.isInteger(qty) || qty <= 0) return setError("Quantidade do componente inválida.");
+    setError(null);
+    setBundleItems((prev) => [
+      ...prev.filter((c) => c.productId !== newComponentId),
+      { productId: newComponentId, qty },
+    ]);
+    setNewComponentId("");
+  };
+
+  // RECEITA: quanto de cada ingrediente vai em 1 unidade do produto
+  const handleAddRecipeLine = () => {
+    const qty = Number(newIngredientQty.replace(",", "."));
+    if (!newIngredientId) return setError("Escolha o ingrediente.");
+    if (!Number.isFinite(qty) || qty <= 0) return setError("Quantidade do ingrediente inválida.");
+    setError(null);
+    setRecipe((prev) => [
+      ...prev.filter((r) => r.ingredientId !== newIngredientId),
+      { ingredientId: newIngredientId, qty },
+    ]);
+    setNewIngredientId("");
+    setNewIngredientQty("");
+  };
+
+  // FAIXAS: a partir de X unidades, preço Y cada
+  const handleAddTier = () => {
+    const minQty = Number(newTierQty);
+    const tierPrice = Number(newTierPrice.replace(",", "."));
+    if (!Number.isInteger(minQty) || minQty < 2) {
+      return setError("Quantidade da faixa inválida (mínimo 2).");
+    }
+    if (!Number.isInteger(tierPrice) || tierPrice < 0) {
+      return setError("Preço da faixa inválido.");
+    }
+    setError(null);
+    setPriceTiers((prev) =>
+      readPriceTiers([...prev.filter((t) => t.minQty !== minQty), { minQty, priceYen: tierPrice }])
+    );
+    setNewTierQty("");
+    setNewTierPrice("");
+  };
+
+  // OPÇÕES: grupos (ex.: "Tamanho") e suas opções com diferença de preço e de custo
+  const handleAddGroup = () => {
+    const groupName = newGroupName.trim();
+    const id = slugifyOptionId(groupName);
+    if (!id) return setError("Nome do grupo inválido.");
+    if (optionGroups.some((g) => g.id === id)) return setError("Esse grupo já existe.");
+    setError(null);
+    setOptionGroups((prev) => [...prev, { id, name: groupName, options: [] }]);
+    setNewGroupName("");
+  };
+
+  const handleAddOption = (groupId: string) => {
+    const draft = optionDrafts[groupId] ?? { label: "", delta: "", cost: "" };
+    const label = draft.label.trim();
+    const id = slugifyOptionId(label);
+    const delta = Number((draft.delta || "0").replace(",", "."));
+    const costDelta = Number((draft.cost || "0").replace(",", "."));
+    if (!id) return setError("Nome da opção inválido.");
+    if (!Number.isInteger(delta)) return setError("Diferença de preço inválida.");
+    if (!Number.isFinite(costDelta)) return setError("Diferença de custo inválida.");
+    const group = optionGroups.find((g) => g.id === groupId);
+    if (group?.options.some((o) => o.id === id)) return setError("Essa opção já existe.");
+    setError(null);
+    setOptionGroups((prev) =>
+      prev.map((g) =>
+        g.id === groupId
+          ? {
+              ...g,
+              options: [...g.options, { id, label, priceDeltaYen: delta, costDeltaYen: costDelta }],
+            }
+          : g
+      )
+    );
+    setOptionDrafts((prev) => ({ ...prev, [groupId]: { label: "", delta: "", cost: "" } }));
+  };
+
+  const handleRemoveOption = (groupId: string, optionId: string) => {
+    setOptionGroups((prev) =>
+      prev.map((g) =>
+        g.id === groupId ? { ...g, options: g.options.filter((o) => o.id !== optionId) } : g
+      )
+    );
+  };
+
   // SALVAR
   const handleSave = async () => {
     if (!user) return;
@@ -205,6 +467,31 @@ export default function ProductsCatalogPage() {
     const numericPrice = Number(price.replace(",", "."));
     if (!name.trim()) return setError("Nome inválido.");
     if (isNaN(numericPrice)) return setError("Preço inválido.");
+    if (productType === "bundle" && bundleItems.length === 0) {
+      return setError("Adicione pelo menos um produto ao kit.");
+    }
+    const manualCostYen = manualCost.trim() === "" ? null : Number(manualCost.replace(",", "."));
+    if (manualCostYen !== null && (!Number.isFinite(manualCostYen) || manualCostYen < 0)) {
+      return setError("Custo inválido.");
+    }
+
+    // kit não tem opções; grupo sem opção é descartado
+    const groups =
+      productType === "simple" ? optionGroups.filter((g) => g.options.length > 0) : [];
+    const variantKeys = listVariantKeys(groups);
+    if (variantKeys.length > MAX_VARIANTS) {
+      return setError(`Combinações demais (${variantKeys.length}). Máximo: ${MAX_VARIANTS}.`);
+    }
+    const variantStocks: Record<string, number> = {};
+    for (const key of variantKeys) {
+      const raw = (variantStocksForm[key] ?? "").trim();
+      if (!raw) continue;
+      const qty = Number(raw);
+      if (!Number.isInteger(qty) || qty < 0) {
+        return setError(`Estoque inválido em ${variantLabel(groups, key)}.`);
+      }
+      variantStocks[key] = qty;
+    }
 
     const extras = extraImagesText
       .split("\n")
@@ -215,23 +502,52 @@ export default function ProductsCatalogPage() {
       name: name.trim(),
       price: numericPrice,
       category,
+      taxRate,
       imageUrl: imageUrl.trim(),
       extraImageUrls: extras,
+      type: productType,
+      bundleItems: productType === "bundle" ? bundleItems : [],
+      optionGroups: groups,
+      priceTiers,
+      // kit usa a receita dos componentes
+      recipe: productType === "simple" ? recipe : [],
+      costSource,
+      manualCostYen,
       sellerId: user.uid,
       sellerEmail: user.email,
       updatedAt: serverTimestamp(),
     };
 
+    // 🔹 estoque por variante entra como recontagem (fica no histórico de movimentos)
+    const stockChanges = Object.entries(variantStocks).map(([variantKey, countedQty]) => ({
+      type: "adjustment" as const,
+      variantKey,
+      countedQty,
+      note: "Formulário do produto",
+    }));
+
     setSaving(true);
     try {
-      if (editingId) {
-        await updateDoc(doc(db, "products", editingId), payload);
+      let productId = editingId;
+      if (productId) {
+        // variante que saiu do formulário volta a usar o estoque do produto
+        const previous = products.find((p) => p.id === productId)?.variantStocks ?? {};
+        const removed = Object.keys(previous).filter((key) => !(key in variantStocks));
+        await updateDoc(doc(db, "products", productId), {
+          ...payload,
+          ...Object.fromEntries(removed.map((key) => [`variantStocks.${key}`, deleteField()])),
+        });
       } else {
-        await addDoc(collection(db, "products"), {
+        const ref = await addDoc(collection(db, "products"), {
           ...payload,
+          variantStocks: {},
           createdAt: serverTimestamp(),
         });
+        productId = ref.id;
       }
+      if (stockChanges.length > 0) await changeStock(productId, stockChanges);
+      // recalcula este produto e os kits que o usam
+      await syncProductCosts(user.uid);
       resetForm();
       setSuccessMessage("Produto salvo!");
     } catch {
@@ -249,6 +565,20 @@ export default function ProductsCatalogPage() {
     setImageUrl(p.imageUrl);
     setExtraImagesText((p.extraImageUrls || []).join("\n"));
     setCategory(p.category);
+    setTaxRate(p.taxRate);
+    setProductType(p.type);
+    setBundleItems(p.bundleItems);
+    setOptionGroups(p.optionGroups);
+    setOptionDrafts({});
+    setPriceTiers(p.priceTiers);
+    setRecipe(p.recipe);
+    setCostSource(p.costSource);
+    setManualCost(p.manualCostYen !== null ? String(p.manualCostYen) : "");
+    setVariantStocksForm(
+      Object.fromEntries(
+        Object.entries(p.variantStocks).map(([key, qty]) => [key, String(qty)])
+      )
+    );
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
@@ -256,6 +586,7 @@ export default function ProductsCatalogPage() {
   const handleDelete = async (id: string) => {
     if (!confirm("Excluir este produto?")) return;
     await deleteDoc(doc(db, "products", id));
+    if (user) await syncProductCosts(user.uid);
   };
 
   if (checkingAuth) {
@@ -266,6 +597,32 @@ export default function ProductsCatalogPage() {
     );
   }
 
+  const nameById = Object.fromEntries(products.map((p) => [p.id, p.name]));
+  const ingredientById = Object.fromEntries(ingredients.map((ing) => [ing.id, ing]));
+  // kit só leva produtos simples (sem kit dentro de kit)
+  const componentOptions = products.filter(
+    (p) => p.type === "simple" && p.id !== editingId
+  );
+
+  const formVariantKeys = listVariantKeys(optionGroups);
+
+  // custo do formulário (prévia; o valor gravado vem do syncProductCosts)
+  const formUnitCost = productUnitCost(
+    {
+      id: editingId ?? "",
+      type: productType,
+      bundleItems,
+      recipe,
+      costSource,
+      manualCostYen: manualCost.trim()
+        ? readManualCost(Number(manualCost.replace(",", ".")))
+        : null,
+    },
+    new Map(products.map((p) => [p.id, p])),
+    new Map(ingredients.map((ing) => [ing.id, ing]))
+  );
+  const formPrice = Number(price.replace(",", "."));
+
   // Agrupar produtos por categoria
   const grouped = CATEGORY_ORDER.map((cat) => ({
     cat,
@@ -340,6 +697,21 @@ export default function ProductsCatalogPage() {
             </select>
           </div>
 
+          <div>
+            <label className="text-xs">Consumo (preço já inclui)</label>
+            <select
+              value={taxRate}
+              onChange={(e) => setTaxRate(Number(e.target.value) as TaxRate)}
+              className="w-full border rounded-md px-3 py-2 text-sm bg-white"
+            >
+              {([8, 10] as TaxRate[]).map((rate) => (
+                <option key={rate} value={rate}>
+                  {TAX_RATE_LABELS[rate]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="text-xs">Imagem principal</label>
             <input
@@ -357,6 +729,394 @@ export default function ProductsCatalogPage() {
               className="w-full border rounded-md px-3 py-2 text-xs min-h-[80px]"
             />
           </div>
+
+          <div>
+            <label className="text-xs">Tipo</label>
+            <select
+              value={productType}
+              onChange={(e) => setProductType(e.target.value as ProductType)}
+              className="w-full border rounded-md px-3 py-2 text-sm bg-white"
+            >
+              <option value="simple">Produto</option>
+              <option value="bundle">Kit (vários produtos)</option>
+            </select>
+          </div>
+
+          {productType === "bundle" && (
+            <div className="md:col-span-2 space-y-2 border rounded-md p-3 bg-neutral-50">
+              <p className="text-[11px] text-neutral-600">
+                O kit é vendido como um item só, e o estoque abatido é o de cada
+                produto abaixo.
+              </p>
+              <div className="flex flex-wrap items-end gap-2">
+                <select
+                  value={newComponentId}
+                  onChange={(e) => setNewComponentId(e.target.value)}
+                  className="border rounded-md px-2 py-1 text-xs bg-white"
+                >
+                  <option value="">Produto...</option>
+                  {componentOptions.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  value={newComponentQty}
+                  onChange={(e) => setNewComponentQty(e.target.value)}
+                  className="w-20 border rounded-md px-2 py-1 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={handleAddComponent}
+                  className="border rounded-md px-3 py-1 text-xs bg-white hover:bg-neutral-100"
+                >
+                  Adicionar ao kit
+                </button>
+              </div>
+              {bundleItems.length > 0 && (
+                <ul className="space-y-1">
+                  {bundleItems.map((c) => (
+                    <li
+                      key={c.productId}
+                      className="flex items-center justify-between text-xs bg-white border rounded-md px-2 py-1"
+                    >
+                      <span>
+                        {c.qty}× {nameById[c.productId] ?? "(produto removido)"}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setBundleItems((prev) =>
+                            prev.filter((x) => x.productId !== c.productId)
+                          )
+                        }
+                        className="text-[11px] text-red-600 hover:underline"
+                      >
+                        Remover
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="md:col-span-2 space-y-2 border rounded-md p-3 bg-neutral-50">
+            <p className="text-[11px] text-neutral-600">
+              Preço por quantidade (atacado): vale pela quantidade total do produto no
+              pedido. Abaixo da primeira faixa vale o preço normal.
+            </p>
+            <div className="flex flex-wrap items-end gap-2">
+              <input
+                type="number"
+                min={2}
+                value={newTierQty}
+                onChange={(e) => setNewTierQty(e.target.value)}
+                placeholder="A partir de (un.)"
+                className="w-32 border rounded-md px-2 py-1 text-xs"
+              />
+              <input
+                value={newTierPrice}
+                onChange={(e) => setNewTierPrice(e.target.value)}
+                placeholder="Preço (¥) cada"
+                className="w-28 border rounded-md px-2 py-1 text-xs"
+              />
+              <button
+                type="button"
+                onClick={handleAddTier}
+                className="border rounded-md px-3 py-1 text-xs bg-white hover:bg-neutral-100"
+              >
+                Adicionar faixa
+              </button>
+            </div>
+            {priceTiers.length > 0 && (
+              <ul className="space-y-1">
+                {priceTiers.map((t) => (
+                  <li
+                    key={t.minQty}
+                    className="flex items-center justify-between text-xs bg-white border rounded-md px-2 py-1"
+                  >
+                    <span>
+                      {t.minQty}+ un.: ¥{t.priceYen.toLocaleString("ja-JP")} cada
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setPriceTiers((prev) => prev.filter((x) => x.minQty !== t.minQty))
+                      }
+                      className="text-[11px] text-red-600 hover:underline"
+                    >
+                      Remover
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {productType === "simple" && (
+            <div className="md:col-span-2 space-y-2 border rounded-md p-3 bg-neutral-50">
+              <p className="text-[11px] text-neutral-600">
+                Receita: quanto de cada ingrediente vai em <strong>1 unidade</strong>{" "}
+                (usada na lista de compras). Cadastre os ingredientes em{" "}
+                <a href="/dashboard/ingredients" className="underline">
+                  Ingredientes
+                </a>
+                .
+              </p>
+              <div className="flex flex-wrap items-end gap-2">
+                <select
+                  value={newIngredientId}
+                  onChange={(e) => setNewIngredientId(e.target.value)}
+                  className="border rounded-md px-2 py-1 text-xs bg-white"
+                >
+                  <option value="">Ingrediente...</option>
+                  {ingredients.map((ing) => (
+                    <option key={ing.id} value={ing.id}>
+                      {ing.name} ({ing.unit})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={newIngredientQty}
+                  onChange={(e) => setNewIngredientQty(e.target.value)}
+                  placeholder="Qtd. por unidade"
+                  className="w-28 border rounded-md px-2 py-1 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={handleAddRecipeLine}
+                  className="border rounded-md px-3 py-1 text-xs bg-white hover:bg-neutral-100"
+                >
+                  Adicionar à receita
+                </button>
+              </div>
+              {recipe.length > 0 && (
+                <ul className="space-y-1">
+                  {recipe.map((r) => {
+                    const ing = ingredientById[r.ingredientId];
+                    return (
+                      <li
+                        key={r.ingredientId}
+                        className="flex items-center justify-between text-xs bg-white border rounded-md px-2 py-1"
+                      >
+                        <span>
+                          {ing
+                            ? `${formatIngredientQty(r.qty, ing.unit)} ${ing.name}`
+                            : "(ingrediente removido)"}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setRecipe((prev) =>
+                              prev.filter((x) => x.ingredientId !== r.ingredientId)
+                            )
+                          }
+                          className="text-[11px] text-red-600 hover:underline"
+                        >
+                          Remover
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="md:col-span-2 space-y-2 border rounded-md p-3 bg-neutral-50">
+            <p className="text-[11px] text-neutral-600">
+              Custo de 1 unidade (margem no painel). Os pedidos guardam o custo do dia da venda.
+            </p>
+            <div className="flex flex-wrap items-end gap-2">
+              <select
+                value={costSource}
+                onChange={(e) => setCostSource(e.target.value as CostSource)}
+                className="border rounded-md px-2 py-1 text-xs bg-white"
+              >
+                {(Object.keys(COST_SOURCE_LABELS) as CostSource[]).map((src) => (
+                  <option key={src} value={src}>
+                    {src === "recipe" && productType === "bundle"
+                      ? "Soma dos componentes"
+                      : COST_SOURCE_LABELS[src]}
+                  </option>
+                ))}
+              </select>
+              {costSource === "manual" && (
+                <input
+                  value={manualCost}
+                  onChange={(e) => setManualCost(e.target.value)}
+                  placeholder="Custo (¥)"
+                  className="w-28 border rounded-md px-2 py-1 text-xs"
+                />
+              )}
+            </div>
+            <p className="text-xs">
+              {formUnitCost !== null ? (
+                <>
+                  Custo: <strong>¥{formUnitCost.toLocaleString("ja-JP")}</strong>
+                  {Number.isFinite(formPrice) && formPrice > 0 && (
+                    <> · margem {formatMarginPercent(marginPercent(formPrice, formUnitCost))}</>
+                  )}
+                </>
+              ) : (
+                <span className="text-neutral-500">
+                  {costSource === "manual"
+                    ? "Informe o custo."
+                    : productType === "bundle"
+                    ? "Algum componente está sem custo."
+                    : "Sem custo: receita vazia ou ingrediente sem preço."}
+                </span>
+              )}
+            </p>
+          </div>
+
+          {productType === "simple" && (
+            <div className="md:col-span-2 space-y-2 border rounded-md p-3 bg-neutral-50">
+              <p className="text-[11px] text-neutral-600">
+                Opções (ex.: Tamanho, Frito/Congelado, Sabor): o cliente escolhe uma de
+                cada grupo. A diferença de preço soma ao preço do produto.
+              </p>
+              <div className="flex flex-wrap items-end gap-2">
+                <input
+                  value={newGroupName}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  placeholder="Novo grupo (ex.: Tamanho)"
+                  className="border rounded-md px-2 py-1 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={handleAddGroup}
+                  className="border rounded-md px-3 py-1 text-xs bg-white hover:bg-neutral-100"
+                >
+                  Adicionar grupo
+                </button>
+              </div>
+
+              {optionGroups.map((g) => {
+                const draft = optionDrafts[g.id] ?? { label: "", delta: "", cost: "" };
+                return (
+                  <div key={g.id} className="space-y-1 bg-white border rounded-md p-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-semibold">{g.name}</span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setOptionGroups((prev) => prev.filter((x) => x.id !== g.id))
+                        }
+                        className="text-[11px] text-red-600 hover:underline"
+                      >
+                        Remover grupo
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {g.options.map((o) => (
+                        <span
+                          key={o.id}
+                          className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px]"
+                        >
+                          {o.label}
+                          {o.priceDeltaYen !== 0 &&
+                            ` (${o.priceDeltaYen > 0 ? "+" : "-"}¥${Math.abs(o.priceDeltaYen)})`}
+                          {o.costDeltaYen !== 0 &&
+                            ` (custo ${o.costDeltaYen > 0 ? "+" : "-"}¥${Math.abs(o.costDeltaYen)})`}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveOption(g.id, o.id)}
+                            className="text-red-600"
+                            aria-label={`Remover ${o.label}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap items-end gap-2">
+                      <input
+                        value={draft.label}
+                        onChange={(e) =>
+                          setOptionDrafts((prev) => ({
+                            ...prev,
+                            [g.id]: { ...draft, label: e.target.value },
+                          }))
+                        }
+                        placeholder="Opção (ex.: 50 un.)"
+                        className="border rounded-md px-2 py-1 text-xs"
+                      />
+                      <input
+                        value={draft.delta}
+                        onChange={(e) =>
+                          setOptionDrafts((prev) => ({
+                            ...prev,
+                            [g.id]: { ...draft, delta: e.target.value },
+                          }))
+                        }
+                        placeholder="± ¥"
+                        className="w-20 border rounded-md px-2 py-1 text-xs"
+                      />
+                      <input
+                        value={draft.cost}
+                        onChange={(e) =>
+                          setOptionDrafts((prev) => ({
+                            ...prev,
+                            [g.id]: { ...draft, cost: e.target.value },
+                          }))
+                        }
+                        placeholder="± custo ¥"
+                        title="Diferença no custo unitário (ex.: pacote de 50 custa o dobro do de 25)"
+                        className="w-24 border rounded-md px-2 py-1 text-xs"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleAddOption(g.id)}
+                        className="border rounded-md px-3 py-1 text-xs bg-white hover:bg-neutral-100"
+                      >
+                        Adicionar opção
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {formVariantKeys.length > 0 && formVariantKeys.length <= MAX_VARIANTS && (
+                <div className="space-y-1">
+                  <p className="text-[11px] text-neutral-600">
+                    Estoque por variante (vazio = usa o estoque do produto)
+                  </p>
+                  <div className="grid gap-1 sm:grid-cols-2">
+                    {formVariantKeys.map((key) => (
+                      <label
+                        key={key}
+                        className="flex items-center justify-between gap-2 bg-white border rounded-md px-2 py-1 text-xs"
+                      >
+                        <span>{variantLabel(optionGroups, key)}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={variantStocksForm[key] ?? ""}
+                          onChange={(e) =>
+                            setVariantStocksForm((prev) => ({
+                              ...prev,
+                              [key]: e.target.value,
+                            }))
+                          }
+                          className="w-20 border rounded-md px-2 py-1 text-xs"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {formVariantKeys.length > MAX_VARIANTS && (
+                <p className="text-[11px] text-red-600">
+                  Combinações demais ({formVariantKeys.length}). Máximo: {MAX_VARIANTS}.
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {error && <p className="text-red-600 text-xs">{error}</p>}
@@ -386,6 +1146,8 @@ export default function ProductsCatalogPage() {
                 <ProductCard
                   key={p.id}
                   product={p}
+                  nameById={nameById}
+                  ingredientById={ingredientById}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
                 />
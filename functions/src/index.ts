@@ -1,6 +1,9 @@
 import { onRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions/v2";
 import * as admin from "firebase-admin";
 import cors from "cors";
+import { randomBytes } from "crypto";
 
 admin.initializeApp();
 
@@ -14,14 +17,168 @@ type CreateOrderBody = {
   channel: Channel;
 
   customerName?: string;
+  /** telefone do cliente; identifica o cliente nos limites por evento (sem ele, vale o nome) */
+  customerPhone?: string;
   note?: string;
 
   deliveryMode?: "delivery" | "pickup" | "none";
   deliveryDate?: string;
   deliveryTimeSlot?: string;
+  /** faixa escolhida do catálogo do evento (`timeSlots`); obrigatória quando a data tem faixas */
+  timeSlotId?: string;
   locationLink?: string;
+  /** código promocional digitado pelo cliente (promoções automáticas entram sozinhas) */
+  promoCode?: string;
+  /** endereço para achar a zona de entrega (CEP e/ou coordenadas do "usar minha localização") */
+  postalCode?: string;
+  customerLat?: number;
+  customerLng?: number;
 
-  quantities: Record<string, number>;
+  /** chave gerada pelo navegador (uma por carrinho) para não duplicar pedidos em reenvios */
+  requestKey?: string;
+
+  items?: OrderItemInput[];
+  /** formato antigo (nome → quantidade), aceito para páginas ainda em cache */
+  quantities?: Record<string, number>;
+};
+
+/** `variantKey` = uma opção por grupo do produto, na ordem dos grupos ("frito__25") */
+type OrderItemInput = { productId: string; qty: number; variantKey?: string };
+
+/** Componente de kit (quantidade por 1 kit) */
+type BundleComponent = { productId: string; name: string; qty: number };
+
+/** Item gravado no pedido: nome e preço congelados na criação */
+type OrderLineItem = {
+  productId: string;
+  name: string;
+  unitPriceYen: number;
+  qty: number;
+  lineTotalYen: number;
+  /** só em kits: composição congelada (o estoque abatido é o dos componentes) */
+  components?: BundleComponent[];
+  /** só em produtos com opções: variante escolhida e seu texto ("Frito / 25 un.") */
+  variantKey?: string;
+  variantLabel?: string;
+  /** só em produtos com preço por quantidade: preço normal e faixas (já com a variante) */
+  basePriceYen?: number;
+  priceTiers?: PriceTier[];
+  /** custo unitário do produto na hora da venda (`unitCostYen`; ver lib/costs.ts) */
+  unitCostYen?: number;
+  /** alíquota do consumo congelada na venda (8 = reduzida, 10 = padrão; ver lib/tax.ts) */
+  taxRate?: TaxRate;
+};
+
+type TaxRate = 8 | 10;
+
+/** Produto sem `taxRate` é comida (8%) */
+const readTaxRate = (raw: unknown): TaxRate => (raw === 10 ? 10 : 8);
+
+/** Total com imposto e imposto contido, por alíquota */
+type TaxBreakdownLine = { rate: TaxRate; totalYen: number; taxYen: number };
+
+/**
+ * Mesma regra do lib/tax.ts: desconto rateado pelas alíquotas (sobra nos 10%),
+ * entrega em 10% e imposto arredondado para baixo uma vez por alíquota.
+ */
+const computeTaxBreakdown = (
+  items: OrderLineItem[],
+  discountYen: number,
+  deliveryFeeYen: number
+): TaxBreakdownLine[] => {
+  const totals: Record<TaxRate, number> = { 8: 0, 10: 0 };
+  for (const it of items) totals[readTaxRate(it.taxRate)] += it.lineTotalYen;
+  const subtotal = totals[8] + totals[10];
+  const discount = Math.min(Math.max(discountYen, 0), subtotal);
+  if (discount > 0) {
+    const discount8 = Math.floor((discount * totals[8]) / subtotal);
+    totals[8] -= discount8;
+    totals[10] -= discount - discount8;
+  }
+  totals[10] += Math.max(deliveryFeeYen, 0);
+
+  return ([8, 10] as TaxRate[])
+    .filter((rate) => totals[rate] > 0)
+    .map((rate) => ({
+      rate,
+      totalYen: totals[rate],
+      taxYen: Math.floor((totals[rate] * rate) / (100 + rate))
+    }));
+};
+
+/** A partir de `minQty` unidades do produto no pedido, cada uma sai por `priceYen` */
+type PriceTier = { minQty: number; priceYen: number };
+
+const readPriceTiers = (raw: unknown): PriceTier[] => {
+  if (!Array.isArray(raw)) return [];
+  const byQty = new Map<number, number>();
+  for (const t of raw) {
+    const minQty = Math.floor(Number(t?.minQty));
+    const priceYen = Math.round(Number(t?.priceYen));
+    if (Number.isFinite(minQty) && minQty >= 2 && Number.isFinite(priceYen) && priceYen >= 0) {
+      byQty.set(minQty, priceYen);
+    }
+  }
+  return Array.from(byQty, ([minQty, priceYen]) => ({ minQty, priceYen })).sort(
+    (a, b) => a.minQty - b.minQty
+  );
+};
+
+/**
+ * Aplica as faixas de preço nos itens (no lugar). A faixa sai da quantidade
+ * total do produto no pedido, somando as variantes.
+ */
+const applyPriceTiers = (items: OrderLineItem[]) => {
+  const qtyByProduct: Record<string, number> = {};
+  for (const it of items) qtyByProduct[it.productId] = (qtyByProduct[it.productId] || 0) + it.qty;
+  for (const it of items) {
+    if (typeof it.basePriceYen !== "number" || !it.priceTiers?.length) continue;
+    const productQty = qtyByProduct[it.productId] || 0;
+    const tier = it.priceTiers.reduce<PriceTier | null>(
+      (found, t) => (productQty >= t.minQty ? t : found),
+      null
+    );
+    it.unitPriceYen = tier ? tier.priceYen : it.basePriceYen;
+    it.lineTotalYen = it.unitPriceYen * it.qty;
+  }
+};
+
+type OrderDiscount = { label: string; amountYen: number; promotionId?: string };
+
+/** O que foi registrado, para a mensagem do cliente (itens e entrega) */
+type OrderSummary = {
+  items: Array<{ name: string; variantLabel?: string; qty: number }>;
+  deliveryMode: string;
+  deliveryDate: string;
+  deliveryTimeSlot: string;
+};
+
+/** Resultado gravado por requestKey e devolvido em reenvios */
+type OrderRequestRecord = {
+  orderId: string;
+  trackingToken: string;
+  updatedStocks: Record<string, number>;
+  /** cota restante no evento (productQuotas) */
+  updatedQuotas: Record<string, number>;
+  /** pedidos por faixa de horário (timeSlotBookings) */
+  updatedSlotBookings: Record<string, number>;
+  pricing: OrderPricing;
+  /** ausente em registros antigos */
+  summary?: OrderSummary;
+};
+
+const REQUEST_KEY_RE = /^[A-Za-z0-9_-]{8,80}$/;
+
+/** Valores calculados no servidor e gravados no pedido */
+type OrderPricing = {
+  subtotalYen: number;
+  discounts: OrderDiscount[];
+  discountYen: number;
+  deliveryFeeYen: number;
+  totalYen: number;
+  taxBreakdown: TaxBreakdownLine[];
+  /** sinal a pagar antes da produção (0 = sem sinal) */
+  depositYen: number;
 };
 
 const clampInt = (n: any, min: number, max: number) => {
@@ -35,6 +192,902 @@ const cleanStr = (v: any, maxLen: number) => {
   return s.slice(0, maxLen);
 };
 
+const toYen = (v: unknown) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+};
+
+/** Item de array lido do Firestore: só objetos passam */
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error && err.message ? err.message : "Unknown error";
+
+/**
+ * `variantKey` presente = estoque da variante (`variantStocks.<chave>`).
+ * `change` = quanto o saldo mudou (negativo = saiu), vai para o movimento de estoque.
+ */
+type StockPlan = {
+  productId: string;
+  newStock: number;
+  change: number;
+  variantKey?: string;
+  /** produto com lotes: lotes depois da mudança e quanto saiu/voltou de cada um */
+  lots?: StockLot[];
+  lotsTaken?: LotTake[];
+};
+
+/** Lote de produção (`lots` do produto); mesma regra FIFO de lib/lots.ts */
+type StockLot = { id: string; madeOn: string; bestBefore: string; qty: number };
+type LotTake = { lotId: string; qty: number };
+
+const LOT_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Lotes com saldo, mais antigo primeiro */
+const readStockLots = (raw: unknown): StockLot[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter(isRecord)
+        .filter(
+          (l) =>
+            typeof l.id === "string" && LOT_DATE_RE.test(String(l.madeOn)) && LOT_DATE_RE.test(String(l.bestBefore))
+        )
+        .map((l) => ({
+          id: String(l.id),
+          madeOn: String(l.madeOn),
+          bestBefore: String(l.bestBefore),
+          qty: clampInt(l.qty, 0, 999999)
+        }))
+        .filter((l) => l.qty > 0)
+        .sort((a, b) => a.madeOn.localeCompare(b.madeOn) || a.bestBefore.localeCompare(b.bestBefore))
+    : [];
+
+/**
+ * Venda tira dos lotes mais antigos (o que faltar sai do estoque sem lote);
+ * devolução volta para o lote mais antigo que ainda existe. Igual a moveLots de lib/lots.ts.
+ */
+const moveLots = (lots: StockLot[], delta: number) => {
+  if (delta < 0) {
+    if (lots.length === 0) return { lots, taken: [] as LotTake[] };
+    const [first, ...rest] = lots;
+    return { lots: [{ ...first, qty: first.qty - delta }, ...rest], taken: [{ lotId: first.id, qty: delta }] };
+  }
+  let left = delta;
+  const taken: LotTake[] = [];
+  const next = lots
+    .map((l) => {
+      const take = Math.min(l.qty, left);
+      left -= take;
+      if (take > 0) taken.push({ lotId: l.id, qty: take });
+      return { ...l, qty: l.qty - take };
+    })
+    .filter((l) => l.qty > 0);
+  return { lots: next, taken };
+};
+
+/** Mesmos tipos de lib/stock.ts (painel grava ajuste, produção e perda) */
+type StockMovementType = "sale" | "cancel_restock" | "adjustment" | "production" | "waste";
+
+/** Origem das mudanças de estoque de um pedido (vai em cada movimento) */
+type StockMovementSource = {
+  eventId: string;
+  orderId: string;
+  userId: string | null;
+  userEmail: string | null;
+  note: string;
+};
+
+/** Chave de linha/estoque: produto ou produto:variante */
+const lineKey = (productId: string, variantKey?: string | null) =>
+  variantKey ? `${productId}:${variantKey}` : productId;
+
+const splitLineKey = (key: string) => {
+  const i = key.indexOf(":");
+  return i < 0
+    ? { productId: key, variantKey: "" }
+    : { productId: key.slice(0, i), variantKey: key.slice(i + 1) };
+};
+
+/** Grupos de opções do produto (`optionGroups`); o cliente escolhe uma opção por grupo */
+type ProductOption = { id: string; label: string; priceDeltaYen: number; costDeltaYen: number };
+type ProductOptionGroup = { id: string; name: string; options: ProductOption[] };
+
+const VARIANT_KEY_SEP = "__";
+const VARIANT_KEY_RE = /^[a-z0-9_-]{1,200}$/;
+
+const readOptionGroups = (raw: unknown): ProductOptionGroup[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter(isRecord)
+        .filter((g) => typeof g.id === "string" && Array.isArray(g.options))
+        .map((g) => ({
+          id: String(g.id),
+          name: String(g.name || ""),
+          options: (g.options as unknown[])
+            .filter(isRecord)
+            .filter((o) => typeof o.id === "string")
+            .map((o) => ({
+              id: String(o.id),
+              label: String(o.label || o.id),
+              priceDeltaYen: Math.round(Number(o.priceDeltaYen) || 0),
+              costDeltaYen: Number(o.costDeltaYen) || 0
+            }))
+        }))
+        .filter((g) => g.options.length > 0)
+    : [];
+
+/** Opções da variante; null quando a chave não bate com os grupos do produto */
+const variantOptions = (groups: ProductOptionGroup[], variantKey: string) => {
+  const parts = variantKey.split(VARIANT_KEY_SEP);
+  if (parts.length !== groups.length) return null;
+  const options = groups.map((g, i) => g.options.find((o) => o.id === parts[i]));
+  return options.every(Boolean) ? (options as ProductOption[]) : null;
+};
+
+/**
+ * Novo estoque de um produto dentro de uma transação: delta > 0 consome,
+ * delta < 0 devolve. Produto sem `stockQty` numérico não controla estoque.
+ */
+const planStockChange = (
+  productId: string,
+  productName: string,
+  stockQty: unknown,
+  delta: number
+): StockPlan | null => {
+  if (typeof stockQty !== "number" || delta === 0) return null;
+  if (delta > 0 && stockQty < delta) {
+    throw new Error(`Insufficient stock for "${productName}". Left: ${stockQty}`);
+  }
+  return { productId, newStock: stockQty - delta, change: -delta };
+};
+
+/**
+ * Grava os estoques planejados (depois de todas as leituras da transação) e um
+ * movimento por mudança em `products/{id}/stockMovements`: saída = venda, entrada = devolução.
+ */
+const applyStockPlans = (
+  tx: admin.firestore.Transaction,
+  plans: StockPlan[],
+  updatedStocks: Record<string, number>,
+  source: StockMovementSource
+) => {
+  for (const plan of plans) {
+    updatedStocks[lineKey(plan.productId, plan.variantKey)] = plan.newStock;
+    const productRef = db.collection("products").doc(plan.productId);
+    tx.update(
+      productRef,
+      plan.variantKey
+        ? { [`variantStocks.${plan.variantKey}`]: plan.newStock }
+        : { stockQty: plan.newStock, ...(plan.lots ? { lots: plan.lots } : {}) }
+    );
+    const type: StockMovementType = plan.change < 0 ? "sale" : "cancel_restock";
+    tx.set(productRef.collection("stockMovements").doc(), {
+      type,
+      qty: plan.change,
+      balanceAfter: plan.newStock,
+      variantKey: plan.variantKey || null,
+      ...(plan.lotsTaken ? { lots: plan.lotsTaken } : {}),
+      ...source,
+      createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+  }
+};
+
+/** `bundleItems` do produto kit (ou `components` do item do pedido) */
+const readBundleComponents = (raw: unknown): BundleComponent[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter(isRecord)
+        .filter((c) => typeof c.productId === "string" && c.productId)
+        .map((c) => ({ productId: String(c.productId), name: String(c.name || ""), qty: clampInt(c.qty, 0, 9999) }))
+        .filter((c) => c.qty > 0)
+    : [];
+
+/** Linha que mexe no estoque: produto pedido (e variante) e, se for kit, sua composição */
+type StockLine = {
+  productId: string;
+  qty: number;
+  variantKey?: string;
+  components?: BundleComponent[];
+};
+
+/**
+ * Unidades que saem do estoque global por chave (produto ou produto:variante).
+ * Kit abate só os componentes (nunca o próprio kit); item avulso segue usesGlobalStock.
+ */
+const stockUnitsByProduct = (eventData: admin.firestore.DocumentData, lines: StockLine[]) => {
+  const units: Record<string, number> = {};
+  for (const line of lines) {
+    if (line.components && line.components.length > 0) {
+      for (const c of line.components) {
+        units[c.productId] = (units[c.productId] || 0) + c.qty * line.qty;
+      }
+    } else if (usesGlobalStock(eventData, line.productId)) {
+      const key = lineKey(line.productId, line.variantKey);
+      units[key] = (units[key] || 0) + line.qty;
+    }
+  }
+  return units;
+};
+
+/**
+ * Lê os produtos e planeja o estoque (delta > 0 abate, < 0 devolve).
+ * Variante com número em `variantStocks` usa o próprio estoque; sem número, cai no
+ * `stockQty` do produto. Devolve também os nomes lidos (componentes dos kits).
+ */
+const planStockDeltas = async (tx: admin.firestore.Transaction, deltas: Record<string, number>) => {
+  const byProduct: Record<string, Record<string, number>> = {};
+  for (const [key, delta] of Object.entries(deltas)) {
+    if (delta === 0) continue;
+    const { productId, variantKey } = splitLineKey(key);
+    byProduct[productId] = byProduct[productId] || {};
+    byProduct[productId][variantKey] = (byProduct[productId][variantKey] || 0) + delta;
+  }
+
+  const plans: StockPlan[] = [];
+  const names: Record<string, string> = {};
+  for (const [productId, variantDeltas] of Object.entries(byProduct)) {
+    const prodSnap = await tx.get(db.collection("products").doc(productId));
+    if (!prodSnap.exists) {
+      if (Object.values(variantDeltas).some((d) => d > 0)) throw new Error(`Product not found: ${productId}`);
+      continue;
+    }
+    const prodData = prodSnap.data() || {};
+    const productName = String(prodData.name || "");
+    names[productId] = productName;
+
+    const groups = readOptionGroups(prodData.optionGroups);
+    const variantStocks = prodData.variantStocks && typeof prodData.variantStocks === "object" ? prodData.variantStocks : {};
+    let productDelta = 0;
+    for (const [variantKey, delta] of Object.entries(variantDeltas)) {
+      if (!variantKey || typeof variantStocks[variantKey] !== "number") {
+        productDelta += delta;
+        continue;
+      }
+      const label = variantOptions(groups, variantKey)?.map((o) => o.label).join(" / ") ?? variantKey;
+      const plan = planStockChange(productId, `${productName} (${label})`, variantStocks[variantKey], delta);
+      if (plan) plans.push({ ...plan, variantKey });
+    }
+
+    const plan = planStockChange(productId, productName, prodData.stockQty, productDelta);
+    const lots = readStockLots(prodData.lots);
+    if (plan && lots.length > 0) {
+      const moved = moveLots(lots, productDelta);
+      plans.push({ ...plan, lots: moved.lots, lotsTaken: moved.taken });
+    } else if (plan) {
+      plans.push(plan);
+    }
+  }
+  return { plans, names };
+};
+
+type QuotaPlan = { productId: string; newQuota: number };
+
+/**
+ * Cota do evento (`productQuotas[productId]` = quanto ainda pode vender neste
+ * evento). Sem número, o produto não tem cota no evento.
+ */
+const readEventQuota = (eventData: admin.firestore.DocumentData, productId: string) => {
+  const quotas = eventData.productQuotas;
+  const quota = quotas && typeof quotas === "object" ? quotas[productId] : undefined;
+  return typeof quota === "number" ? quota : null;
+};
+
+/** Com `quotaReplacesGlobalStock`, produto com cota não mexe no estoque global */
+const usesGlobalStock = (eventData: admin.firestore.DocumentData, productId: string) =>
+  !(eventData.quotaReplacesGlobalStock === true && readEventQuota(eventData, productId) !== null);
+
+/** Mesmo esquema de planStockChange, para a cota do evento */
+const planQuotaChange = (
+  eventData: admin.firestore.DocumentData,
+  productId: string,
+  productName: string,
+  delta: number
+): QuotaPlan | null => {
+  const quota = readEventQuota(eventData, productId);
+  if (quota === null || delta === 0) return null;
+  if (delta > 0 && quota < delta) {
+    throw new Error(`Event quota reached for "${productName}". Left: ${quota}`);
+  }
+  return { productId, newQuota: quota - delta };
+};
+
+const applyQuotaPlans = (
+  tx: admin.firestore.Transaction,
+  eventRef: admin.firestore.DocumentReference,
+  plans: QuotaPlan[],
+  updatedQuotas: Record<string, number>
+) => {
+  if (plans.length === 0) return;
+  const update: Record<string, number> = {};
+  for (const plan of plans) {
+    updatedQuotas[plan.productId] = plan.newQuota;
+    update[`productQuotas.${plan.productId}`] = plan.newQuota;
+  }
+  tx.update(eventRef, update);
+};
+
+/**
+ * Limites de compra por produto no evento (`productLimits[productId]`):
+ * `perOrder` = máximo num pedido; `perCustomer` = máximo somando os pedidos do cliente.
+ */
+type ProductLimit = { perOrder: number | null; perCustomer: number | null };
+
+const readProductLimit = (eventData: admin.firestore.DocumentData, productId: string): ProductLimit => {
+  const raw = eventData.productLimits?.[productId];
+  const positive = (v: unknown) => (typeof v === "number" && v > 0 ? Math.floor(v) : null);
+  return { perOrder: positive(raw?.perOrder), perCustomer: positive(raw?.perCustomer) };
+};
+
+/** Telefone só com dígitos, no formato nacional (+81 90… → 090…) */
+const normalizeCustomerPhone = (v: unknown) => {
+  const digits = String(v ?? "").replace(/\D/g, "");
+  return digits.startsWith("81") && digits.length >= 11 ? `0${digits.slice(2)}` : digits;
+};
+
+/** Nome sem acento, caixa ou espaços repetidos ("  Ana  Souza" = "ana souza") */
+const normalizeCustomerName = (v: unknown) =>
+  String(v ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Identidade do cliente no evento: telefone (10+ dígitos) ou, sem ele, o nome */
+const customerKeyOf = (phone: string, name: string) => {
+  if (phone.length >= 10) return `tel-${phone}`;
+  const normalized = normalizeCustomerName(name);
+  return normalized ? `nome-${encodeURIComponent(normalized).slice(0, 300)}` : "";
+};
+
+/** Quanto cada cliente já comprou no evento: `events/{id}/customerPurchases/{customerKey}` */
+const customerPurchasesRef = (eventRef: admin.firestore.DocumentReference, customerKey: string) =>
+  eventRef.collection("customerPurchases").doc(customerKey);
+
+const readPurchasedQty = (snap: admin.firestore.DocumentSnapshot): Record<string, number> => {
+  const raw = snap.exists ? snap.data()?.qtyByProduct : null;
+  const qty: Record<string, number> = {};
+  if (raw && typeof raw === "object") {
+    for (const [productId, q] of Object.entries(raw)) {
+      if (typeof q === "number" && q > 0) qty[productId] = q;
+    }
+  }
+  return qty;
+};
+
+/** Confere "máximo por pedido" com as quantidades finais do pedido */
+const checkPerOrderLimits = (
+  eventData: admin.firestore.DocumentData,
+  qtyByProduct: Record<string, number>,
+  names: Record<string, string>
+) => {
+  for (const [productId, qty] of Object.entries(qtyByProduct)) {
+    const { perOrder } = readProductLimit(eventData, productId);
+    if (perOrder !== null && qty > perOrder) {
+      throw new Error(`Limit per order for "${names[productId] ?? productId}" is ${perOrder}`);
+    }
+  }
+};
+
+/**
+ * Novo total comprado pelo cliente, conferindo "máximo por cliente" nos aumentos.
+ * Diminuições (cancelamento, alteração) sempre passam.
+ */
+const planCustomerPurchases = (
+  eventData: admin.firestore.DocumentData,
+  purchased: Record<string, number>,
+  deltas: Record<string, number>,
+  names: Record<string, string>
+) => {
+  const next = { ...purchased };
+  for (const [productId, delta] of Object.entries(deltas)) {
+    if (delta === 0) continue;
+    const total = Math.max(0, (next[productId] || 0) + delta);
+    const { perCustomer } = readProductLimit(eventData, productId);
+    if (delta > 0 && perCustomer !== null && total > perCustomer) {
+      const left = Math.max(0, perCustomer - (purchased[productId] || 0));
+      throw new Error(
+        `Limit per customer for "${names[productId] ?? productId}" is ${perCustomer}. Left for you: ${left}`
+      );
+    }
+    if (total > 0) next[productId] = total;
+    else delete next[productId];
+  }
+  return next;
+};
+
+const applyCustomerPurchases = (
+  tx: admin.firestore.Transaction,
+  ref: admin.firestore.DocumentReference,
+  qtyByProduct: Record<string, number>
+) => {
+  tx.set(ref, { qtyByProduct, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+};
+
+/** Faixa de horário de uma data do evento (`events.timeSlots`) */
+type TimeSlot = { id: string; date: string; start: string; end: string; capacity: number };
+
+const readTimeSlots = (eventData: admin.firestore.DocumentData): TimeSlot[] =>
+  Array.isArray(eventData.timeSlots)
+    ? eventData.timeSlots.filter(
+        (s: unknown): s is TimeSlot =>
+          isRecord(s) &&
+          typeof s.id === "string" &&
+          typeof s.date === "string" &&
+          typeof s.start === "string" &&
+          typeof s.end === "string" &&
+          typeof s.capacity === "number"
+      )
+    : [];
+
+const timeSlotLabel = (slot: TimeSlot) => `${slot.start}–${slot.end}`;
+
+/** Sinal do evento (`events.depositRule`): `percent`% do total a partir de `minOrderYen` */
+type DepositRule = { percent: number; minOrderYen: number };
+
+const readDepositRule = (eventData: admin.firestore.DocumentData): DepositRule | null => {
+  const rule = eventData.depositRule;
+  const percent = Math.floor(Number(rule?.percent));
+  if (!Number.isFinite(percent) || percent <= 0) return null;
+  return { percent: Math.min(percent, 100), minOrderYen: toYen(rule?.minOrderYen) };
+};
+
+const readSlotBookings = (eventData: admin.firestore.DocumentData, slotId: string) => {
+  const bookings = eventData.timeSlotBookings;
+  const n = bookings && typeof bookings === "object" ? bookings[slotId] : undefined;
+  return typeof n === "number" ? n : 0;
+};
+
+/**
+ * Troca de faixa de um pedido: reserva a nova (erro se cheia) e libera a antiga.
+ * Devolve a nova contagem por faixa, para gravar com applySlotBookings.
+ */
+const planSlotChange = (
+  eventData: admin.firestore.DocumentData,
+  fromSlotId: string | null,
+  toSlotId: string | null
+): Record<string, number> => {
+  const bookings: Record<string, number> = {};
+  if (fromSlotId === toSlotId) return bookings;
+
+  if (toSlotId) {
+    const slot = readTimeSlots(eventData).find((s) => s.id === toSlotId);
+    if (!slot) throw new Error("Time slot not found");
+    const booked = readSlotBookings(eventData, toSlotId);
+    if (booked >= slot.capacity) throw new Error(`Time slot ${timeSlotLabel(slot)} is full`);
+    bookings[toSlotId] = booked + 1;
+  }
+  if (fromSlotId) {
+    bookings[fromSlotId] = Math.max(0, readSlotBookings(eventData, fromSlotId) - 1);
+  }
+  return bookings;
+};
+
+const applySlotBookings = (
+  tx: admin.firestore.Transaction,
+  eventRef: admin.firestore.DocumentReference,
+  bookings: Record<string, number>,
+  updatedSlotBookings: Record<string, number>
+) => {
+  const entries = Object.entries(bookings);
+  if (entries.length === 0) return;
+  const update: Record<string, number> = {};
+  for (const [slotId, n] of entries) {
+    updatedSlotBookings[slotId] = n;
+    update[`timeSlotBookings.${slotId}`] = n;
+  }
+  tx.update(eventRef, update);
+};
+
+/**
+ * Zona de entrega (`deliveryZones` do evento ou, sem nenhuma, da vendedora).
+ * O endereço entra na zona pelo prefixo do CEP ou pela distância até o ponto de retirada.
+ */
+type DeliveryZone = {
+  id: string;
+  name: string;
+  postalPrefixes: string[];
+  radiusKm: number | null;
+  feeYen: number;
+  minOrderYen: number;
+  freeAboveYen: number | null;
+};
+
+type DeliveryAddress = { postalCode: string; lat: number | null; lng: number | null };
+type GeoPoint = { lat: number; lng: number };
+
+const readDeliveryZones = (data: admin.firestore.DocumentData | undefined): DeliveryZone[] =>
+  Array.isArray(data?.deliveryZones)
+    ? (data!.deliveryZones as unknown[])
+        .filter(isRecord)
+        .filter((z) => typeof z.id === "string")
+        .map((z) => ({
+          id: String(z.id),
+          name: String(z.name || ""),
+          postalPrefixes: Array.isArray(z.postalPrefixes)
+            ? z.postalPrefixes.map(normalizePostalCode).filter(Boolean)
+            : [],
+          radiusKm: typeof z.radiusKm === "number" && z.radiusKm > 0 ? z.radiusKm : null,
+          feeYen: toYen(z.feeYen),
+          minOrderYen: toYen(z.minOrderYen),
+          freeAboveYen: typeof z.freeAboveYen === "number" && z.freeAboveYen > 0 ? z.freeAboveYen : null
+        }))
+    : [];
+
+const readDeliveryAddress = (body: {
+  postalCode?: string;
+  customerLat?: number;
+  customerLng?: number;
+}): DeliveryAddress => {
+  const lat = Number(body.customerLat);
+  const lng = Number(body.customerLng);
+  const hasCoords =
+    body.customerLat != null && body.customerLng != null && Number.isFinite(lat) && Number.isFinite(lng);
+  return {
+    postalCode: normalizePostalCode(body.postalCode),
+    lat: hasCoords ? lat : null,
+    lng: hasCoords ? lng : null
+  };
+};
+
+const readGeoPoint = (data: admin.firestore.DocumentData | undefined): GeoPoint | null =>
+  typeof data?.pickupLat === "number" && typeof data?.pickupLng === "number"
+    ? { lat: data.pickupLat, lng: data.pickupLng }
+    : null;
+
+/** CEP japonês só com dígitos ("430-0001" → "4300001") */
+const normalizePostalCode = (v: unknown) => String(v ?? "").replace(/\D/g, "").slice(0, 7);
+
+const distanceKm = (a: GeoPoint, b: GeoPoint) => {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+/** Primeira zona (na ordem cadastrada) que atende o endereço */
+const findDeliveryZone = (zones: DeliveryZone[], address: DeliveryAddress, origin: GeoPoint | null) =>
+  zones.find((zone) => {
+    if (address.postalCode && zone.postalPrefixes.some((p) => address.postalCode.startsWith(p))) {
+      return true;
+    }
+    if (zone.radiusKm !== null && origin && address.lat !== null && address.lng !== null) {
+      return distanceKm(origin, { lat: address.lat, lng: address.lng }) <= zone.radiusKm;
+    }
+    return false;
+  }) ?? null;
+
+/**
+ * Promoção da coleção "promotions" (mesma regra de lib/promotions.ts).
+ * Sem `code` é automática; com `code`, só vale quando o cliente digita o código.
+ */
+type Promotion = {
+  id: string;
+  name: string;
+  code: string | null;
+  kind: "percent" | "fixed" | "buy_x_get_y";
+  percent: number;
+  amountYen: number;
+  buyQty: number;
+  freeQty: number;
+  productId: string | null;
+  eventId: string | null;
+  minSubtotalYen: number;
+  maxUses: number | null;
+  usedCount: number;
+  startsAt: number | null;
+  expiresAt: number | null;
+  active: boolean;
+};
+
+const normalizePromoCode = (v: unknown) => String(v ?? "").replace(/\s/g, "").toUpperCase().slice(0, 40);
+
+const readPromotion = (id: string, data: admin.firestore.DocumentData): Promotion => ({
+  id,
+  name: String(data.name || ""),
+  code: data.code ? normalizePromoCode(data.code) : null,
+  kind: data.kind === "fixed" || data.kind === "buy_x_get_y" ? data.kind : "percent",
+  percent: clampInt(data.percent, 0, 100),
+  amountYen: toYen(data.amountYen),
+  buyQty: clampInt(data.buyQty, 0, 9999),
+  freeQty: clampInt(data.freeQty, 0, 9999),
+  productId: typeof data.productId === "string" && data.productId ? data.productId : null,
+  eventId: typeof data.eventId === "string" && data.eventId ? data.eventId : null,
+  minSubtotalYen: toYen(data.minSubtotalYen),
+  maxUses: typeof data.maxUses === "number" && data.maxUses > 0 ? data.maxUses : null,
+  usedCount: clampInt(data.usedCount, 0, Number.MAX_SAFE_INTEGER),
+  startsAt: toMillis(data.startsAt),
+  expiresAt: toMillis(data.expiresAt),
+  active: data.active !== false
+});
+
+/** Motivo (em inglês, como os outros erros) para a promoção não valer agora; null = vale */
+const promotionUnavailableReason = (promo: Promotion, eventId: string, nowMs: number) => {
+  if (!promo.active) return "Promo code is not active";
+  if (promo.eventId && promo.eventId !== eventId) return "Promo code is not valid for this event";
+  if (promo.startsAt !== null && nowMs < promo.startsAt) return "Promo code is not valid yet";
+  if (promo.expiresAt !== null && nowMs >= promo.expiresAt) return "Promo code has expired";
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) return "Promo code usage limit reached";
+  return null;
+};
+
+const promotionDiscountYen = (promo: Promotion, items: OrderLineItem[]) => {
+  const subtotalYen = items.reduce((sum, it) => sum + it.lineTotalYen, 0);
+  if (subtotalYen < promo.minSubtotalYen) return 0;
+
+  const scoped = promo.productId ? items.filter((it) => it.productId === promo.productId) : items;
+  const baseYen = scoped.reduce((sum, it) => sum + it.lineTotalYen, 0);
+
+  switch (promo.kind) {
+    case "percent":
+      return Math.floor((baseYen * promo.percent) / 100);
+    case "fixed":
+      return Math.min(baseYen, promo.amountYen);
+    case "buy_x_get_y": {
+      if (!promo.productId || promo.buyQty <= 0 || promo.freeQty <= 0) return 0;
+      const qty = scoped.reduce((sum, it) => sum + it.qty, 0);
+      // variantes têm preços diferentes: as unidades grátis valem pelo menor preço
+      const unitYen = scoped.length > 0 ? Math.min(...scoped.map((it) => it.unitPriceYen)) : 0;
+      return Math.floor(qty / (promo.buyQty + promo.freeQty)) * promo.freeQty * unitYen;
+    }
+  }
+};
+
+/**
+ * Promoções do pedido novo: todas as automáticas que valem agora + a do código.
+ * Código inválido/expirado/esgotado recusa o pedido (o cliente corrige e reenvia).
+ */
+const loadOrderPromotions = async (
+  tx: admin.firestore.Transaction,
+  eventId: string,
+  promoCode: string,
+  nowMs: number
+) => {
+  const promotionsCol = db.collection("promotions");
+  const autoSnap = await tx.get(promotionsCol.where("active", "==", true).where("code", "==", null));
+  const promotions = autoSnap.docs
+    .map((d) => readPromotion(d.id, d.data()))
+    .filter((p) => promotionUnavailableReason(p, eventId, nowMs) === null);
+
+  if (promoCode) {
+    const codeSnap = await tx.get(promotionsCol.where("code", "==", promoCode).limit(1));
+    if (codeSnap.empty) throw new Error("Invalid promo code");
+    const promo = readPromotion(codeSnap.docs[0].id, codeSnap.docs[0].data());
+    const reason = promotionUnavailableReason(promo, eventId, nowMs);
+    if (reason) throw new Error(reason);
+    promotions.push(promo);
+  }
+
+  return promotions;
+};
+
+const orderPromotionIds = (orderData: admin.firestore.DocumentData): string[] =>
+  Array.isArray(orderData.promotionIds)
+    ? orderData.promotionIds.filter((id: unknown): id is string => typeof id === "string")
+    : [];
+
+/** Pedido cancelado devolve o uso das promoções (só escrita) */
+const releasePromotionUses = (tx: admin.firestore.Transaction, orderData: admin.firestore.DocumentData) => {
+  for (const promotionId of orderPromotionIds(orderData)) {
+    tx.update(db.collection("promotions").doc(promotionId), {
+      usedCount: admin.firestore.FieldValue.increment(-1)
+    });
+  }
+};
+
+/**
+ * Preço oficial do pedido (sempre calculado dentro da transação de criação).
+ * Descontos e taxa de entrega entram aqui. Pedido mínimo e entrega grátis
+ * comparam com o subtotal dos itens (antes dos descontos).
+ */
+const computeOrderPricing = (
+  items: OrderLineItem[],
+  deliveryZone: DeliveryZone | null = null,
+  promotions: Promotion[] = [],
+  depositRule: DepositRule | null = null
+): OrderPricing => {
+  const subtotalYen = items.reduce((sum, it) => sum + it.lineTotalYen, 0);
+  const discounts: OrderDiscount[] = promotions
+    .map((promo) => ({
+      label: promo.code ? `${promo.name} (${promo.code})` : promo.name,
+      amountYen: promotionDiscountYen(promo, items),
+      promotionId: promo.id
+    }))
+    .filter((d) => d.amountYen > 0);
+  const discountYen = Math.min(
+    subtotalYen,
+    discounts.reduce((sum, d) => sum + d.amountYen, 0)
+  );
+
+  if (deliveryZone && subtotalYen < deliveryZone.minOrderYen) {
+    throw new Error(
+      `Minimum order for delivery to ${deliveryZone.name} is ¥${deliveryZone.minOrderYen}`
+    );
+  }
+  const deliveryFeeYen =
+    !deliveryZone || (deliveryZone.freeAboveYen !== null && subtotalYen >= deliveryZone.freeAboveYen)
+      ? 0
+      : deliveryZone.feeYen;
+
+  const totalYen = subtotalYen - discountYen + deliveryFeeYen;
+  return {
+    subtotalYen,
+    discounts,
+    discountYen,
+    deliveryFeeYen,
+    totalYen,
+    taxBreakdown: computeTaxBreakdown(items, discountYen, deliveryFeeYen),
+    // sinal arredonda para cima
+    depositYen:
+      depositRule && totalYen > 0 && totalYen >= depositRule.minOrderYen
+        ? Math.ceil((totalYen * depositRule.percent) / 100)
+        : 0
+  };
+};
+
+/**
+ * Token do link secreto do pedido (/pedido/[token]).
+ * 24 bytes aleatórios → 32 caracteres base64url, impossível de adivinhar.
+ */
+const newOrderToken = () => randomBytes(24).toString("base64url");
+
+const toMillis = (v: unknown): number | null =>
+  v instanceof admin.firestore.Timestamp ? v.toMillis() : null;
+
+/**
+ * Janela de pedidos do evento (`ordersOpenAt`/`ordersCloseAt`, gravados como
+ * Timestamp a partir do horário de Tóquio). Sem os campos, não há limite.
+ */
+const checkOrderWindow = (eventData: admin.firestore.DocumentData, nowMs: number) => {
+  const openAt = toMillis(eventData.ordersOpenAt);
+  const closeAt = toMillis(eventData.ordersCloseAt);
+  if (openAt !== null && nowMs < openAt) throw new Error("Orders are not open yet for this event");
+  if (closeAt !== null && nowMs >= closeAt) throw new Error("Orders are closed for this event");
+};
+
+/**
+ * Zona de entrega para o pedido. Sem zonas cadastradas (evento nem vendedora),
+ * a entrega continua livre e sem taxa (null). Com zonas, endereço fora delas é recusado.
+ */
+const resolveDeliveryZone = async (
+  tx: admin.firestore.Transaction,
+  eventData: admin.firestore.DocumentData,
+  address: DeliveryAddress
+) => {
+  let zones = readDeliveryZones(eventData);
+  let origin = readGeoPoint(eventData);
+
+  if (zones.length === 0 && typeof eventData.sellerId === "string" && eventData.sellerId) {
+    const sellerSnap = await tx.get(db.collection("sellers").doc(eventData.sellerId));
+    const sellerData = sellerSnap.data();
+    zones = readDeliveryZones(sellerData);
+    origin = origin ?? readGeoPoint(sellerData);
+  }
+
+  if (zones.length === 0) return null;
+
+  const zone = findDeliveryZone(zones, address, origin);
+  if (!zone) throw new Error("Address is outside the delivery area");
+  return zone;
+};
+
+/**
+ * Lista de espera de produto (ou variante) esgotado:
+ * `events/{id}/waitlist/{productId[:variantKey]}_{customerKey}`.
+ * Ao repor, a vendedora avisa o cliente e segura `qty` unidades até `reservedUntil`.
+ */
+type WaitlistStatus = "waiting" | "notified" | "fulfilled" | "cancelled";
+
+type WaitlistReservation = {
+  ref: admin.firestore.DocumentReference;
+  productId: string;
+  customerKey: string;
+  qty: number;
+};
+
+/** Reservas ainda no prazo (avisados que ainda não compraram) */
+const loadActiveReservations = async (
+  tx: admin.firestore.Transaction,
+  eventRef: admin.firestore.DocumentReference,
+  nowMs: number
+): Promise<WaitlistReservation[]> => {
+  const snap = await tx.get(eventRef.collection("waitlist").where("status", "==", "notified"));
+  return snap.docs
+    .filter((d) => (toMillis(d.get("reservedUntil")) ?? 0) > nowMs)
+    .map((d) => ({
+      ref: d.ref,
+      productId: String(d.get("productId") || ""),
+      customerKey: String(d.get("customerKey") || ""),
+      qty: clampInt(d.get("qty"), 0, 999)
+    }));
+};
+
+/**
+ * Unidades reservadas para outros clientes não podem ser vendidas: confere o que
+ * sobra no estoque (ou na cota) depois deste pedido.
+ */
+const checkReservations = (
+  reservations: WaitlistReservation[],
+  customerKey: string,
+  qtyByProduct: Record<string, number>,
+  names: Record<string, string>,
+  remainingOf: (productId: string) => number | null
+) => {
+  for (const [productId, qty] of Object.entries(qtyByProduct)) {
+    const reserved = reservations
+      .filter((r) => r.productId === productId && r.customerKey !== customerKey)
+      .reduce((sum, r) => sum + r.qty, 0);
+    const remaining = remainingOf(productId);
+    if (reserved > 0 && remaining !== null && remaining < reserved) {
+      const available = Math.max(0, remaining + qty - reserved);
+      throw new Error(
+        `Only ${available} of "${names[productId] ?? productId}" available; the rest is reserved for the waitlist`
+      );
+    }
+  }
+};
+
+/**
+ * Quanto ainda dá para vender do produto no evento (mesma regra da página do evento):
+ * cota do evento e/ou estoque geral; variante com número em `variantStocks` pelo
+ * próprio estoque; kit pelo estoque dos componentes. null = sem controle.
+ */
+const availableInEvent = async (
+  tx: admin.firestore.Transaction,
+  eventData: admin.firestore.DocumentData,
+  productId: string,
+  prodData: admin.firestore.DocumentData,
+  variantKey = ""
+) => {
+  let stock: number | null = null;
+  if (usesGlobalStock(eventData, productId)) {
+    const variantStock = variantKey ? prodData.variantStocks?.[variantKey] : undefined;
+    if (typeof variantStock === "number") {
+      stock = variantStock;
+    } else if (prodData.type === "bundle") {
+      const components = readBundleComponents(prodData.bundleItems);
+      const snaps = await Promise.all(
+        components.map((c) => tx.get(db.collection("products").doc(c.productId)))
+      );
+      const limits = components.flatMap((c, i) => {
+        const qty = snaps[i].get("stockQty");
+        return typeof qty === "number" ? [Math.floor(qty / c.qty)] : [];
+      });
+      stock = limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+    } else if (typeof prodData.stockQty === "number") {
+      stock = prodData.stockQty;
+    }
+  }
+  const quota = readEventQuota(eventData, productId);
+  if (quota === null) return stock;
+  return stock === null ? quota : Math.min(stock, quota);
+};
+
+/** Valida o token da vendedora (header Authorization: Bearer <idToken>) */
+const getAuthUser = async (req: { headers: { authorization?: string } }) => {
+  const header = String(req.headers.authorization || "");
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) return null;
+  try {
+    return await admin.auth().verifyIdToken(match[1]);
+  } catch (err) {
+    console.error("verifyIdToken error:", err);
+    return null;
+  }
+};
+
+/**
+ * Admin (custom claim `admin`) ou dono do cadastro do vendedor
+ * (`sellers/{sellerId}.ownerUid`).
+ */
+const canManageSeller = async (user: admin.auth.DecodedIdToken, sellerId: string) => {
+  if (user.admin === true) return true;
+  const sellerSnap = await db.collection("sellers").doc(sellerId).get();
+  return sellerSnap.exists && sellerSnap.get("ownerUid") === user.uid;
+};
+
 export const createEventOrder = onRequest(
   { region: "asia-northeast1" },
   (req, res) => {
@@ -49,6 +1102,7 @@ export const createEventOrder = onRequest(
 
         const eventId = cleanStr(body.eventId, 120);
         const channel = body.channel;
+        const requestKey = cleanStr(body.requestKey, 80);
 
         if (!eventId) {
           res.status(400).json({ ok: false, error: "Missing eventId" });
@@ -60,26 +1114,55 @@ export const createEventOrder = onRequest(
           return;
         }
 
-        const quantitiesRaw = body.quantities || {};
-        if (typeof quantitiesRaw !== "object" || Array.isArray(quantitiesRaw)) {
-          res.status(400).json({ ok: false, error: "Invalid quantities" });
+        if (requestKey && !REQUEST_KEY_RE.test(requestKey)) {
+          res.status(400).json({ ok: false, error: "Invalid requestKey" });
           return;
         }
 
-        const quantities: Record<string, number> = {};
-        for (const [name, q] of Object.entries(quantitiesRaw)) {
-          const productName = cleanStr(name, 120);
-          const qty = clampInt(q, 0, 999);
-          if (productName && qty > 0) quantities[productName] = qty;
+        // quantidades por produto/variante (formato novo) ou por nome (formato antigo)
+        const requested: Record<string, { productId: string; variantKey: string; qty: number }> = {};
+        const qtyByName: Record<string, number> = {};
+        const addRequested = (productId: string, variantKey: string, qty: number) => {
+          const key = lineKey(productId, variantKey);
+          requested[key] = { productId, variantKey, qty: (requested[key]?.qty || 0) + qty };
+        };
+
+        if (Array.isArray(body.items)) {
+          for (const raw of body.items) {
+            const productId = cleanStr(raw?.productId, 120);
+            const variantKey = cleanStr(raw?.variantKey, 200);
+            const qty = clampInt(raw?.qty, 0, 999);
+            if (variantKey && !VARIANT_KEY_RE.test(variantKey)) {
+              res.status(400).json({ ok: false, error: "Invalid product options" });
+              return;
+            }
+            if (productId && qty > 0) addRequested(productId, variantKey, qty);
+          }
+        } else {
+          const quantitiesRaw = body.quantities || {};
+          if (typeof quantitiesRaw !== "object" || Array.isArray(quantitiesRaw)) {
+            res.status(400).json({ ok: false, error: "Invalid quantities" });
+            return;
+          }
+          for (const [name, q] of Object.entries(quantitiesRaw)) {
+            const productName = cleanStr(name, 120);
+            const qty = clampInt(q, 0, 999);
+            if (productName && qty > 0) qtyByName[productName] = qty;
+          }
         }
 
-        const totalItems = Object.values(quantities).reduce((sum, q) => sum + q, 0);
+        const totalItems = [
+          ...Object.values(requested).map((r) => r.qty),
+          ...Object.values(qtyByName)
+        ].reduce((sum, q) => sum + q, 0);
         if (totalItems <= 0) {
           res.status(400).json({ ok: false, error: "Select at least 1 item" });
           return;
         }
 
         const customerName = cleanStr(body.customerName, 80);
+        const customerPhone = normalizeCustomerPhone(cleanStr(body.customerPhone, 30));
+        const customerKey = customerKeyOf(customerPhone, customerName);
         const note = cleanStr(body.note, 800);
 
         const deliveryMode =
@@ -89,70 +1172,293 @@ export const createEventOrder = onRequest(
 
         const deliveryDate = cleanStr(body.deliveryDate, 40);
         const deliveryTimeSlot = cleanStr(body.deliveryTimeSlot, 20);
+        const timeSlotId = cleanStr(body.timeSlotId, 80);
         const locationLink = cleanStr(body.locationLink, 300);
+        const address = readDeliveryAddress(body);
+        const promoCode = normalizePromoCode(body.promoCode);
 
         const eventRef = db.collection("events").doc(eventId);
         const productsCol = db.collection("products");
         const orderRef = eventRef.collection("orders").doc();
+        const trackingToken = newOrderToken();
+        const orderLinkRef = db.collection("orderLinks").doc(trackingToken);
+        const requestRef = requestKey ? eventRef.collection("orderRequests").doc(requestKey) : null;
+
+        // reenvio do mesmo carrinho: devolve o pedido original sem nova transação
+        if (requestRef) {
+          const prevSnap = await requestRef.get();
+          if (prevSnap.exists) {
+            const prev = prevSnap.data() as OrderRequestRecord;
+            res.status(200).json({ ok: true, replayed: true, ...prev });
+            return;
+          }
+        }
+
+        // formato antigo: resolve nome → id antes da transação
+        for (const [productName, qty] of Object.entries(qtyByName)) {
+          const qs = await productsCol.where("name", "==", productName).limit(1).get();
+          if (qs.empty) throw new Error(`Product not found: ${productName}`);
+          addRequested(qs.docs[0].id, "", qty);
+        }
 
         const updatedStocks: Record<string, number> = {};
+        const updatedQuotas: Record<string, number> = {};
+        const updatedSlotBookings: Record<string, number> = {};
+        let pricing: OrderPricing | null = null;
+        let summary: OrderSummary | null = null;
+        let replayed: OrderRequestRecord | null = null;
 
         await db.runTransaction(async (tx) => {
+          // dois envios simultâneos com a mesma chave: só um cria o pedido
+          if (requestRef) {
+            const prevSnap = await tx.get(requestRef);
+            if (prevSnap.exists) {
+              replayed = prevSnap.data() as OrderRequestRecord;
+              return;
+            }
+          }
+
           const eventSnap = await tx.get(eventRef);
           if (!eventSnap.exists) throw new Error("Event not found");
 
           const eventData = eventSnap.data() || {};
           const status = String(eventData.status || "active");
           if (status !== "active") throw new Error("Event is not active");
+          checkOrderWindow(eventData, Date.now());
 
-          const stockPlans: Array<{ productDocId: string; productName: string; newStock: number }> = [];
+          // datas com faixas cadastradas só aceitam uma faixa com vaga
+          const timeSlots = readTimeSlots(eventData);
+          const slot = timeSlotId ? timeSlots.find((s) => s.id === timeSlotId) ?? null : null;
+          if (timeSlotId && !slot) throw new Error("Time slot not found");
+          if (!slot && timeSlots.some((s) => s.date === deliveryDate)) {
+            throw new Error("Choose a delivery time slot");
+          }
 
-          for (const [productName, qty] of Object.entries(quantities)) {
-            const qs = await productsCol.where("name", "==", productName).limit(1).get();
-            if (qs.empty) throw new Error(`Product not found: ${productName}`);
+          const deliveryZone =
+            deliveryMode === "delivery" ? await resolveDeliveryZone(tx, eventData, address) : null;
+          const promotions = await loadOrderPromotions(tx, eventId, promoCode, Date.now());
 
-            const prodDoc = qs.docs[0];
-            const prodRef = productsCol.doc(prodDoc.id);
+          const stockPlans: StockPlan[] = [];
+          const quotaPlans: QuotaPlan[] = [];
+          const items: OrderLineItem[] = [];
 
-            const prodSnap = await tx.get(prodRef);
-            if (!prodSnap.exists) throw new Error(`Product missing: ${productName}`);
+          const productCache: Record<string, admin.firestore.DocumentData> = {};
+          const qtyByProduct: Record<string, number> = {};
 
-            const prodData = prodSnap.data() || {};
-            const currentStock = typeof prodData.stockQty === "number" ? prodData.stockQty : null;
+          for (const { productId, variantKey, qty } of Object.values(requested)) {
+            if (!productCache[productId]) {
+              const prodSnap = await tx.get(productsCol.doc(productId));
+              if (!prodSnap.exists) throw new Error(`Product not found: ${productId}`);
+              productCache[productId] = prodSnap.data() || {};
+            }
 
-            if (currentStock === null) continue;
+            const prodData = productCache[productId];
+            const productName = String(prodData.name || "");
+            const components = prodData.type === "bundle" ? readBundleComponents(prodData.bundleItems) : [];
 
-            if (currentStock < qty) {
-              throw new Error(`Insufficient stock for "${productName}". Left: ${currentStock}`);
+            // produto com opções exige uma opção por grupo; sem opções, nenhuma
+            const groups = readOptionGroups(prodData.optionGroups);
+            const options = variantKey ? variantOptions(groups, variantKey) : null;
+            if (groups.length > 0 ? !options : variantKey) {
+              throw new Error(`Invalid product options: ${productName}`);
             }
+            const priceDelta = (options || []).reduce((sum, o) => sum + o.priceDeltaYen, 0);
+            const unitPriceYen = Math.max(0, toYen(prodData.price) + priceDelta);
+            // custo da variante = custo do produto + diferença das opções (pacote maior custa mais)
+            const costDelta = (options || []).reduce((sum, o) => sum + o.costDeltaYen, 0);
+            // faixas congeladas no item: a alteração pelo cliente recalcula com elas
+            const priceTiers = readPriceTiers(prodData.priceTiers).map((t) => ({
+              ...t,
+              priceYen: Math.max(0, t.priceYen + priceDelta)
+            }));
+
+            items.push({
+              productId,
+              name: productName,
+              unitPriceYen,
+              qty,
+              lineTotalYen: unitPriceYen * qty,
+              ...(components.length > 0 ? { components } : {}),
+              ...(options ? { variantKey, variantLabel: options.map((o) => o.label).join(" / ") } : {}),
+              ...(priceTiers.length > 0 ? { basePriceYen: unitPriceYen, priceTiers } : {}),
+              ...(typeof prodData.unitCostYen === "number"
+                ? { unitCostYen: Math.max(0, Math.round((prodData.unitCostYen + costDelta) * 100) / 100) }
+                : {}),
+              taxRate: readTaxRate(prodData.taxRate)
+            });
+            qtyByProduct[productId] = (qtyByProduct[productId] || 0) + qty;
+          }
+          applyPriceTiers(items);
+
+          // cota do evento vale para o item pedido (kit ou avulso), somando as variantes
+          for (const [productId, qty] of Object.entries(qtyByProduct)) {
+            const productName = String(productCache[productId].name || "");
+            const quotaPlan = planQuotaChange(eventData, productId, productName, qty);
+            if (quotaPlan) quotaPlans.push(quotaPlan);
+          }
+
+          // limites por pedido e por cliente (somando os pedidos anteriores dele no evento)
+          const productNames: Record<string, string> = {};
+          for (const productId of Object.keys(qtyByProduct)) {
+            productNames[productId] = String(productCache[productId].name || "");
+          }
+          checkPerOrderLimits(eventData, qtyByProduct, productNames);
+          const purchasesRef = customerKey ? customerPurchasesRef(eventRef, customerKey) : null;
+          let nextPurchases: Record<string, number> | null = null;
+          if (purchasesRef) {
+            const purchasesSnap = await tx.get(purchasesRef);
+            nextPurchases = planCustomerPurchases(
+              eventData,
+              readPurchasedQty(purchasesSnap),
+              qtyByProduct,
+              productNames
+            );
+          } else if (
+            Object.keys(qtyByProduct).some((id) => readProductLimit(eventData, id).perCustomer !== null)
+          ) {
+            throw new Error("Enter your name or phone to order limited items");
+          }
+          const reservations = await loadActiveReservations(tx, eventRef, Date.now());
+
+          // estoque: itens avulsos + componentes dos kits, somados por produto
+          const stock = await planStockDeltas(tx, stockUnitsByProduct(eventData, items));
+          stockPlans.push(...stock.plans);
+
+          // reservas da lista de espera: o que sobra precisa cobrir as dos outros clientes
+          checkReservations(reservations, customerKey, qtyByProduct, productNames, (productId) => {
+            const stockPlan = stockPlans.find((p) => p.productId === productId && !p.variantKey);
+            if (stockPlan) return stockPlan.newStock;
+            return quotaPlans.find((p) => p.productId === productId)?.newQuota ?? null;
+          });
+          for (const it of items) {
+            it.components?.forEach((c) => {
+              c.name = stock.names[c.productId] ?? c.name;
+            });
+          }
 
-            const newStock = currentStock - qty;
-            stockPlans.push({ productDocId: prodDoc.id, productName, newStock });
+          applyStockPlans(tx, stockPlans, updatedStocks, {
+            eventId,
+            orderId: orderRef.id,
+            userId: null,
+            userEmail: null,
+            note: "Pedido novo"
+          });
+          applyQuotaPlans(tx, eventRef, quotaPlans, updatedQuotas);
+          applySlotBookings(tx, eventRef, planSlotChange(eventData, null, slot?.id ?? null), updatedSlotBookings);
+          if (purchasesRef && nextPurchases) applyCustomerPurchases(tx, purchasesRef, nextPurchases);
+
+          // reserva do próprio cliente é usada por este pedido
+          for (const r of reservations) {
+            if (customerKey && r.customerKey === customerKey && r.productId in qtyByProduct) {
+              tx.update(r.ref, {
+                status: "fulfilled",
+                orderId: orderRef.id,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+              });
+            }
           }
 
-          for (const plan of stockPlans) {
-            const prodRef = productsCol.doc(plan.productDocId);
-            updatedStocks[plan.productName] = plan.newStock;
-            tx.update(prodRef, { stockQty: plan.newStock });
+          const orderPricing = computeOrderPricing(items, deliveryZone, promotions, readDepositRule(eventData));
+          pricing = orderPricing;
+
+          // promoções que deram desconto contam um uso (limite de usos)
+          const promotionIds = orderPricing.discounts.flatMap((d) => (d.promotionId ? [d.promotionId] : []));
+          if (promoCode && !promotions.some((p) => p.code === promoCode && promotionIds.includes(p.id))) {
+            throw new Error("Promo code does not apply to this order");
           }
+          for (const promotionId of promotionIds) {
+            tx.update(db.collection("promotions").doc(promotionId), {
+              usedCount: admin.firestore.FieldValue.increment(1)
+            });
+          }
+
+          const orderSummary: OrderSummary = {
+            items: items.map((it) => ({
+              name: it.name,
+              ...(it.variantLabel ? { variantLabel: it.variantLabel } : {}),
+              qty: it.qty
+            })),
+            deliveryMode,
+            deliveryDate: slot ? slot.date : deliveryDate || "Sem preferência",
+            deliveryTimeSlot: slot ? timeSlotLabel(slot) : deliveryTimeSlot || "Sem preferência"
+          };
+          summary = orderSummary;
 
           tx.set(orderRef, {
             customerName,
+            customerPhone,
+            customerKey,
             note,
-            quantities,
+            items,
             totalItems,
-            status: "pending",
+            subtotalYen: orderPricing.subtotalYen,
+            discounts: orderPricing.discounts,
+            discountYen: orderPricing.discountYen,
+            deliveryFeeYen: orderPricing.deliveryFeeYen,
+            amountYen: orderPricing.totalYen,
+            taxBreakdown: orderPricing.taxBreakdown,
+            depositYen: orderPricing.depositYen,
+            status: orderPricing.depositYen > 0 ? "awaiting_deposit" : "pending",
             channel,
             deliveryMode,
-            deliveryDate: deliveryDate || "Sem preferência",
-            deliveryTimeSlot: deliveryTimeSlot || "Sem preferência",
+            deliveryDate: orderSummary.deliveryDate,
+            deliveryTimeSlot: orderSummary.deliveryTimeSlot,
+            timeSlotId: slot?.id ?? null,
             locationLink: deliveryMode === "delivery" ? (locationLink || "") : "",
+            postalCode: deliveryMode === "delivery" ? address.postalCode : "",
+            customerLat: deliveryMode === "delivery" ? address.lat : null,
+            customerLng: deliveryMode === "delivery" ? address.lng : null,
+            deliveryZoneId: deliveryZone?.id ?? null,
+            deliveryZoneName: deliveryZone?.name ?? null,
+            promoCode: promoCode || null,
+            promotionIds,
+            requestKey: requestKey || null,
+            trackingToken,
             createdAt: admin.firestore.FieldValue.serverTimestamp(),
             updatedAt: admin.firestore.FieldValue.serverTimestamp()
           });
+
+          // link público do cliente: token → pedido
+          tx.set(orderLinkRef, {
+            eventId,
+            orderId: orderRef.id,
+            createdAt: admin.firestore.FieldValue.serverTimestamp()
+          });
+
+          if (requestRef) {
+            const record: OrderRequestRecord = {
+              orderId: orderRef.id,
+              trackingToken,
+              updatedStocks,
+              updatedQuotas,
+              updatedSlotBookings,
+              pricing: orderPricing,
+              summary: orderSummary
+            };
+            tx.set(requestRef, {
+              ...record,
+              createdAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+          }
         });
 
-        res.status(200).json({ ok: true, orderId: orderRef.id, updatedStocks });
+        if (replayed) {
+          res.status(200).json({ ok: true, replayed: true, ...(replayed as OrderRequestRecord) });
+          return;
+        }
+
+        res
+          .status(200)
+          .json({
+            ok: true,
+            orderId: orderRef.id,
+            trackingToken,
+            updatedStocks,
+            updatedQuotas,
+            updatedSlotBookings,
+            pricing,
+            summary
+          });
       } catch (err: any) {
         console.error("createEventOrder error:", err);
         res.status(400).json({ ok: false, error: err?.message || "Unknown error" });
@@ -160,3 +1466,1344 @@ export const createEventOrder = onRequest(
     });
   }
 );
+
+/**
+ * Converte pedidos antigos (`quantities` por nome) de um vendedor para `items`.
+ * O preço vem do `amountYen` congelado no pedido: com um produto só, sai da
+ * divisão; com vários, o catálogo atual só vale se bater com o total. Pedidos
+ * sem produto ou sem preço recuperável ficam como estão e voltam na resposta
+ * para correção manual.
+ */
+export const migrateLegacyOrders = onRequest(
+  { region: "asia-northeast1", timeoutSeconds: 300 },
+  (req, res) => {
+    corsMiddleware(req, res, async () => {
+      try {
+        if (req.method !== "POST") {
+          res.status(405).json({ ok: false, error: "Method not allowed" });
+          return;
+        }
+
+        const user = await getAuthUser(req);
+        if (!user) {
+          res.status(401).json({ ok: false, error: "Unauthorized" });
+          return;
+        }
+
+        const body = (req.body || {}) as { sellerId?: unknown };
+        const sellerId = cleanStr(body.sellerId, 120);
+        if (!sellerId) {
+          res.status(400).json({ ok: false, error: "Missing sellerId" });
+          return;
+        }
+        if (!(await canManageSeller(user, sellerId))) {
+          res.status(403).json({ ok: false, error: "Forbidden" });
+          return;
+        }
+
+        const productsSnap = await db.collection("products").get();
+        const productsByName = new Map<string, { id: string; price: number; taxRate: TaxRate }>();
+        productsSnap.forEach((d) => {
+          const data = d.data() || {};
+          const name = String(data.name || "");
+          if (name && !productsByName.has(name)) {
+            productsByName.set(name, { id: d.id, price: toYen(data.price), taxRate: readTaxRate(data.taxRate) });
+          }
+        });
+
+        const eventsSnap = await db.collection("events").where("sellerId", "==", sellerId).get();
+
+        let migrated = 0;
+        const unresolved: Array<{
+          eventId: string;
+          orderId: string;
+          names: string[];
+          reason: "product" | "price";
+        }> = [];
+
+        for (const ev of eventsSnap.docs) {
+          const ordersSnap = await ev.ref.collection("orders").get();
+          let batch = db.batch();
+          let pending = 0;
+
+          for (const orderDoc of ordersSnap.docs) {
+            const data = orderDoc.data() || {};
+            if (Array.isArray(data.items)) continue;
+
+            const quantities =
+              data.quantities && typeof data.quantities === "object" ? data.quantities : {};
+
+            const items: OrderLineItem[] = [];
+            const missing: string[] = [];
+
+            for (const [name, q] of Object.entries(quantities)) {
+              const qty = clampInt(q, 0, 99999);
+              if (qty <= 0) continue;
+              const product = productsByName.get(name);
+              if (!product) {
+                missing.push(name);
+                continue;
+              }
+              items.push({
+                productId: product.id,
+                name,
+                unitPriceYen: product.price,
+                qty,
+                lineTotalYen: product.price * qty,
+                taxRate: product.taxRate
+              });
+            }
+
+            if (missing.length > 0) {
+              unresolved.push({ eventId: ev.id, orderId: orderDoc.id, names: missing, reason: "product" });
+              continue;
+            }
+
+            const frozenYen = toYen(data.amountYen);
+            const catalogYen = items.reduce((sum, it) => sum + it.lineTotalYen, 0);
+            if (items.length === 1 && frozenYen > 0 && frozenYen % items[0].qty === 0) {
+              const unitPriceYen = frozenYen / items[0].qty;
+              items[0] = { ...items[0], unitPriceYen, lineTotalYen: frozenYen };
+            } else if (frozenYen <= 0 || frozenYen !== catalogYen) {
+              unresolved.push({
+                eventId: ev.id,
+                orderId: orderDoc.id,
+                names: items.map((it) => it.name),
+                reason: "price"
+              });
+              continue;
+            }
+
+            batch.update(orderDoc.ref, {
+              items,
+              totalItems: items.reduce((sum, it) => sum + it.qty, 0),
+              migratedFromQuantitiesAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            migrated++;
+            pending++;
+
+            if (pending >= 400) {
+              await batch.commit();
+              batch = db.batch();
+              pending = 0;
+            }
+          }
+
+          if (pending > 0) await batch.commit();
+        }
+
+        res.status(200).json({ ok: true, migrated, unresolved });
+      } catch (err: unknown) {
+        console.error("migrateLegacyOrders error:", err);
+        res.status(400).json({ ok: false, error: errorMessage(err) });
+      }
+    });
+  }
+);
+
+type OrderStatus =
+  | "awaiting_deposit"
+  | "pending"
+  | "confirmed"
+  | "preparing"
+  | "ready"
+  | "out_for_delivery"
+  | "delivered"
+  | "cancelled"
+  | "no_show";
+
+/**
+ * Transições permitidas. O fluxo normal é
+ * pending → confirmed → preparing → ready → out_for_delivery → delivered;
+ * pedido com sinal começa em awaiting_deposit (o painel confirma ao registrar o sinal);
+ * dá para pular etapas para frente (retirada vai de ready direto para delivered)
+ * e voltar uma etapa para corrigir clique errado. Cancelado é final.
+ */
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  awaiting_deposit: ["pending", "confirmed", "cancelled"],
+  pending: ["confirmed", "awaiting_deposit", "cancelled"],
+  confirmed: ["preparing", "ready", "out_for_delivery", "delivered", "pending", "cancelled"],
+  preparing: ["ready", "out_for_delivery", "delivered", "confirmed", "cancelled"],
+  ready: ["out_for_delivery", "delivered", "preparing", "no_show", "cancelled"],
+  out_for_delivery: ["delivered", "ready", "no_show", "cancelled"],
+  delivered: ["out_for_delivery", "ready"],
+  no_show: ["ready", "out_for_delivery"],
+  cancelled: []
+};
+
+const isOrderStatus = (v: unknown): v is OrderStatus =>
+  typeof v === "string" && v in ORDER_STATUS_TRANSITIONS;
+
+/**
+ * O painel de entregas é usado sem login: sem token da vendedora só dá para
+ * marcar saída/entrega (e desfazer), e só com o link do entregador
+ * (`driverLinks/{token}`, criado em createDriverLink).
+ */
+const DRIVER_STATUSES: OrderStatus[] = ["ready", "out_for_delivery", "delivered"];
+
+const DRIVER_TOKEN_RE = /^[A-Za-z0-9_-]{20,80}$/;
+
+type UpdateOrderStatusBody = {
+  eventId: string;
+  orderId: string;
+  status: OrderStatus;
+  /** nome do entregador, gravado ao marcar como entregue (sem login vale o do link) */
+  driverName?: string;
+  /** token do link do entregador (/entregas?driver=...) */
+  driverToken?: string;
+};
+
+/** Nome do entregador dono do link; null se o token não vale */
+const readDriverLink = async (token: string) => {
+  if (!DRIVER_TOKEN_RE.test(token)) return null;
+  const linkSnap = await db.collection("driverLinks").doc(token).get();
+  const driverName = linkSnap.exists ? linkSnap.get("driverName") : null;
+  return typeof driverName === "string" && driverName ? driverName : null;
+};
+
+const readLegacyQuantities = (orderData: admin.firestore.DocumentData): Record<string, unknown> =>
+  orderData.quantities && typeof orderData.quantities === "object" ? orderData.quantities : {};
+
+/**
+ * Pedidos antigos (quantities por nome): nome → id do produto (null = produto não existe).
+ * Resolvido antes da transação, que não faz consultas.
+ */
+const resolveLegacyProductIds = async (orderData: admin.firestore.DocumentData) => {
+  const ids: Record<string, string | null> = {};
+  if (Array.isArray(orderData.items)) return ids;
+
+  for (const name of Object.keys(readLegacyQuantities(orderData))) {
+    const qs = await db.collection("products").where("name", "==", name).limit(1).get();
+    ids[name] = qs.empty ? null : qs.docs[0].id;
+  }
+  return ids;
+};
+
+/**
+ * Itens a devolver ao estoque quando o pedido é cancelado, lidos do pedido da transação.
+ * Pedido antigo com nome fora de `legacyIds` mudou desde a leitura: aborta.
+ */
+const getRestockLines = (
+  orderData: admin.firestore.DocumentData,
+  legacyIds: Record<string, string | null>
+) => {
+  const lines: StockLine[] = [];
+
+  if (Array.isArray(orderData.items)) {
+    for (const it of orderData.items) {
+      const productId = typeof it?.productId === "string" ? it.productId : "";
+      const qty = clampInt(it?.qty, 0, 99999);
+      const components = readBundleComponents(it?.components);
+      const variantKey = typeof it?.variantKey === "string" ? it.variantKey : "";
+      if (productId && qty > 0) {
+        lines.push({
+          productId,
+          qty,
+          ...(variantKey ? { variantKey } : {}),
+          ...(components.length > 0 ? { components } : {})
+        });
+      }
+    }
+    return lines;
+  }
+
+  for (const [name, q] of Object.entries(readLegacyQuantities(orderData))) {
+    const qty = clampInt(q, 0, 99999);
+    if (qty <= 0) continue;
+    if (!(name in legacyIds)) throw new Error("Order changed while cancelling, try again");
+    const productId = legacyIds[name];
+    if (productId) lines.push({ productId, qty });
+  }
+  return lines;
+};
+
+export const updateOrderStatus = onRequest(
+  { region: "asia-northeast1" },
+  (req, res) => {
+    corsMiddleware(req, res, async () => {
+      try {
+        if (req.method !== "POST") {
+          res.status(405).json({ ok: false, error: "Method not allowed" });
+          return;
+        }
+
+        const user = await getAuthUser(req);
+        const body = (req.body || {}) as UpdateOrderStatusBody;
+        const eventId = cleanStr(body.eventId, 120);
+        const orderId = cleanStr(body.orderId, 120);
+        const nextStatus = body.status;
+        const driverLinkName = user ? null : await readDriverLink(cleanStr(body.driverToken, 80));
+        const driverName = driverLinkName ?? cleanStr(body.driverName, 80);
+
+        if (!eventId || !orderId) {
+          res.status(400).json({ ok: false, error: "Missing eventId/orderId" });
+          return;
+        }
+        if (!isOrderStatus(nextStatus)) {
+          res.status(400).json({ ok: false, error: "Invalid status" });
+          return;
+        }
+        if (!user && (!driverLinkName || !DRIVER_STATUSES.includes(nextStatus))) {
+          res.status(401).json({ ok: false, error: "Unauthorized" });
+          return;
+        }
+
+        const eventRef = db.collection("events").doc(eventId);
+        const orderRef = eventRef.collection("orders").doc(orderId);
+
+        const preSnap = await orderRef.get();
+        if (!preSnap.exists) throw new Error("Order not found");
+        const legacyIds =
+          nextStatus === "cancelled" ? await resolveLegacyProductIds(preSnap.data() || {}) : {};
+
+        const updatedStocks: Record<string, number> = {};
+        const updatedQuotas: Record<string, number> = {};
+
+        await db.runTransaction(async (tx) => {
+          const [eventSnap, orderSnap] = await Promise.all([tx.get(eventRef), tx.get(orderRef)]);
+          if (!orderSnap.exists) throw new Error("Order not found");
+          const eventData = eventSnap.data() || {};
+
+          const orderData = orderSnap.data() || {};
+          const currentStatus: OrderStatus = isOrderStatus(orderData.status) ? orderData.status : "pending";
+
+          if (currentStatus === nextStatus) return;
+
+          // acerto do entregador fechado (lib/settlements.ts) trava o pedido
+          if (orderData.settlementId) throw new Error("Order is already settled with the driver");
+
+          if (!ORDER_STATUS_TRANSITIONS[currentStatus].includes(nextStatus)) {
+            throw new Error(`Transition not allowed: ${currentStatus} → ${nextStatus}`);
+          }
+
+          const restockLines = nextStatus === "cancelled" ? getRestockLines(orderData, legacyIds) : [];
+
+          // leituras antes das escritas (regra da transação)
+          const quotaPlans: QuotaPlan[] = [];
+          for (const line of restockLines) {
+            const quotaPlan = planQuotaChange(eventData, line.productId, "", -line.qty);
+            if (quotaPlan) quotaPlans.push(quotaPlan);
+          }
+          const restockUnits = stockUnitsByProduct(eventData, restockLines);
+          const { plans: stockPlans } = await planStockDeltas(
+            tx,
+            Object.fromEntries(Object.entries(restockUnits).map(([productId, qty]) => [productId, -qty]))
+          );
+
+          // cancelado deixa de contar no limite por cliente
+          const customerKey = typeof orderData.customerKey === "string" ? orderData.customerKey : "";
+          const purchasesRef =
+            nextStatus === "cancelled" && customerKey ? customerPurchasesRef(eventRef, customerKey) : null;
+          let nextPurchases: Record<string, number> | null = null;
+          if (purchasesRef) {
+            const released: Record<string, number> = {};
+            for (const line of restockLines) {
+              released[line.productId] = (released[line.productId] || 0) - line.qty;
+            }
+            const purchasesSnap = await tx.get(purchasesRef);
+            nextPurchases = planCustomerPurchases(eventData, readPurchasedQty(purchasesSnap), released, {});
+          }
+
+          applyStockPlans(tx, stockPlans, updatedStocks, {
+            eventId,
+            orderId,
+            userId: user?.uid ?? null,
+            userEmail: user?.email ?? null,
+            note: driverName ? `Pedido cancelado (${driverName})` : "Pedido cancelado"
+          });
+          if (purchasesRef && nextPurchases) applyCustomerPurchases(tx, purchasesRef, nextPurchases);
+          if (eventSnap.exists) {
+            applyQuotaPlans(tx, eventRef, quotaPlans, updatedQuotas);
+
+            // cancelado libera a vaga na faixa de horário
+            const slotId = typeof orderData.timeSlotId === "string" ? orderData.timeSlotId : null;
+            if (nextStatus === "cancelled" && slotId) {
+              applySlotBookings(tx, eventRef, planSlotChange(eventData, slotId, null), {});
+            }
+          }
+
+          const now = admin.firestore.FieldValue.serverTimestamp();
+          const update: Record<string, unknown> = {
+            status: nextStatus,
+            [`statusTimestamps.${nextStatus}`]: now,
+            statusHistory: admin.firestore.FieldValue.arrayUnion({
+              from: currentStatus,
+              to: nextStatus,
+              at: admin.firestore.Timestamp.now(),
+              by: user ? user.uid : `driver:${driverName}`
+            }),
+            updatedAt: now
+          };
+
+          if (nextStatus === "delivered") {
+            update.deliveredAt = now;
+            if (driverName) update.deliveryDriverName = driverName;
+          } else if (currentStatus === "delivered") {
+            update.deliveredAt = null;
+            update.deliveryDriverName = null;
+          }
+
+          if (nextStatus === "cancelled") {
+            update.stockRestoredAt = now;
+            releasePromotionUses(tx, orderData);
+          }
+
+          tx.update(orderRef, update);
+        });
+
+        res.status(200).json({
+          ok: true,
+          status: nextStatus,
+          driverName: driverName || null,
+          updatedStocks,
+          updatedQuotas
+        });
+      } catch (err: unknown) {
+        console.error("updateOrderStatus error:", err);
+        res.status(400).json({ ok: false, error: errorMessage(err) });
+      }
+    });
+  }
+);
+
+type CreateDriverLinkBody = {
+  driverName: string;
+};
+
+/**
+ * Link do painel de entregas para um entregador (/entregas?driver=<token>).
+ * Gerar de novo para o mesmo nome invalida o link anterior.
+ */
+export const createDriverLink = onRequest(
+  { region: "asia-northeast1" },
+  (req, res) => {
+    corsMiddleware(req, res, async () => {
+      try {
+        if (req.method !== "POST") {
+          res.status(405).json({ ok: false, error: "Method not allowed" });
+          return;
+        }
+
+        const user = await getAuthUser(req);
+        if (!user) {
+          res.status(401).json({ ok: false, error: "Unauthorized" });
+          return;
+        }
+
+        const body = (req.body || {}) as CreateDriverLinkBody;
+        const driverName = cleanStr(body.driverName, 80);
+        if (!driverName) {
+          res.status(400).json({ ok: false, error: "Missing driverName" });
+          return;
+        }
+
+        const linksCol = db.collection("driverLinks");
+        const previous = await linksCol.where("driverName", "==", driverName).get();
+        const token = randomBytes(24).toString("base64url");
+
+        const batch = db.batch();
+        previous.forEach((d) => batch.delete(d.ref));
+        batch.set(linksCol.doc(token), {
+          driverName,
+          createdBy: user.uid,
+          createdAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        await batch.commit();
+
+        res.status(200).json({ ok: true, token });
+      } catch (err: unknown) {
+        console.error("createDriverLink error:", err);
+        res.status(400).json({ ok: false, error: errorMessage(err) });
+      }
+    });
+  }
+);
+
+/** Mesmas formas de lib/payments.ts (devolução gravada pelo cancelamento parcial) */
+type PaymentMethod = "cash" | "paypay" | "card" | "other";
+
+const PAYMENT_METHODS: PaymentMethod[] = ["cash", "paypay", "card", "other"];
+
+/** Pago = pagamentos − devoluções; pedido marcado como pago antes dos pagamentos conta inteiro */
+const readPaidYen = (orderData: admin.firestore.DocumentData, amountYen: number) =>
+  typeof orderData.paidYen === "number" ? orderData.paidYen : orderData.paid ? amountYen : 0;
+
+type CancelOrderItemsBody = {
+  eventId: string;
+  orderId: string;
+  /** unidades a cancelar por produto/variante; restock false = não volta ao estoque (ex.: já entregue) */
+  lines: Array<{ productId: string; variantKey?: string; qty: number; restock?: boolean }>;
+  reason?: string;
+  /** devolução ao cliente, gravada em payments na mesma transação */
+  refund?: { amountYen: number; method: PaymentMethod };
+};
+
+/**
+ * Descontos do pedido depois de um cancelamento parcial: cada promoção é recalculada
+ * com as linhas que sobraram (mínimo, porcentagem, leve X) sem passar do valor
+ * original; promoção que não existe mais cai na proporção do subtotal.
+ * Mesma regra de lib/orders.ts.
+ */
+const discountsAfterCancel = (
+  discounts: OrderDiscount[],
+  promotionsById: Map<string, Promotion>,
+  oldSubtotalYen: number,
+  items: OrderLineItem[]
+): OrderDiscount[] => {
+  const subtotalYen = items.reduce((sum, it) => sum + it.lineTotalYen, 0);
+  return discounts
+    .map((d) => {
+      const promo = d.promotionId ? promotionsById.get(d.promotionId) : undefined;
+      const amountYen = promo
+        ? promotionDiscountYen(promo, items)
+        : oldSubtotalYen > 0
+          ? Math.floor((d.amountYen * subtotalYen) / oldSubtotalYen)
+          : 0;
+      return { ...d, amountYen: Math.min(d.amountYen, amountYen) };
+    })
+    .filter((d) => d.amountYen > 0);
+};
+
+/** `discounts` do pedido; pedido só com `discountYen` vira um desconto sem promoção */
+const readOrderDiscounts = (orderData: admin.firestore.DocumentData): OrderDiscount[] => {
+  const discounts: OrderDiscount[] = Array.isArray(orderData.discounts)
+    ? (orderData.discounts as unknown[]).filter(isRecord).map((d) => ({
+        label: String(d.label || ""),
+        amountYen: toYen(d.amountYen),
+        ...(typeof d.promotionId === "string" && d.promotionId ? { promotionId: d.promotionId } : {})
+      }))
+    : [];
+  const discountYen = toYen(orderData.discountYen);
+  return discounts.length === 0 && discountYen > 0
+    ? [{ label: "Desconto", amountYen: discountYen }]
+    : discounts;
+};
+
+/**
+ * Cancelamento parcial pelo painel: tira unidades de linhas do pedido, devolve
+ * ao estoque (por linha), recalcula o total e registra a devolução. Preço unitário
+ * (inclusive o da faixa por quantidade) e taxa de entrega continuam os congelados;
+ * os descontos são recalculados com o que sobrou (discountsAfterCancel). Se o total
+ * subir (ex.: o pedido deixa de atingir o mínimo da promoção), recusa.
+ * Cancelar tudo é pelo status "cancelled" (updateOrderStatus).
+ */
+export const cancelOrderItems = onRequest(
+  { region: "asia-northeast1" },
+  (req, res) => {
+    corsMiddleware(req, res, async () => {
+      try {
+        if (req.method !== "POST") {
+          res.status(405).json({ ok: false, error: "Method not allowed" });
+          return;
+        }
+
+        const user = await getAuthUser(req);
+        if (!user) {
+          res.status(401).json({ ok: false, error: "Unauthorized" });
+          return;
+        }
+
+        const body = (req.body || {}) as CancelOrderItemsBody;
+        const eventId = cleanStr(body.eventId, 120);
+        const orderId = cleanStr(body.orderId, 120);
+        const reason = cleanStr(body.reason, 200);
+        if (!eventId || !orderId) {
+          res.status(400).json({ ok: false, error: "Missing eventId/orderId" });
+          return;
+        }
+
+        const cancelQtyByLine: Record<string, number> = {};
+        const restockQtyByLine: Record<string, number> = {};
+        for (const raw of Array.isArray(body.lines) ? body.lines : []) {
+          const productId = cleanStr(raw?.productId, 120);
+          const qty = clampInt(raw?.qty, 0, 9999);
+          if (!productId || qty <= 0) continue;
+          const key = lineKey(productId, cleanStr(raw?.variantKey, 200));
+          cancelQtyByLine[key] = (cancelQtyByLine[key] || 0) + qty;
+          if (raw?.restock !== false) restockQtyByLine[key] = (restockQtyByLine[key] || 0) + qty;
+        }
+        if (Object.keys(cancelQtyByLine).length === 0) {
+          res.status(400).json({ ok: false, error: "Select at least 1 item to cancel" });
+          return;
+        }
+
+        const refundYen = body.refund ? clampInt(body.refund.amountYen, 0, 99999999) : 0;
+        const refundMethod = body.refund?.method;
+        if (refundYen > 0 && !PAYMENT_METHODS.includes(refundMethod as PaymentMethod)) {
+          res.status(400).json({ ok: false, error: "Invalid refund method" });
+          return;
+        }
+
+        const eventRef = db.collection("events").doc(eventId);
+        const orderRef = eventRef.collection("orders").doc(orderId);
+
+        const updatedStocks: Record<string, number> = {};
+        const updatedQuotas: Record<string, number> = {};
+        let amountYen = 0;
+        let paidYen = 0;
+
+        await db.runTransaction(async (tx) => {
+          const [eventSnap, orderSnap] = await Promise.all([tx.get(eventRef), tx.get(orderRef)]);
+          if (!orderSnap.exists) throw new Error("Order not found");
+          const eventData = eventSnap.data() || {};
+          const orderData = orderSnap.data() || {};
+
+          const currentStatus: OrderStatus = isOrderStatus(orderData.status) ? orderData.status : "pending";
+          if (currentStatus === "cancelled") throw new Error("Order is already cancelled");
+          if (orderData.settlementId) throw new Error("Order is already settled with the driver");
+          if (!Array.isArray(orderData.items)) {
+            throw new Error("Legacy order: run the migration before cancelling items");
+          }
+
+          const oldItems = orderData.items as OrderLineItem[];
+          const itemKey = (it: OrderLineItem) => lineKey(it.productId, it.variantKey);
+          const oldQtyByLine: Record<string, number> = {};
+          for (const it of oldItems) {
+            if (it.productId) oldQtyByLine[itemKey(it)] = (oldQtyByLine[itemKey(it)] || 0) + it.qty;
+          }
+          for (const [key, qty] of Object.entries(cancelQtyByLine)) {
+            if (!(key in oldQtyByLine)) throw new Error("Product is not part of this order");
+            if (qty > oldQtyByLine[key]) throw new Error("Cannot cancel more units than ordered");
+          }
+
+          // unidades saem das últimas linhas do mesmo produto/variante
+          const left = { ...cancelQtyByLine };
+          const items: OrderLineItem[] = oldItems.map((it) => ({ ...it }));
+          for (let i = items.length - 1; i >= 0; i--) {
+            const key = items[i].productId ? itemKey(items[i]) : "";
+            const take = Math.min(left[key] || 0, items[i].qty);
+            if (take <= 0) continue;
+            left[key] -= take;
+            items[i].qty -= take;
+            items[i].lineTotalYen = items[i].unitPriceYen * items[i].qty;
+          }
+          const remaining = items.filter((it) => it.qty > 0);
+          if (remaining.length === 0) throw new Error("To cancel every item, cancel the order");
+
+          // leituras antes das escritas (regra da transação)
+          const productNames: Record<string, string> = {};
+          const cancelledByProduct: Record<string, number> = {};
+          const restockedByProduct: Record<string, number> = {};
+          for (const [key, qty] of Object.entries(cancelQtyByLine)) {
+            const { productId } = splitLineKey(key);
+            productNames[productId] = oldItems.find((it) => it.productId === productId)?.name ?? "";
+            cancelledByProduct[productId] = (cancelledByProduct[productId] || 0) + qty;
+            restockedByProduct[productId] = (restockedByProduct[productId] || 0) + (restockQtyByLine[key] || 0);
+          }
+          // cota do evento só volta com o que voltou ao estoque
+          const quotaPlans: QuotaPlan[] = [];
+          for (const [productId, qty] of Object.entries(restockedByProduct)) {
+            const quotaPlan = planQuotaChange(eventData, productId, productNames[productId], -qty);
+            if (quotaPlan) quotaPlans.push(quotaPlan);
+          }
+
+          const restockLines: StockLine[] = Object.entries(restockQtyByLine).map(([key, qty]) => {
+            const { productId, variantKey } = splitLineKey(key);
+            const item = oldItems.find((it) => it.productId && itemKey(it) === key);
+            return {
+              productId,
+              qty,
+              ...(variantKey ? { variantKey } : {}),
+              components: readBundleComponents(item?.components)
+            };
+          });
+          const restockUnits = stockUnitsByProduct(eventData, restockLines);
+          const { plans: stockPlans } = await planStockDeltas(
+            tx,
+            Object.fromEntries(Object.entries(restockUnits).map(([key, qty]) => [key, -qty]))
+          );
+
+          const customerKey = typeof orderData.customerKey === "string" ? orderData.customerKey : "";
+          const purchasesRef = customerKey ? customerPurchasesRef(eventRef, customerKey) : null;
+          let nextPurchases: Record<string, number> | null = null;
+          if (purchasesRef) {
+            const released = Object.fromEntries(
+              Object.entries(cancelledByProduct).map(([productId, qty]) => [productId, -qty])
+            );
+            const purchasesSnap = await tx.get(purchasesRef);
+            nextPurchases = planCustomerPurchases(eventData, readPurchasedQty(purchasesSnap), released, {});
+          }
+
+          const oldDiscounts = readOrderDiscounts(orderData);
+          const promotionIds = Array.from(
+            new Set(oldDiscounts.flatMap((d) => (d.promotionId ? [d.promotionId] : [])))
+          );
+          const promotionSnaps = await Promise.all(
+            promotionIds.map((id) => tx.get(db.collection("promotions").doc(id)))
+          );
+          const promotionsById = new Map(
+            promotionSnaps.filter((d) => d.exists).map((d) => [d.id, readPromotion(d.id, d.data() || {})])
+          );
+
+          const oldSubtotalYen = oldItems.reduce((sum, it) => sum + it.lineTotalYen, 0);
+          const deliveryFeeYen = Number(orderData.deliveryFeeYen) || 0;
+          const oldAmountYen =
+            typeof orderData.amountYen === "number"
+              ? orderData.amountYen
+              : oldSubtotalYen - (Number(orderData.discountYen) || 0) + deliveryFeeYen;
+          const subtotalYen = remaining.reduce((sum, it) => sum + it.lineTotalYen, 0);
+          const discounts = discountsAfterCancel(oldDiscounts, promotionsById, oldSubtotalYen, remaining);
+          const discountYen = Math.min(
+            subtotalYen,
+            discounts.reduce((sum, d) => sum + d.amountYen, 0)
+          );
+          amountYen = subtotalYen - discountYen + deliveryFeeYen;
+          if (amountYen > oldAmountYen) throw new Error("Cancelling these items would raise the order total");
+
+          const oldPaidYen = readPaidYen(orderData, oldAmountYen);
+          if (refundYen > oldPaidYen) throw new Error("Refund is larger than the amount paid");
+          paidYen = oldPaidYen - refundYen;
+
+          const source = reason ? `Cancelamento parcial: ${reason}` : "Cancelamento parcial";
+          applyStockPlans(tx, stockPlans, updatedStocks, {
+            eventId,
+            orderId,
+            userId: user.uid,
+            userEmail: user.email ?? null,
+            note: source
+          });
+          if (eventSnap.exists) applyQuotaPlans(tx, eventRef, quotaPlans, updatedQuotas);
+          if (purchasesRef && nextPurchases) applyCustomerPurchases(tx, purchasesRef, nextPurchases);
+
+          const now = admin.firestore.FieldValue.serverTimestamp();
+          if (refundYen > 0) {
+            tx.set(orderRef.collection("payments").doc(), {
+              kind: "refund",
+              method: refundMethod,
+              amountYen: refundYen,
+              tenderedYen: null,
+              changeYen: 0,
+              receivedBy: user.email ?? "",
+              userId: user.uid,
+              note: source,
+              createdAt: now
+            });
+          }
+
+          const fullyPaid = paidYen > 0 && paidYen >= amountYen;
+          const update: Record<string, unknown> = {
+            items: remaining,
+            totalItems: remaining.reduce((sum, it) => sum + it.qty, 0),
+            subtotalYen,
+            discounts,
+            discountYen,
+            amountYen,
+            taxBreakdown: computeTaxBreakdown(remaining, discountYen, deliveryFeeYen),
+            // total antes do primeiro cancelamento parcial (o card mostra "era ¥X")
+            originalAmountYen:
+              typeof orderData.originalAmountYen === "number" ? orderData.originalAmountYen : oldAmountYen,
+            cancelledYen: admin.firestore.FieldValue.increment(oldAmountYen - amountYen),
+            cancellations: admin.firestore.FieldValue.arrayUnion({
+              at: admin.firestore.Timestamp.now(),
+              by: user.uid,
+              reason,
+              amountYen: oldAmountYen - amountYen,
+              refundYen,
+              lines: Object.entries(cancelQtyByLine).map(([key, qty]) => {
+                const item = oldItems.find((it) => it.productId && itemKey(it) === key);
+                return {
+                  productId: splitLineKey(key).productId,
+                  name: item?.name ?? "",
+                  variantLabel: item?.variantLabel ?? null,
+                  qty,
+                  restocked: restockQtyByLine[key] || 0
+                };
+              })
+            }),
+            paidYen,
+            paid: fullyPaid,
+            paidAt: fullyPaid ? (orderData.paid ? orderData.paidAt ?? now : now) : null,
+            updatedAt: now
+          };
+          if (refundYen > 0) update.refundedYen = (Number(orderData.refundedYen) || 0) + refundYen;
+          // sinal ainda não pago acompanha o total novo
+          if (currentStatus === "awaiting_deposit") {
+            const rule = readDepositRule(eventData);
+            update.depositYen =
+              rule && amountYen >= rule.minOrderYen ? Math.ceil((amountYen * rule.percent) / 100) : 0;
+          }
+          tx.update(orderRef, update);
+        });
+
+        res.status(200).json({ ok: true, amountYen, paidYen, updatedStocks, updatedQuotas });
+      } catch (err: unknown) {
+        console.error("cancelOrderItems error:", err);
+        res.status(400).json({ ok: false, error: errorMessage(err) });
+      }
+    });
+  }
+);
+
+type CustomerOrderBody = {
+  /** token do link secreto do pedido (/pedido/[token]) */
+  token: string;
+  action: "update" | "cancel";
+  /** novas quantidades (só produtos que já estão no pedido; 0 remove a linha) */
+  items?: OrderItemInput[];
+  deliveryMode?: "delivery" | "pickup" | "none";
+  deliveryDate?: string;
+  deliveryTimeSlot?: string;
+  timeSlotId?: string;
+  locationLink?: string;
+  postalCode?: string;
+  customerLat?: number;
+  customerLng?: number;
+};
+
+const ORDER_TOKEN_RE = /^[A-Za-z0-9_-]{20,80}$/;
+
+/** Depois que a vendedora começa a preparar, só ela altera o pedido */
+const CUSTOMER_EDITABLE_STATUSES: OrderStatus[] = ["awaiting_deposit", "pending", "confirmed"];
+
+/** Meia-noite (Asia/Tokyo) do dia de entrega; null para datas em texto livre */
+const deliveryDayStartMs = (date: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const ms = Date.parse(`${date}T00:00:00+09:00`);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+/**
+ * Prazo do cliente: `cutoffHours` antes do dia de entrega. Data em texto livre não
+ * tem dia fixo: vale o fechamento dos pedidos (`ordersCloseAt`); sem ele, o prazo já passou.
+ */
+const isPastCustomerCutoff = (
+  date: string,
+  cutoffHours: number,
+  eventData: admin.firestore.DocumentData,
+  nowMs: number
+) => {
+  const start = deliveryDayStartMs(date);
+  const deadline =
+    start !== null ? start - cutoffHours * 60 * 60 * 1000 : toMillis(eventData.ordersCloseAt);
+  return deadline === null || nowMs > deadline;
+};
+
+/** Datas que o cliente pode escolher: as do evento (e das faixas de horário) */
+const eventDeliveryDates = (eventData: admin.firestore.DocumentData) => {
+  const dates = new Set<string>();
+  if (Array.isArray(eventData.deliveryDates)) {
+    for (const d of eventData.deliveryDates) if (typeof d === "string" && d) dates.add(d);
+  }
+  if (typeof eventData.deliveryDate === "string" && eventData.deliveryDate) {
+    dates.add(eventData.deliveryDate);
+  }
+  for (const slot of readTimeSlots(eventData)) dates.add(slot.date);
+  return dates;
+};
+
+/**
+ * Alteração/cancelamento pelo próprio cliente, via link secreto.
+ * Vale até `customerEditCutoffHours` horas antes do dia de entrega (configurado
+ * no evento; sem o campo, o cliente não altera). O estoque é acertado na mesma
+ * transação, com as mesmas regras do createEventOrder.
+ */
+export const updateOrderByCustomer = onRequest(
+  { region: "asia-northeast1" },
+  (req, res) => {
+    corsMiddleware(req, res, async () => {
+      try {
+        if (req.method !== "POST") {
+          res.status(405).json({ ok: false, error: "Method not allowed" });
+          return;
+        }
+
+        const body = (req.body || {}) as CustomerOrderBody;
+        const token = cleanStr(body.token, 80);
+        const action = body.action;
+
+        if (!ORDER_TOKEN_RE.test(token)) {
+          res.status(400).json({ ok: false, error: "Invalid token" });
+          return;
+        }
+        if (action !== "update" && action !== "cancel") {
+          res.status(400).json({ ok: false, error: "Invalid action" });
+          return;
+        }
+
+        const linkSnap = await db.collection("orderLinks").doc(token).get();
+        if (!linkSnap.exists) {
+          res.status(404).json({ ok: false, error: "Order not found" });
+          return;
+        }
+        const { eventId, orderId } = linkSnap.data() as { eventId: string; orderId: string };
+
+        const eventRef = db.collection("events").doc(eventId);
+        const orderRef = eventRef.collection("orders").doc(orderId);
+
+        // novas quantidades por produto/variante (só para "update")
+        const newQtyByLine: Record<string, number> = {};
+        if (action === "update") {
+          if (!Array.isArray(body.items)) {
+            res.status(400).json({ ok: false, error: "Missing items" });
+            return;
+          }
+          for (const raw of body.items) {
+            const productId = cleanStr(raw?.productId, 120);
+            if (!productId) continue;
+            const key = lineKey(productId, cleanStr(raw?.variantKey, 200));
+            newQtyByLine[key] = (newQtyByLine[key] || 0) + clampInt(raw?.qty, 0, 999);
+          }
+        }
+
+        const updatedStocks: Record<string, number> = {};
+        const updatedQuotas: Record<string, number> = {};
+        let pricing: OrderPricing | null = null;
+        let finalStatus: OrderStatus = "pending";
+
+        await db.runTransaction(async (tx) => {
+          const [eventSnap, orderSnap] = await Promise.all([tx.get(eventRef), tx.get(orderRef)]);
+          if (!eventSnap.exists || !orderSnap.exists) throw new Error("Order not found");
+
+          const eventData = eventSnap.data() || {};
+          const orderData = orderSnap.data() || {};
+
+          const cutoffHours = eventData.customerEditCutoffHours;
+          if (typeof cutoffHours !== "number" || cutoffHours < 0) {
+            throw new Error("Online changes are not enabled for this event. Please contact the seller.");
+          }
+
+          const currentStatus: OrderStatus = isOrderStatus(orderData.status) ? orderData.status : "pending";
+          finalStatus = currentStatus;
+          if (!CUSTOMER_EDITABLE_STATUSES.includes(currentStatus)) {
+            throw new Error("This order can no longer be changed online. Please contact the seller.");
+          }
+          // sinal ou pagamento parcial já registrado (payments) também trava
+          if (orderData.paid || Number(orderData.paidYen) > 0) {
+            throw new Error("Paid orders can only be changed by the seller.");
+          }
+          if (!Array.isArray(orderData.items)) {
+            throw new Error("This order can't be changed online. Please contact the seller.");
+          }
+
+          const nowMs = Date.now();
+          const currentDate = String(orderData.deliveryDate || "");
+          if (isPastCustomerCutoff(currentDate, cutoffHours, eventData, nowMs)) {
+            throw new Error("The deadline for changes has passed. Please contact the seller.");
+          }
+
+          const oldItems = orderData.items as OrderLineItem[];
+          const itemKey = (it: OrderLineItem) => lineKey(it.productId, it.variantKey);
+          const oldQtyByLine: Record<string, number> = {};
+          for (const it of oldItems) {
+            if (it.productId) oldQtyByLine[itemKey(it)] = (oldQtyByLine[itemKey(it)] || 0) + it.qty;
+          }
+
+          const nextQtyByLine: Record<string, number> = {};
+          if (action === "cancel") {
+            for (const key of Object.keys(oldQtyByLine)) nextQtyByLine[key] = 0;
+          } else {
+            for (const key of Object.keys(newQtyByLine)) {
+              if (!(key in oldQtyByLine)) throw new Error("Product is not part of this order");
+            }
+            for (const key of Object.keys(oldQtyByLine)) {
+              nextQtyByLine[key] = newQtyByLine[key] ?? oldQtyByLine[key];
+            }
+            const total = Object.values(nextQtyByLine).reduce((sum, q) => sum + q, 0);
+            if (total <= 0) throw new Error("Select at least 1 item, or cancel the order");
+          }
+
+          // leituras antes das escritas (regra da transação); cota soma as variantes do produto
+          const quotaDeltas: Record<string, number> = {};
+          for (const [key, nextQty] of Object.entries(nextQtyByLine)) {
+            const { productId } = splitLineKey(key);
+            quotaDeltas[productId] = (quotaDeltas[productId] || 0) + nextQty - oldQtyByLine[key];
+          }
+          const quotaPlans: QuotaPlan[] = [];
+          const productNames: Record<string, string> = {};
+          for (const [productId, delta] of Object.entries(quotaDeltas)) {
+            productNames[productId] = oldItems.find((it) => it.productId === productId)?.name ?? "";
+            const quotaPlan = planQuotaChange(eventData, productId, productNames[productId], delta);
+            if (quotaPlan) quotaPlans.push(quotaPlan);
+          }
+
+          // limites por pedido e por cliente valem também na alteração
+          const nextQtyByProduct: Record<string, number> = {};
+          for (const [key, nextQty] of Object.entries(nextQtyByLine)) {
+            const { productId } = splitLineKey(key);
+            nextQtyByProduct[productId] = (nextQtyByProduct[productId] || 0) + nextQty;
+          }
+          checkPerOrderLimits(eventData, nextQtyByProduct, productNames);
+          const customerKey = typeof orderData.customerKey === "string" ? orderData.customerKey : "";
+          const purchasesRef = customerKey ? customerPurchasesRef(eventRef, customerKey) : null;
+          let nextPurchases: Record<string, number> | null = null;
+          if (purchasesRef) {
+            const purchasesSnap = await tx.get(purchasesRef);
+            nextPurchases = planCustomerPurchases(
+              eventData,
+              readPurchasedQty(purchasesSnap),
+              quotaDeltas,
+              productNames
+            );
+          }
+
+          // estoque: diferença das unidades reais (kits abatem os componentes)
+          const toStockLines = (qtyOf: (it: OrderLineItem) => number): StockLine[] =>
+            oldItems
+              .filter((it) => it.productId)
+              .map((it) => ({
+                productId: it.productId,
+                qty: qtyOf(it),
+                ...(it.variantKey ? { variantKey: it.variantKey } : {}),
+                components: readBundleComponents(it.components)
+              }));
+          const oldUnits = stockUnitsByProduct(eventData, toStockLines((it) => it.qty));
+          const nextUnits = stockUnitsByProduct(
+            eventData,
+            toStockLines((it) => nextQtyByLine[itemKey(it)] ?? 0)
+          );
+          const unitDeltas: Record<string, number> = {};
+          for (const key of new Set([...Object.keys(oldUnits), ...Object.keys(nextUnits)])) {
+            unitDeltas[key] = (nextUnits[key] || 0) - (oldUnits[key] || 0);
+          }
+          const { plans: stockPlans } = await planStockDeltas(tx, unitDeltas);
+
+          // aumento não pode tomar unidades reservadas para a lista de espera (mesma regra do createEventOrder)
+          const increases = Object.fromEntries(
+            Object.entries(quotaDeltas).filter(([, delta]) => delta > 0)
+          );
+          if (Object.keys(increases).length > 0) {
+            const reservations = await loadActiveReservations(tx, eventRef, nowMs);
+            checkReservations(reservations, customerKey, increases, productNames, (productId) => {
+              const stockPlan = stockPlans.find((p) => p.productId === productId && !p.variantKey);
+              if (stockPlan) return stockPlan.newStock;
+              return quotaPlans.find((p) => p.productId === productId)?.newQuota ?? null;
+            });
+          }
+
+          // zona de entrega também é leitura (pode ler a vendedora): resolve antes das escritas
+          const requestedMode = body.deliveryMode;
+          const deliveryMode =
+            requestedMode === "delivery" || requestedMode === "pickup" || requestedMode === "none"
+              ? requestedMode
+              : String(orderData.deliveryMode || "none");
+          const sentAddress = readDeliveryAddress(body);
+          const address: DeliveryAddress = {
+            postalCode: sentAddress.postalCode || normalizePostalCode(orderData.postalCode),
+            lat: sentAddress.lat ?? (typeof orderData.customerLat === "number" ? orderData.customerLat : null),
+            lng: sentAddress.lng ?? (typeof orderData.customerLng === "number" ? orderData.customerLng : null)
+          };
+          const deliveryZone =
+            action === "update" && deliveryMode === "delivery"
+              ? await resolveDeliveryZone(tx, eventData, address)
+              : null;
+
+          // promoções já concedidas na criação continuam valendo (sem checar prazo/limite de novo)
+          const promotions: Promotion[] = [];
+          if (action === "update") {
+            for (const promotionId of orderPromotionIds(orderData)) {
+              const promoSnap = await tx.get(db.collection("promotions").doc(promotionId));
+              if (promoSnap.exists) promotions.push(readPromotion(promoSnap.id, promoSnap.data() || {}));
+            }
+          }
+
+          applyStockPlans(tx, stockPlans, updatedStocks, {
+            eventId,
+            orderId,
+            userId: null,
+            userEmail: null,
+            note: action === "cancel" ? "Cliente cancelou o pedido" : "Cliente alterou o pedido"
+          });
+          applyQuotaPlans(tx, eventRef, quotaPlans, updatedQuotas);
+          if (purchasesRef && nextPurchases) applyCustomerPurchases(tx, purchasesRef, nextPurchases);
+
+          const now = admin.firestore.FieldValue.serverTimestamp();
+          const oldSlotId = typeof orderData.timeSlotId === "string" ? orderData.timeSlotId : null;
+
+          if (action === "cancel") {
+            applySlotBookings(tx, eventRef, planSlotChange(eventData, oldSlotId, null), {});
+            finalStatus = "cancelled";
+            tx.update(orderRef, {
+              status: "cancelled",
+              "statusTimestamps.cancelled": now,
+              statusHistory: admin.firestore.FieldValue.arrayUnion({
+                from: currentStatus,
+                to: "cancelled",
+                at: admin.firestore.Timestamp.now(),
+                by: "customer"
+              }),
+              stockRestoredAt: now,
+              customerEditedAt: now,
+              updatedAt: now
+            });
+            releasePromotionUses(tx, orderData);
+            return;
+          }
+
+          // preço unitário continua o congelado na criação (faixas recalculadas pela nova quantidade)
+          const items: OrderLineItem[] = oldItems
+            .map((it) => {
+              const qty = it.productId ? nextQtyByLine[itemKey(it)] : it.qty;
+              return { ...it, qty, lineTotalYen: it.unitPriceYen * qty };
+            })
+            .filter((it) => it.qty > 0);
+          applyPriceTiers(items);
+
+          const orderPricing = computeOrderPricing(items, deliveryZone, promotions, readDepositRule(eventData));
+          pricing = orderPricing;
+
+          const update: Record<string, unknown> = {
+            items,
+            totalItems: items.reduce((sum, it) => sum + it.qty, 0),
+            subtotalYen: orderPricing.subtotalYen,
+            discounts: orderPricing.discounts,
+            discountYen: orderPricing.discountYen,
+            deliveryFeeYen: orderPricing.deliveryFeeYen,
+            amountYen: orderPricing.totalYen,
+            taxBreakdown: orderPricing.taxBreakdown,
+            deliveryMode,
+            postalCode: deliveryMode === "delivery" ? address.postalCode : "",
+            customerLat: deliveryMode === "delivery" ? address.lat : null,
+            customerLng: deliveryMode === "delivery" ? address.lng : null,
+            deliveryZoneId: deliveryZone?.id ?? null,
+            deliveryZoneName: deliveryZone?.name ?? null,
+            customerEditedAt: now,
+            updatedAt: now
+          };
+          // ainda sem pagamento: o sinal acompanha o total novo (pedido confirmado fica como está)
+          if (currentStatus === "pending" || currentStatus === "awaiting_deposit") {
+            update.depositYen = orderPricing.depositYen;
+            const nextStatus: OrderStatus = orderPricing.depositYen > 0 ? "awaiting_deposit" : "pending";
+            if (nextStatus !== currentStatus) {
+              finalStatus = nextStatus;
+              update.status = nextStatus;
+              update[`statusTimestamps.${nextStatus}`] = now;
+              update.statusHistory = admin.firestore.FieldValue.arrayUnion({
+                from: currentStatus,
+                to: nextStatus,
+                at: admin.firestore.Timestamp.now(),
+                by: "customer"
+              });
+            }
+          }
+
+          // faixa escolhida define a data; sem faixa, vale a data enviada
+          const timeSlots = readTimeSlots(eventData);
+          const requestedSlotId = cleanStr(body.timeSlotId, 80);
+          const requestedSlot = requestedSlotId
+            ? timeSlots.find((s) => s.id === requestedSlotId) ?? null
+            : null;
+          if (requestedSlotId && !requestedSlot) throw new Error("Time slot not found");
+
+          const deliveryDate = requestedSlot ? requestedSlot.date : cleanStr(body.deliveryDate, 40);
+          const targetDate = deliveryDate || currentDate;
+          if (targetDate !== currentDate) {
+            if (!eventDeliveryDates(eventData).has(targetDate)) {
+              throw new Error("This delivery date is not available for this event");
+            }
+            if (isPastCustomerCutoff(targetDate, cutoffHours, eventData, nowMs)) {
+              throw new Error("The new date is past the deadline for changes");
+            }
+            update.deliveryDate = targetDate;
+          }
+
+          let newSlotId: string | null = oldSlotId;
+          if (requestedSlot) {
+            newSlotId = requestedSlot.id;
+            update.deliveryTimeSlot = timeSlotLabel(requestedSlot);
+          } else if (timeSlots.some((s) => s.date === targetDate)) {
+            const oldSlot = timeSlots.find((s) => s.id === oldSlotId);
+            if (!oldSlot || oldSlot.date !== targetDate) throw new Error("Choose a delivery time slot");
+          } else {
+            newSlotId = null;
+            const deliveryTimeSlot = cleanStr(body.deliveryTimeSlot, 20);
+            if (deliveryTimeSlot) update.deliveryTimeSlot = deliveryTimeSlot;
+          }
+
+          if (newSlotId !== oldSlotId) {
+            applySlotBookings(tx, eventRef, planSlotChange(eventData, oldSlotId, newSlotId), {});
+            update.timeSlotId = newSlotId;
+          }
+
+          update.locationLink =
+            deliveryMode === "delivery"
+              ? cleanStr(body.locationLink, 300) || String(orderData.locationLink || "")
+              : "";
+
+          tx.update(orderRef, update);
+        });
+
+        res.status(200).json({ ok: true, status: finalStatus, pricing, updatedStocks, updatedQuotas });
+      } catch (err: unknown) {
+        console.error("updateOrderByCustomer error:", err);
+        res.status(400).json({ ok: false, error: errorMessage(err) });
+      }
+    });
+  }
+);
+
+type JoinWaitlistBody = {
+  eventId: string;
+  productId: string;
+  /** variante esgotada (produto com opções) */
+  variantKey?: string;
+  qty?: number;
+  customerName?: string;
+  /** ao menos um contato: telefone (WhatsApp) ou ID do LINE */
+  customerPhone?: string;
+  lineId?: string;
+};
+
+/**
+ * Entrada na lista de espera de um produto esgotado do evento (o que sobra reservado
+ * para outros clientes conta como vendido). O mesmo cliente (telefone ou nome) no
+ * mesmo produto só atualiza a entrada que já existe.
+ */
+export const joinWaitlist = onRequest(
+  { region: "asia-northeast1" },
+  (req, res) => {
+    corsMiddleware(req, res, async () => {
+      try {
+        if (req.method !== "POST") {
+          res.status(405).json({ ok: false, error: "Method not allowed" });
+          return;
+        }
+
+        const body = (req.body || {}) as JoinWaitlistBody;
+        const eventId = cleanStr(body.eventId, 120);
+        const productId = cleanStr(body.productId, 120);
+        const variantKey = cleanStr(body.variantKey, 200);
+        const qty = clampInt(body.qty ?? 1, 1, 999);
+        const customerName = cleanStr(body.customerName, 80);
+        const customerPhone = normalizeCustomerPhone(cleanStr(body.customerPhone, 30));
+        const lineId = cleanStr(body.lineId, 60);
+        const customerKey = customerKeyOf(customerPhone, customerName);
+
+        if (!eventId || !productId) {
+          res.status(400).json({ ok: false, error: "Missing eventId/productId" });
+          return;
+        }
+        if (variantKey && !VARIANT_KEY_RE.test(variantKey)) {
+          res.status(400).json({ ok: false, error: "Invalid product options" });
+          return;
+        }
+        if (!customerName) {
+          res.status(400).json({ ok: false, error: "Enter your name" });
+          return;
+        }
+        if (customerPhone.length < 10 && !lineId) {
+          res.status(400).json({ ok: false, error: "Enter a phone number or LINE ID" });
+          return;
+        }
+
+        const eventRef = db.collection("events").doc(eventId);
+        const [eventSnap, prodSnap] = await Promise.all([
+          eventRef.get(),
+          db.collection("products").doc(productId).get()
+        ]);
+        if (!eventSnap.exists) throw new Error("Event not found");
+        if (!prodSnap.exists) throw new Error(`Product not found: ${productId}`);
+
+        const eventData = eventSnap.data() || {};
+        if (String(eventData.status || "active") !== "active") throw new Error("Event is not active");
+
+        const productName = String(prodSnap.get("name") || "");
+        const eventProducts = [
+          ...(Array.isArray(eventData.productNames) ? eventData.productNames : []),
+          ...(Array.isArray(eventData.featuredProductNames) ? eventData.featuredProductNames : [])
+        ];
+        if (!eventProducts.includes(productName)) throw new Error("Product is not part of this event");
+
+        const options = variantKey
+          ? variantOptions(readOptionGroups(prodSnap.get("optionGroups")), variantKey)
+          : [];
+        if (!options) throw new Error("Invalid product options");
+        const variantLabel = options.map((o) => o.label).join(" / ");
+
+        const waitlistRef = eventRef
+          .collection("waitlist")
+          .doc(`${lineKey(productId, variantKey)}_${customerKey}`);
+        const now = admin.firestore.FieldValue.serverTimestamp();
+        const status: WaitlistStatus = "waiting";
+
+        await db.runTransaction(async (tx) => {
+          const [freshEventSnap, freshProdSnap, prevSnap] = await Promise.all([
+            tx.get(eventRef),
+            tx.get(prodSnap.ref),
+            tx.get(waitlistRef)
+          ]);
+          const available = await availableInEvent(
+            tx,
+            freshEventSnap.data() || {},
+            productId,
+            freshProdSnap.data() || {},
+            variantKey
+          );
+          const reserved = (await loadActiveReservations(tx, eventRef, Date.now()))
+            .filter((r) => r.productId === productId && r.customerKey !== customerKey)
+            .reduce((sum, r) => sum + r.qty, 0);
+          if (available === null || available > reserved) {
+            throw new Error("This product is still available: place an order instead");
+          }
+
+          tx.set(
+            waitlistRef,
+            {
+              productId,
+              productName,
+              variantKey,
+              variantLabel,
+              qty,
+              customerName,
+              customerPhone,
+              lineId,
+              customerKey,
+              status,
+              reservedUntil: null,
+              ...(prevSnap.exists ? {} : { createdAt: now }),
+              updatedAt: now
+            },
+            { merge: true }
+          );
+        });
+
+        res.status(200).json({ ok: true, waitlistId: waitlistRef.id });
+      } catch (err: unknown) {
+        console.error("joinWaitlist error:", err);
+        res.status(400).json({ ok: false, error: errorMessage(err) });
+      }
+    });
+  }
+);
+
+/** Data em Tóquio (AAAA-MM-DD); sem argumento, hoje */
+const tokyoDate = (ms = Date.now()) => new Date(ms + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Todo dia de madrugada (Tóquio): encerra eventos ativos cuja última data de
+ * entrega (do evento ou das faixas de horário) já passou. Evento só com datas em
+ * texto livre usa o dia do fechamento dos pedidos (`ordersCloseAt`); sem ele,
+ * continua manual.
+ */
+export const closeFinishedEvents = onSchedule(
+  { region: "asia-northeast1", schedule: "every day 00:10", timeZone: "Asia/Tokyo" },
+  async () => {
+    const today = tokyoDate();
+    const snap = await db.collection("events").where("status", "==", "active").get();
+
+    const toClose: admin.firestore.DocumentReference[] = [];
+    snap.docs.forEach((docSnap) => {
+      const eventData = docSnap.data();
+      const dates = Array.from(eventDeliveryDates(eventData)).filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d));
+      const closeAt = toMillis(eventData.ordersCloseAt);
+
+      const lastDate = dates.length > 0 ? dates.sort().pop() : closeAt !== null ? tokyoDate(closeAt) : null;
+      if (!lastDate || lastDate >= today) return;
+
+      toClose.push(docSnap.ref);
+    });
+
+    // lote do Firestore aceita no máximo 500 escritas
+    for (let i = 0; i < toClose.length; i += 500) {
+      const batch = db.batch();
+      for (const ref of toClose.slice(i, i + 500)) {
+        batch.update(ref, {
+          status: "closed",
+          closedAutomaticallyAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+      await batch.commit();
+    }
+    logger.info(`closeFinishedEvents: ${toClose.length} event(s) closed`);
+  }
+);
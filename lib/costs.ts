@@ -0,0 +1,152 @@
+// lib/costs.ts
+// Custo unitário dos produtos e margem dos pedidos. O custo calculado fica em
+// `unitCostYen` no produto e o createEventOrder congela esse valor em cada item,
+// somado ao `costDeltaYen` das opções da variante (lib/variants.ts).
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  deleteField,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { readBundleComponents, type OrderLineItem } from "@/lib/orders";
+import {
+  readIngredient,
+  readRecipe,
+  recipeCostYen,
+  type Ingredient,
+  type RecipeLine,
+} from "@/lib/recipes";
+
+/** "recipe" = pelos ingredientes (kit: soma dos componentes); "manual" = `manualCostYen` */
+export type CostSource = "manual" | "recipe";
+
+export const COST_SOURCE_LABELS: Record<CostSource, string> = {
+  recipe: "Pela receita (ingredientes)",
+  manual: "Manual",
+};
+
+export const readCostSource = (raw: unknown): CostSource =>
+  raw === "manual" ? "manual" : "recipe";
+
+export const readManualCost = (raw: unknown) =>
+  typeof raw === "number" && Number.isFinite(raw) && raw >= 0 ? raw : null;
+
+/** Campos do produto usados no cálculo do custo */
+export interface CostInput {
+  id: string;
+  type: "simple" | "bundle";
+  bundleItems: Array<{ productId: string; qty: number }>;
+  recipe: RecipeLine[];
+  costSource: CostSource;
+  manualCostYen: number | null;
+}
+
+/** Arredonda para 2 casas (custo de ingrediente a granel dá fração de iene) */
+const roundCost = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Custo de 1 unidade do produto; null = sem custo (falta preço de ingrediente,
+ * receita vazia ou custo manual em branco). Kit sem custo manual soma os componentes.
+ */
+export const productUnitCost = (
+  product: CostInput,
+  productById: Map<string, CostInput>,
+  ingredientById: Map<string, Ingredient>
+): number | null => {
+  if (product.costSource === "manual") return product.manualCostYen;
+  if (product.type === "simple") {
+    const cost = recipeCostYen(product.recipe, ingredientById);
+    return cost === null ? null : roundCost(cost);
+  }
+  if (product.bundleItems.length === 0) return null;
+  let total = 0;
+  for (const c of product.bundleItems) {
+    const component = productById.get(c.productId);
+    // kit só leva produtos simples, então não há recursão infinita
+    const cost =
+      component && component.type === "simple"
+        ? productUnitCost(component, productById, ingredientById)
+        : null;
+    if (cost === null) return null;
+    total += cost * c.qty;
+  }
+  return roundCost(total);
+};
+
+export const readCostInput = (id: string, data: any): CostInput => ({
+  id,
+  type: data?.type === "bundle" ? "bundle" : "simple",
+  bundleItems: readBundleComponents(data?.bundleItems),
+  recipe: readRecipe(data?.recipe),
+  costSource: readCostSource(data?.costSource),
+  manualCostYen: readManualCost(data?.manualCostYen),
+});
+
+/**
+ * Recalcula `unitCostYen` dos produtos do vendedor e grava só os que mudaram.
+ * Chamar depois de salvar produto ou ingrediente (preço, receita, kit).
+ */
+export const syncProductCosts = async (sellerId: string) => {
+  const [productsSnap, ingredientsSnap] = await Promise.all([
+    getDocs(query(collection(db, "products"), where("sellerId", "==", sellerId))),
+    getDocs(query(collection(db, "ingredients"), where("sellerId", "==", sellerId))),
+  ]);
+
+  const ingredientById = new Map(
+    ingredientsSnap.docs.map((d) => [d.id, readIngredient(d.id, d.data())])
+  );
+  const productById = new Map(
+    productsSnap.docs.map((d) => [d.id, readCostInput(d.id, d.data())])
+  );
+
+  const changed = productsSnap.docs.flatMap((d) => {
+    const cost = productUnitCost(productById.get(d.id)!, productById, ingredientById);
+    const current = d.data().unitCostYen;
+    if (cost === null ? current === undefined : current === cost) return [];
+    return [{ ref: d.ref, cost }];
+  });
+
+  // lote do Firestore aceita no máximo 500 escritas
+  for (let i = 0; i < changed.length; i += 500) {
+    const batch = writeBatch(db);
+    changed.slice(i, i + 500).forEach(({ ref, cost }) => {
+      batch.update(ref, { unitCostYen: cost === null ? deleteField() : cost });
+    });
+    await batch.commit();
+  }
+  return changed.length;
+};
+
+/** Margem bruta em % da receita (null sem receita) */
+export const marginPercent = (revenueYen: number, costYen: number) =>
+  revenueYen > 0 ? ((revenueYen - costYen) / revenueYen) * 100 : null;
+
+export const formatMarginPercent = (pct: number | null) =>
+  pct === null ? "—" : `${pct.toFixed(1).replace(".", ",")}%`;
+
+/** Linha de relatório de margem (produto, evento ou vendedor) */
+export interface MarginRow {
+  key: string;
+  label: string;
+  /** receita líquida dos itens com custo (desconto do pedido rateado) */
+  revenueYen: number;
+  costYen: number;
+  marginYen: number;
+  /** receita dos itens vendidos sem custo congelado (fora da margem) */
+  uncostedRevenueYen: number;
+}
+
+/**
+ * Receita líquida de cada item: o desconto do pedido é rateado pelo total da
+ * linha (a taxa de entrega não entra na margem dos produtos).
+ */
+export const netLineRevenues = (items: OrderLineItem[], discountYen: number) => {
+  const subtotal = items.reduce((sum, it) => sum + it.lineTotalYen, 0);
+  const discount = Math.min(Math.max(discountYen, 0), subtotal);
+  return items.map((it) =>
+    subtotal > 0 ? it.lineTotalYen - (discount * it.lineTotalYen) / subtotal : 0
+  );
+};
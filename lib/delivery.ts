@@ -0,0 +1,88 @@
+// lib/delivery.ts
+// Zonas de entrega: mesma regra do createEventOrder (functions/src/index.ts).
+
+/** Zona de entrega do evento (ou da vendedora, quando o evento não tem nenhuma) */
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  postalPrefixes: string[]; // só dígitos, ex.: "430", "4350"
+  radiusKm: number | null; // distância até o ponto de retirada
+  feeYen: number;
+  minOrderYen: number;
+  freeAboveYen: number | null;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/** CEP japonês só com dígitos ("430-0001" → "4300001") */
+export const normalizePostalCode = (value: unknown) =>
+  String(value ?? "").replace(/\D/g, "").slice(0, 7);
+
+const toYen = (v: unknown) => {
+  const n = Math.round(Number(v));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+/** Lê `deliveryZones` ignorando entradas inválidas */
+export const readDeliveryZones = (raw: unknown): DeliveryZone[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((z: any) => z && typeof z.id === "string")
+    .map((z: any) => ({
+      id: z.id,
+      name: String(z.name || ""),
+      postalPrefixes: Array.isArray(z.postalPrefixes)
+        ? z.postalPrefixes.map(normalizePostalCode).filter(Boolean)
+        : [],
+      radiusKm: typeof z.radiusKm === "number" && z.radiusKm > 0 ? z.radiusKm : null,
+      feeYen: toYen(z.feeYen),
+      minOrderYen: toYen(z.minOrderYen),
+      freeAboveYen:
+        typeof z.freeAboveYen === "number" && z.freeAboveYen > 0 ? z.freeAboveYen : null,
+    }));
+};
+
+export const readGeoPoint = (data: any): GeoPoint | null =>
+  typeof data?.pickupLat === "number" && typeof data?.pickupLng === "number"
+    ? { lat: data.pickupLat, lng: data.pickupLng }
+    : null;
+
+export const distanceKm = (a: GeoPoint, b: GeoPoint) => {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+/** Primeira zona (na ordem cadastrada) que atende o CEP ou a localização */
+export const findDeliveryZone = (
+  zones: DeliveryZone[],
+  postalCode: string,
+  location: GeoPoint | null,
+  origin: GeoPoint | null
+) =>
+  zones.find((zone) => {
+    const code = normalizePostalCode(postalCode);
+    if (code && zone.postalPrefixes.some((p) => code.startsWith(p))) return true;
+    if (zone.radiusKm !== null && origin && location) {
+      return distanceKm(origin, location) <= zone.radiusKm;
+    }
+    return false;
+  }) ?? null;
+
+/** Taxa da zona para o subtotal dos itens (grátis a partir de `freeAboveYen`) */
+export const deliveryFeeFor = (zone: DeliveryZone, subtotalYen: number) =>
+  zone.freeAboveYen !== null && subtotalYen >= zone.freeAboveYen ? 0 : zone.feeYen;
+
+/** "430, 431" ↔ ["430","431"] no formulário do evento */
+export const parsePostalPrefixes = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map(normalizePostalCode)
+    .filter(Boolean);
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { depositForOrder, readDepositRule } from "@/lib/events";
+
+describe("readDepositRule", () => {
+  it("sem porcentagem válida não há sinal", () => {
+    expect(readDepositRule(undefined)).toBeNull();
+    expect(readDepositRule({ percent: 0, minOrderYen: 5000 })).toBeNull();
+    expect(readDepositRule({ percent: "abc" })).toBeNull();
+  });
+
+  it("limita a 100% e ignora mínimo inválido", () => {
+    expect(readDepositRule({ percent: 150, minOrderYen: -10 })).toEqual({
+      percent: 100,
+      minOrderYen: 0,
+    });
+  });
+});
+
+describe("depositForOrder", () => {
+  const rule = { percent: 30, minOrderYen: 5000 };
+
+  it("arredonda o sinal para cima", () => {
+    expect(depositForOrder(rule, 5001)).toBe(1501);
+    expect(depositForOrder({ percent: 33, minOrderYen: 0 }, 1000)).toBe(330);
+    expect(depositForOrder({ percent: 15, minOrderYen: 0 }, 999)).toBe(150);
+  });
+
+  it("vale a partir do mínimo, inclusive", () => {
+    expect(depositForOrder(rule, 4999)).toBe(0);
+    expect(depositForOrder(rule, 5000)).toBe(1500);
+  });
+
+  it("sem regra ou total zero, não há sinal", () => {
+    expect(depositForOrder(null, 10000)).toBe(0);
+    expect(depositForOrder({ percent: 30, minOrderYen: 0 }, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+// lib/events.ts
+// Helpers de evento: janela de pedidos no horário de Tóquio.
+
+const TOKYO_OFFSET = "+09:00";
+
+/** "AAAA-MM-DDTHH:mm" (input datetime-local, horário de Tóquio) → Date */
+export const tokyoInputToDate = (value: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)) return null;
+  const ms = Date.parse(`${value}:00${TOKYO_OFFSET}`);
+  return Number.isFinite(ms) ? new Date(ms) : null;
+};
+
+/** Date → "AAAA-MM-DDTHH:mm" no horário de Tóquio (para o input datetime-local) */
+export const dateToTokyoInput = (date: Date | null | undefined) => {
+  if (!date) return "";
+  const tokyo = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  return tokyo.toISOString().slice(0, 16);
+};
+
+export const formatTokyoDateTime = (date: Date) =>
+  date.toLocaleString("pt-BR", {
+    timeZone: "Asia/Tokyo",
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+export type OrderWindowState =
+  | { state: "not-open"; opensAt: Date }
+  | { state: "open"; closesAt: Date | null }
+  | { state: "closed" };
+
+/** Mesma regra do createEventOrder: sem datas, fica sempre aberto */
+export const getOrderWindowState = (
+  openAt: Date | null,
+  closeAt: Date | null,
+  nowMs: number
+): OrderWindowState => {
+  if (openAt && nowMs < openAt.getTime()) return { state: "not-open", opensAt: openAt };
+  if (closeAt && nowMs >= closeAt.getTime()) return { state: "closed" };
+  return { state: "open", closesAt: closeAt };
+};
+
+/** "2d 04h 12m 09s" até a data (0 quando já passou) */
+export const formatCountdown = (target: Date, nowMs: number) => {
+  const total = Math.max(0, Math.floor((target.getTime() - nowMs) / 1000));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${days > 0 ? `${days}d ` : ""}${pad(hours)}h ${pad(minutes)}m ${pad(seconds)}s`;
+};
+
+/** Faixa de horário de um dia do evento, com limite de pedidos */
+export interface TimeSlot {
+  id: string;
+  date: string; // AAAA-MM-DD (uma das datas de entrega)
+  start: string; // HH:mm
+  end: string; // HH:mm
+  capacity: number;
+}
+
+/** Id estável (também usado como chave em `timeSlotBookings`) */
+export const makeTimeSlotId = (date: string, start: string, end: string) =>
+  `${date}_${start.replace(":", "")}-${end.replace(":", "")}`;
+
+export const timeSlotLabel = (slot: Pick<TimeSlot, "start" | "end">) =>
+  `${slot.start}–${slot.end}`;
+
+/** Lê `timeSlots` do evento ignorando entradas inválidas, em ordem de data/hora */
+export const readTimeSlots = (raw: unknown): TimeSlot[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (s: any) =>
+        s &&
+        typeof s.id === "string" &&
+        typeof s.date === "string" &&
+        typeof s.start === "string" &&
+        typeof s.end === "string" &&
+        typeof s.capacity === "number"
+    )
+    .map((s: any) => ({
+      id: s.id,
+      date: s.date,
+      start: s.start,
+      end: s.end,
+      capacity: s.capacity,
+    }))
+    .sort((a, b) =>
+      a.date === b.date ? a.start.localeCompare(b.start) : a.date.localeCompare(b.date)
+    );
+};
+
+/** Vagas restantes na faixa (`timeSlotBookings[id]` = pedidos já feitos) */
+export const remainingSlotCapacity = (
+  slot: TimeSlot,
+  bookings: Record<string, number> | undefined
+) => Math.max(0, slot.capacity - (bookings?.[slot.id] ?? 0));
+
+/**
+ * Limites de compra por produto no evento (`productLimits[productId]`), mesma
+ * regra do createEventOrder: `perOrder` = máximo num pedido; `perCustomer` =
+ * máximo somando todos os pedidos do cliente (telefone ou, sem ele, nome).
+ */
+export interface ProductLimit {
+  perOrder: number | null;
+  perCustomer: number | null;
+}
+
+export const readProductLimits = (raw: unknown): Record<string, ProductLimit> => {
+  if (!raw || typeof raw !== "object") return {};
+  const positive = (v: unknown) =>
+    typeof v === "number" && v > 0 ? Math.floor(v) : null;
+  const limits: Record<string, ProductLimit> = {};
+  Object.entries(raw as Record<string, any>).forEach(([productId, l]) => {
+    const limit = { perOrder: positive(l?.perOrder), perCustomer: positive(l?.perCustomer) };
+    if (limit.perOrder !== null || limit.perCustomer !== null) limits[productId] = limit;
+  });
+  return limits;
+};
+
+/** Máximo que cabe num pedido (o servidor ainda desconta pedidos anteriores do cliente) */
+export const maxQtyPerOrder = (limit: ProductLimit | undefined) => {
+  const values = [limit?.perOrder, limit?.perCustomer].filter(
+    (v): v is number => typeof v === "number"
+  );
+  return values.length > 0 ? Math.min(...values) : null;
+};
+
+/**
+ * Sinal do evento (`depositRule`), mesma regra do createEventOrder: pedido com
+ * total a partir de `minOrderYen` fica "Aguardando sinal" até pagar `percent`%.
+ */
+export interface DepositRule {
+  percent: number;
+  minOrderYen: number;
+}
+
+export const readDepositRule = (raw: unknown): DepositRule | null => {
+  const rule = (raw ?? {}) as { percent?: unknown; minOrderYen?: unknown };
+  const percent = Math.floor(Number(rule.percent));
+  if (!Number.isFinite(percent) || percent <= 0) return null;
+  const minOrderYen = Math.round(Number(rule.minOrderYen));
+  return {
+    percent: Math.min(percent, 100),
+    minOrderYen: Number.isFinite(minOrderYen) && minOrderYen > 0 ? minOrderYen : 0,
+  };
+};
+
+/** Valor do sinal (arredonda para cima); 0 = pedido sem sinal */
+export const depositForOrder = (rule: DepositRule | null, totalYen: number) =>
+  rule && totalYen > 0 && totalYen >= rule.minOrderYen
+    ? Math.ceil((totalYen * rule.percent) / 100)
+    : 0;
+
+/** "Sinal de 30% em pedidos a partir de ¥10,000" */
+export const describeDepositRule = (rule: DepositRule) =>
+  rule.minOrderYen > 0
+    ? `Sinal de ${rule.percent}% em pedidos a partir de ¥${rule.minOrderYen.toLocaleString("ja-JP")}`
+    : `Sinal de ${rule.percent}% em todos os pedidos`;
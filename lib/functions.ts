@@ -0,0 +1,57 @@
+// lib/functions.ts
+import { auth } from "@/lib/firebase";
+
+const postFunction = async <T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<T> => {
+  if (!url) {
+    throw new Error("URL da função não configurada (.env).");
+  }
+
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok || !data?.ok) {
+    throw new Error(data?.error || "Erro ao chamar a função.");
+  }
+  return data as T;
+};
+
+/**
+ * Chama uma Cloud Function HTTP usada pelo painel (envia o token da vendedora).
+ * Lança Error com a mensagem devolvida pela função quando `ok` não vier true.
+ */
+export const callSellerFunction = async <T = any>(
+  url: string,
+  body: unknown
+): Promise<T> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("Faça login novamente para continuar.");
+  }
+  const token = await user.getIdToken();
+
+  return postFunction<T>(url, body, { Authorization: `Bearer ${token}` });
+};
+
+/**
+ * Mesma chamada sem login (entregadores, clientes). A função decide o que
+ * aceitar sem token. Se houver vendedora logada, o token vai junto.
+ */
+export const callPublicFunction = async <T = any>(
+  url: string,
+  body: unknown
+): Promise<T> => {
+  const token = await auth.currentUser?.getIdToken().catch(() => null);
+  return postFunction<T>(
+    url,
+    body,
+    token ? { Authorization: `Bearer ${token}` } : {}
+  );
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { moveLots, readStockLots } from "@/lib/lots";
+
+const lots = [
+  { id: "lot_a", madeOn: "2026-05-01", bestBefore: "2026-05-10", qty: 3 },
+  { id: "lot_b", madeOn: "2026-05-03", bestBefore: "2026-05-12", qty: 5 },
+];
+
+describe("readStockLots", () => {
+  it("descarta lotes inválidos ou vazios e ordena do mais antigo", () => {
+    expect(
+      readStockLots([
+        lots[1],
+        { id: "lot_c", madeOn: "2026-05-02", bestBefore: "2026-05-11", qty: 0 },
+        { id: "lot_d", madeOn: "02/05/2026", bestBefore: "2026-05-11", qty: 2 },
+        lots[0],
+      ])
+    ).toEqual(lots);
+  });
+});
+
+describe("moveLots", () => {
+  it("venda tira dos lotes mais antigos primeiro", () => {
+    expect(moveLots(lots, 4)).toEqual({
+      lots: [{ ...lots[1], qty: 4 }],
+      taken: [
+        { lotId: "lot_a", qty: 3 },
+        { lotId: "lot_b", qty: 1 },
+      ],
+    });
+  });
+
+  it("o que passa dos lotes sai do estoque sem lote", () => {
+    expect(moveLots(lots, 10)).toEqual({
+      lots: [],
+      taken: [
+        { lotId: "lot_a", qty: 3 },
+        { lotId: "lot_b", qty: 5 },
+      ],
+    });
+  });
+
+  it("devolução volta para o lote mais antigo", () => {
+    expect(moveLots(lots, -2)).toEqual({
+      lots: [{ ...lots[0], qty: 5 }, lots[1]],
+      taken: [{ lotId: "lot_a", qty: -2 }],
+    });
+  });
+
+  it("devolução sem lotes não cria lote", () => {
+    expect(moveLots([], -2)).toEqual({ lots: [], taken: [] });
+  });
+});
@@ -0,0 +1,90 @@
+// lib/lots.ts
+// Lotes de produção (congelados): mesma regra FIFO do createEventOrder (functions/src/index.ts).
+
+/** Lote no `lots` do produto; a soma dos lotes pode ser menor que `stockQty` (sobra = sem lote) */
+export interface StockLot {
+  id: string;
+  madeOn: string; // AAAA-MM-DD
+  bestBefore: string; // AAAA-MM-DD
+  qty: number;
+}
+
+/** Quanto saiu de cada lote (vai no movimento de estoque; negativo = entrou no lote) */
+export type LotTake = { lotId: string; qty: number };
+
+/** Lote vencendo em até N dias aparece nos alertas do painel */
+export const EXPIRY_WARNING_DAYS = 7;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const makeLotId = (madeOn: string) =>
+  `lot_${madeOn.replace(/-/g, "")}_${Math.random().toString(36).slice(2, 6)}`;
+
+/** Lê `lots` do produto, na ordem de saída (mais antigo primeiro) */
+export const readStockLots = (raw: unknown): StockLot[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (l: any) =>
+        l &&
+        typeof l.id === "string" &&
+        DATE_RE.test(String(l.madeOn)) &&
+        DATE_RE.test(String(l.bestBefore))
+    )
+    .map((l: any) => ({
+      id: l.id,
+      madeOn: l.madeOn,
+      bestBefore: l.bestBefore,
+      qty: Math.max(0, Math.floor(Number(l.qty) || 0)),
+    }))
+    .filter((l) => l.qty > 0)
+    .sort(
+      (a, b) =>
+        a.madeOn.localeCompare(b.madeOn) || a.bestBefore.localeCompare(b.bestBefore)
+    );
+};
+
+export const lotsTotal = (lots: StockLot[]) => lots.reduce((sum, l) => sum + l.qty, 0);
+
+/**
+ * `delta` > 0 tira dos lotes mais antigos (o que faltar sai do estoque sem lote);
+ * `delta` < 0 devolve ao lote mais antigo que ainda existe.
+ */
+export const moveLots = (lots: StockLot[], delta: number) => {
+  if (delta < 0) {
+    if (lots.length === 0) return { lots, taken: [] as LotTake[] };
+    const [first, ...rest] = lots;
+    return {
+      lots: [{ ...first, qty: first.qty - delta }, ...rest],
+      taken: [{ lotId: first.id, qty: delta }],
+    };
+  }
+  let left = delta;
+  const taken: LotTake[] = [];
+  const next = lots
+    .map((l) => {
+      const take = Math.min(l.qty, left);
+      left -= take;
+      if (take > 0) taken.push({ lotId: l.id, qty: take });
+      return { ...l, qty: l.qty - take };
+    })
+    .filter((l) => l.qty > 0);
+  return { lots: next, taken };
+};
+
+/** Lote que sai no próximo pedido (FIFO) */
+export const nextLot = (lots: StockLot[]) => lots[0] ?? null;
+
+/** "AAAA-MM-DD" de hoje em Tóquio */
+export const tokyoDateKey = (nowMs: number) =>
+  new Date(nowMs + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/** Dias até a validade (negativo = vencido; 0 = vence hoje) */
+export const daysUntil = (date: string, nowMs: number) =>
+  Math.round(
+    (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${tokyoDateKey(nowMs)}T00:00:00Z`)) /
+      (24 * 60 * 60 * 1000)
+  );
+
+/** "AAAA-MM-DD" → "DD/MM/AAAA" */
+export const formatLotDate = (date: string) => date.split("-").reverse().join("/");
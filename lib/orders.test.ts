@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { totalAfterCancel, type OrderLineItem } from "@/lib/orders";
+import type { Promotion } from "@/lib/promotions";
+
+const item = (productId: string, qty: number, unitPriceYen: number): OrderLineItem => ({
+  productId,
+  name: productId,
+  unitPriceYen,
+  qty,
+  lineTotalYen: unitPriceYen * qty,
+});
+
+const promotion = (id: string, overrides: Partial<Promotion>): Promotion => ({
+  id,
+  name: id,
+  code: null,
+  kind: "percent",
+  percent: 0,
+  amountYen: 0,
+  buyQty: 0,
+  freeQty: 0,
+  productId: null,
+  eventId: null,
+  minSubtotalYen: 0,
+  maxUses: null,
+  usedCount: 0,
+  startsAt: null,
+  expiresAt: null,
+  active: true,
+  ...overrides,
+});
+
+// coxinha 10 × ¥150 + kibe 5 × ¥200 = ¥2,500
+const items = [item("coxinha", 10, 150), item("kibe", 5, 200)];
+const cancelFiveCoxinhas = { "id:coxinha": 5 };
+
+describe("totalAfterCancel", () => {
+  it("sem desconto: tira as unidades e soma a entrega", () => {
+    expect(totalAfterCancel({ items, deliveryFeeYen: 300 }, cancelFiveCoxinhas, new Map())).toBe(
+      750 + 1000 + 300
+    );
+  });
+
+  it("tira das últimas linhas e mantém o preço congelado de cada uma", () => {
+    const order = { items: [item("coxinha", 2, 150), item("kibe", 1, 200), item("coxinha", 3, 120)] };
+    expect(totalAfterCancel(order, { "id:coxinha": 4 }, new Map())).toBe(150 + 200);
+  });
+
+  it("recalcula a porcentagem com os itens que sobram", () => {
+    const promo = promotion("p10", { percent: 10 });
+    const order = {
+      items,
+      discounts: [{ label: "10%", amountYen: 250, promotionId: "p10" }],
+      discountYen: 250,
+    };
+    expect(totalAfterCancel(order, cancelFiveCoxinhas, new Map([["p10", promo]]))).toBe(1750 - 175);
+  });
+
+  it("perde o desconto quando o pedido fica abaixo do mínimo", () => {
+    const promo = promotion("p500", { kind: "fixed", amountYen: 500, minSubtotalYen: 2000 });
+    const order = {
+      items,
+      discounts: [{ label: "¥500", amountYen: 500, promotionId: "p500" }],
+      discountYen: 500,
+    };
+    expect(totalAfterCancel(order, cancelFiveCoxinhas, new Map([["p500", promo]]))).toBe(1750);
+  });
+
+  it("nunca dá mais desconto que o original (promoção alterada depois)", () => {
+    const promo = promotion("p10", { percent: 50 });
+    const order = {
+      items,
+      discounts: [{ label: "10%", amountYen: 250, promotionId: "p10" }],
+      discountYen: 250,
+    };
+    expect(totalAfterCancel(order, cancelFiveCoxinhas, new Map([["p10", promo]]))).toBe(1750 - 250);
+  });
+
+  it("sem a promoção, o desconto cai na proporção do subtotal", () => {
+    const order = {
+      items,
+      discounts: [{ label: "Apagada", amountYen: 250, promotionId: "gone" }],
+      discountYen: 250,
+    };
+    expect(totalAfterCancel(order, cancelFiveCoxinhas, new Map())).toBe(1750 - 175);
+    expect(totalAfterCancel({ items, discountYen: 250 }, cancelFiveCoxinhas, new Map())).toBe(
+      1750 - 175
+    );
+  });
+});
@@ -0,0 +1,382 @@
+// lib/orders.ts
+// Helpers compartilhados para ler pedidos (dashboard, entregas, página do evento).
+import { readPriceTiers, type PriceTier } from "@/lib/pricing";
+import { promotionDiscountYen, type Promotion } from "@/lib/promotions";
+import type { TaxRate } from "@/lib/tax";
+
+/** Componente de um kit (quantidade por 1 kit) */
+export interface BundleComponent {
+  productId: string;
+  name: string;
+  qty: number;
+}
+
+/** Item do pedido com nome e preço congelados no momento da criação */
+export interface OrderLineItem {
+  productId: string | null;
+  name: string;
+  unitPriceYen: number;
+  qty: number;
+  lineTotalYen: number;
+  /** kit: composição congelada no pedido (o estoque abatido é o dos componentes) */
+  components?: BundleComponent[];
+  /** produto com opções: variante escolhida (ver lib/variants.ts) e seu texto */
+  variantKey?: string;
+  variantLabel?: string;
+  /** preço por quantidade: preço normal e faixas congelados no pedido (ver lib/pricing.ts) */
+  basePriceYen?: number;
+  priceTiers?: PriceTier[];
+  /** custo unitário congelado na venda (ver lib/costs.ts); sem ele o item fica fora da margem */
+  unitCostYen?: number;
+  /** alíquota do consumo congelada na venda (ver lib/tax.ts); sem ela vale 8% */
+  taxRate?: TaxRate;
+}
+
+/** Lê `bundleItems` do produto (ou `components` do item do pedido) */
+export const readBundleComponents = (raw: unknown): BundleComponent[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((c: any) => c && typeof c.productId === "string" && c.productId)
+    .map((c: any) => ({
+      productId: c.productId,
+      name: typeof c.name === "string" ? c.name : "",
+      qty: Math.max(0, Math.floor(Number(c.qty) || 0)),
+    }))
+    .filter((c) => c.qty > 0);
+};
+
+/** Catálogo mínimo usado para converter pedidos antigos (chave = nome do produto) */
+export type CatalogByName = Map<string, { id: string; price: number }>;
+
+export const buildCatalogByName = (
+  products: Array<{ id: string; name: string; price?: number }>
+): CatalogByName => {
+  const map: CatalogByName = new Map();
+  products.forEach((p) => {
+    if (p.name && !map.has(p.name)) {
+      map.set(p.name, { id: p.id, price: Number(p.price || 0) });
+    }
+  });
+  return map;
+};
+
+const toNumber = (v: any) => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+};
+
+/**
+ * Lê os itens de um documento de pedido.
+ * - Pedidos novos: usa `items` (preço congelado).
+ * - Pedidos antigos (`quantities` por nome): monta os itens com o preço atual do
+ *   catálogo, só como estimativa, e marca `legacy: true`. Use a migração
+ *   (`migrateLegacyOrders`) para congelar esses pedidos de vez.
+ */
+export const readOrderItems = (
+  data: any,
+  catalog?: CatalogByName
+): { items: OrderLineItem[]; legacy: boolean } => {
+  if (Array.isArray(data?.items)) {
+    const items: OrderLineItem[] = data.items
+      .map((raw: any) => {
+        const qty = toNumber(raw?.qty);
+        const unitPriceYen = toNumber(raw?.unitPriceYen);
+        const components = readBundleComponents(raw?.components);
+        const variantKey =
+          typeof raw?.variantKey === "string" && raw.variantKey ? raw.variantKey : "";
+        const priceTiers = readPriceTiers(raw?.priceTiers);
+        return {
+          productId:
+            typeof raw?.productId === "string" && raw.productId
+              ? raw.productId
+              : null,
+          name: typeof raw?.name === "string" ? raw.name : "",
+          unitPriceYen,
+          qty,
+          lineTotalYen:
+            typeof raw?.lineTotalYen === "number"
+              ? raw.lineTotalYen
+              : unitPriceYen * qty,
+          ...(components.length > 0 ? { components } : {}),
+          ...(variantKey
+            ? {
+                variantKey,
+                variantLabel:
+                  typeof raw?.variantLabel === "string" ? raw.variantLabel : variantKey,
+              }
+            : {}),
+          ...(priceTiers.length > 0 && typeof raw?.basePriceYen === "number"
+            ? { basePriceYen: raw.basePriceYen, priceTiers }
+            : {}),
+          ...(typeof raw?.unitCostYen === "number" ? { unitCostYen: raw.unitCostYen } : {}),
+          ...(raw?.taxRate === 8 || raw?.taxRate === 10 ? { taxRate: raw.taxRate } : {}),
+        };
+      })
+      .filter((it: OrderLineItem) => it.name && it.qty > 0);
+    return { items, legacy: false };
+  }
+
+  const quantities: Record<string, number> =
+    data?.quantities && typeof data.quantities === "object"
+      ? data.quantities
+      : {};
+
+  const items: OrderLineItem[] = Object.entries(quantities)
+    .map(([name, q]) => {
+      const qty = toNumber(q);
+      const fromCatalog = catalog?.get(name);
+      const unitPriceYen = fromCatalog?.price ?? 0;
+      return {
+        productId: fromCatalog?.id ?? null,
+        name,
+        unitPriceYen,
+        qty,
+        lineTotalYen: unitPriceYen * qty,
+      };
+    })
+    .filter((it) => it.qty > 0);
+
+  return { items, legacy: true };
+};
+
+export const sumLineTotals = (items: OrderLineItem[]) =>
+  items.reduce((sum, it) => sum + it.lineTotalYen, 0);
+
+export const countItems = (items: OrderLineItem[]) =>
+  items.reduce((sum, it) => sum + it.qty, 0);
+
+/** Chave estável para agrupar itens (produção, filtros): id do produto (+ variante) ou nome */
+export const lineItemKey = (
+  it: Pick<OrderLineItem, "productId" | "name"> & { variantKey?: string }
+) =>
+  it.productId
+    ? `id:${it.productId}${it.variantKey ? `:${it.variantKey}` : ""}`
+    : `name:${it.name}`;
+
+/** Nome do item com a variante: "Coxinha (Frito / 25 un.)" */
+export const lineItemName = (it: Pick<OrderLineItem, "name" | "variantLabel">) =>
+  it.variantLabel ? `${it.name} (${it.variantLabel})` : it.name;
+
+export interface OrderDiscount {
+  label: string;
+  amountYen: number;
+  /** promoção que gerou o desconto (recalculado no cancelamento parcial) */
+  promotionId?: string;
+}
+
+/** Valores do pedido calculados pelo servidor (createEventOrder) */
+export interface OrderPricing {
+  subtotalYen: number;
+  discounts: OrderDiscount[];
+  discountYen: number;
+  deliveryFeeYen: number;
+  totalYen: number;
+  /** sinal exigido pela regra do evento (0 = sem sinal; ver lib/events.ts) */
+  depositYen: number;
+}
+
+/**
+ * Lê o preço gravado no pedido. Pedidos anteriores ao cálculo no servidor não têm
+ * subtotal/desconto/taxa: o subtotal sai dos itens e o total do `amountYen`
+ * (congelado ao marcar como pago) ou, sem ele, do próprio subtotal.
+ */
+export const readOrderPricing = (
+  data: any,
+  items: OrderLineItem[]
+): OrderPricing => {
+  const subtotalYen =
+    typeof data?.subtotalYen === "number" ? data.subtotalYen : sumLineTotals(items);
+  const discounts: OrderDiscount[] = Array.isArray(data?.discounts)
+    ? data.discounts
+        .filter((d: any) => d && typeof d.label === "string")
+        .map((d: any) => ({
+          label: d.label,
+          amountYen: toNumber(d.amountYen),
+          ...(typeof d.promotionId === "string" ? { promotionId: d.promotionId } : {}),
+        }))
+    : [];
+  const discountYen = toNumber(data?.discountYen);
+  const deliveryFeeYen = toNumber(data?.deliveryFeeYen);
+  const totalYen =
+    typeof data?.amountYen === "number"
+      ? data.amountYen
+      : subtotalYen - discountYen + deliveryFeeYen;
+
+  const depositYen = toNumber(data?.depositYen);
+
+  return { subtotalYen, discounts, discountYen, deliveryFeeYen, totalYen, depositYen };
+};
+
+/**
+ * Descontos depois de um cancelamento parcial, mesma regra do cancelOrderItems:
+ * cada promoção é recalculada com as linhas que sobraram, sem passar do valor
+ * original; sem a promoção, o desconto cai na proporção do subtotal.
+ */
+export const discountsAfterCancel = (
+  discounts: OrderDiscount[],
+  promotionsById: Map<string, Promotion>,
+  oldSubtotalYen: number,
+  items: OrderLineItem[]
+): OrderDiscount[] => {
+  const subtotalYen = sumLineTotals(items);
+  return discounts
+    .map((d) => {
+      const promo = d.promotionId ? promotionsById.get(d.promotionId) : undefined;
+      const amountYen = promo
+        ? promotionDiscountYen(promo, items)
+        : oldSubtotalYen > 0
+        ? Math.floor((d.amountYen * subtotalYen) / oldSubtotalYen)
+        : 0;
+      return { ...d, amountYen: Math.min(d.amountYen, amountYen) };
+    })
+    .filter((d) => d.amountYen > 0);
+};
+
+/**
+ * Total do pedido depois de cancelar `cancelQty` unidades por linha (chave =
+ * lineItemKey), mesma regra do cancelOrderItems: tira das últimas linhas, mantém
+ * o preço unitário congelado e recalcula os descontos.
+ */
+export const totalAfterCancel = (
+  order: {
+    items: OrderLineItem[];
+    discounts?: OrderDiscount[];
+    discountYen?: number;
+    deliveryFeeYen?: number;
+  },
+  cancelQty: Record<string, number>,
+  promotionsById: Map<string, Promotion>
+) => {
+  const left = { ...cancelQty };
+  const items = order.items.map((it) => ({ ...it }));
+  for (let i = items.length - 1; i >= 0; i--) {
+    const key = lineItemKey(items[i]);
+    const take = Math.min(left[key] || 0, items[i].qty);
+    if (take <= 0) continue;
+    left[key] -= take;
+    items[i].qty -= take;
+    items[i].lineTotalYen = items[i].unitPriceYen * items[i].qty;
+  }
+  const remaining = items.filter((it) => it.qty > 0);
+  const subtotal = sumLineTotals(remaining);
+
+  // pedido só com `discountYen` (sem a lista) vira um desconto sem promoção
+  const discountYen = order.discountYen ?? 0;
+  const oldDiscounts = order.discounts?.length
+    ? order.discounts
+    : discountYen > 0
+    ? [{ label: "Desconto", amountYen: discountYen }]
+    : [];
+  const discounts = discountsAfterCancel(
+    oldDiscounts,
+    promotionsById,
+    sumLineTotals(order.items),
+    remaining
+  );
+  const discount = Math.min(
+    subtotal,
+    discounts.reduce((sum, d) => sum + d.amountYen, 0)
+  );
+  return subtotal - discount + (order.deliveryFeeYen ?? 0);
+};
+
+/** Cancelamento parcial feito pelo painel (`cancelOrderItems` nas functions) */
+export interface OrderCancellation {
+  at: Date | null;
+  reason: string;
+  /** quanto o total do pedido diminuiu */
+  amountYen: number;
+  refundYen: number;
+  lines: Array<{ name: string; variantLabel: string | null; qty: number; restocked: number }>;
+}
+
+export const readOrderCancellations = (raw: unknown): OrderCancellation[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter((c: any) => c && Array.isArray(c.lines))
+        .map((c: any) => ({
+          at: c.at?.toDate ? c.at.toDate() : null,
+          reason: String(c.reason || ""),
+          amountYen: toNumber(c.amountYen),
+          refundYen: toNumber(c.refundYen),
+          lines: c.lines.map((l: any) => ({
+            name: String(l?.name || ""),
+            variantLabel: typeof l?.variantLabel === "string" ? l.variantLabel : null,
+            qty: toNumber(l?.qty),
+            restocked: toNumber(l?.restocked),
+          })),
+        }))
+    : [];
+
+export type OrderStatus =
+  | "awaiting_deposit"
+  | "pending"
+  | "confirmed"
+  | "preparing"
+  | "ready"
+  | "out_for_delivery"
+  | "delivered"
+  | "cancelled"
+  | "no_show";
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  awaiting_deposit: "Aguardando sinal",
+  pending: "Pendente",
+  confirmed: "Confirmado",
+  preparing: "Em preparo",
+  ready: "Pronto",
+  out_for_delivery: "Saiu para entrega",
+  delivered: "Entregue",
+  cancelled: "Cancelado",
+  no_show: "Não compareceu",
+};
+
+/** Mesma tabela de `updateOrderStatus` (functions) — manter as duas iguais */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  awaiting_deposit: ["pending", "confirmed", "cancelled"],
+  pending: ["confirmed", "awaiting_deposit", "cancelled"],
+  confirmed: ["preparing", "ready", "out_for_delivery", "delivered", "pending", "cancelled"],
+  preparing: ["ready", "out_for_delivery", "delivered", "confirmed", "cancelled"],
+  ready: ["out_for_delivery", "delivered", "preparing", "no_show", "cancelled"],
+  out_for_delivery: ["delivered", "ready", "no_show", "cancelled"],
+  delivered: ["out_for_delivery", "ready"],
+  no_show: ["ready", "out_for_delivery"],
+  cancelled: [],
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[];
+
+export const isOrderStatus = (v: any): v is OrderStatus =>
+  typeof v === "string" && v in ORDER_STATUS_LABELS;
+
+export const allowedNextStatuses = (current: OrderStatus) =>
+  ORDER_STATUS_TRANSITIONS[current] ?? [];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  allowedNextStatuses(from).includes(to);
+
+
+/** Status em que o cliente ainda pode alterar/cancelar pelo link do pedido */
+export const CUSTOMER_EDITABLE_STATUSES: OrderStatus[] = [
+  "awaiting_deposit",
+  "pending",
+  "confirmed",
+];
+
+/**
+ * Prazo para o cliente alterar o pedido: `cutoffHours` antes da meia-noite
+ * (Asia/Tokyo) do dia de entrega. Data em texto livre ("Sem preferência") usa o
+ * fechamento dos pedidos; sem ele, null (não dá mais para alterar).
+ * Mesma regra de `updateOrderByCustomer` (functions).
+ */
+export const customerEditDeadline = (
+  deliveryDate: string,
+  cutoffHours: number,
+  ordersCloseAt: Date | null
+) => {
+  const start = /^\d{4}-\d{2}-\d{2}$/.test(deliveryDate)
+    ? Date.parse(`${deliveryDate}T00:00:00+09:00`)
+    : NaN;
+  if (!Number.isFinite(start)) return ordersCloseAt;
+  return new Date(start - cutoffHours * 60 * 60 * 1000);
+};
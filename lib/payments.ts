@@ -0,0 +1,178 @@
+// lib/payments.ts
+// Pagamentos do pedido (events/{id}/orders/{orderId}/payments). O pedido guarda
+// só o resumo (paidYen, paid, paymentMethods), sempre gravado junto com o pagamento.
+import { auth, db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  type DocumentData,
+  type DocumentReference,
+  type Transaction,
+} from "firebase/firestore";
+
+export type PaymentMethod = "cash" | "paypay" | "card" | "other";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Dinheiro",
+  paypay: "PayPay",
+  card: "Cartão",
+  other: "Outro",
+};
+
+export const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+/** "payment" entra no caixa; "refund" devolve ao cliente */
+export type PaymentKind = "payment" | "refund";
+
+export interface OrderPayment {
+  id: string;
+  kind: PaymentKind;
+  method: PaymentMethod;
+  amountYen: number; // sempre positivo; o sinal vem de `kind`
+  /** dinheiro entregue pelo cliente (só em dinheiro); troco = tenderedYen − amountYen */
+  tenderedYen: number | null;
+  changeYen: number;
+  /** quem recebeu (vendedor ou entregador) */
+  receivedBy: string;
+  userId: string | null;
+  note: string;
+  createdAt: Date | null;
+}
+
+export const readPaymentMethod = (raw: unknown): PaymentMethod =>
+  PAYMENT_METHODS.includes(raw as PaymentMethod) ? (raw as PaymentMethod) : "other";
+
+export const readOrderPayment = (id: string, data: any): OrderPayment => ({
+  id,
+  kind: data?.kind === "refund" ? "refund" : "payment",
+  method: readPaymentMethod(data?.method),
+  amountYen: Math.max(0, Math.round(Number(data?.amountYen) || 0)),
+  tenderedYen: typeof data?.tenderedYen === "number" ? data.tenderedYen : null,
+  changeYen: Math.max(0, Number(data?.changeYen) || 0),
+  receivedBy: String(data?.receivedBy || ""),
+  userId: typeof data?.userId === "string" && data.userId ? data.userId : null,
+  note: String(data?.note || ""),
+  createdAt: data?.createdAt?.toDate ? data.createdAt.toDate() : null,
+});
+
+export const paymentsRef = (eventId: string, orderId: string) =>
+  collection(db, "events", eventId, "orders", orderId, "payments");
+
+/**
+ * Quanto o cliente já pagou (pagamentos − devoluções). Pedido marcado como pago
+ * antes dos pagamentos existirem conta como pago por inteiro.
+ */
+export const readPaidYen = (data: any): number => {
+  if (typeof data?.paidYen === "number") return data.paidYen;
+  return data?.paid ? Math.max(0, Number(data?.amountYen) || 0) : 0;
+};
+
+/** Saldo a receber (negativo = cliente pagou a mais; devolver) */
+export const orderBalanceYen = (amountYen: number, paidYen: number) => amountYen - paidYen;
+
+export const isFullyPaid = (amountYen: number, paidYen: number) =>
+  paidYen > 0 && paidYen >= amountYen;
+
+export interface PaymentInput {
+  kind: PaymentKind;
+  method: PaymentMethod;
+  amountYen: number;
+  tenderedYen?: number | null;
+  receivedBy?: string;
+  note?: string;
+}
+
+/**
+ * Valida e grava o pagamento numa transação já aberta (pedido `data` lido nela),
+ * atualizando o resumo do pedido. Pagamento não passa do saldo (o que sobra em
+ * dinheiro vira troco) e devolução não passa do que já foi pago. Pedido antigo sem
+ * `amountYen` congela `fallbackAmountYen` (total calculado pelo painel). Pedido já
+ * acertado com o entregador (lib/settlements.ts) não aceita pagamento. Status não
+ * muda aqui: `depositPaid` avisa que o pedido "Aguardando sinal" já pode ser
+ * confirmado pelo servidor (updateOrderStatus). Devolve o novo `paidYen`.
+ */
+export const writePaymentInTx = (
+  tx: Transaction,
+  orderRef: DocumentReference,
+  data: DocumentData,
+  input: PaymentInput,
+  fallbackAmountYen = 0
+) => {
+  const user = auth.currentUser;
+  if (data.settlementId) throw new Error("Pedido já acertado com o entregador.");
+
+  const frozen = typeof data.amountYen === "number";
+  const amountYen = Math.max(0, frozen ? data.amountYen : fallbackAmountYen);
+  const paidYen = readPaidYen({ ...data, amountYen });
+  const value = input.amountYen;
+  if (!Number.isInteger(value) || value <= 0) throw new Error("Valor inválido.");
+
+  let tenderedYen: number | null = null;
+  if (input.kind === "payment") {
+    if (value > orderBalanceYen(amountYen, paidYen)) {
+      throw new Error("Valor maior que o saldo do pedido (a sobra em dinheiro é troco).");
+    }
+    if (input.method === "cash" && input.tenderedYen != null) {
+      if (!Number.isInteger(input.tenderedYen) || input.tenderedYen < value) {
+        throw new Error("Valor entregue menor que o pagamento.");
+      }
+      tenderedYen = input.tenderedYen;
+    }
+  } else if (value > paidYen) {
+    throw new Error("Devolução maior que o valor já pago.");
+  }
+
+  const nextPaidYen = paidYen + (input.kind === "payment" ? value : -value);
+  const methods: PaymentMethod[] = Array.isArray(data.paymentMethods)
+    ? data.paymentMethods.map(readPaymentMethod)
+    : data.paymentMethod
+    ? [readPaymentMethod(data.paymentMethod)]
+    : [];
+  const fullyPaid = isFullyPaid(amountYen, nextPaidYen);
+  const depositPaid =
+    data.status === "awaiting_deposit" && nextPaidYen >= (Number(data.depositYen) || 0);
+
+  tx.set(doc(collection(orderRef, "payments")), {
+    kind: input.kind,
+    method: input.method,
+    amountYen: value,
+    tenderedYen,
+    changeYen: tenderedYen !== null ? tenderedYen - value : 0,
+    receivedBy: input.receivedBy?.trim() || user?.email || "",
+    userId: user?.uid ?? null,
+    note: input.note?.trim() ?? "",
+    createdAt: serverTimestamp(),
+  });
+  tx.update(orderRef, {
+    ...(frozen ? {} : { amountYen }),
+    paidYen: nextPaidYen,
+    ...(input.kind === "refund"
+      ? { refundedYen: (Number(data.refundedYen) || 0) + value }
+      : {
+          paymentMethod: input.method,
+          paymentMethods: methods.includes(input.method) ? methods : [...methods, input.method],
+        }),
+    paid: fullyPaid,
+    paidAt: fullyPaid ? (data.paid ? data.paidAt ?? serverTimestamp() : serverTimestamp()) : null,
+    updatedAt: serverTimestamp(),
+  });
+  return { paidYen: nextPaidYen, depositPaid };
+};
+
+/** Grava o pagamento numa transação própria (ver writePaymentInTx) */
+export const recordPayment = async (
+  eventId: string,
+  orderId: string,
+  input: PaymentInput,
+  fallbackAmountYen = 0
+) => {
+  const orderRef = doc(db, "events", eventId, "orders", orderId);
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(orderRef);
+    if (!snap.exists()) throw new Error("Pedido não encontrado.");
+    return writePaymentInTx(tx, orderRef, snap.data(), input, fallbackAmountYen);
+  });
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { applyPriceTiers, readPriceTiers } from "@/lib/pricing";
+
+const tiers = [
+  { minQty: 10, priceYen: 120 },
+  { minQty: 25, priceYen: 110 },
+];
+
+const line = (productId: string, qty: number, extra: Record<string, unknown> = {}) => ({
+  productId,
+  qty,
+  unitPriceYen: 150,
+  lineTotalYen: 150 * qty,
+  basePriceYen: 150,
+  priceTiers: tiers,
+  ...extra,
+});
+
+describe("readPriceTiers", () => {
+  it("ignora faixas inválidas e ordena por quantidade", () => {
+    expect(
+      readPriceTiers([
+        { minQty: 25, priceYen: 110 },
+        { minQty: 1, priceYen: 100 },
+        { minQty: "10", priceYen: "120" },
+        { minQty: 5 },
+        null,
+      ])
+    ).toEqual(tiers);
+  });
+
+  it("devolve lista vazia para valores que não são array", () => {
+    expect(readPriceTiers(undefined)).toEqual([]);
+    expect(readPriceTiers({ minQty: 10, priceYen: 120 })).toEqual([]);
+  });
+});
+
+describe("applyPriceTiers", () => {
+  it("mantém o preço normal abaixo da primeira faixa", () => {
+    const [l] = applyPriceTiers([line("coxinha", 9)]);
+    expect(l.unitPriceYen).toBe(150);
+    expect(l.lineTotalYen).toBe(1350);
+  });
+
+  it("usa a maior faixa alcançada", () => {
+    expect(applyPriceTiers([line("coxinha", 10)])[0].unitPriceYen).toBe(120);
+    expect(applyPriceTiers([line("coxinha", 30)])[0]).toMatchObject({
+      unitPriceYen: 110,
+      lineTotalYen: 3300,
+    });
+  });
+
+  it("soma as variantes do mesmo produto para escolher a faixa", () => {
+    const priced = applyPriceTiers([
+      line("coxinha", 6, { variantKey: "frango" }),
+      line("coxinha", 6, { variantKey: "carne" }),
+      line("kibe", 6),
+    ]);
+    expect(priced.map((l) => l.unitPriceYen)).toEqual([120, 120, 150]);
+  });
+
+  it("não mexe em linhas sem faixas ou sem preço base", () => {
+    const noTiers = { ...line("pastel", 30), priceTiers: [] };
+    const noBase = { ...line("pastel", 30), basePriceYen: undefined };
+    expect(applyPriceTiers([noTiers, noBase])).toEqual([noTiers, noBase]);
+  });
+});
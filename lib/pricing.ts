@@ -0,0 +1,68 @@
+// lib/pricing.ts
+// Preço por quantidade (atacado): mesma regra do createEventOrder (functions/src/index.ts).
+
+/** A partir de `minQty` unidades do produto no pedido, cada uma sai por `priceYen` */
+export interface PriceTier {
+  minQty: number;
+  priceYen: number;
+}
+
+/** Lê `priceTiers` do produto (ou do item do pedido), em ordem crescente de quantidade */
+export const readPriceTiers = (raw: unknown): PriceTier[] => {
+  if (!Array.isArray(raw)) return [];
+  const byQty = new Map<number, number>();
+  raw.forEach((t: any) => {
+    const minQty = Math.floor(Number(t?.minQty));
+    const priceYen = Math.round(Number(t?.priceYen));
+    if (Number.isFinite(minQty) && minQty >= 2 && Number.isFinite(priceYen) && priceYen >= 0) {
+      byQty.set(minQty, priceYen);
+    }
+  });
+  return Array.from(byQty, ([minQty, priceYen]) => ({ minQty, priceYen })).sort(
+    (a, b) => a.minQty - b.minQty
+  );
+};
+
+/** Faixa que vale para a quantidade (null = preço normal) */
+export const activePriceTier = (tiers: PriceTier[], qty: number) =>
+  tiers.reduce<PriceTier | null>((found, t) => (qty >= t.minQty ? t : found), null);
+
+export const tierUnitPrice = (basePriceYen: number, tiers: PriceTier[], qty: number) =>
+  activePriceTier(tiers, qty)?.priceYen ?? basePriceYen;
+
+/** Variante com diferença de preço: as faixas andam junto com o preço base */
+export const shiftPriceTiers = (tiers: PriceTier[], deltaYen: number) =>
+  tiers.map((t) => ({ ...t, priceYen: Math.max(0, t.priceYen + deltaYen) }));
+
+type TieredLine = {
+  productId?: string | null;
+  qty: number;
+  unitPriceYen: number;
+  lineTotalYen: number;
+  basePriceYen?: number;
+  priceTiers?: PriceTier[];
+};
+
+/**
+ * Recalcula o preço das linhas com faixas. A faixa é escolhida pela quantidade
+ * total do produto no pedido (variantes somadas).
+ */
+export const applyPriceTiers = <T extends TieredLine>(lines: T[]): T[] => {
+  const qtyByProduct = new Map<string, number>();
+  lines.forEach((l) => {
+    if (l.productId) qtyByProduct.set(l.productId, (qtyByProduct.get(l.productId) ?? 0) + l.qty);
+  });
+  return lines.map((l) => {
+    if (!l.productId || typeof l.basePriceYen !== "number" || !l.priceTiers?.length) return l;
+    const unitPriceYen = tierUnitPrice(
+      l.basePriceYen,
+      l.priceTiers,
+      qtyByProduct.get(l.productId) ?? l.qty
+    );
+    return { ...l, unitPriceYen, lineTotalYen: unitPriceYen * l.qty };
+  });
+};
+
+/** Texto para o cliente: "Leve 25+ e pague ¥110 cada" */
+export const describePriceTier = (tier: PriceTier) =>
+  `Leve ${tier.minQty}+ e pague ¥${tier.priceYen.toLocaleString("ja-JP")} cada`;
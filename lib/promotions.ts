@@ -0,0 +1,122 @@
+// lib/promotions.ts
+// Promoções (coleção "promotions"): mesma regra do createEventOrder (functions/src/index.ts).
+
+export type PromotionKind = "percent" | "fixed" | "buy_x_get_y";
+
+export interface Promotion {
+  id: string;
+  name: string;
+  /** código digitado pelo cliente (maiúsculo); null = automática */
+  code: string | null;
+  kind: PromotionKind;
+  percent: number; // percent: 1–100
+  amountYen: number; // fixed: desconto em ienes
+  buyQty: number; // buy_x_get_y: a cada buyQty + freeQty unidades...
+  freeQty: number; // ...freeQty saem de graça
+  /** só itens deste produto (obrigatório em buy_x_get_y); null = pedido todo */
+  productId: string | null;
+  /** só pedidos deste evento; null = todos os eventos */
+  eventId: string | null;
+  minSubtotalYen: number;
+  /** limite de pedidos com a promoção; null = sem limite */
+  maxUses: number | null;
+  usedCount: number;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  active: boolean;
+}
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = {
+  percent: "% de desconto",
+  fixed: "Desconto em ¥",
+  buy_x_get_y: "Leve X, ganhe Y",
+};
+
+/** Códigos são comparados sem espaços e em maiúsculas */
+export const normalizePromoCode = (value: unknown) =>
+  String(value ?? "")
+    .replace(/\s/g, "")
+    .toUpperCase()
+    .slice(0, 40);
+
+const toInt = (v: unknown) => {
+  const n = Math.floor(Number(v));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+const toDate = (v: any): Date | null =>
+  v?.toDate ? v.toDate() : v instanceof Date ? v : null;
+
+export const readPromotion = (id: string, data: any): Promotion => ({
+  id,
+  name: String(data?.name || ""),
+  code: data?.code ? normalizePromoCode(data.code) : null,
+  kind:
+    data?.kind === "fixed" || data?.kind === "buy_x_get_y" ? data.kind : "percent",
+  percent: Math.min(100, toInt(data?.percent)),
+  amountYen: toInt(data?.amountYen),
+  buyQty: toInt(data?.buyQty),
+  freeQty: toInt(data?.freeQty),
+  productId: typeof data?.productId === "string" && data.productId ? data.productId : null,
+  eventId: typeof data?.eventId === "string" && data.eventId ? data.eventId : null,
+  minSubtotalYen: toInt(data?.minSubtotalYen),
+  maxUses: typeof data?.maxUses === "number" && data.maxUses > 0 ? data.maxUses : null,
+  usedCount: toInt(data?.usedCount),
+  startsAt: toDate(data?.startsAt),
+  expiresAt: toDate(data?.expiresAt),
+  active: data?.active !== false,
+});
+
+/** Motivo pelo qual a promoção não vale agora neste evento (null = vale) */
+export const promotionUnavailableReason = (
+  promo: Promotion,
+  eventId: string,
+  nowMs: number
+): string | null => {
+  if (!promo.active) return "Promoção desativada.";
+  if (promo.eventId && promo.eventId !== eventId) return "Promoção não vale para este evento.";
+  if (promo.startsAt && nowMs < promo.startsAt.getTime()) return "Promoção ainda não começou.";
+  if (promo.expiresAt && nowMs >= promo.expiresAt.getTime()) return "Promoção expirada.";
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) return "Promoção esgotada.";
+  return null;
+};
+
+type PricedLine = { productId?: string | null; unitPriceYen: number; qty: number };
+
+/** Desconto da promoção para os itens (0 quando não atinge o mínimo/quantidade) */
+export const promotionDiscountYen = (promo: Promotion, lines: PricedLine[]) => {
+  const subtotal = lines.reduce((sum, l) => sum + l.unitPriceYen * l.qty, 0);
+  if (subtotal < promo.minSubtotalYen) return 0;
+
+  const scoped = promo.productId
+    ? lines.filter((l) => l.productId === promo.productId)
+    : lines;
+  const base = scoped.reduce((sum, l) => sum + l.unitPriceYen * l.qty, 0);
+
+  switch (promo.kind) {
+    case "percent":
+      return Math.floor((base * promo.percent) / 100);
+    case "fixed":
+      return Math.min(base, promo.amountYen);
+    case "buy_x_get_y": {
+      const group = promo.buyQty + promo.freeQty;
+      if (!promo.productId || promo.buyQty <= 0 || promo.freeQty <= 0) return 0;
+      const qty = scoped.reduce((sum, l) => sum + l.qty, 0);
+      // variantes têm preços diferentes: as unidades grátis valem pelo menor preço
+      const unit = scoped.length > 0 ? Math.min(...scoped.map((l) => l.unitPriceYen)) : 0;
+      return Math.floor(qty / group) * promo.freeQty * unit;
+    }
+  }
+};
+
+/** Texto curto para o cliente/painel ("10% off", "Leve 55, pague 50") */
+export const describePromotion = (promo: Promotion) => {
+  switch (promo.kind) {
+    case "percent":
+      return `${promo.percent}% off`;
+    case "fixed":
+      return `¥${promo.amountYen.toLocaleString("ja-JP")} off`;
+    case "buy_x_get_y":
+      return `Leve ${promo.buyQty + promo.freeQty}, pague ${promo.buyQty}`;
+  }
+};
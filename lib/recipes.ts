@@ -0,0 +1,115 @@
+// lib/recipes.ts
+// Receitas (ingredientes por unidade de produto), estoque de ingredientes e lista de compras.
+
+export type IngredientUnit = "g" | "ml" | "un";
+
+export const INGREDIENT_UNIT_LABELS: Record<IngredientUnit, string> = {
+  g: "gramas (g)",
+  ml: "mililitros (ml)",
+  un: "unidades",
+};
+
+/** Documento da coleção "ingredients" */
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  stockQty: number; // na unidade do ingrediente
+  /** tamanho da embalagem de compra (ex.: 1000 g); null = compra a granel */
+  packSize: number | null;
+  /** preço da embalagem (ou de 1 unidade, sem `packSize`); null = sem preço */
+  packPriceYen: number | null;
+}
+
+/** Linha da receita do produto: quanto do ingrediente vai em 1 unidade */
+export interface RecipeLine {
+  ingredientId: string;
+  qty: number;
+}
+
+export const readIngredient = (id: string, data: any): Ingredient => ({
+  id,
+  name: String(data?.name || ""),
+  unit: data?.unit === "ml" || data?.unit === "un" ? data.unit : "g",
+  stockQty: Math.max(0, Number(data?.stockQty) || 0),
+  packSize:
+    typeof data?.packSize === "number" && data.packSize > 0 ? data.packSize : null,
+  packPriceYen:
+    typeof data?.packPriceYen === "number" && data.packPriceYen >= 0 ? data.packPriceYen : null,
+});
+
+/** Custo de 1 unidade do ingrediente (1 g / 1 ml / 1 un); null sem preço */
+export const ingredientUnitCost = (ing: Ingredient) =>
+  ing.packPriceYen === null ? null : ing.packPriceYen / (ing.packSize ?? 1);
+
+/** Custo dos ingredientes de 1 unidade do produto; null se faltar preço de algum */
+export const recipeCostYen = (
+  recipe: RecipeLine[],
+  ingredientById: Map<string, Ingredient>
+) => {
+  if (recipe.length === 0) return null;
+  let total = 0;
+  for (const r of recipe) {
+    const ing = ingredientById.get(r.ingredientId);
+    const unitCost = ing ? ingredientUnitCost(ing) : null;
+    if (unitCost === null) return null;
+    total += unitCost * r.qty;
+  }
+  return total;
+};
+
+/** Lê `recipe` do produto ignorando linhas sem ingrediente ou quantidade */
+export const readRecipe = (raw: unknown): RecipeLine[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((r: any) => r && typeof r.ingredientId === "string" && r.ingredientId)
+    .map((r: any) => ({ ingredientId: r.ingredientId, qty: Number(r.qty) || 0 }))
+    .filter((r) => r.qty > 0);
+};
+
+/** Demanda por produto → quanto de cada ingrediente (chave = id do ingrediente) */
+export const ingredientNeeds = (
+  demand: Array<{ productId: string; qty: number }>,
+  recipeByProduct: Map<string, RecipeLine[]>
+) => {
+  const needs: Record<string, number> = {};
+  demand.forEach(({ productId, qty }) => {
+    recipeByProduct.get(productId)?.forEach((r) => {
+      needs[r.ingredientId] = (needs[r.ingredientId] ?? 0) + r.qty * qty;
+    });
+  });
+  return needs;
+};
+
+export interface ShoppingRow {
+  ingredient: Ingredient;
+  needed: number;
+  onHand: number;
+  toBuy: number;
+  /** embalagens a comprar (arredonda para cima); null sem `packSize` */
+  packs: number | null;
+}
+
+/** Necessidade menos o estoque; só entra quem falta comprar, em ordem alfabética */
+export const buildShoppingList = (
+  needs: Record<string, number>,
+  ingredients: Ingredient[]
+): ShoppingRow[] =>
+  ingredients
+    .filter((ing) => (needs[ing.id] ?? 0) > 0)
+    .map((ing) => {
+      const needed = needs[ing.id];
+      const toBuy = Math.max(0, needed - ing.stockQty);
+      return {
+        ingredient: ing,
+        needed,
+        onHand: ing.stockQty,
+        toBuy,
+        packs: ing.packSize && toBuy > 0 ? Math.ceil(toBuy / ing.packSize) : null,
+      };
+    })
+    .sort((a, b) => a.ingredient.name.localeCompare(b.ingredient.name, "pt-BR"));
+
+/** "1.250 g" / "3 un" (até 2 casas decimais) */
+export const formatIngredientQty = (qty: number, unit: IngredientUnit) =>
+  `${(Math.round(qty * 100) / 100).toLocaleString("ja-JP")} ${unit}`;
@@ -0,0 +1,183 @@
+// lib/settlements.ts
+// Acerto dos entregadores (driverSettlements): o que cada um recebeu nos pedidos
+// entregues e quanto precisa devolver em dinheiro. Pedido acertado guarda
+// `settlementId` e não aceita mais pagamento nem mudança de status.
+import { auth, db } from "@/lib/firebase";
+import { collection, doc, runTransaction, serverTimestamp } from "firebase/firestore";
+import {
+  orderBalanceYen,
+  PAYMENT_METHODS,
+  readPaidYen,
+  writePaymentInTx,
+  type OrderPayment,
+  type PaymentMethod,
+} from "@/lib/payments";
+
+/** Nome do entregador como chave ("  ana  souza" = "Ana Souza") */
+export const driverKey = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const emptyByMethod = () =>
+  Object.fromEntries(PAYMENT_METHODS.map((m) => [m, 0])) as Record<PaymentMethod, number>;
+
+/** Pedido entregue e o que o entregador recebeu nele */
+export interface DriverOrderCollection {
+  eventId: string;
+  orderId: string;
+  eventTitle: string;
+  customerName: string;
+  deliveryDate: string;
+  amountYen: number;
+  /** pagamentos registrados em nome do entregador, por forma (devolução subtrai) */
+  byMethod: Record<PaymentMethod, number>;
+  /** saldo ainda aberto: o entregador cobrou em dinheiro na entrega */
+  openBalanceYen: number;
+}
+
+/** Soma os pagamentos do pedido com `receivedBy` = entregador */
+export const collectedByDriver = (payments: OrderPayment[], driverName: string) => {
+  const byMethod = emptyByMethod();
+  const key = driverKey(driverName);
+  payments.forEach((p) => {
+    if (driverKey(p.receivedBy) !== key) return;
+    byMethod[p.method] += p.kind === "refund" ? -p.amountYen : p.amountYen;
+  });
+  return byMethod;
+};
+
+export const sumByMethod = (rows: Array<{ byMethod: Record<PaymentMethod, number> }>) => {
+  const total = emptyByMethod();
+  rows.forEach((row) => PAYMENT_METHODS.forEach((m) => (total[m] += row.byMethod[m])));
+  return total;
+};
+
+/** Dinheiro que o entregador deve trazer: pagamentos em dinheiro com ele + saldos abertos */
+export const expectedCashYen = (rows: DriverOrderCollection[]) =>
+  rows.reduce((sum, row) => sum + row.byMethod.cash + row.openBalanceYen, 0);
+
+export interface DriverSettlement {
+  id: string;
+  driverName: string;
+  orders: DriverOrderCollection[];
+  /** total recebido por forma (saldos abertos já entram como dinheiro) */
+  byMethod: Record<PaymentMethod, number>;
+  expectedCashYen: number;
+  declaredCashYen: number;
+  /** declarado − esperado (negativo = faltou dinheiro) */
+  differenceYen: number;
+  note: string;
+  userEmail: string | null;
+  createdAt: Date | null;
+}
+
+const readByMethod = (raw: any) => {
+  const byMethod = emptyByMethod();
+  PAYMENT_METHODS.forEach((m) => (byMethod[m] = Number(raw?.[m]) || 0));
+  return byMethod;
+};
+
+export const readDriverSettlement = (id: string, data: any): DriverSettlement => ({
+  id,
+  driverName: String(data?.driverName || ""),
+  orders: Array.isArray(data?.orders)
+    ? data.orders.map((o: any) => ({
+        eventId: String(o?.eventId || ""),
+        orderId: String(o?.orderId || ""),
+        eventTitle: String(o?.eventTitle || ""),
+        customerName: String(o?.customerName || ""),
+        deliveryDate: String(o?.deliveryDate || ""),
+        amountYen: Number(o?.amountYen) || 0,
+        byMethod: readByMethod(o?.byMethod),
+        openBalanceYen: Number(o?.openBalanceYen) || 0,
+      }))
+    : [],
+  byMethod: readByMethod(data?.byMethod),
+  expectedCashYen: Number(data?.expectedCashYen) || 0,
+  declaredCashYen: Number(data?.declaredCashYen) || 0,
+  differenceYen: Number(data?.differenceYen) || 0,
+  note: String(data?.note || ""),
+  userEmail: typeof data?.userEmail === "string" && data.userEmail ? data.userEmail : null,
+  createdAt: data?.createdAt?.toDate ? data.createdAt.toDate() : null,
+});
+
+export const settlementsRef = () => collection(db, "driverSettlements");
+
+/**
+ * Fecha o acerto do entregador numa transação só: relê os pedidos (recusa se algum
+ * já foi acertado ou teve o saldo alterado desde a tela), registra os saldos abertos
+ * como pagamento em dinheiro recebido por ele, grava o acerto e trava os pedidos
+ * (`settlementId`). Devolve o id do acerto.
+ */
+export const settleDriver = async (
+  driverName: string,
+  rows: DriverOrderCollection[],
+  declaredCashYen: number,
+  note: string
+) => {
+  if (rows.length === 0) throw new Error("Nenhum pedido para acertar.");
+  if (!Number.isInteger(declaredCashYen) || declaredCashYen < 0) {
+    throw new Error("Valor declarado inválido.");
+  }
+
+  const byMethod = sumByMethod(rows);
+  byMethod.cash += rows.reduce((sum, row) => sum + row.openBalanceYen, 0);
+  const expected = expectedCashYen(rows);
+  const user = auth.currentUser;
+  const ref = doc(settlementsRef());
+
+  await runTransaction(db, async (tx) => {
+    const orderRefs = rows.map((row) => doc(db, "events", row.eventId, "orders", row.orderId));
+    const snaps = await Promise.all(orderRefs.map((orderRef) => tx.get(orderRef)));
+
+    snaps.forEach((snap, i) => {
+      const row = rows[i];
+      if (!snap.exists()) throw new Error(`Pedido de ${row.customerName} não encontrado.`);
+      const data = snap.data();
+      if (data.settlementId) {
+        throw new Error(`Pedido de ${row.customerName} já foi acertado.`);
+      }
+      const amountYen = typeof data.amountYen === "number" ? data.amountYen : row.amountYen;
+      const open = Math.max(orderBalanceYen(amountYen, readPaidYen({ ...data, amountYen })), 0);
+      if (open !== row.openBalanceYen) {
+        throw new Error(`O saldo do pedido de ${row.customerName} mudou. Recarregue a página.`);
+      }
+    });
+
+    snaps.forEach((snap, i) => {
+      const row = rows[i];
+      if (row.openBalanceYen > 0) {
+        writePaymentInTx(
+          tx,
+          orderRefs[i],
+          snap.data()!,
+          {
+            kind: "payment",
+            method: "cash",
+            amountYen: row.openBalanceYen,
+            receivedBy: driverName,
+            note: "Acerto do entregador",
+          },
+          row.amountYen
+        );
+      }
+      tx.update(orderRefs[i], {
+        settlementId: ref.id,
+        settledAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    tx.set(ref, {
+      driverName: driverName.trim(),
+      orders: rows,
+      byMethod,
+      expectedCashYen: expected,
+      declaredCashYen,
+      differenceYen: declaredCashYen - expected,
+      note: note.trim(),
+      userId: user?.uid ?? null,
+      userEmail: user?.email ?? null,
+      createdAt: serverTimestamp(),
+    });
+  });
+  return ref.id;
+};
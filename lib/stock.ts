@@ -0,0 +1,163 @@
+// lib/stock.ts
+// Movimentos de estoque (products/{id}/stockMovements): mesmos tipos gravados pelo createEventOrder.
+import { auth, db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+} from "firebase/firestore";
+import {
+  moveLots,
+  makeLotId,
+  readStockLots,
+  type LotTake,
+  type StockLot,
+} from "@/lib/lots";
+
+export type StockMovementType =
+  | "sale"
+  | "cancel_restock"
+  | "adjustment"
+  | "production"
+  | "waste";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: "Venda",
+  cancel_restock: "Devolução (cancelamento)",
+  adjustment: "Ajuste / recontagem",
+  production: "Produção",
+  waste: "Perda",
+};
+
+export interface StockMovement {
+  id: string;
+  type: StockMovementType;
+  qty: number; // negativo = saiu do estoque
+  balanceAfter: number;
+  variantKey: string | null; // null = estoque do produto (stockQty)
+  eventId: string | null;
+  orderId: string | null;
+  userId: string | null; // null = cliente (pedido pela página do evento)
+  userEmail: string | null;
+  note: string;
+  lots: LotTake[]; // lotes que mudaram (congelados)
+  createdAt: Date | null;
+}
+
+const MOVEMENT_TYPES = Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[];
+
+export const readStockMovement = (id: string, data: any): StockMovement => ({
+  id,
+  type: MOVEMENT_TYPES.includes(data?.type) ? data.type : "adjustment",
+  qty: Number(data?.qty) || 0,
+  balanceAfter: Number(data?.balanceAfter) || 0,
+  variantKey: typeof data?.variantKey === "string" && data.variantKey ? data.variantKey : null,
+  eventId: typeof data?.eventId === "string" && data.eventId ? data.eventId : null,
+  orderId: typeof data?.orderId === "string" && data.orderId ? data.orderId : null,
+  userId: typeof data?.userId === "string" && data.userId ? data.userId : null,
+  userEmail: typeof data?.userEmail === "string" && data.userEmail ? data.userEmail : null,
+  note: String(data?.note || ""),
+  lots: Array.isArray(data?.lots)
+    ? data.lots
+        .filter((l: any) => l && typeof l.lotId === "string")
+        .map((l: any) => ({ lotId: l.lotId, qty: Number(l.qty) || 0 }))
+    : [],
+  createdAt: data?.createdAt?.toDate ? data.createdAt.toDate() : null,
+});
+
+export const stockMovementsRef = (productId: string) =>
+  collection(db, "products", productId, "stockMovements");
+
+/**
+ * Mudança feita pelo painel: soma/subtrai (`delta`) ou recontagem (`countedQty`).
+ * No estoque do produto, entrada com `lot` vira lote novo; saída tira do lote
+ * `lotId` (se informado) e depois dos mais antigos.
+ */
+export type StockChange = {
+  type: Exclude<StockMovementType, "sale" | "cancel_restock">;
+  variantKey?: string | null;
+  note?: string;
+  lot?: Pick<StockLot, "madeOn" | "bestBefore">;
+  lotId?: string;
+} & ({ delta: number } | { countedQty: number });
+
+/** Lotes depois da mudança de `diff` unidades no estoque do produto */
+const planLots = (lots: StockLot[], diff: number, change: StockChange) => {
+  if (diff > 0) {
+    if (!change.lot) return { lots, taken: [] as LotTake[] };
+    const lot = { id: makeLotId(change.lot.madeOn), ...change.lot, qty: diff };
+    return { lots: readStockLots([...lots, lot]), taken: [{ lotId: lot.id, qty: -diff }] };
+  }
+  // lote escolhido primeiro (ex.: descarte de lote vencido), o resto por FIFO
+  const chosen = lots.find((l) => l.id === change.lotId);
+  const fromChosen = chosen ? Math.min(chosen.qty, -diff) : 0;
+  const rest = moveLots(
+    lots.map((l) => (l === chosen ? { ...l, qty: l.qty - fromChosen } : l)).filter((l) => l.qty > 0),
+    -diff - fromChosen
+  );
+  return {
+    lots: rest.lots,
+    taken: chosen && fromChosen > 0 ? [{ lotId: chosen.id, qty: fromChosen }, ...rest.taken] : rest.taken,
+  };
+};
+
+/**
+ * Aplica as mudanças numa transação: grava o saldo novo do produto/variante e um
+ * movimento por mudança. Recontagem igual ao saldo atual não gera movimento.
+ * Devolve os saldos novos (chave = "stockQty" ou variantKey).
+ */
+export const changeStock = async (productId: string, changes: StockChange[]) => {
+  const productRef = doc(db, "products", productId);
+  const user = auth.currentUser;
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(productRef);
+    if (!snap.exists()) throw new Error("Produto não encontrado.");
+    const data = snap.data();
+    const variantStocks =
+      data.variantStocks && typeof data.variantStocks === "object" ? data.variantStocks : {};
+
+    const balances: Record<string, number> = {};
+    const updates: Record<string, unknown> = {};
+    let lots = readStockLots(data.lots);
+    for (const change of changes) {
+      const key = change.variantKey || "stockQty";
+      const raw = key in balances ? balances[key] : change.variantKey ? variantStocks[key] : data.stockQty;
+      const current = typeof raw === "number" ? raw : 0;
+      const next = "countedQty" in change ? change.countedQty : current + change.delta;
+      if (!Number.isInteger(next) || next < 0) {
+        throw new Error("O estoque não pode ficar negativo.");
+      }
+      if (typeof raw === "number" && next === current) continue;
+
+      balances[key] = next;
+      updates[change.variantKey ? `variantStocks.${key}` : "stockQty"] = next;
+      let taken: LotTake[] = [];
+      if (!change.variantKey) {
+        const planned = planLots(lots, next - current, change);
+        lots = planned.lots;
+        taken = planned.taken;
+        if (taken.length > 0) updates.lots = lots;
+      }
+      tx.set(doc(stockMovementsRef(productId)), {
+        type: change.type,
+        qty: next - current,
+        balanceAfter: next,
+        variantKey: change.variantKey || null,
+        eventId: null,
+        orderId: null,
+        userId: user?.uid ?? null,
+        userEmail: user?.email ?? null,
+        note: change.note?.trim() ?? "",
+        ...(taken.length > 0 ? { lots: taken } : {}),
+        createdAt: serverTimestamp(),
+      });
+    }
+
+    if (Object.keys(updates).length > 0) {
+      tx.update(productRef, { ...updates, updatedAt: serverTimestamp() });
+    }
+    return balances;
+  });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { computeTaxBreakdown } from "@/lib/tax";
+
+describe("computeTaxBreakdown", () => {
+  it("item sem taxRate conta como 8% e o imposto arredonda para baixo", () => {
+    expect(computeTaxBreakdown([{ lineTotalYen: 1000 }], 0, 0)).toEqual([
+      { rate: 8, totalYen: 1000, taxYen: 74 },
+    ]);
+  });
+
+  it("rateia o desconto pelas alíquotas", () => {
+    expect(
+      computeTaxBreakdown(
+        [
+          { lineTotalYen: 1000, taxRate: 8 },
+          { lineTotalYen: 500, taxRate: 10 },
+        ],
+        150,
+        0
+      )
+    ).toEqual([
+      { rate: 8, totalYen: 900, taxYen: 66 },
+      { rate: 10, totalYen: 450, taxYen: 40 },
+    ]);
+  });
+
+  it("a sobra do arredondamento do desconto fica nos 10%", () => {
+    const lines = computeTaxBreakdown(
+      [
+        { lineTotalYen: 100, taxRate: 8 },
+        { lineTotalYen: 100, taxRate: 10 },
+      ],
+      3,
+      0
+    );
+    expect(lines.map((l) => l.totalYen)).toEqual([99, 98]);
+  });
+
+  it("soma a entrega em 10%", () => {
+    expect(computeTaxBreakdown([{ lineTotalYen: 1000, taxRate: 8 }], 0, 300)).toEqual([
+      { rate: 8, totalYen: 1000, taxYen: 74 },
+      { rate: 10, totalYen: 300, taxYen: 27 },
+    ]);
+  });
+
+  it("desconto maior que os itens não tira da entrega", () => {
+    expect(computeTaxBreakdown([{ lineTotalYen: 500, taxRate: 8 }], 800, 200)).toEqual([
+      { rate: 10, totalYen: 200, taxYen: 18 },
+    ]);
+  });
+});
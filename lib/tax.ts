@@ -0,0 +1,75 @@
+// lib/tax.ts
+// Consumo (消費税): mesma regra do createEventOrder (functions/src/index.ts).
+// Preços já incluem o imposto; o pedido guarda o total e o imposto por alíquota.
+
+/** 8% = taxa reduzida (comida para levar); 10% = taxa padrão */
+export type TaxRate = 8 | 10;
+
+export const TAX_RATE_LABELS: Record<TaxRate, string> = {
+  8: "8% (reduzida – comida)",
+  10: "10% (padrão)",
+};
+
+/** Taxa de entrega é serviço: sempre 10% */
+export const DELIVERY_FEE_TAX_RATE: TaxRate = 10;
+
+/** Produto sem `taxRate` é comida (8%) */
+export const readTaxRate = (raw: unknown): TaxRate => (raw === 10 ? 10 : 8);
+
+/** Total com imposto e imposto contido, por alíquota (uma linha por taxa) */
+export interface TaxBreakdownLine {
+  rate: TaxRate;
+  totalYen: number;
+  taxYen: number;
+}
+
+/** Imposto contido no total (arredonda para baixo, uma vez por alíquota) */
+export const taxIncluded = (totalYen: number, rate: TaxRate) =>
+  Math.floor((totalYen * rate) / (100 + rate));
+
+/**
+ * Soma os itens por alíquota, tira o desconto do pedido proporcionalmente
+ * (a sobra do arredondamento fica nos 10%) e soma a entrega em 10%.
+ */
+export const computeTaxBreakdown = (
+  items: Array<{ lineTotalYen: number; taxRate?: TaxRate }>,
+  discountYen: number,
+  deliveryFeeYen: number
+): TaxBreakdownLine[] => {
+  const totals: Record<TaxRate, number> = { 8: 0, 10: 0 };
+  items.forEach((it) => {
+    totals[readTaxRate(it.taxRate)] += it.lineTotalYen;
+  });
+  const subtotal = totals[8] + totals[10];
+  const discount = Math.min(Math.max(discountYen, 0), subtotal);
+  if (discount > 0) {
+    const discount8 = Math.floor((discount * totals[8]) / subtotal);
+    totals[8] -= discount8;
+    totals[10] -= discount - discount8;
+  }
+  totals[DELIVERY_FEE_TAX_RATE] += Math.max(deliveryFeeYen, 0);
+
+  return ([8, 10] as TaxRate[])
+    .filter((rate) => totals[rate] > 0)
+    .map((rate) => ({ rate, totalYen: totals[rate], taxYen: taxIncluded(totals[rate], rate) }));
+};
+
+/** Lê `taxBreakdown` do pedido */
+export const readTaxBreakdown = (raw: unknown): TaxBreakdownLine[] | null => {
+  if (!Array.isArray(raw)) return null;
+  return raw
+    .filter((l: any) => l && (l.rate === 8 || l.rate === 10))
+    .map((l: any) => ({
+      rate: l.rate as TaxRate,
+      totalYen: Number(l.totalYen) || 0,
+      taxYen: Number(l.taxYen) || 0,
+    }));
+};
+
+/** Número de registro de emissor qualificado (適格請求書発行事業者): "T" + 13 dígitos */
+export const INVOICE_NUMBER_RE = /^T\d{13}$/;
+
+export const normalizeInvoiceNumber = (value: string) => {
+  const digits = value.replace(/\D/g, "");
+  return digits ? `T${digits}` : "";
+};
@@ -0,0 +1,85 @@
+// lib/variants.ts
+// Opções de produto (tamanho, frito/congelado, sabor): mesma regra do createEventOrder.
+
+export interface ProductOption {
+  id: string; // slug (a-z, 0-9, -)
+  label: string;
+  priceDeltaYen: number; // soma ao preço do produto (pode ser negativo)
+  costDeltaYen: number; // soma ao custo unitário do produto (ex.: pacote maior)
+}
+
+/** Grupo de opções: o cliente escolhe exatamente uma opção de cada grupo */
+export interface ProductOptionGroup {
+  id: string;
+  name: string;
+  options: ProductOption[];
+}
+
+/** Variante = uma opção por grupo, na ordem dos grupos ("frito__25") */
+export const VARIANT_KEY_SEP = "__";
+
+export const slugifyOptionId = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 30);
+
+/** Lê `optionGroups` do produto ignorando grupos sem opção */
+export const readOptionGroups = (raw: unknown): ProductOptionGroup[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((g: any) => g && typeof g.id === "string" && Array.isArray(g.options))
+    .map((g: any) => ({
+      id: g.id,
+      name: String(g.name || ""),
+      options: g.options
+        .filter((o: any) => o && typeof o.id === "string")
+        .map((o: any) => ({
+          id: o.id,
+          label: String(o.label || o.id),
+          priceDeltaYen: Math.round(Number(o.priceDeltaYen) || 0),
+          costDeltaYen: Number(o.costDeltaYen) || 0,
+        })),
+    }))
+    .filter((g) => g.options.length > 0);
+};
+
+/** Seleção (grupo → opção) → chave da variante; null se faltar algum grupo */
+export const variantKeyOf = (
+  groups: ProductOptionGroup[],
+  selection: Record<string, string>
+) => {
+  const parts = groups.map((g) =>
+    g.options.some((o) => o.id === selection[g.id]) ? selection[g.id] : null
+  );
+  return parts.every(Boolean) ? parts.join(VARIANT_KEY_SEP) : null;
+};
+
+/** Opções escolhidas na variante (null se a chave não bate com os grupos) */
+export const variantOptions = (groups: ProductOptionGroup[], key: string) => {
+  const parts = key.split(VARIANT_KEY_SEP);
+  if (parts.length !== groups.length) return null;
+  const options = groups.map((g, i) => g.options.find((o) => o.id === parts[i]));
+  return options.every(Boolean) ? (options as ProductOption[]) : null;
+};
+
+export const variantLabel = (groups: ProductOptionGroup[], key: string) =>
+  variantOptions(groups, key)
+    ?.map((o) => o.label)
+    .join(" / ") ?? key;
+
+export const variantPriceDelta = (groups: ProductOptionGroup[], key: string) =>
+  variantOptions(groups, key)?.reduce((sum, o) => sum + o.priceDeltaYen, 0) ?? 0;
+
+/** Todas as combinações (para o formulário de estoque por variante) */
+export const listVariantKeys = (groups: ProductOptionGroup[]): string[] =>
+  groups.reduce<string[]>(
+    (keys, g) =>
+      keys.flatMap((k) =>
+        g.options.map((o) => (k ? `${k}${VARIANT_KEY_SEP}${o.id}` : o.id))
+      ),
+    [""]
+  ).filter(Boolean);
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": import.meta.dirname },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+  },
+});